@@ -1,6 +1,11 @@
 const express = require('express');
 const cors = require('cors');
-const { Pool } = require('pg');
+const { Pool, types } = require('pg');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { Readable } = require('stream');
+const pdfParse = require('pdf-parse');
 
 const app = express();
 const port = process.env.PORT || 3001;
@@ -147,6 +152,18 @@ async function sendEmailViaSMTP(to, subject, html, threadOptions = {}) {
 
 console.log('✅ Email service initialized');
 
+// Days an equipment line is charged for - lines needed on only some days of a
+// multi-day shoot carry those days as scheduledDays
+const equipmentDayCount = (eq) => (Array.isArray(eq.scheduledDays) && eq.scheduledDays.length) || eq.days || 1;
+
+// "2 days (Oct 13, Oct 14)" for scheduled lines, otherwise "3 days"
+const formatEquipmentDays = (eq) => {
+  const count = equipmentDayCount(eq);
+  const label = `${count} ${count === 1 ? 'day' : 'days'}`;
+  if (!Array.isArray(eq.scheduledDays) || eq.scheduledDays.length === 0) return label;
+  return `${label} (${eq.scheduledDays.map(day => shootDateLabel(day)).join(', ')})`;
+};
+
 // Helper function to format equipment list with owner and price
 const formatEquipmentList = (equipment) => {
   if (!equipment || equipment.length === 0) return '<p style="color: #666;">No equipment listed</p>';
@@ -157,6 +174,7 @@ const formatEquipmentList = (equipment) => {
         <tr style="background: #f8f9fa;">
           <th style="padding: 10px; text-align: left; border-bottom: 2px solid #dee2e6; color: #333;">Item</th>
           <th style="padding: 10px; text-align: center; border-bottom: 2px solid #dee2e6; color: #333;">Qty</th>
+          <th style="padding: 10px; text-align: left; border-bottom: 2px solid #dee2e6; color: #333;">Days</th>
           <th style="padding: 10px; text-align: right; border-bottom: 2px solid #dee2e6; color: #333;">Rate/Day</th>
         </tr>
       </thead>
@@ -165,6 +183,7 @@ const formatEquipmentList = (equipment) => {
           <tr>
             <td style="padding: 10px; border-bottom: 1px solid #eee; color: #333;">${eq.name || eq.itemName || '-'}</td>
             <td style="padding: 10px; text-align: center; border-bottom: 1px solid #eee; color: #666;">${eq.quantity || eq.qty || 1}</td>
+            <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666;">${formatEquipmentDays(eq)}</td>
             <td style="padding: 10px; text-align: right; border-bottom: 1px solid #eee; color: #333;">₹${(eq.dailyRate || eq.rate || eq.expectedRate || 0).toLocaleString()}</td>
           </tr>
         `).join('')}
@@ -179,7 +198,7 @@ const calculateBudget = (equipment) => {
   return equipment.reduce((total, eq) => {
     const qty = eq.quantity || eq.qty || 1;
     const rate = eq.dailyRate || eq.rate || eq.expectedRate || 0;
-    return total + (qty * rate);
+    return total + (qty * rate * equipmentDayCount(eq));
   }, 0);
 };
 
@@ -219,7 +238,7 @@ const emailTemplates = {
             
             <div style="background: #fff3cd; padding: 15px 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #ffc107;">
               <h4 style="color: #856404; margin: 0 0 10px 0; font-size: 14px;">📋 NEXT STEP</h4>
-              <p style="color: #856404; margin: 0;">Please review the list and forward it to Gopala Media for a final quote.</p>
+              <p style="color: #856404; margin: 0;">Please review the list and forward it to ${shoot.vendorName || 'the vendor'} for a final quote.</p>
             </div>
             
             <div style="text-align: center; margin: 30px 0;">
@@ -291,7 +310,7 @@ const emailTemplates = {
             
             <div style="background: #fff3cd; padding: 15px 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #ffc107;">
               <h4 style="color: #856404; margin: 0 0 10px 0; font-size: 14px;">📋 NEXT STEP</h4>
-              <p style="color: #856404; margin: 0;">Please review the list and forward it to Gopala Media for a final quote.</p>
+              <p style="color: #856404; margin: 0;">Please review the list and forward it to ${shoot.vendorName || 'the vendor'} for a final quote.</p>
             </div>
             
             <div style="text-align: center; margin: 30px 0;">
@@ -316,7 +335,7 @@ const emailTemplates = {
     };
   },
 
-  // 2. Vendor submits quote - notify approver (Gopala Media quote)
+  // 2. Vendor submits quote - notify approver
   quoteSubmitted: (shoot) => {
     const recipientName = shoot.recipientName || 'Team';
     const equipment = shoot.equipment || [];
@@ -332,7 +351,7 @@ const emailTemplates = {
         const qty = eq.quantity || eq.qty || 1;
         const total = price * qty;
         return `<div style="display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #eee;">
-          <span style="color: #333;">${eq.name || eq.itemName || '-'}</span>
+          <span style="color: #333;">${eq.name || eq.itemName || '-'} <span style="color: #888; font-size: 12px;">· ${formatEquipmentDays(eq)}</span></span>
           <span style="color: #333; font-weight: 600;">₹${total.toLocaleString()}</span>
         </div>`;
       }).join('');
@@ -344,7 +363,7 @@ const emailTemplates = {
         <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 650px; margin: 0 auto; background: #ffffff; border: 1px solid #e0e0e0; border-radius: 8px;">
           <div style="padding: 30px;">
             <p style="color: #333; font-size: 16px; margin-top: 0;">Hi ${recipientName},</p>
-            <p style="color: #666; line-height: 1.6;">Gopala Media has submitted the final quote for the shoot.</p>
+            <p style="color: #666; line-height: 1.6;">${shoot.vendorName || 'The vendor'} has submitted the final quote for the shoot.</p>
             
             <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #28a745;">
               <h3 style="color: #333; margin-top: 0; font-size: 14px; text-transform: uppercase; letter-spacing: 1px;">💰 QUOTE SUMMARY</h3>
@@ -396,7 +415,7 @@ const emailTemplates = {
     const recipientName = shoot.recipientName || 'Team';
     const approvedAmount = shoot.approvedAmount || shoot.vendorQuote?.amount || 0;
     const approvedBy = shoot.approvedBy || 'Swati';
-    const vendorName = shoot.vendorName || 'Gopala Media';
+    const vendorName = shoot.vendorName || 'the vendor';
     const appUrl = process.env.APP_URL || 'https://pre-production-poc.up.railway.app';
     
     return {
@@ -487,10 +506,11 @@ const emailTemplates = {
     `
   }),
 
-  // 5. Invoice reminder - 7 days after shoot completed
+  // 5. Invoice reminder - 7 days after shoot completed (14 for the escalation)
   invoiceReminder: (shoot) => {
     const recipientName = shoot.recipientName || 'Team';
-    const vendorName = shoot.vendorName || 'Gopala Media';
+    const vendorName = shoot.vendorName || 'the vendor';
+    const daysSince = shoot.daysSince || 7;
     const appUrl = process.env.APP_URL || 'https://pre-production-poc.up.railway.app';
     
     return {
@@ -499,7 +519,7 @@ const emailTemplates = {
         <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 650px; margin: 0 auto; background: #ffffff; border: 1px solid #e0e0e0; border-radius: 8px;">
           <div style="padding: 30px;">
             <p style="color: #333; font-size: 16px; margin-top: 0;">Hi ${recipientName},</p>
-            <p style="color: #666; line-height: 1.6;">The shoot <strong>${shoot.name}</strong> was completed <strong>7 days ago</strong>.</p>
+            <p style="color: #666; line-height: 1.6;">The shoot <strong>${shoot.name}</strong> was completed <strong>${daysSince} days ago</strong>.</p>
             
             <div style="background: #fff3cd; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #ffc107;">
               <h3 style="color: #856404; margin-top: 0; font-size: 14px;">⚠️ ACTION REQUIRED</h3>
@@ -633,7 +653,52 @@ const emailTemplates = {
         </div>
       </div>
     `
-  })
+  }),
+
+  // 7. Overdue quote, approval or payment - sent by the reminder scheduler
+  workflowReminder: (shoot) => {
+    const recipientName = shoot.recipientName || 'Team';
+    const reminder = shoot.reminder || {};
+    const appUrl = process.env.APP_URL || 'https://pre-production-poc.up.railway.app';
+    const color = reminder.isEscalation ? '#dc3545' : '#ffc107';
+
+    return {
+      subject: `${reminder.isEscalation ? '🚨 Escalation' : '⏰ Reminder'}: ${reminder.title || 'Action required'} - ${shoot.name}`,
+      html: `
+        <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 650px; margin: 0 auto; background: #ffffff; border: 1px solid #e0e0e0; border-radius: 8px;">
+          <div style="padding: 30px;">
+            <p style="color: #333; font-size: 16px; margin-top: 0;">Hi ${recipientName},</p>
+            <p style="color: #666; line-height: 1.6;">${reminder.message || `The shoot <strong>${shoot.name}</strong> is waiting on an action.`}</p>
+
+            <div style="background: ${reminder.isEscalation ? '#f8d7da' : '#fff3cd'}; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid ${color};">
+              <h3 style="color: ${reminder.isEscalation ? '#721c24' : '#856404'}; margin-top: 0; font-size: 14px; text-transform: uppercase; letter-spacing: 1px;">${reminder.isEscalation ? '🚨 ESCALATED' : '⚠️ ACTION REQUIRED'}</h3>
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr><td style="padding: 8px 0; color: #666; width: 140px;">Shoot:</td><td style="padding: 8px 0; color: #333; font-weight: 600;">${shoot.name}</td></tr>
+                <tr><td style="padding: 8px 0; color: #666;">Dates:</td><td style="padding: 8px 0; color: #333;">${shoot.date || 'TBD'}</td></tr>
+                ${shoot.vendorName ? `<tr><td style="padding: 8px 0; color: #666;">Vendor:</td><td style="padding: 8px 0; color: #333;">${shoot.vendorName}</td></tr>` : ''}
+                ${reminder.amount ? `<tr><td style="padding: 8px 0; color: #666;">Amount:</td><td style="padding: 8px 0; color: #333; font-weight: 600;">₹${Number(reminder.amount).toLocaleString('en-IN')}</td></tr>` : ''}
+                <tr><td style="padding: 8px 0; color: #666;">Waiting:</td><td style="padding: 8px 0; color: #333;">${reminder.waiting || '-'}</td></tr>
+              </table>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${appUrl}"
+                 style="background: ${color}; color: ${reminder.isEscalation ? 'white' : '#212529'}; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">
+                👉 ${reminder.actionLabel || 'Open ShootFlow'}
+              </a>
+            </div>
+
+            <p style="color: #666; line-height: 1.6; margin-top: 30px;">Best regards,<br><strong>Pre-Production Team</strong></p>
+
+            <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+            <p style="color: #999; font-size: 12px; margin: 0;">
+              This is an automated message from ShootFlow. Please do not reply directly to this email.
+            </p>
+          </div>
+        </div>
+      `
+    };
+  }
 };
 
 // Send email function with threading support
@@ -693,6 +758,10 @@ const pool = new Pool({
   max: 20 // maximum number of clients in the pool
 });
 
+// DATE columns stay YYYY-MM-DD strings - as Date objects they would shift a day
+// in any time zone west of the server's
+types.setTypeParser(1082, (value) => value);
+
 // Test database connection
 pool.on('error', (err) => {
   console.error('❌ Unexpected database pool error:', err);
@@ -750,13 +819,140 @@ async function initDatabase() {
       )
     `);
 
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        email TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_email TEXT NOT NULL REFERENCES users(email) ON DELETE CASCADE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+      )
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS vendor_links (
+        id TEXT PRIMARY KEY,
+        token_hash TEXT UNIQUE NOT NULL,
+        target_id TEXT NOT NULL,
+        created_by TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        opened_at TIMESTAMP WITH TIME ZONE,
+        used_at TIMESTAMP WITH TIME ZONE,
+        submitted_shoot_ids JSONB DEFAULT '[]'::jsonb
+      )
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS vendors (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        contacts JSONB DEFAULT '[]'::jsonb,
+        gst_number TEXT,
+        payment_terms_days INTEGER DEFAULT 30,
+        notes TEXT,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    // Shoots created before the vendors registry have no vendor column
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS vendor_id TEXT');
+
+    // Competitive quoting - each invited vendor gets its own link and bid
+    await pool.query('ALTER TABLE vendor_links ADD COLUMN IF NOT EXISTS vendor_id TEXT');
+    await pool.query("ALTER TABLE shoots ADD COLUMN IF NOT EXISTS vendor_bids JSONB DEFAULT '[]'::jsonb");
+
+    // Every quote round is kept instead of being overwritten on reject
+    await pool.query("ALTER TABLE shoots ADD COLUMN IF NOT EXISTS quote_revisions JSONB DEFAULT '[]'::jsonb");
+
+    // Line-item negotiation - the approver's latest counter-offer to the vendor
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS counter_offer JSONB');
+
+    // Multi-level approvals - admin-configured budget bands and the steps taken on the current quote
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_by TEXT,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+    await pool.query("ALTER TABLE shoots ADD COLUMN IF NOT EXISTS approval_steps JSONB DEFAULT '[]'::jsonb");
+    // Invoice fields read from the uploaded PDF, then reviewed by finance
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS invoice_data JSONB');
+    // Three-way match report taken when the invoice was paid
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS invoice_match JSONB');
+    // Payments ledger - advances and instalments until the balance is cleared
+    await pool.query("ALTER TABLE shoots ADD COLUMN IF NOT EXISTS payments JSONB DEFAULT '[]'::jsonb");
+
+    // Projects / cost centres with budgets per month or quarter - each shoot is charged to one
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        code TEXT,
+        budget_period TEXT DEFAULT 'month',
+        budgets JSONB DEFAULT '{}'::jsonb,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS project_id TEXT');
+    // When the shoot entered its current status - reminders count from it (existing shoots start now)
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()');
+    // Units of each catalog item the vendors hold, by vendor id - overlapping shoots are checked against it
+    await pool.query("ALTER TABLE catalog_items ADD COLUMN IF NOT EXISTS stock JSONB DEFAULT '{}'::jsonb");
+    // Private calendar feed - only the token's hash is kept, as for sessions
+    await pool.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token_hash TEXT');
+    await pool.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token_created_at TIMESTAMP WITH TIME ZONE');
+    // First and last day of each shoot - `date` is only the label shown on cards
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS start_date DATE');
+    await pool.query('ALTER TABLE shoots ADD COLUMN IF NOT EXISTS end_date DATE');
+
+    // Uploaded files live in file storage - rows only keep a reference, size and checksum
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS files (
+        id TEXT PRIMARY KEY,
+        storage TEXT NOT NULL,
+        storage_key TEXT NOT NULL,
+        name TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        checksum TEXT NOT NULL,
+        shoot_id TEXT,
+        uploaded_by TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    await seedDefaultUsers();
+    await seedDefaultVendor();
+    await migrateInlineInvoices();
+    await migratePaidShootPayments();
+    await migrateShootDates();
+
     // Check if we have any data
     const shootsCount = await pool.query('SELECT COUNT(*) FROM shoots');
     const catalogCount = await pool.query('SELECT COUNT(*) FROM catalog_items');
+    const vendorsCount = await pool.query('SELECT COUNT(*) FROM vendors');
     
     console.log('✅ Database tables initialized');
     console.log('   - Shoots:', shootsCount.rows[0].count);
     console.log('   - Catalog items:', catalogCount.rows[0].count);
+    console.log('   - Vendors:', vendorsCount.rows[0].count);
     
     return true;
   } catch (error) {
@@ -768,6 +964,469 @@ async function initDatabase() {
   }
 }
 
+// ============================================
+// AUTHENTICATION
+// ============================================
+// Passwords are stored as scrypt hashes, sessions as SHA-256 hashes of an
+// opaque bearer token. Sessions slide forward every time they are validated.
+
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '12', 10);
+
+// Accounts created on boot when missing from the users table
+const DEFAULT_USERS = [
+  { email: 'preproduction@learnapp.com', name: 'ShootFlow Team', role: 'requestor' },
+  { email: 'approver@learnapp.com', name: 'Approver', role: 'approver' },
+  { email: 'founder@learnapp.com', name: 'Founder', role: 'founder' },
+  { email: 'finance@learnapp.com', name: 'Finance Team', role: 'finance' },
+  { email: 'admin@learnapp.com', name: 'Admin', role: 'admin' },
+];
+
+// Permission matrix - keep in sync with src/lib/permissions.ts
+const ROLE_PERMISSIONS = {
+  requestor: [
+    'view_dashboard', 'create_request', 'send_to_vendor', 'submit_quote',
+    'view_approvals', 'upload_invoice', 'manage_catalog', 'manage_vendors', 'view_archive',
+  ],
+  vendor: ['view_dashboard', 'submit_quote'],
+  approver: ['view_dashboard', 'view_approvals', 'approve_quote', 'view_finance', 'view_archive'],
+  founder: ['view_dashboard', 'view_approvals', 'approve_quote', 'view_finance', 'view_archive'],
+  finance: ['view_dashboard', 'upload_invoice', 'view_finance', 'mark_paid', 'manage_projects', 'view_archive'],
+  admin: [
+    'view_dashboard', 'create_request', 'edit_shoot', 'send_to_vendor', 'submit_quote',
+    'view_approvals', 'approve_quote', 'upload_invoice', 'view_finance', 'mark_paid',
+    'manage_catalog', 'manage_vendors', 'manage_projects', 'view_archive', 'manage_settings', 'import_data',
+  ],
+};
+
+const hasPermission = (user, permission) =>
+  !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sessionExpiry() {
+  return new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+}
+
+const toPublicUser = (row) => ({ email: row.email, name: row.name, role: row.role });
+
+// Seed default accounts so a fresh database is usable
+async function seedDefaultUsers() {
+  // Roles before the permission matrix were just 'user' / 'admin'
+  await pool.query("UPDATE users SET role = 'requestor' WHERE role = 'user'");
+
+  const existing = await pool.query('SELECT email FROM users');
+  const existingEmails = new Set(existing.rows.map(r => r.email));
+  const missing = DEFAULT_USERS.filter(u => !existingEmails.has(u.email));
+  if (missing.length === 0) return;
+
+  const password = process.env.DEFAULT_USER_PASSWORD || crypto.randomBytes(9).toString('base64url');
+  for (const user of missing) {
+    await pool.query(
+      'INSERT INTO users (email, name, role, password_hash) VALUES ($1, $2, $3, $4) ON CONFLICT (email) DO NOTHING',
+      [user.email, user.name, user.role, hashPassword(password)]
+    );
+  }
+
+  console.log('✅ Seeded default users:', missing.map(u => u.email).join(', '));
+  if (!process.env.DEFAULT_USER_PASSWORD) {
+    console.log('⚠️  DEFAULT_USER_PASSWORD not set - generated password:', password);
+  }
+}
+
+// Look up the session for a bearer token and extend its expiry
+async function resolveSession(req) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!token || !process.env.DATABASE_URL) return null;
+
+  const tokenHash = hashToken(token);
+  const result = await pool.query(`
+    UPDATE sessions SET expires_at = $2
+    FROM users
+    WHERE sessions.token_hash = $1
+      AND sessions.expires_at > NOW()
+      AND users.email = sessions.user_email
+    RETURNING users.email, users.name, users.role, sessions.expires_at
+  `, [tokenHash, sessionExpiry()]);
+
+  if (result.rows.length === 0) return null;
+  return { tokenHash, user: toPublicUser(result.rows[0]), expiresAt: result.rows[0].expires_at };
+}
+
+// Middleware: reject requests without a valid session
+async function requireAuth(req, res, next) {
+  try {
+    const session = await resolveSession(req);
+    if (!session) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        details: 'Missing, invalid or expired session token. Please sign in again.'
+      });
+    }
+    req.session = session;
+    req.user = session.user;
+    next();
+  } catch (error) {
+    console.error('❌ Session validation failed:', error.message);
+    res.status(500).json({ error: 'Failed to validate session', details: error.message });
+  }
+}
+
+// Middleware: reject signed-in users whose role lacks a permission (use after requireAuth)
+function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!hasPermission(req.user, permission)) {
+      console.log(`⚠️ ${req.user?.email} (${req.user?.role}) denied: ${permission}`);
+      return res.status(403).json({
+        error: 'Not allowed',
+        details: `Your role (${req.user?.role}) does not have the "${permission}" permission.`
+      });
+    }
+    next();
+  };
+}
+
+// Vendor rate per equipment line, keyed by line id
+const vendorRatesById = (equipment) =>
+  new Map((equipment || []).map(eq => [eq.id, Number(eq.vendorRate) || 0]));
+
+// The quote and vendor rates are set by the quote and approval actions - a
+// save that changes them is editing the price
+function isPriceChange(existing, incoming) {
+  const before = existing.vendor_quote || {};
+  const after = incoming.vendor_quote || {};
+  if (Number(after.amount || 0) !== Number(before.amount || 0) || (after.gstRate ?? null) !== (before.gstRate ?? null)) return true;
+  const rates = vendorRatesById(existing.equipment);
+  return (incoming.equipment || []).some(eq => (Number(eq.vendorRate) || 0) !== (rates.get(eq.id) || 0));
+}
+
+// Work out which permissions a shoot upsert needs by comparing it to the stored
+// row - every guarded change is checked on its own and the save needs them all
+function permissionsForShootUpdate(existing, incoming) {
+  if (!existing) return ['create_request'];
+  const required = new Set();
+  // Moves not in TRANSITION_PERMISSIONS are refused by transitionError
+  if (incoming.status && incoming.status !== existing.status) {
+    const permission = (TRANSITION_PERMISSIONS[existing.status] || {})[incoming.status];
+    if (permission) required.add(permission);
+  }
+  if (incoming.paid && !existing.paid) required.add('mark_paid');
+  if (incoming.approved_amount != null && Number(incoming.approved_amount) !== Number(existing.approved_amount)) required.add('approve_quote');
+  if (isPriceChange(existing, incoming)) required.add('approve_quote');
+  return [...required];
+}
+
+// ============================================
+// WORKFLOW STATE MACHINE
+// ============================================
+// The server owns a shoot's status. A save may keep the status or make one of
+// these moves - anything else (e.g. a stale tab moving a completed shoot back
+// to with_vendor) is refused with 409 and the current row.
+
+const SHOOT_TRANSITIONS = {
+  new_request: ['with_vendor', 'with_swati', 'cancelled'],
+  with_vendor: ['with_swati', 'cancelled'],
+  with_swati: ['with_vendor', 'with_senior_approver', 'ready_for_shoot', 'cancelled'],
+  with_senior_approver: ['with_vendor', 'ready_for_shoot', 'cancelled'],
+  ready_for_shoot: ['pending_invoice', 'cancelled'],
+  pending_invoice: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Permission each move needs on a save - the same one its action endpoint requires
+const TRANSITION_PERMISSIONS = {
+  new_request: { with_vendor: 'send_to_vendor', with_swati: 'submit_quote', cancelled: 'edit_shoot' },
+  with_vendor: { with_swati: 'submit_quote', cancelled: 'edit_shoot' },
+  with_swati: { with_vendor: 'approve_quote', with_senior_approver: 'approve_quote', ready_for_shoot: 'approve_quote', cancelled: 'edit_shoot' },
+  with_senior_approver: { with_vendor: 'approve_quote', ready_for_shoot: 'approve_quote', cancelled: 'edit_shoot' },
+  ready_for_shoot: { pending_invoice: 'upload_invoice', cancelled: 'edit_shoot' },
+  pending_invoice: { completed: 'mark_paid', cancelled: 'edit_shoot' },
+};
+
+// Returns an error message, or null when the move is allowed
+function transitionError(from, to) {
+  if (!to || from === to) return null;
+  if (!SHOOT_TRANSITIONS[to]) return `Unknown status "${to}"`;
+  if (!(SHOOT_TRANSITIONS[from] || []).includes(to)) {
+    return `A shoot in status "${from}" cannot move to "${to}". It may have been changed by someone else - reload to see its current state.`;
+  }
+  return null;
+}
+
+// ============================================
+// APPROVAL CHAINS
+// ============================================
+// Admins configure budget bands; a quote's amount picks the band, and the
+// band lists the roles that approve it in order (e.g. approver, then founder).
+// approval_steps holds the steps taken on the quote currently being decided
+// and is cleared whenever the quote goes back to the vendor.
+
+const DEFAULT_APPROVAL_BANDS = [
+  { id: 'in_budget', label: 'In Budget', maxAmount: 30000, approverRoles: ['approver'] },
+  { id: 'slightly_over', label: 'Slightly Over Budget', maxAmount: 60000, approverRoles: ['approver'] },
+  { id: 'over_budget', label: 'Over Budget', maxAmount: null, approverRoles: ['approver', 'founder'] },
+];
+
+function isAwaitingApproval(status) {
+  return status === 'with_swati' || status === 'with_senior_approver';
+}
+
+async function getApprovalBands() {
+  const result = await pool.query("SELECT value FROM app_settings WHERE key = 'approval_bands'");
+  return result.rows[0] ? result.rows[0].value : DEFAULT_APPROVAL_BANDS;
+}
+
+// Bands are sorted by limit - the first one the amount fits in applies
+function getApprovalBand(bands, amount) {
+  return bands.find(b => b.maxAmount == null || Number(amount) <= b.maxAmount) || bands[bands.length - 1];
+}
+
+// Returns an error message, or null when the bands are usable
+function validateApprovalBands(bands) {
+  if (!Array.isArray(bands) || bands.length === 0) return 'At least one band is required';
+  for (let i = 0; i < bands.length; i++) {
+    const band = bands[i];
+    const isLast = i === bands.length - 1;
+    if (!band.id || !band.label) return `Band ${i + 1} needs an id and a label`;
+    if (isLast && band.maxAmount != null) return 'The last band must have no upper limit';
+    if (!isLast && !(Number(band.maxAmount) > 0)) return `"${band.label}" needs an upper limit`;
+    if (!isLast && i > 0 && Number(band.maxAmount) <= Number(bands[i - 1].maxAmount)) {
+      return `"${band.label}" must have a higher limit than "${bands[i - 1].label}"`;
+    }
+    if (!Array.isArray(band.approverRoles) || band.approverRoles.length === 0) return `"${band.label}" needs at least one approver`;
+    const unknown = band.approverRoles.find(role => !hasPermission({ role }, 'approve_quote'));
+    if (unknown) return `"${unknown}" cannot approve quotes`;
+  }
+  return null;
+}
+
+// The role that has to act next on an awaiting quote (admins may act on any step)
+function currentApprovalRole(bands, shoot) {
+  const amount = shoot.vendor_quote ? shoot.vendor_quote.amount : shoot.approved_amount;
+  const chain = getApprovalBand(bands, amount || 0).approverRoles;
+  const taken = (shoot.approval_steps || []).length;
+  return chain[Math.min(taken, chain.length - 1)];
+}
+
+const canActOnApprovalStep = (user, role) => user.role === 'admin' || user.role === role;
+
+// Work out the status and steps after an approve/reject decision from the
+// configured chain - the client's status is only a request. Returns { error } when
+// the user is not the approver the quote is waiting on.
+async function applyApprovalChain(existing, incoming, user) {
+  if (!existing || !isAwaitingApproval(existing.status)) {
+    return { status: incoming.status, approved: incoming.approved, approvalSteps: (existing && existing.approval_steps) || [] };
+  }
+  const steps = existing.approval_steps || [];
+  const isApproval = ['ready_for_shoot', 'with_senior_approver'].includes(incoming.status);
+  const isRejection = incoming.status === 'with_vendor';
+  if (!isApproval && !isRejection) {
+    return { status: incoming.status, approved: incoming.approved, approvalSteps: steps };
+  }
+
+  const bands = await getApprovalBands();
+  if (isRejection) {
+    const role = currentApprovalRole(bands, existing);
+    if (!canActOnApprovalStep(user, role)) return { error: `This quote is waiting on ${role} approval` };
+    return { status: 'with_vendor', approved: false, approvalSteps: [] };
+  }
+
+  // The amount being approved - an awarded bid can change it from the stored quote
+  const amount = incoming.approved_amount != null ? incoming.approved_amount : incoming.vendor_quote && incoming.vendor_quote.amount;
+  const band = getApprovalBand(bands, amount || 0);
+  const role = band.approverRoles[Math.min(steps.length, band.approverRoles.length - 1)];
+  if (!canActOnApprovalStep(user, role)) {
+    return { error: `This quote is waiting on ${role} approval` };
+  }
+
+  const approvalSteps = [...steps, {
+    step: steps.length + 1,
+    role,
+    bandId: band.id,
+    amount: Number(amount) || 0,
+    decidedBy: user.name,
+    decidedByEmail: user.email,
+    decidedAt: new Date().toISOString(),
+  }];
+  const isFinal = approvalSteps.length >= band.approverRoles.length;
+  return {
+    status: isFinal ? 'ready_for_shoot' : 'with_senior_approver',
+    approved: isFinal,
+    approvalSteps,
+  };
+}
+
+// ============================================
+// QUOTE REVISIONS
+// ============================================
+// quote_revisions is server-owned: one record per submitted quote, grouped
+// into rounds. A reject closes the round (the reason is stored on its
+// revisions), the next submission opens a new one.
+
+function buildQuoteRevision(revisions, { equipment, amount, notes, vendorId, vendorName, bidId, submittedBy }) {
+  const pending = revisions.find(r => r.status === 'pending');
+  const round = pending ? pending.round : revisions.reduce((max, r) => Math.max(max, r.round), 0) + 1;
+  return {
+    id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    round,
+    vendorId: vendorId || null,
+    vendorName: vendorName || 'Vendor',
+    bidId: bidId || null,
+    amount: Number(amount) || 0,
+    notes: notes || '',
+    // Names and quantities are copied so the history survives equipment edits
+    itemizedPrices: (equipment || []).map(eq => ({
+      id: eq.id,
+      name: eq.name,
+      quantity: eq.quantity || 1,
+      vendorRate: Number(eq.vendorRate) || 0,
+    })),
+    submittedAt: new Date().toISOString(),
+    submittedBy,
+    status: 'pending',
+  };
+}
+
+// Add a revision - the same vendor's older pending quote in the round is superseded
+function appendQuoteRevision(revisions, revision) {
+  return [
+    ...revisions.map(r => (r.status === 'pending' && r.round === revision.round && r.vendorId === revision.vendorId
+      ? { ...r, status: 'superseded' }
+      : r)),
+    revision,
+  ];
+}
+
+// Close the open round - status is 'rejected', 'approved' or 'countered'.
+// Approving or countering one bid marks the other bids of the round 'not_selected'.
+function closeQuoteRound(revisions, { status, reason, decidedBy, selectedBidId }) {
+  const decidedAt = new Date().toISOString();
+  const pending = revisions.filter(r => r.status === 'pending');
+  const selectedId = status !== 'rejected' && pending.length > 0
+    ? (pending.find(r => selectedBidId && r.bidId === selectedBidId) || pending[pending.length - 1]).id
+    : null;
+  return revisions.map(r => {
+    if (r.status !== 'pending') return r;
+    const nextStatus = status === 'rejected' ? 'rejected' : r.id === selectedId ? status : 'not_selected';
+    return { ...r, status: nextStatus, rejectionReason: status === 'rejected' ? reason || '' : undefined, decidedAt, decidedBy };
+  });
+}
+
+// Work out the quote history after a shoot upsert from the status transition
+async function nextQuoteRevisions(existing, incoming, user) {
+  let revisions = (existing && existing.quote_revisions) || [];
+  if (!existing) return revisions;
+
+  const vendorName = async (vendorId) => {
+    if (!vendorId) return null;
+    const result = await pool.query('SELECT name FROM vendors WHERE id = $1', [vendorId]);
+    return result.rows[0] ? result.rows[0].name : null;
+  };
+
+  // Staff entered the quote in-app
+  if (['new_request', 'with_vendor'].includes(existing.status) && incoming.status === 'with_swati' && incoming.vendor_quote) {
+    revisions = appendQuoteRevision(revisions, buildQuoteRevision(revisions, {
+      equipment: incoming.equipment,
+      amount: incoming.vendor_quote.amount,
+      notes: incoming.vendor_quote.notes,
+      vendorId: incoming.vendor_id,
+      vendorName: await vendorName(incoming.vendor_id),
+      submittedBy: user.name,
+    }));
+  }
+
+  if (isAwaitingApproval(existing.status) && ['with_vendor', 'ready_for_shoot'].includes(incoming.status)) {
+    // Quotes from before revisions were tracked - record the one being decided on
+    if (!revisions.some(r => r.status === 'pending') && existing.vendor_quote) {
+      revisions = appendQuoteRevision(revisions, buildQuoteRevision(revisions, {
+        equipment: existing.equipment,
+        amount: existing.vendor_quote.amount,
+        notes: existing.vendor_quote.notes,
+        vendorId: existing.vendor_id,
+        vendorName: await vendorName(existing.vendor_id),
+        submittedBy: 'vendor',
+      }));
+    }
+    revisions = closeQuoteRound(revisions, incoming.status === 'with_vendor'
+      ? { status: 'rejected', reason: incoming.rejection_reason, decidedBy: user.name }
+      : { status: 'approved', selectedBidId: incoming.vendor_quote && incoming.vendor_quote.bidId, decidedBy: user.name });
+  }
+
+  return revisions;
+}
+
+// Log in with email + password, returns a session token
+app.post('/api/auth/login', async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const email = (req.body.email || '').toLowerCase().trim();
+  const password = req.body.password || '';
+  if (!email || !password) {
+    return res.status(400).json({ error: 'Email and password are required' });
+  }
+
+  try {
+    const result = await pool.query('SELECT * FROM users WHERE email = $1', [email]);
+    const user = result.rows[0];
+    if (!user || !verifyPassword(password, user.password_hash)) {
+      console.log('⚠️ Failed login attempt for:', email);
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = sessionExpiry();
+    await pool.query(
+      'INSERT INTO sessions (token_hash, user_email, expires_at) VALUES ($1, $2, $3)',
+      [hashToken(token), user.email, expiresAt]
+    );
+    await pool.query('DELETE FROM sessions WHERE expires_at < NOW()');
+
+    console.log('✅ Login:', user.email);
+    res.json({ token, expiresAt, user: toPublicUser(user) });
+  } catch (error) {
+    console.error('❌ Error during login:', error.message);
+    res.status(500).json({ error: 'Failed to log in', details: error.message });
+  }
+});
+
+// Validate (and refresh) the current session
+app.get('/api/auth/session', requireAuth, (req, res) => {
+  res.json({ user: req.session.user, expiresAt: req.session.expiresAt });
+});
+
+// Log out - invalidates the current session token
+app.post('/api/auth/logout', requireAuth, async (req, res) => {
+  try {
+    await pool.query('DELETE FROM sessions WHERE token_hash = $1', [req.session.tokenHash]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error during logout:', error.message);
+    res.status(500).json({ error: 'Failed to log out', details: error.message });
+  }
+});
+
 // API Routes
 
 // Health check with database connection test
@@ -804,7 +1463,7 @@ app.get('/api/health', async (req, res) => {
 });
 
 // Get all shoots
-app.get('/api/shoots', async (req, res) => {
+app.get('/api/shoots', requireAuth, async (req, res) => {
   // Check if database is configured
   if (!process.env.DATABASE_URL) {
     console.error('❌ GET /api/shoots - Failed: DATABASE_URL not configured');
@@ -828,7 +1487,7 @@ app.get('/api/shoots', async (req, res) => {
 });
 
 // Create or update a shoot
-app.post('/api/shoots', async (req, res) => {
+app.post('/api/shoots', requireAuth, async (req, res) => {
   // Check if database is configured
   if (!process.env.DATABASE_URL) {
     console.error('❌ POST /api/shoots - Failed: DATABASE_URL not configured');
@@ -842,14 +1501,63 @@ app.post('/api/shoots', async (req, res) => {
   try {
     const shoot = req.body;
     console.log('POST /api/shoots - Received:', shoot.id, 'status:', shoot.status);
+
+    // Approvals and payments are restricted to their roles
+    const existing = await pool.query(
+      'SELECT * FROM shoots WHERE id = $1',
+      [shoot.id]
+    );
+    const requiredPermission = permissionsForShootUpdate(existing.rows[0], shoot)
+      .find(permission => !hasPermission(req.user, permission));
+    if (requiredPermission) {
+      console.log(`⚠️ ${req.user.email} (${req.user.role}) denied: ${requiredPermission} on ${shoot.id}`);
+      return res.status(403).json({
+        error: 'Not allowed',
+        details: `Your role (${req.user.role}) does not have the "${requiredPermission}" permission.`
+      });
+    }
+    // Status moves follow the workflow - new shoots start as requests (admins may import history)
+    const illegalMove = existing.rows[0]
+      ? transitionError(existing.rows[0].status, shoot.status)
+      : shoot.status !== 'new_request' && !hasPermission(req.user, 'edit_shoot') && `New shoots must start as "new_request"`;
+    if (illegalMove) {
+      console.log(`⚠️ ${req.user.email} illegal status change on ${shoot.id}: ${illegalMove}`);
+      return res.status(409).json({ error: 'Illegal status change', details: illegalMove, shoot: existing.rows[0] || null });
+    }
+    // Payments are only recorded through the payments ledger, which runs the invoice match
+    const current = existing.rows[0];
+    if (current && ((shoot.paid && !current.paid) || (shoot.status === 'completed' && current.status !== 'completed'))) {
+      return res.status(409).json({ error: 'Illegal status change', details: 'Record payments from the invoice screen so the balance is tracked and the invoice is matched against the approval.', shoot: current });
+    }
+    // Approvals follow the chain for the quote's budget band
+    const chain = await applyApprovalChain(existing.rows[0], shoot, req.user);
+    if (chain.error) {
+      console.log(`⚠️ ${req.user.email} (${req.user.role}) denied: ${chain.error} on ${shoot.id}`);
+      return res.status(403).json({ error: 'Not allowed', details: chain.error });
+    }
+    shoot.status = chain.status;
+    shoot.approved = chain.approved;
+    // Keep activities the server logged itself (vendor links etc.) that the client hasn't seen yet
+    const incomingActivityIds = new Set((shoot.activities || []).map(a => a.id));
+    const serverOnlyActivities = ((existing.rows[0] && existing.rows[0].activities) || [])
+      .filter(a => !incomingActivityIds.has(a.id));
+    const activities = [...(shoot.activities || []), ...serverOnlyActivities]
+      .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+    const quoteRevisions = await nextQuoteRevisions(existing.rows[0], shoot, req.user);
+    const invoiceFile = await resolveInvoiceFile(existing.rows[0], shoot, req.user);
+    // A rejected round goes back to the vendors, so its bids are cleared (they live on in quote_revisions)
+    const isRejection = existing.rows[0] && isAwaitingApproval(existing.rows[0].status) && shoot.status === 'with_vendor';
+    const dates = normalizeShootDates(shoot);
+
     const result = await pool.query(`
       INSERT INTO shoots (
         id, name, date, duration, location, equipment, status, requestor,
         vendor_quote, approved, approved_amount, invoice_file, paid,
         rejection_reason, approval_email, cancellation_reason, activities,
-        email_thread_id, created_at, shoot_date, request_group_id,
-        is_multi_shoot, multi_shoot_index, total_shoots_in_request
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
+        email_thread_id, created_at, start_date, request_group_id,
+        is_multi_shoot, multi_shoot_index, total_shoots_in_request, vendor_id,
+        quote_revisions, approval_steps, project_id, end_date
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $28, $29, $30)
       ON CONFLICT (id) DO UPDATE SET
         name = EXCLUDED.name,
         date = EXCLUDED.date,
@@ -868,11 +1576,18 @@ app.post('/api/shoots', async (req, res) => {
         cancellation_reason = EXCLUDED.cancellation_reason,
         activities = EXCLUDED.activities,
         email_thread_id = EXCLUDED.email_thread_id,
-        shoot_date = EXCLUDED.shoot_date,
+        start_date = EXCLUDED.start_date,
+        end_date = EXCLUDED.end_date,
         request_group_id = EXCLUDED.request_group_id,
         is_multi_shoot = EXCLUDED.is_multi_shoot,
         multi_shoot_index = EXCLUDED.multi_shoot_index,
-        total_shoots_in_request = EXCLUDED.total_shoots_in_request
+        total_shoots_in_request = EXCLUDED.total_shoots_in_request,
+        vendor_id = EXCLUDED.vendor_id,
+        quote_revisions = EXCLUDED.quote_revisions,
+        approval_steps = EXCLUDED.approval_steps,
+        project_id = EXCLUDED.project_id,
+        status_changed_at = CASE WHEN shoots.status = EXCLUDED.status THEN shoots.status_changed_at ELSE NOW() END,
+        vendor_bids = CASE WHEN $27 THEN '[]'::jsonb ELSE shoots.vendor_bids END
       RETURNING *
     `, [
       shoot.id,
@@ -886,19 +1601,25 @@ app.post('/api/shoots', async (req, res) => {
       JSON.stringify(shoot.vendor_quote),
       shoot.approved,
       shoot.approved_amount,
-      JSON.stringify(shoot.invoice_file),
+      JSON.stringify(invoiceFile),
       shoot.paid,
       shoot.rejection_reason,
       shoot.approval_email,
       shoot.cancellation_reason,
-      JSON.stringify(shoot.activities || []),
+      JSON.stringify(activities),
       shoot.email_thread_id,
       shoot.created_at || new Date().toISOString(),
-      shoot.shoot_date,
+      dates.start,
       shoot.request_group_id,
       shoot.is_multi_shoot,
       shoot.multi_shoot_index,
-      shoot.total_shoots_in_request
+      shoot.total_shoots_in_request,
+      shoot.vendor_id || null,
+      JSON.stringify(quoteRevisions),
+      !!isRejection,
+      JSON.stringify(chain.approvalSteps),
+      shoot.project_id || null,
+      dates.end
     ]);
     
     console.log('✅ POST /api/shoots - Saved:', result.rows[0].id, 'status:', result.rows[0].status);
@@ -915,7 +1636,7 @@ app.post('/api/shoots', async (req, res) => {
 });
 
 // Delete a shoot
-app.delete('/api/shoots/:id', async (req, res) => {
+app.delete('/api/shoots/:id', requireAuth, requirePermission('edit_shoot'), async (req, res) => {
   try {
     await pool.query('DELETE FROM shoots WHERE id = $1', [req.params.id]);
     res.json({ success: true });
@@ -925,6 +1646,18 @@ app.delete('/api/shoots/:id', async (req, res) => {
   }
 });
 
+// Vendor id -> units held, as whole non-negative numbers. null when the client
+// sent no stock, so saves from the catalog editor keep what is recorded.
+function parseCatalogStock(stock) {
+  if (stock === undefined || stock === null) return null;
+  const parsed = {};
+  for (const [vendorId, count] of Object.entries(stock)) {
+    const units = Math.floor(Number(count));
+    if (Number.isFinite(units) && units >= 0) parsed[vendorId] = units;
+  }
+  return JSON.stringify(parsed);
+}
+
 // Get all catalog items
 app.get('/api/catalog', async (req, res) => {
   // Check if database is configured
@@ -950,7 +1683,7 @@ app.get('/api/catalog', async (req, res) => {
 });
 
 // Create or update catalog item
-app.post('/api/catalog', async (req, res) => {
+app.post('/api/catalog', requireAuth, requirePermission('manage_catalog'), async (req, res) => {
   // Check if database is configured
   if (!process.env.DATABASE_URL) {
     console.error('❌ POST /api/catalog - Failed: DATABASE_URL not configured');
@@ -964,15 +1697,16 @@ app.post('/api/catalog', async (req, res) => {
     const item = req.body;
     console.log('POST /api/catalog - Saving item:', item.name);
     const result = await pool.query(`
-      INSERT INTO catalog_items (id, name, daily_rate, category, last_updated)
-      VALUES ($1, $2, $3, $4, $5)
+      INSERT INTO catalog_items (id, name, daily_rate, category, last_updated, stock)
+      VALUES ($1, $2, $3, $4, $5, COALESCE($6::jsonb, '{}'::jsonb))
       ON CONFLICT (id) DO UPDATE SET
         name = EXCLUDED.name,
         daily_rate = EXCLUDED.daily_rate,
         category = EXCLUDED.category,
-        last_updated = EXCLUDED.last_updated
+        last_updated = EXCLUDED.last_updated,
+        stock = COALESCE($6::jsonb, catalog_items.stock)
       RETURNING *
-    `, [item.id, item.name, item.daily_rate, item.category, item.last_updated]);
+    `, [item.id, item.name, item.daily_rate, item.category, item.last_updated, parseCatalogStock(item.stock)]);
     
     console.log('✅ POST /api/catalog - Saved:', result.rows[0].name);
     res.json(result.rows[0]);
@@ -986,7 +1720,7 @@ app.post('/api/catalog', async (req, res) => {
 });
 
 // Bulk upsert catalog items
-app.post('/api/catalog/bulk', async (req, res) => {
+app.post('/api/catalog/bulk', requireAuth, requirePermission('manage_catalog'), async (req, res) => {
   // Check if database is configured
   if (!process.env.DATABASE_URL) {
     console.error('❌ POST /api/catalog/bulk - Failed: DATABASE_URL not configured');
@@ -1002,14 +1736,15 @@ app.post('/api/catalog/bulk', async (req, res) => {
     
     for (const item of items) {
       await pool.query(`
-        INSERT INTO catalog_items (id, name, daily_rate, category, last_updated)
-        VALUES ($1, $2, $3, $4, $5)
+        INSERT INTO catalog_items (id, name, daily_rate, category, last_updated, stock)
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6::jsonb, '{}'::jsonb))
         ON CONFLICT (id) DO UPDATE SET
           name = EXCLUDED.name,
           daily_rate = EXCLUDED.daily_rate,
           category = EXCLUDED.category,
-          last_updated = EXCLUDED.last_updated
-      `, [item.id, item.name, item.daily_rate, item.category, item.last_updated]);
+          last_updated = EXCLUDED.last_updated,
+          stock = COALESCE($6::jsonb, catalog_items.stock)
+      `, [item.id, item.name, item.daily_rate, item.category, item.last_updated, parseCatalogStock(item.stock)]);
     }
     
     console.log('✅ POST /api/catalog/bulk - Saved', items.length, 'items successfully');
@@ -1024,39 +1759,2405 @@ app.post('/api/catalog/bulk', async (req, res) => {
 });
 
 // ============================================
-// EMAIL API ENDPOINTS
+// APPROVAL SETTINGS
 // ============================================
 
-// Send email endpoint
-app.post('/api/email/send', async (req, res) => {
+// Get the budget bands and their approval chains
+app.get('/api/settings/approval-bands', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.json(DEFAULT_APPROVAL_BANDS);
+  }
+
   try {
-    const { to, template, shoot, threadMessageId } = req.body;
-    
-    if (!to || !template || !shoot) {
-      return res.status(400).json({ error: 'Missing required fields: to, template, shoot' });
-    }
-    
-    if (!emailTemplates[template]) {
-      return res.status(400).json({ error: `Invalid template: ${template}. Valid templates: ${Object.keys(emailTemplates).join(', ')}` });
-    }
-    
-    // Pass threadMessageId for email threading (optional)
-    const result = await sendEmail(to, template, shoot, threadMessageId || null);
-    
-    if (result.success) {
-      // Return messageId so frontend can store it for threading
-      res.json({ success: true, messageId: result.messageId });
-    } else {
-      res.status(500).json({ success: false, error: result.error });
-    }
+    res.json(await getApprovalBands());
   } catch (error) {
-    console.error('Email API error:', error);
-    res.status(500).json({ error: 'Failed to send email', details: error.message });
+    console.error('❌ Error fetching approval bands:', error.message);
+    res.status(500).json({ error: 'Failed to fetch approval bands', details: error.message });
   }
 });
 
-// Batch send emails (for multi-recipient scenarios)
-app.post('/api/email/batch', async (req, res) => {
+// Replace the budget bands - quotes already awaiting approval pick up the new chain on their next step
+app.put('/api/settings/approval-bands', requireAuth, requirePermission('manage_settings'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const bands = (Array.isArray(req.body) ? req.body : []).map((band, i, all) => ({
+    id: String(band.id || '').trim(),
+    label: String(band.label || '').trim(),
+    maxAmount: i === all.length - 1 || band.maxAmount == null || band.maxAmount === '' ? null : Number(band.maxAmount),
+    approverRoles: Array.isArray(band.approverRoles) ? band.approverRoles : [],
+  }));
+  const invalid = validateApprovalBands(bands);
+  if (invalid) {
+    return res.status(400).json({ error: 'Invalid approval bands', details: invalid });
+  }
+
+  try {
+    await pool.query(`
+      INSERT INTO app_settings (key, value, updated_by, updated_at) VALUES ('approval_bands', $1, $2, NOW())
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+    `, [JSON.stringify(bands), req.user.email]);
+    console.log('✅ Approval bands updated by', req.user.email);
+    res.json(bands);
+  } catch (error) {
+    console.error('❌ Error saving approval bands:', error.message);
+    res.status(500).json({ error: 'Failed to save approval bands', details: error.message });
+  }
+});
+
+// ============================================
+// FILE STORAGE
+// ============================================
+// Invoice PDFs are stored through an adapter - the local disk by default, or
+// any S3-compatible bucket (AWS, R2, MinIO...) when FILE_STORAGE=s3. S3
+// requests are signed by hand (SigV4) so no SDK is needed. The files table
+// records which adapter holds each file, so switching adapters keeps older
+// files readable.
+
+const FILE_STORAGE = process.env.FILE_STORAGE || 'local';
+const FILE_STORAGE_DIR = process.env.FILE_STORAGE_DIR || path.join(__dirname, 'uploads');
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const localStorageAdapter = {
+  name: 'local',
+  async put(key, buffer) {
+    const filePath = path.join(FILE_STORAGE_DIR, key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, buffer);
+  },
+  async open(key) {
+    const filePath = path.join(FILE_STORAGE_DIR, key);
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath);
+  },
+};
+
+const sha256Hex = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmacSha256 = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Sign and send a path-style request to the S3-compatible endpoint
+async function s3Request(method, key, body, contentType) {
+  const region = process.env.S3_REGION || 'us-east-1';
+  const url = new URL(`${process.env.S3_ENDPOINT.replace(/\/$/, '')}/${process.env.S3_BUCKET}/${key}`);
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body || '');
+
+  const headers = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(contentType ? { 'content-type': contentType } : {}),
+  };
+  const headerNames = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    headerNames.map(h => `${h}:${headers[h]}\n`).join(''),
+    headerNames.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['aws4_request', 's3', region, dateStamp]
+    .reduceRight((key, part) => hmacSha256(key, part), `AWS4${process.env.S3_SECRET_ACCESS_KEY}`);
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  // fetch sets Host itself from the URL
+  const { host, ...requestHeaders } = headers;
+  return fetch(url, {
+    method,
+    headers: {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${process.env.S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+    },
+    body,
+  });
+}
+
+const s3StorageAdapter = {
+  name: 's3',
+  async put(key, buffer, contentType) {
+    const response = await s3Request('PUT', key, buffer, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+    }
+  },
+  async open(key) {
+    const response = await s3Request('GET', key);
+    if (!response.ok) {
+      throw new Error(`S3 download failed: ${response.status}`);
+    }
+    return Readable.fromWeb(response.body);
+  },
+};
+
+const STORAGE_ADAPTERS = { local: localStorageAdapter, s3: s3StorageAdapter };
+
+function getStorageAdapter(name = FILE_STORAGE) {
+  const adapter = STORAGE_ADAPTERS[name];
+  if (!adapter) throw new Error(`Unknown file storage "${name}"`);
+  if (name === 's3' && !(process.env.S3_ENDPOINT && process.env.S3_BUCKET && process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY)) {
+    throw new Error('S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+  return adapter;
+}
+
+const toPublicFile = (row) => ({
+  id: row.id,
+  name: row.name,
+  contentType: row.content_type,
+  size: row.size,
+  checksum: row.checksum,
+  shootId: row.shoot_id || undefined,
+  uploadedBy: row.uploaded_by || undefined,
+  createdAt: row.created_at,
+});
+
+// The reference a shoot keeps in invoice_file
+const toFileReference = (row) => ({
+  fileId: row.id,
+  name: row.name,
+  contentType: row.content_type,
+  size: row.size,
+  checksum: row.checksum,
+  url: `/api/files/${row.id}`,
+});
+
+// Store a file and record it - returns the files row
+async function storeFile(buffer, { name, contentType, shootId, uploadedBy }) {
+  const adapter = getStorageAdapter();
+  const id = `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+  const storageKey = `files/${id}${path.extname(name || '').toLowerCase()}`;
+  await adapter.put(storageKey, buffer, contentType);
+  const result = await pool.query(`
+    INSERT INTO files (id, storage, storage_key, name, content_type, size, checksum, shoot_id, uploaded_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *
+  `, [id, adapter.name, storageKey, name || 'file', contentType, buffer.length, sha256Hex(buffer), shootId || null, uploadedBy || null]);
+  return result.rows[0];
+}
+
+// Move a base64 data URL (how invoices used to be saved) into file storage
+async function storeInlineFile(file, shootId, uploadedBy) {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(file.data || '');
+  if (!match) return null;
+  const buffer = Buffer.from(match[3], match[2] ? 'base64' : 'utf8');
+  const row = await storeFile(buffer, { name: file.name, contentType: match[1] || 'application/pdf', shootId, uploadedBy });
+  return toFileReference(row);
+}
+
+// invoice_file is only changed by the upload-invoice action. A save may still
+// carry inline data (imports, tabs cached before file storage) - it is stored
+// unless it is the invoice the shoot already has.
+async function resolveInvoiceFile(existing, incoming, user) {
+  const current = existing ? existing.invoice_file : null;
+  const file = incoming.invoice_file;
+  // A paid invoice is final - replacing it would change what was settled
+  if (existing && existing.paid) return current || null;
+  if (file && file.data && (!current || current.name !== file.name)) {
+    return storeInlineFile(file, incoming.id, user.email);
+  }
+  if (existing) return current || null;
+  return file && !file.data ? file : null;
+}
+
+// Shoots saved before file storage carry their PDF inline - move it out once on boot
+async function migrateInlineInvoices() {
+  const result = await pool.query("SELECT id, invoice_file FROM shoots WHERE invoice_file->>'data' IS NOT NULL");
+  for (const row of result.rows) {
+    try {
+      const reference = await storeInlineFile(row.invoice_file, row.id, 'migration');
+      if (reference) {
+        await pool.query('UPDATE shoots SET invoice_file = $2 WHERE id = $1', [row.id, JSON.stringify(reference)]);
+      }
+    } catch (error) {
+      console.error('❌ Could not move invoice of', row.id, 'to file storage:', error.message);
+    }
+  }
+  if (result.rows.length > 0) {
+    console.log('✅ Moved', result.rows.length, 'inline invoice(s) to', FILE_STORAGE, 'file storage');
+  }
+}
+
+// Upload a PDF - the raw file is the request body, its name in X-File-Name
+app.post('/api/files', requireAuth, requirePermission('upload_invoice'),
+  express.raw({ type: 'application/pdf', limit: MAX_UPLOAD_BYTES }), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const buffer = req.body;
+  if (!Buffer.isBuffer(buffer) || buffer.length === 0) {
+    return res.status(400).json({ error: 'A PDF file is required', details: 'Send the file as the body with Content-Type: application/pdf' });
+  }
+  if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    return res.status(400).json({ error: 'Only PDF files can be uploaded' });
+  }
+
+  try {
+    const row = await storeFile(buffer, {
+      name: decodeURIComponent(req.get('X-File-Name') || 'invoice.pdf'),
+      contentType: 'application/pdf',
+      shootId: req.query.shootId,
+      uploadedBy: req.user.email,
+    });
+    console.log('✅ File stored:', row.id, row.name, `${row.size} bytes`, 'in', row.storage);
+    res.json(toPublicFile(row));
+  } catch (error) {
+    console.error('❌ Error storing file:', error.message);
+    res.status(500).json({ error: 'Failed to store file', details: error.message });
+  }
+});
+
+// Stream a stored file (?download=1 for an attachment instead of inline)
+app.get('/api/files/:id', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const result = await pool.query('SELECT * FROM files WHERE id = $1', [req.params.id]);
+    const file = result.rows[0];
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    let stream;
+    try {
+      stream = await getStorageAdapter(file.storage).open(file.storage_key);
+    } catch (error) {
+      console.error('❌ Stored file missing:', file.id, error.message);
+      return res.status(404).json({ error: 'File not found in storage', details: error.message });
+    }
+
+    res.set({
+      'Content-Type': file.content_type,
+      'Content-Length': String(file.size),
+      'Content-Disposition': `${req.query.download ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      'ETag': `"${file.checksum}"`,
+      'Cache-Control': 'private, max-age=3600',
+    });
+    stream.on('error', (error) => {
+      console.error('❌ Error streaming file:', file.id, error.message);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('❌ Error fetching file:', error.message);
+    res.status(500).json({ error: 'Failed to fetch file', details: error.message });
+  }
+});
+
+// ============================================
+// TAX
+// ============================================
+// Quote amounts are taxable values - GST is charged on top at the vendor's
+// rate (CGST + SGST within the company's state, IGST across states) and TDS
+// is withheld from the taxable value when the invoice is paid.
+// Keep the defaults in sync with src/lib/tax.ts.
+
+const DEFAULT_TAX_SETTINGS = {
+  companyGstin: '',
+  defaultGstRate: 18,
+  tdsRate: 2,
+};
+const GST_RATES = [0, 5, 12, 18, 28];
+
+async function getTaxSettings() {
+  const result = await pool.query("SELECT value FROM app_settings WHERE key = 'tax'");
+  return { ...DEFAULT_TAX_SETTINGS, ...(result.rows[0] ? result.rows[0].value : {}) };
+}
+
+// A GST rate from a request - anything that isn't a GST slab falls back
+const normalizeGstRate = (value, fallback) => {
+  const rate = Number(value);
+  return value !== undefined && value !== null && value !== '' && GST_RATES.includes(rate) ? rate : fallback;
+};
+
+const computeTds = (taxableValue, tdsRate) => Math.round(taxableValue * tdsRate) / 100;
+
+app.get('/api/settings/tax', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.json(DEFAULT_TAX_SETTINGS);
+  }
+
+  try {
+    res.json(await getTaxSettings());
+  } catch (error) {
+    console.error('❌ Error fetching tax settings:', error.message);
+    res.status(500).json({ error: 'Failed to fetch tax settings', details: error.message });
+  }
+});
+
+app.put('/api/settings/tax', requireAuth, requirePermission('manage_settings'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const settings = {
+    companyGstin: String(req.body.companyGstin || '').trim().toUpperCase(),
+    defaultGstRate: Number(req.body.defaultGstRate),
+    tdsRate: Number(req.body.tdsRate),
+  };
+  if (settings.companyGstin && !new RegExp(`^${GSTIN_PATTERN.source}$`).test(settings.companyGstin)) {
+    return res.status(400).json({ error: 'Invalid tax settings', details: `"${settings.companyGstin}" is not a valid GSTIN` });
+  }
+  if (!GST_RATES.includes(settings.defaultGstRate)) {
+    return res.status(400).json({ error: 'Invalid tax settings', details: `GST rate must be one of ${GST_RATES.join(', ')}%` });
+  }
+  if (!(settings.tdsRate >= 0 && settings.tdsRate <= 30)) {
+    return res.status(400).json({ error: 'Invalid tax settings', details: 'TDS rate must be between 0 and 30%' });
+  }
+
+  try {
+    await pool.query(`
+      INSERT INTO app_settings (key, value, updated_by, updated_at) VALUES ('tax', $1, $2, NOW())
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+    `, [JSON.stringify(settings), req.user.email]);
+    console.log('✅ Tax settings updated by', req.user.email);
+    res.json(settings);
+  } catch (error) {
+    console.error('❌ Error saving tax settings:', error.message);
+    res.status(500).json({ error: 'Failed to save tax settings', details: error.message });
+  }
+});
+
+// ============================================
+// INVOICE EXTRACTION
+// ============================================
+// When an invoice PDF is attached, its text is pulled out with pdf-parse and
+// read for the invoice number, date, GSTINs, line items, taxes and totals.
+// The result is stored on the shoot as invoice_data for finance to review -
+// extraction is best effort, so every figure stays editable and anything that
+// doesn't add up is listed in warnings.
+
+const GSTIN_PATTERN = /\b\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b/g;
+const AMOUNT_PATTERN = /(?:₹|Rs\.?|INR)?\s*(\d{1,3}(?:,\d{2,3})+(?:\.\d{1,2})?|\d+\.\d{1,2}|\d+)(?!.*\d)/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "1,23,456.50" -> 123456.5
+const parseInvoiceAmount = (value) => {
+  const amount = parseFloat(String(value).replace(/[^0-9.]/g, ''));
+  return isNaN(amount) ? null : amount;
+};
+
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+// The last amount on a line - totals and line amounts sit in the right-hand column
+const lastAmountOnLine = (line) => {
+  const match = AMOUNT_PATTERN.exec(line);
+  return match ? parseInvoiceAmount(match[1]) : null;
+};
+
+// Invoice dates are day-first (12/04/2025, 12-Apr-2025, 12 April 2025) or ISO
+function parseInvoiceDate(text) {
+  let match = /(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  let day, month, year;
+  match = /(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2,4})/.exec(text);
+  if (match) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = /(\d{1,2})(?:st|nd|rd|th)?[\s\-.,]*([A-Za-z]{3,9})[\s\-.,']*(\d{2,4})/.exec(text);
+    if (!match || !MONTHS.includes(match[2].slice(0, 3).toLowerCase())) return null;
+    [day, month, year] = [Number(match[1]), MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1, Number(match[3])];
+  }
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Vendor filenames carry the number when the text doesn't: "GDW Inv No. 31_25-26.pdf" -> "31/25-26"
+function invoiceNumberFromFileName(fileName) {
+  const match = /Inv(?:oice)?\.?\s*No\.?\s*(\d+)[_\-\/](\d{2}-\d{2})/i.exec(fileName || '');
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+// A table row: [S.No] description [HSN/SAC] quantity [unit] rate amount
+function parseLineItem(line) {
+  const match = /^(?:\d{1,3}[.)]?\s+)?(.*?[A-Za-z].*?)\s+(?:(\d{4,8})\s+)?(\d+(?:\.\d+)?)\s*(?:nos?|pcs?|units?|days?|sets?)?\.?\s+(?:₹|Rs\.?)?\s*([\d,]+(?:\.\d{1,2})?)\s+(?:₹|Rs\.?)?\s*([\d,]+(?:\.\d{1,2})?)$/i.exec(line);
+  if (!match) return null;
+  const quantity = parseFloat(match[3]);
+  const rate = parseInvoiceAmount(match[4]);
+  const amount = parseInvoiceAmount(match[5]);
+  // Only trust the columns when they multiply out
+  if (!quantity || rate === null || amount === null || Math.abs(quantity * rate - amount) > 1) return null;
+  return { description: match[1].trim(), hsn: match[2] || undefined, quantity, rate, amount };
+}
+
+function parseInvoiceText(text, fileName) {
+  const lines = text.split('\n').map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const findLine = (pattern) => lines.find(l => pattern.test(l));
+  const warnings = [];
+
+  // Invoice number
+  let invoiceNumber = null;
+  const numberMatch = /(?:invoice|inv|bill)\s*(?:no|number|#)\.?\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-_.]*\d[A-Z0-9\/\-_]*)/i.exec(text);
+  if (numberMatch) invoiceNumber = numberMatch[1].replace(/[.\-_]+$/, '');
+  if (!invoiceNumber) invoiceNumber = invoiceNumberFromFileName(fileName);
+
+  // Invoice date - prefer the labelled one
+  const dateLine = findLine(/(?:invoice|bill)\s*date|dated/i) || findLine(/\bdate\b/i);
+  const invoiceDate = (dateLine && parseInvoiceDate(dateLine.replace(/^.*?(?:date|dated)\s*[:\-]?/i, ''))) || null;
+
+  // GSTINs - the supplier's comes first, the buyer's sits under "Bill To"
+  const gstins = Array.from(new Set(text.toUpperCase().match(GSTIN_PATTERN) || []));
+  const billToIndex = text.search(/bill(?:ed)?\s*to|buyer|recipient/i);
+  const buyerGstin = billToIndex >= 0
+    ? gstins.find(g => text.toUpperCase().indexOf(g, billToIndex) >= 0) || null
+    : gstins[1] || null;
+  const vendorGstin = gstins.find(g => g !== buyerGstin) || null;
+
+  // Taxes
+  const taxes = [];
+  lines.forEach(line => {
+    const match = /\b(CGST|SGST|UTGST|IGST)\b(?:[^%\d]*(\d+(?:\.\d+)?)\s*%)?/i.exec(line);
+    if (!match) return;
+    const amount = lastAmountOnLine(line.slice(match.index + match[0].length));
+    if (amount === null) return;
+    taxes.push({ type: match[1].toUpperCase(), rate: match[2] ? parseFloat(match[2]) : undefined, amount });
+  });
+  const taxTotal = roundAmount(taxes.reduce((sum, t) => sum + t.amount, 0));
+
+  // Totals
+  const grandTotalLine = [...lines].reverse().find(l => /grand\s*total|total\s*(?:invoice\s*)?amount|invoice\s*(?:total|value)|amount\s*payable|net\s*payable|total\s*(?:₹|rs|inr)/i.test(l) && !/words/i.test(l));
+  const subtotalLine = findLine(/sub\s*-?\s*total|taxable\s*(?:value|amount)|total\s*before\s*tax/i);
+  const subtotal = subtotalLine ? lastAmountOnLine(subtotalLine) : null;
+  let grandTotal = grandTotalLine ? lastAmountOnLine(grandTotalLine) : null;
+
+  // Line items sit between the table header and the first total
+  const headerIndex = lines.findIndex(l => /description|particulars|item/i.test(l) && /amount|rate|qty|quantity/i.test(l));
+  const endIndex = lines.findIndex((l, i) => i > headerIndex && /total|cgst|sgst|igst/i.test(l));
+  const lineItems = (headerIndex >= 0 ? lines.slice(headerIndex + 1, endIndex > headerIndex ? endIndex : undefined) : lines)
+    .map(parseLineItem)
+    .filter(Boolean);
+
+  if (grandTotal === null && subtotal !== null) {
+    grandTotal = roundAmount(subtotal + taxTotal);
+    warnings.push('No grand total found - calculated from the subtotal and taxes');
+  }
+
+  // Cross-check the figures
+  const itemsTotal = roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  if (lineItems.length > 0 && subtotal !== null && Math.abs(itemsTotal - subtotal) > 1) {
+    warnings.push(`Line items add up to ₹${itemsTotal.toLocaleString('en-IN')} but the subtotal is ₹${subtotal.toLocaleString('en-IN')}`);
+  }
+  if (subtotal !== null && grandTotal !== null && Math.abs(subtotal + taxTotal - grandTotal) > 1) {
+    warnings.push(`Subtotal plus taxes is ₹${roundAmount(subtotal + taxTotal).toLocaleString('en-IN')} but the grand total is ₹${grandTotal.toLocaleString('en-IN')}`);
+  }
+  if (!invoiceNumber) warnings.push('Invoice number not found');
+  if (!invoiceDate) warnings.push('Invoice date not found');
+  if (!vendorGstin) warnings.push('Vendor GSTIN not found');
+  if (grandTotal === null) warnings.push('Grand total not found');
+  if (lineItems.length === 0) warnings.push('No line items could be read');
+
+  return {
+    invoiceNumber,
+    invoiceDate,
+    vendorGstin,
+    buyerGstin,
+    lineItems,
+    taxes,
+    subtotal,
+    taxTotal,
+    grandTotal,
+    warnings,
+  };
+}
+
+async function readStoredFile(file) {
+  const stream = await getStorageAdapter(file.storage).open(file.storage_key);
+  const chunks = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+// Extract a stored invoice - never throws, a failed extraction is recorded so
+// finance can fill the form in by hand
+async function extractInvoiceData(file) {
+  const base = { fileId: file.id, extractedAt: new Date().toISOString() };
+  try {
+    // pdf.js reads the whole ArrayBuffer behind a Buffer - small Buffers share
+    // Node's pool, so hand it a copy of just this file
+    const pdf = await pdfParse(new Uint8Array(await readStoredFile(file)));
+    if (!pdf.text || !pdf.text.trim()) {
+      return { ...base, status: 'failed', error: 'The PDF has no text layer (scanned invoice?) - enter the details by hand' };
+    }
+    const data = parseInvoiceText(pdf.text, file.name);
+    const { tdsRate } = await getTaxSettings();
+    data.tdsRate = tdsRate;
+    if (data.subtotal !== null) data.tds = computeTds(data.subtotal, tdsRate);
+    if (data.grandTotal !== null && data.tds !== undefined) data.netPayable = roundAmount(data.grandTotal - data.tds);
+    console.log('🧾 Invoice extracted:', file.name, data.invoiceNumber || '(no number)', data.grandTotal ?? '(no total)', `${data.warnings.length} warning(s)`);
+    return { ...base, ...data, status: 'extracted' };
+  } catch (error) {
+    console.error('❌ Error extracting invoice', file.id, error.message);
+    return { ...base, status: 'failed', error: `Could not read the PDF: ${error.message}` };
+  }
+}
+
+// Reviewed invoice fields from the form - totals are recalculated from the parts
+function normalizeInvoiceData(body, taxSettings) {
+  const toAmount = (value) => (value === null || value === undefined || value === '' ? null : parseInvoiceAmount(value));
+  const lineItems = (Array.isArray(body.lineItems) ? body.lineItems : [])
+    .map(item => ({
+      description: String(item.description || '').trim(),
+      hsn: item.hsn ? String(item.hsn).trim() : undefined,
+      quantity: Number(item.quantity) || 1,
+      rate: toAmount(item.rate) || 0,
+      amount: toAmount(item.amount) || 0,
+    }))
+    .filter(item => item.description || item.amount);
+  const taxes = (Array.isArray(body.taxes) ? body.taxes : [])
+    .map(tax => ({
+      type: String(tax.type || '').toUpperCase(),
+      rate: tax.rate === undefined || tax.rate === '' ? undefined : Number(tax.rate),
+      amount: toAmount(tax.amount) || 0,
+    }))
+    .filter(tax => tax.type);
+  const gstin = (value) => (value ? String(value).trim().toUpperCase() : null);
+  const subtotal = toAmount(body.subtotal) ?? roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const grandTotal = toAmount(body.grandTotal);
+  const tdsRate = body.tdsRate === undefined || body.tdsRate === '' ? taxSettings.tdsRate : Number(body.tdsRate) || 0;
+  const tds = computeTds(subtotal, tdsRate);
+
+  return {
+    invoiceNumber: body.invoiceNumber ? String(body.invoiceNumber).trim() : null,
+    invoiceDate: body.invoiceDate && /^\d{4}-\d{2}-\d{2}$/.test(body.invoiceDate) ? body.invoiceDate : null,
+    vendorGstin: gstin(body.vendorGstin),
+    buyerGstin: gstin(body.buyerGstin),
+    lineItems,
+    taxes,
+    subtotal,
+    taxTotal: roundAmount(taxes.reduce((sum, tax) => sum + tax.amount, 0)),
+    grandTotal,
+    tdsRate,
+    tds,
+    netPayable: grandTotal === null ? null : roundAmount(grandTotal - tds),
+  };
+}
+
+function validateInvoiceData(data) {
+  const invalidGstin = [data.vendorGstin, data.buyerGstin]
+    .find(g => g && !new RegExp(`^${GSTIN_PATTERN.source}$`).test(g));
+  if (invalidGstin) return `"${invalidGstin}" is not a valid GSTIN`;
+  if (!(data.tdsRate >= 0 && data.tdsRate <= 30)) return 'TDS rate must be between 0 and 30%';
+  if (!data.invoiceNumber) return 'Invoice number is required';
+  if (data.grandTotal === null || data.grandTotal <= 0) return 'Grand total is required';
+  return null;
+}
+
+// Save finance's reviewed invoice fields
+app.put('/api/shoots/:id/invoice-data', requireAuth, requirePermission('upload_invoice'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const existing = await pool.query('SELECT * FROM shoots WHERE id = $1', [req.params.id]);
+    const shoot = existing.rows[0];
+    if (!shoot) {
+      return res.status(404).json({ error: 'Shoot not found' });
+    }
+    if (!shoot.invoice_file) {
+      return res.status(409).json({ error: 'No invoice uploaded', details: 'Upload the invoice PDF before reviewing its details.', shoot });
+    }
+    if (shoot.paid) {
+      return res.status(409).json({ error: 'Invoice already paid', details: 'Paid invoices can no longer be edited.', shoot });
+    }
+
+    const data = normalizeInvoiceData(req.body || {}, await getTaxSettings());
+    const invalid = validateInvoiceData(data);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const previous = shoot.invoice_data || {};
+    const invoiceData = {
+      ...data,
+      warnings: [],
+      status: 'reviewed',
+      fileId: shoot.invoice_file.fileId || previous.fileId,
+      extractedAt: previous.extractedAt,
+      reviewedBy: req.user.email,
+      reviewedAt: new Date().toISOString(),
+    };
+    const result = await pool.query(
+      'UPDATE shoots SET invoice_data = $2 WHERE id = $1 RETURNING *',
+      [shoot.id, JSON.stringify(invoiceData)]
+    );
+    console.log('✅ Invoice reviewed:', shoot.id, invoiceData.invoiceNumber, 'by', req.user.email);
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error saving invoice data:', error.message);
+    res.status(500).json({ error: 'Failed to save invoice data', details: error.message });
+  }
+});
+
+// Run extraction again on the attached invoice (e.g. one imported before extraction existed)
+app.post('/api/shoots/:id/invoice-data/extract', requireAuth, requirePermission('upload_invoice'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const existing = await pool.query('SELECT * FROM shoots WHERE id = $1', [req.params.id]);
+    const shoot = existing.rows[0];
+    if (!shoot) {
+      return res.status(404).json({ error: 'Shoot not found' });
+    }
+    if (shoot.paid) {
+      return res.status(409).json({ error: 'Invoice already paid', details: 'Paid invoices can no longer be edited.', shoot });
+    }
+    const fileId = shoot.invoice_file && shoot.invoice_file.fileId;
+    const file = fileId ? (await pool.query('SELECT * FROM files WHERE id = $1', [fileId])).rows[0] : null;
+    if (!file) {
+      return res.status(409).json({ error: 'No stored invoice', details: 'Upload the invoice PDF first.', shoot });
+    }
+
+    const invoiceData = await extractInvoiceData(file);
+    const result = await pool.query(
+      'UPDATE shoots SET invoice_data = $2 WHERE id = $1 RETURNING *',
+      [shoot.id, JSON.stringify(invoiceData)]
+    );
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error extracting invoice data:', error.message);
+    res.status(500).json({ error: 'Failed to extract invoice data', details: error.message });
+  }
+});
+
+// ============================================
+// INVOICE MATCHING
+// ============================================
+// Three-way match before payment: the vendor's invoice (invoice_data) against
+// the approved quote (approved_amount and each line's vendorRate) and the
+// requested equipment. Differences per line are flagged for finance; an
+// invoice over the approved amount by more than the tolerance is either
+// refused or needs an override reason, depending on the settings.
+// Keep matchInvoice in sync with src/lib/invoiceMatch.ts.
+
+const DEFAULT_INVOICE_MATCH_SETTINGS = {
+  tolerancePercent: 5,
+  toleranceAmount: 500,
+  exceedAction: 'override', // 'override' = pay with a reason, 'block' = can't be paid
+};
+
+async function getInvoiceMatchSettings() {
+  const result = await pool.query("SELECT value FROM app_settings WHERE key = 'invoice_match'");
+  return { ...DEFAULT_INVOICE_MATCH_SETTINGS, ...(result.rows[0] ? result.rows[0].value : {}) };
+}
+
+const matchTokens = (name) => String(name || '').toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1);
+
+// Share of words two item names have in common (0-1)
+function nameSimilarity(a, b) {
+  const tokensA = matchTokens(a);
+  const tokensB = new Set(matchTokens(b));
+  if (tokensA.length === 0 || tokensB.size === 0) return 0;
+  const shared = tokensA.filter(t => tokensB.has(t)).length;
+  return shared / Math.max(tokensA.length, tokensB.size);
+}
+
+// shoot uses the client's camelCase shape - the server maps its row first
+function matchInvoice(shoot, settings) {
+  const equipment = shoot.equipment || [];
+  const invoice = shoot.invoiceData;
+  const approvedAmount = Number(shoot.approvedAmount ?? (shoot.vendorQuote ? shoot.vendorQuote.amount : 0)) || 0;
+  const tolerance = Math.max(approvedAmount * (settings.tolerancePercent || 0) / 100, settings.toleranceAmount || 0);
+
+  if (!invoice || invoice.status === 'failed') {
+    return {
+      status: 'unverified',
+      lines: [],
+      approvedAmount,
+      invoicedAmount: null,
+      difference: null,
+      tolerance,
+      flags: ['The invoice details could not be read - check the PDF by hand'],
+    };
+  }
+
+  const invoiceLines = invoice.lineItems || [];
+  const unmatched = new Set(invoiceLines.map((_, i) => i));
+  const lines = [];
+
+  // Best invoice line for each requested item
+  equipment.forEach(item => {
+    let best = -1;
+    let bestScore = 0.5;
+    unmatched.forEach(i => {
+      const score = nameSimilarity(item.name, invoiceLines[i].description);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    const approved = item.isNew ? null : Number(item.vendorRate) || 0;
+    if (best === -1) {
+      lines.push({ equipmentId: item.id, name: item.name, approvedQuantity: item.quantity || 1, approvedAmount: approved, invoicedAmount: null, status: 'missing' });
+      return;
+    }
+    unmatched.delete(best);
+    const line = invoiceLines[best];
+    const difference = approved === null ? null : Math.round((line.amount - approved) * 100) / 100;
+    lines.push({
+      equipmentId: item.id,
+      name: item.name,
+      invoiceDescription: line.description,
+      approvedQuantity: item.quantity || 1,
+      invoicedQuantity: line.quantity,
+      approvedAmount: approved,
+      invoicedAmount: line.amount,
+      difference,
+      status: item.isNew ? 'added_after_approval'
+        : Math.abs(difference) > 1 ? (difference > 0 ? 'over' : 'under')
+        : line.quantity !== (item.quantity || 1) ? 'quantity_changed'
+        : 'ok',
+    });
+  });
+  unmatched.forEach(i => {
+    const line = invoiceLines[i];
+    lines.push({ name: line.description, invoiceDescription: line.description, invoicedQuantity: line.quantity, approvedAmount: null, invoicedAmount: line.amount, status: 'not_requested' });
+  });
+
+  // Quotes are approved before tax, so compare the invoice's taxable value
+  const invoicedAmount = invoice.subtotal ?? invoiceLines.reduce((sum, line) => sum + line.amount, 0);
+  const difference = Math.round((invoicedAmount - approvedAmount) * 100) / 100;
+  const flags = [];
+  const count = (status) => lines.filter(l => l.status === status).length;
+  if (count('not_requested')) flags.push(`${count('not_requested')} invoiced item(s) were never requested`);
+  if (count('missing')) flags.push(`${count('missing')} requested item(s) are not on the invoice`);
+  if (count('added_after_approval')) flags.push(`${count('added_after_approval')} item(s) were added after approval`);
+  if (count('over')) flags.push(`${count('over')} item(s) invoiced above the approved rate`);
+  if (count('quantity_changed')) flags.push(`${count('quantity_changed')} item(s) invoiced in a different quantity`);
+  if (invoice.status !== 'reviewed') flags.push('Invoice details were read from the PDF but not reviewed');
+
+  return {
+    status: difference > tolerance ? 'exceeds' : flags.length > 0 ? 'flagged' : 'matched',
+    lines,
+    approvedAmount,
+    invoicedAmount,
+    difference,
+    tolerance,
+    flags,
+  };
+}
+
+const matchShootRow = (row, settings) => matchInvoice({
+  equipment: row.equipment,
+  invoiceData: row.invoice_data,
+  approvedAmount: row.approved_amount,
+  vendorQuote: row.vendor_quote,
+}, settings);
+
+// Returns { match } when the shoot can be paid, or { status, error, details }
+async function checkInvoiceMatch(shoot, overrideReason, user) {
+  const settings = await getInvoiceMatchSettings();
+  const match = matchShootRow(shoot, settings);
+  const reason = String(overrideReason || '').trim();
+  const needsOverride = match.status === 'exceeds' || match.status === 'unverified';
+
+  if (match.status === 'exceeds' && settings.exceedAction === 'block') {
+    return {
+      status: 422,
+      error: 'Invoice exceeds approval',
+      details: `The invoice is ₹${match.difference.toLocaleString('en-IN')} over the approved ₹${match.approvedAmount.toLocaleString('en-IN')} (tolerance ₹${Math.round(match.tolerance).toLocaleString('en-IN')}). Get the quote re-approved or a revised invoice.`,
+    };
+  }
+  if (needsOverride && !reason) {
+    return {
+      status: 422,
+      error: 'Override reason required',
+      details: match.status === 'exceeds'
+        ? `The invoice is ₹${match.difference.toLocaleString('en-IN')} over the approved amount - give a reason to pay it anyway.`
+        : 'The invoice could not be matched - give a reason to pay it anyway.',
+    };
+  }
+
+  return {
+    match: {
+      ...match,
+      checkedAt: new Date().toISOString(),
+      checkedBy: user.email,
+      ...(needsOverride ? { overrideReason: reason } : {}),
+    },
+  };
+}
+
+app.get('/api/settings/invoice-match', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.json(DEFAULT_INVOICE_MATCH_SETTINGS);
+  }
+
+  try {
+    res.json(await getInvoiceMatchSettings());
+  } catch (error) {
+    console.error('❌ Error fetching invoice match settings:', error.message);
+    res.status(500).json({ error: 'Failed to fetch invoice match settings', details: error.message });
+  }
+});
+
+app.put('/api/settings/invoice-match', requireAuth, requirePermission('manage_settings'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const settings = {
+    tolerancePercent: Number(req.body.tolerancePercent),
+    toleranceAmount: Number(req.body.toleranceAmount),
+    exceedAction: req.body.exceedAction,
+  };
+  if (!(settings.tolerancePercent >= 0) || !(settings.toleranceAmount >= 0)) {
+    return res.status(400).json({ error: 'Invalid invoice match settings', details: 'Tolerances must be zero or more' });
+  }
+  if (!['override', 'block'].includes(settings.exceedAction)) {
+    return res.status(400).json({ error: 'Invalid invoice match settings', details: 'exceedAction must be "override" or "block"' });
+  }
+
+  try {
+    await pool.query(`
+      INSERT INTO app_settings (key, value, updated_by, updated_at) VALUES ('invoice_match', $1, $2, NOW())
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+    `, [JSON.stringify(settings), req.user.email]);
+    console.log('✅ Invoice match settings updated by', req.user.email);
+    res.json(settings);
+  } catch (error) {
+    console.error('❌ Error saving invoice match settings:', error.message);
+    res.status(500).json({ error: 'Failed to save invoice match settings', details: error.message });
+  }
+});
+
+// ============================================
+// PAYMENTS
+// ============================================
+// Vendors are paid in instalments - advances once the quote is approved, the
+// rest against the invoice. A shoot only completes when nothing is outstanding.
+// Keep the balance rules in sync with src/lib/payments.ts.
+
+const PAYMENT_METHODS = ['bank_transfer', 'upi', 'cheque', 'cash', 'card'];
+
+// What the vendor is owed - the reviewed invoice's net payable, otherwise the
+// approved amount plus GST less TDS
+function amountDue(row, taxSettings) {
+  const invoice = row.invoice_data;
+  if (invoice && invoice.status === 'reviewed' && invoice.grandTotal) {
+    if (invoice.netPayable != null) return invoice.netPayable;
+    const preTax = invoice.subtotal != null ? invoice.subtotal : roundAmount(invoice.grandTotal - invoice.taxTotal);
+    const tds = invoice.tds != null ? invoice.tds : computeTds(preTax, invoice.tdsRate != null ? invoice.tdsRate : taxSettings.tdsRate);
+    return roundAmount(invoice.grandTotal - tds);
+  }
+
+  const quote = row.vendor_quote || {};
+  const preTax = Number(row.approved_amount != null ? row.approved_amount : quote.amount) || 0;
+  const gst = roundAmount(preTax * (quote.gstRate != null ? quote.gstRate : taxSettings.defaultGstRate) / 100);
+  return roundAmount(preTax + gst - computeTds(preTax, taxSettings.tdsRate));
+}
+
+const amountPaid = (row) => roundAmount((row.payments || []).reduce((sum, p) => sum + (Number(p.amount) || 0), 0));
+
+const outstandingBalance = (row, taxSettings) => roundAmount(amountDue(row, taxSettings) - amountPaid(row));
+
+// A payment from the request - returns { error } when it can't be recorded
+function normalizePayment(body, user) {
+  const amount = roundAmount(Number(body.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'A payment amount above zero is required' };
+  }
+  const method = PAYMENT_METHODS.includes(body.method) ? body.method : null;
+  if (!method) {
+    return { error: 'Invalid payment method', details: `Method must be one of ${PAYMENT_METHODS.join(', ')}` };
+  }
+  const reference = String(body.reference || '').trim();
+  if (!reference && method !== 'cash') {
+    return { error: 'A payment reference is required', details: 'Enter the UTR, transaction ID or cheque number' };
+  }
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(body.date || '') ? body.date : new Date().toISOString().slice(0, 10);
+
+  return {
+    id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    amount,
+    date,
+    method,
+    reference: reference || null,
+    notes: String(body.notes || '').trim(),
+    recordedBy: user.name,
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+// Changes for recording a payment. The one that clears the balance runs the
+// three-way match and completes the shoot; body.amount may be left out to
+// close a shoot whose advances already cover a smaller invoice.
+async function paymentChanges(shoot, body, user) {
+  const balance = outstandingBalance(shoot, await getTaxSettings());
+  const payments = shoot.payments || [];
+
+  let payment = null;
+  if (body.amount !== undefined || balance > 0) {
+    payment = normalizePayment(body, user);
+    if (payment.error) return payment;
+    if (payment.amount > balance) {
+      return {
+        status: 422,
+        error: 'Payment exceeds the balance',
+        details: `Only ₹${Math.max(balance, 0).toLocaleString('en-IN')} is outstanding on this shoot.`,
+      };
+    }
+  }
+
+  const remaining = roundAmount(balance - (payment ? payment.amount : 0));
+  if (remaining > 0) {
+    payment.kind = shoot.invoice_file ? 'part' : 'advance';
+    return { payments: [...payments, payment] };
+  }
+
+  if (shoot.status !== 'pending_invoice' || !shoot.invoice_file) {
+    return {
+      status: 422,
+      error: 'Invoice required',
+      details: 'The balance can only be settled against the vendor invoice - record a smaller advance for now.',
+    };
+  }
+  const check = await checkInvoiceMatch(shoot, body.overrideReason, user);
+  if (check.error) return check;
+  return {
+    status: 'completed',
+    paid: true,
+    invoice_match: check.match,
+    payments: payment ? [...payments, { ...payment, kind: 'final' }] : payments,
+  };
+}
+
+// Shoots paid before the ledger existed get one payment for what they were owed
+async function migratePaidShootPayments() {
+  const result = await pool.query("SELECT * FROM shoots WHERE paid = TRUE AND (payments IS NULL OR payments = '[]'::jsonb)");
+  if (result.rows.length === 0) return;
+
+  const taxSettings = await getTaxSettings();
+  for (const row of result.rows) {
+    const payment = {
+      id: `migrated-${row.id}`,
+      amount: amountDue(row, taxSettings),
+      date: row.invoice_match && row.invoice_match.checkedAt ? row.invoice_match.checkedAt.slice(0, 10) : null,
+      method: null,
+      reference: null,
+      notes: 'Paid before payments were recorded individually',
+      kind: 'final',
+      recordedBy: 'migration',
+      recordedAt: new Date().toISOString(),
+    };
+    await pool.query('UPDATE shoots SET payments = $2 WHERE id = $1', [row.id, JSON.stringify([payment])]);
+  }
+  console.log('✅ Recorded', result.rows.length, 'earlier payment(s) in the payments ledger');
+}
+
+// Dates of a shoot saved before start_date/end_date existed - from shoot_date and
+// the duration, otherwise read from "Oct 12-13" or "Jan 5 - Jan 7" with the year
+// that puts the date after the request. Returns YYYY-MM-DD strings or null.
+function parseLegacyShootDates(row) {
+  const key = (year, month, day) => `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  const utcKey = (date) => key(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (row.shoot_date) {
+    const stored = new Date(row.shoot_date);
+    if (isNaN(stored.getTime())) return null;
+    // shoot_date is midnight where it was saved. Midnight here reads as it is;
+    // midnight in another zone (e.g. 18:30 UTC for IST) is nearest the next UTC midnight.
+    const isLocalMidnight = stored.getHours() === 0 && stored.getMinutes() === 0 && stored.getSeconds() === 0;
+    const nearest = new Date(Math.round(stored.getTime() / DAY_MS) * DAY_MS);
+    const [year, month, day] = isLocalMidnight
+      ? [stored.getFullYear(), stored.getMonth(), stored.getDate()]
+      : [nearest.getUTCFullYear(), nearest.getUTCMonth(), nearest.getUTCDate()];
+    const days = Math.max(parseInt(row.duration, 10) || 1, 1);
+    return { start: key(year, month, day), end: utcKey(new Date(Date.UTC(year, month, day + days - 1))) };
+  }
+  const matches = [...String(row.date || '').matchAll(/([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2})(?:\s*-\s*(\d{1,2})\b)?/g)];
+  const first = matches[0];
+  const last = matches[matches.length - 1];
+  const startMonth = first ? MONTHS.indexOf(first[1].toLowerCase()) : -1;
+  const endMonth = last ? MONTHS.indexOf(last[1].toLowerCase()) : -1;
+  if (startMonth < 0 || endMonth < 0 || !row.created_at) return null;
+  const requested = new Date(row.created_at);
+  if (isNaN(requested.getTime())) return null;
+  const start = new Date(Date.UTC(requested.getUTCFullYear(), startMonth, parseInt(first[2], 10)));
+  // A December request for "Jan 5" is next year's January
+  if (start.getTime() < requested.getTime() - 60 * DAY_MS) start.setUTCFullYear(start.getUTCFullYear() + 1);
+  const end = new Date(Date.UTC(start.getUTCFullYear(), endMonth, parseInt(last[3] || last[2], 10)));
+  // "Dec 30 - Jan 2" ends the next year
+  if (end.getTime() < start.getTime()) end.setUTCFullYear(end.getUTCFullYear() + 1);
+  return { start: utcKey(start), end: utcKey(end) };
+}
+
+// Backfill start_date/end_date on shoots saved before the columns existed
+async function migrateShootDates() {
+  const result = await pool.query('SELECT id, date, duration, shoot_date, created_at FROM shoots WHERE start_date IS NULL');
+  if (result.rows.length === 0) return;
+
+  let filled = 0;
+  for (const row of result.rows) {
+    const dates = parseLegacyShootDates(row);
+    if (!dates) continue;
+    await pool.query('UPDATE shoots SET start_date = $2, end_date = $3 WHERE id = $1', [row.id, dates.start, dates.end]);
+    filled++;
+  }
+  if (filled > 0) console.log('✅ Backfilled start and end dates on', filled, 'shoot(s)');
+  if (filled < result.rows.length) {
+    console.log('⚠️', result.rows.length - filled, 'shoot(s) have no readable date and were left without one');
+  }
+}
+
+// Start and end date a shoot is saved with - older clients only send shoot_date or the label
+function normalizeShootDates(shoot) {
+  const isDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value || '');
+  if (isDate(shoot.start_date)) {
+    return { start: shoot.start_date, end: isDate(shoot.end_date) && shoot.end_date >= shoot.start_date ? shoot.end_date : shoot.start_date };
+  }
+  return parseLegacyShootDates({ ...shoot, created_at: shoot.created_at || new Date().toISOString() }) || { start: null, end: null };
+}
+
+// ============================================
+// VENDORS
+// ============================================
+// Registry of rental vendors. Shoots reference a vendor by id; vendors are
+// deactivated rather than deleted so older shoots keep resolving.
+
+// Vendor every shoot was sent to before the registry existed
+const DEFAULT_VENDOR = {
+  id: 'gopala-media',
+  name: 'Gopala Media',
+  email: process.env.DEFAULT_VENDOR_EMAIL || '',
+};
+
+// Create the default vendor and, once, assign it to the shoots saved before the
+// registry existed. Shoots imported or created later without a vendor keep none.
+async function seedDefaultVendor() {
+  const contacts = DEFAULT_VENDOR.email ? [{ name: DEFAULT_VENDOR.name, email: DEFAULT_VENDOR.email, phone: '' }] : [];
+  await pool.query(
+    'INSERT INTO vendors (id, name, contacts) VALUES ($1, $2, $3) ON CONFLICT (id) DO NOTHING',
+    [DEFAULT_VENDOR.id, DEFAULT_VENDOR.name, JSON.stringify(contacts)]
+  );
+  const firstRun = await pool.query(`
+    INSERT INTO app_settings (key, value, updated_by, updated_at) VALUES ('default_vendor_backfill', $1, 'migration', NOW())
+    ON CONFLICT (key) DO NOTHING
+    RETURNING key
+  `, [JSON.stringify({ vendorId: DEFAULT_VENDOR.id })]);
+  if (firstRun.rows.length === 0) return;
+
+  const backfilled = await pool.query('UPDATE shoots SET vendor_id = $1 WHERE vendor_id IS NULL', [DEFAULT_VENDOR.id]);
+  if (backfilled.rowCount > 0) {
+    console.log(`✅ Assigned ${backfilled.rowCount} existing shoots to ${DEFAULT_VENDOR.name}`);
+  }
+}
+
+// Get all vendors
+app.get('/api/vendors', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const result = await pool.query('SELECT * FROM vendors ORDER BY is_active DESC, name');
+    console.log(`✅ GET /api/vendors - Returned ${result.rows.length} vendors`);
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error fetching vendors:', error.message);
+    res.status(500).json({ error: 'Failed to fetch vendors', details: error.message });
+  }
+});
+
+// Create or update a vendor
+app.post('/api/vendors', requireAuth, requirePermission('manage_vendors'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const vendor = req.body;
+  if (!vendor.name || !vendor.name.trim()) {
+    return res.status(400).json({ error: 'Vendor name is required' });
+  }
+
+  try {
+    const result = await pool.query(`
+      INSERT INTO vendors (id, name, contacts, gst_number, payment_terms_days, notes, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        contacts = EXCLUDED.contacts,
+        gst_number = EXCLUDED.gst_number,
+        payment_terms_days = EXCLUDED.payment_terms_days,
+        notes = EXCLUDED.notes,
+        is_active = EXCLUDED.is_active,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      vendor.id || crypto.randomUUID(),
+      vendor.name.trim(),
+      JSON.stringify(vendor.contacts || []),
+      vendor.gst_number || null,
+      vendor.payment_terms_days ?? 30,
+      vendor.notes || null,
+      vendor.is_active !== false,
+    ]);
+
+    console.log('✅ POST /api/vendors - Saved:', result.rows[0].name);
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error saving vendor:', error.message);
+    res.status(500).json({ error: 'Failed to save vendor', details: error.message });
+  }
+});
+
+// Deactivate a vendor (shoots keep their reference)
+app.delete('/api/vendors/:id', requireAuth, requirePermission('manage_vendors'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      'UPDATE vendors SET is_active = FALSE, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [req.params.id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Vendor not found' });
+    }
+    console.log('✅ Vendor deactivated:', result.rows[0].name);
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error deactivating vendor:', error.message);
+    res.status(500).json({ error: 'Failed to deactivate vendor', details: error.message });
+  }
+});
+
+// ============================================
+// PROJECTS
+// ============================================
+// Projects / cost centres ("Varsity", "GenZ series") with a budget per month or
+// per financial-year quarter. Shoots are charged to one by project_id; budget
+// use is worked out on the client from the shoots (src/lib/budgets.ts).
+// Projects are deactivated rather than deleted so older shoots keep resolving.
+
+const BUDGET_PERIODS = ['month', 'quarter'];
+// 2025-04 for months, FY2025-26-Q1 for quarters (April-March financial year)
+const BUDGET_KEY_PATTERNS = {
+  month: /^\d{4}-(0[1-9]|1[0-2])$/,
+  quarter: /^FY\d{4}-\d{2}-Q[1-4]$/,
+};
+
+// Budgets from the request - returns { budgets } or { error }
+function parseProjectBudgets(period, input) {
+  const budgets = {};
+  for (const [key, value] of Object.entries(input || {})) {
+    if (value === null || value === '' || value === undefined) continue;
+    if (!BUDGET_KEY_PATTERNS[period].test(key)) {
+      return { error: `"${key}" is not a ${period === 'month' ? 'month (YYYY-MM)' : 'quarter (FY2025-26-Q1)'}` };
+    }
+    const amount = Number(value);
+    if (!isFinite(amount) || amount < 0) {
+      return { error: `The budget for ${key} must be a positive amount` };
+    }
+    budgets[key] = Math.round(amount * 100) / 100;
+  }
+  return { budgets };
+}
+
+// Get all projects
+app.get('/api/projects', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const result = await pool.query('SELECT * FROM projects ORDER BY is_active DESC, name');
+    console.log(`✅ GET /api/projects - Returned ${result.rows.length} projects`);
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error fetching projects:', error.message);
+    res.status(500).json({ error: 'Failed to fetch projects', details: error.message });
+  }
+});
+
+// Create or update a project and its budgets
+app.post('/api/projects', requireAuth, requirePermission('manage_projects'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const project = req.body;
+  if (!project.name || !project.name.trim()) {
+    return res.status(400).json({ error: 'Project name is required' });
+  }
+  const period = project.budget_period || 'month';
+  if (!BUDGET_PERIODS.includes(period)) {
+    return res.status(400).json({ error: 'Invalid budget period', details: 'Budgets are set per month or per quarter' });
+  }
+  const parsed = parseProjectBudgets(period, project.budgets);
+  if (parsed.error) {
+    return res.status(400).json({ error: 'Invalid budget', details: parsed.error });
+  }
+
+  try {
+    const result = await pool.query(`
+      INSERT INTO projects (id, name, code, budget_period, budgets, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        code = EXCLUDED.code,
+        budget_period = EXCLUDED.budget_period,
+        budgets = EXCLUDED.budgets,
+        is_active = EXCLUDED.is_active,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      project.id || crypto.randomUUID(),
+      project.name.trim(),
+      (project.code || '').trim() || null,
+      period,
+      JSON.stringify(parsed.budgets),
+      project.is_active !== false,
+    ]);
+
+    console.log('✅ POST /api/projects - Saved:', result.rows[0].name);
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error saving project:', error.message);
+    res.status(500).json({ error: 'Failed to save project', details: error.message });
+  }
+});
+
+// Deactivate a project (shoots keep their reference)
+app.delete('/api/projects/:id', requireAuth, requirePermission('manage_projects'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      'UPDATE projects SET is_active = FALSE, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [req.params.id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    console.log('✅ Project deactivated:', result.rows[0].name);
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error deactivating project:', error.message);
+    res.status(500).json({ error: 'Failed to deactivate project', details: error.message });
+  }
+});
+
+// ============================================
+// SHOOT IMPORT
+// ============================================
+// Admins bring in shoots from a spreadsheet. The import screen parses the CSV
+// and maps its columns; the server re-checks every row, skips shoots that
+// already exist and attaches invoice PDFs already uploaded through /api/files.
+// History may be imported in any status - paid shoots get a ledger entry.
+
+const MAX_IMPORT_ROWS = 1000;
+const APPROVED_STATUSES = ['ready_for_shoot', 'pending_invoice', 'completed'];
+
+// Shoots are the same when their names match and their dates are within a day
+// of each other (or either has no date) - keep in sync with src/lib/shootImport.ts
+const importNameKey = (name) => String(name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function isSameShoot(row, name, shootDate) {
+  if (importNameKey(row.name) !== importNameKey(name)) return false;
+  if (!row.start_date || !shootDate) return true;
+  return Math.abs(new Date(`${row.start_date}T00:00:00Z`) - new Date(`${shootDate}T00:00:00Z`)) <= 36 * 60 * 60 * 1000;
+}
+
+// Short date label shown on cards, e.g. "Jul 12" or "Jul 12 - Jul 13"
+// Keep in sync with formatShootDateLabel in src/lib/shootDates.ts
+const shootDateLabel = (start, end) => {
+  const format = (date) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return end && end !== start ? `${format(start)} - ${format(end)}` : format(start);
+};
+
+// Build a shoots row from an imported one; returns { row } or { error }
+function normalizeImportedShoot(input, { user, vendorIds, taxSettings, source }) {
+  const name = String(input.name || '').trim();
+  if (!name) return { error: 'Shoot name is required' };
+  const shootDate = /^\d{4}-\d{2}-\d{2}$/.test(input.shootDate || '') ? input.shootDate : null;
+  if (!shootDate) return { error: 'A shoot date (YYYY-MM-DD) is required' };
+  const endDate = /^\d{4}-\d{2}-\d{2}$/.test(input.endDate || '') && input.endDate >= shootDate ? input.endDate : null;
+  const status = input.status || 'completed';
+  if (!SHOOT_TRANSITIONS[status]) return { error: `Unknown status "${status}"` };
+  if (input.paid && status !== 'completed') return { error: 'Only completed shoots can be imported as paid' };
+  if (input.vendorId && !vendorIds.has(input.vendorId)) return { error: `Unknown vendor "${input.vendorId}"` };
+
+  // Keep the day count in sync with importDayCount in src/lib/shootImport.ts
+  const days = endDate ? Math.round((new Date(endDate) - new Date(shootDate)) / (24 * 60 * 60 * 1000)) + 1 : 1;
+  // The rate is per unit per day; vendorRate is the line total, as on quoted shoots
+  const equipment = (Array.isArray(input.equipment) ? input.equipment : [])
+    .filter(item => item && String(item.name || '').trim())
+    .map((item, index) => {
+      const rate = Math.max(Number(item.rate) || 0, 0);
+      const quantity = Math.max(parseInt(item.quantity, 10) || 1, 1);
+      const total = item.total != null && item.total !== '' ? Number(item.total) : NaN;
+      return {
+        id: `${input.id}-eq-${index + 1}`,
+        name: String(item.name).trim(),
+        quantity,
+        days,
+        dailyRate: rate,
+        expectedRate: rate,
+        vendorRate: roundAmount(Number.isFinite(total) && total >= 0 ? total : rate * quantity * days),
+        category: String(item.category || '').trim() || 'Equipment',
+      };
+    });
+  const amount = input.amount != null && input.amount !== ''
+    ? roundAmount(Number(input.amount))
+    : roundAmount(equipment.reduce((sum, item) => sum + item.vendorRate, 0));
+  if (!Number.isFinite(amount) || amount < 0) return { error: 'Amount must be a number' };
+
+  const requestorName = String(input.requestorName || '').trim() || user.name;
+  const nameParts = requestorName.split(/\s+/);
+  const approved = APPROVED_STATUSES.includes(status);
+  const row = {
+    id: input.id,
+    name,
+    date: shootDateLabel(shootDate, endDate),
+    duration: String(input.duration || '').trim() || `${days} ${days === 1 ? 'Day' : 'Days'}`,
+    location: String(input.location || '').trim() || 'Studio',
+    equipment,
+    status,
+    requestor: {
+      name: requestorName,
+      avatar: (nameParts.length >= 2 ? `${nameParts[0][0]}${nameParts[1][0]}` : requestorName.slice(0, 2)).toUpperCase(),
+      email: String(input.requestorEmail || '').trim() || undefined,
+    },
+    vendor_quote: amount > 0 || status !== 'new_request' ? {
+      amount,
+      gstRate: normalizeGstRate(input.gstRate, taxSettings.defaultGstRate),
+      notes: String(input.notes || '').trim(),
+    } : null,
+    approved,
+    approved_amount: approved ? amount : null,
+    paid: !!input.paid,
+    rejection_reason: String(input.rejectionReason || '').trim() || null,
+    cancellation_reason: status === 'cancelled' ? String(input.cancellationReason || '').trim() || 'Imported as cancelled' : null,
+    start_date: shootDate,
+    end_date: endDate || shootDate,
+    vendor_id: input.vendorId || null,
+    payments: [],
+    activities: [{
+      id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+      shootId: input.id,
+      action: 'Imported',
+      description: `Imported by ${user.name}${source ? ` from ${source}` : ''}`,
+      timestamp: new Date().toISOString(),
+      user: user.name,
+      emailTriggered: false,
+    }],
+  };
+
+  if (row.paid) {
+    row.payments = [{
+      id: `imported-${input.id}`,
+      amount: amountDue(row, taxSettings),
+      date: /^\d{4}-\d{2}-\d{2}$/.test(input.paidDate || '') ? input.paidDate : endDate || shootDate,
+      method: null,
+      reference: String(input.paymentReference || '').trim() || null,
+      notes: 'Imported as paid',
+      kind: 'final',
+      recordedBy: user.name,
+      recordedAt: new Date().toISOString(),
+    }];
+  }
+  return { row };
+}
+
+// Import shoots - body: { source, shoots: [...], invoices: [{ shootId, fileId }] }.
+// A row matching an existing shoot is skipped unless it is marked allowDuplicate.
+app.post('/api/shoots/import', requireAuth, requirePermission('import_data'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const inputs = Array.isArray(req.body.shoots) ? req.body.shoots : [];
+  const invoices = Array.isArray(req.body.invoices) ? req.body.invoices : [];
+  if (inputs.length === 0 && invoices.length === 0) {
+    return res.status(400).json({ error: 'Nothing to import' });
+  }
+  if (inputs.length > MAX_IMPORT_ROWS) {
+    return res.status(400).json({ error: 'Too many rows', details: `Import at most ${MAX_IMPORT_ROWS} shoots at a time` });
+  }
+
+  try {
+    const source = String(req.body.source || '').trim();
+    const [existing, vendors, taxSettings] = await Promise.all([
+      pool.query('SELECT id, name, start_date, invoice_file FROM shoots'),
+      pool.query('SELECT id FROM vendors'),
+      getTaxSettings(),
+    ]);
+    const vendorIds = new Set(vendors.rows.map(v => v.id));
+    const existingIds = new Set(existing.rows.map(r => r.id));
+    const imported = [];
+    const skipped = [];
+    const errors = [];
+
+    for (const input of inputs) {
+      const label = { id: input.id, name: input.name || '' };
+      if (!/^[\w-]{1,80}$/.test(input.id || '')) {
+        errors.push({ ...label, error: 'Each row needs an id' });
+        continue;
+      }
+      if (existingIds.has(input.id)) {
+        skipped.push({ ...label, reason: 'Already imported' });
+        continue;
+      }
+      const duplicate = !input.allowDuplicate && existing.rows.find(r => isSameShoot(r, input.name, input.shootDate));
+      if (duplicate) {
+        skipped.push({ ...label, reason: `Matches existing shoot "${duplicate.name}"` });
+        continue;
+      }
+      const { row, error } = normalizeImportedShoot(input, { user: req.user, vendorIds, taxSettings, source });
+      if (error) {
+        errors.push({ ...label, error });
+        continue;
+      }
+
+      const result = await pool.query(`
+        INSERT INTO shoots (
+          id, name, date, duration, location, equipment, status, requestor,
+          vendor_quote, approved, approved_amount, paid, rejection_reason,
+          cancellation_reason, activities, start_date, end_date, vendor_id, payments
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+        ON CONFLICT (id) DO NOTHING
+        RETURNING *
+      `, [
+        row.id, row.name, row.date, row.duration, row.location, JSON.stringify(row.equipment), row.status,
+        JSON.stringify(row.requestor), JSON.stringify(row.vendor_quote), row.approved, row.approved_amount,
+        row.paid, row.rejection_reason, row.cancellation_reason, JSON.stringify(row.activities),
+        row.start_date, row.end_date, row.vendor_id, JSON.stringify(row.payments),
+      ]);
+      if (result.rows[0]) {
+        imported.push(result.rows[0]);
+        existingIds.add(row.id);
+        existing.rows.push(result.rows[0]);
+      } else {
+        skipped.push({ ...label, reason: 'Already imported' });
+      }
+    }
+
+    // Invoice PDFs go on shoots from this import, or existing ones without an invoice
+    const importedIds = new Set(imported.map(r => r.id));
+    const updated = new Map();
+    for (const invoice of invoices) {
+      const target = existing.rows.find(r => r.id === invoice.shootId);
+      if (!target) {
+        errors.push({ id: invoice.shootId, name: '', error: 'Invoice matched to an unknown shoot' });
+        continue;
+      }
+      if (!importedIds.has(target.id) && target.invoice_file) {
+        skipped.push({ id: target.id, name: target.name, reason: 'Already has an invoice' });
+        continue;
+      }
+      const file = await pool.query('SELECT * FROM files WHERE id = $1', [invoice.fileId]);
+      if (!file.rows[0]) {
+        errors.push({ id: target.id, name: target.name, error: 'Uploaded invoice not found' });
+        continue;
+      }
+      await pool.query('UPDATE files SET shoot_id = $2 WHERE id = $1', [file.rows[0].id, target.id]);
+      const result = await pool.query(
+        'UPDATE shoots SET invoice_file = $2 WHERE id = $1 RETURNING *',
+        [target.id, JSON.stringify(toFileReference(file.rows[0]))]
+      );
+      target.invoice_file = result.rows[0].invoice_file;
+      updated.set(target.id, result.rows[0]);
+    }
+
+    const shoots = [
+      ...imported.map(r => updated.get(r.id) || r),
+      ...Array.from(updated.values()).filter(r => !importedIds.has(r.id)),
+    ];
+    console.log(`✅ Import by ${req.user.email}: ${imported.length} shoots, ${updated.size} invoices, ${skipped.length} skipped, ${errors.length} errors`);
+    res.json({ shoots, imported: imported.length, invoicesAttached: updated.size, skipped, errors });
+  } catch (error) {
+    console.error('❌ Error importing shoots:', error.message);
+    res.status(500).json({ error: 'Failed to import shoots', details: error.message });
+  }
+});
+
+// ============================================
+// VENDOR QUOTE LINKS
+// ============================================
+// Vendors never sign in. Staff mint a link per invited vendor for a shoot (or
+// a whole request group); the token is random, stored hashed, expires, can be
+// revoked and accepts one quote per shoot. Quotes are kept as bids on the
+// shoot (vendor_bids) until an approver awards one.
+
+const VENDOR_LINK_TTL_DAYS = parseInt(process.env.VENDOR_LINK_TTL_DAYS || '7', 10);
+
+// Shoots covered by a link target - a single shoot id or a request group id
+async function shootsForTarget(targetId) {
+  const result = await pool.query(
+    'SELECT * FROM shoots WHERE id = $1 OR request_group_id = $1 ORDER BY multi_shoot_index NULLS FIRST, created_at',
+    [targetId]
+  );
+  return result.rows;
+}
+
+// Append an entry to a shoot's activity log
+async function appendShootActivity(shootId, action, description) {
+  const activity = {
+    id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    shootId,
+    action,
+    description,
+    timestamp: new Date().toISOString(),
+    emailTriggered: false,
+  };
+  await pool.query(
+    "UPDATE shoots SET activities = COALESCE(activities, '[]'::jsonb) || $2::jsonb WHERE id = $1",
+    [shootId, JSON.stringify([activity])]
+  );
+}
+
+// Look up a vendor link by its raw token; returns { link } or { status, error }
+async function resolveVendorLink(token) {
+  if (!token) return { status: 401, error: 'Vendor link token is required' };
+
+  const result = await pool.query('SELECT * FROM vendor_links WHERE token_hash = $1', [hashToken(token)]);
+  const link = result.rows[0];
+  if (!link) return { status: 404, error: 'This quote link is invalid' };
+  if (link.revoked_at) return { status: 410, error: 'This quote link has been revoked' };
+  if (link.used_at) return { status: 410, error: 'A quote has already been submitted with this link' };
+  if (new Date(link.expires_at) < new Date()) return { status: 410, error: 'This quote link has expired' };
+  return { link };
+}
+
+// Middleware: vendors quoting through a link aren't signed in - the link's
+// token in the body is their credential, so reject anything without a live one
+async function requireVendorLink(req, res, next) {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const { link, status, error } = await resolveVendorLink(req.body && req.body.token);
+    if (!link) {
+      return res.status(status).json({ error });
+    }
+    req.vendorLink = link;
+    next();
+  } catch (error) {
+    console.error('❌ Vendor link validation failed:', error.message);
+    res.status(500).json({ error: 'Failed to validate vendor link', details: error.message });
+  }
+}
+
+const toPublicVendorLink = (row) => ({
+  id: row.id,
+  targetId: row.target_id,
+  vendorId: row.vendor_id,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+  openedAt: row.opened_at,
+  usedAt: row.used_at,
+  submittedShootIds: row.submitted_shoot_ids || [],
+});
+
+// What a link holder may see of a shoot - an explicit whitelist, so columns
+// added for signed-in users never leak to vendors. Of the bids, only the
+// link's own vendor's is included; competitors' amounts stay hidden.
+const toVendorLinkShoot = (row, vendorId) => {
+  const ownBid = vendorId ? (row.vendor_bids || []).find(b => b.vendorId === vendorId) : null;
+  const ownPrices = ownBid ? ownBid.itemizedPrices || [] : [];
+  const counterOffer = row.counter_offer && vendorId && row.counter_offer.vendorId === vendorId ? row.counter_offer : null;
+
+  return {
+    id: row.id,
+    name: row.name,
+    date: row.date,
+    duration: row.duration,
+    location: row.location,
+    status: row.status,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    request_group_id: row.request_group_id,
+    is_multi_shoot: row.is_multi_shoot,
+    multi_shoot_index: row.multi_shoot_index,
+    total_shoots_in_request: row.total_shoots_in_request,
+    vendor_id: vendorId || null,
+    requestor: row.requestor ? { name: row.requestor.name } : null,
+    equipment: (row.equipment || []).map(eq => {
+      const price = ownPrices.find(p => p.id === eq.id);
+      return {
+        id: eq.id,
+        name: eq.name,
+        category: eq.category,
+        quantity: eq.quantity,
+        days: eq.days,
+        scheduledDays: eq.scheduledDays,
+        vendorRate: price ? price.vendorRate : 0,
+      };
+    }),
+    vendor_bids: ownBid ? [ownBid] : [],
+    vendor_quote: ownBid ? { amount: ownBid.amount, gstRate: ownBid.gstRate, notes: ownBid.notes } : null,
+    counter_offer: counterOffer,
+  };
+};
+
+// Mint a new link inviting a vendor to quote on a shoot or request group
+// (revokes that vendor's older active link for the same target)
+app.post('/api/vendor-links', requireAuth, requirePermission('send_to_vendor'), async (req, res) => {
+  const { targetId } = req.body;
+  if (!targetId) {
+    return res.status(400).json({ error: 'targetId is required' });
+  }
+
+  try {
+    const shoots = await shootsForTarget(targetId);
+    if (shoots.length === 0) {
+      return res.status(404).json({ error: 'Shoot not found' });
+    }
+
+    // Default to the vendor the shoot is assigned to
+    const vendorId = req.body.vendorId || shoots[0].vendor_id;
+    const vendorResult = vendorId ? await pool.query('SELECT * FROM vendors WHERE id = $1', [vendorId]) : { rows: [] };
+    const vendor = vendorResult.rows[0];
+    if (!vendor) {
+      return res.status(400).json({ error: 'A vendor is required to create a quote link' });
+    }
+    if (!vendor.is_active) {
+      return res.status(409).json({ error: `${vendor.name} has been deactivated` });
+    }
+
+    await pool.query(
+      'UPDATE vendor_links SET revoked_at = NOW() WHERE target_id = $1 AND vendor_id = $2 AND revoked_at IS NULL AND used_at IS NULL',
+      [targetId, vendor.id]
+    );
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = new Date(Date.now() + VENDOR_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const result = await pool.query(`
+      INSERT INTO vendor_links (id, token_hash, target_id, vendor_id, created_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [crypto.randomUUID(), hashToken(token), targetId, vendor.id, req.user.email, expiresAt]);
+
+    for (const shoot of shoots) {
+      await appendShootActivity(shoot.id, 'Vendor Link Created', `Quote link for ${vendor.name} created by ${req.user.name}, expires ${expiresAt.toDateString()}`);
+    }
+
+    console.log('✅ Vendor link created for:', targetId, 'vendor:', vendor.name, 'by', req.user.email);
+    res.json({ ...toPublicVendorLink(result.rows[0]), token });
+  } catch (error) {
+    console.error('❌ Error creating vendor link:', error.message);
+    res.status(500).json({ error: 'Failed to create vendor link', details: error.message });
+  }
+});
+
+// List links for a shoot or request group (tokens are never returned again)
+app.get('/api/shoots/:id/vendor-links', requireAuth, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM vendor_links WHERE target_id = $1 ORDER BY created_at DESC',
+      [req.params.id]
+    );
+    res.json(result.rows.map(toPublicVendorLink));
+  } catch (error) {
+    console.error('❌ Error fetching vendor links:', error.message);
+    res.status(500).json({ error: 'Failed to fetch vendor links', details: error.message });
+  }
+});
+
+// Revoke a link
+app.post('/api/vendor-links/:id/revoke', requireAuth, requirePermission('send_to_vendor'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      'UPDATE vendor_links SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING *',
+      [req.params.id]
+    );
+    const link = result.rows[0];
+    if (!link) {
+      return res.status(404).json({ error: 'Active vendor link not found' });
+    }
+
+    const shoots = await shootsForTarget(link.target_id);
+    for (const shoot of shoots) {
+      await appendShootActivity(shoot.id, 'Vendor Link Revoked', `Quote link revoked by ${req.user.name}`);
+    }
+
+    console.log('✅ Vendor link revoked:', link.id, 'by', req.user.email);
+    res.json(toPublicVendorLink(link));
+  } catch (error) {
+    console.error('❌ Error revoking vendor link:', error.message);
+    res.status(500).json({ error: 'Failed to revoke vendor link', details: error.message });
+  }
+});
+
+// Open a link - validates the token and returns the shoots the vendor may quote on
+app.get('/api/vendor-links/:token', async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const { link, status, error } = await resolveVendorLink(req.params.token);
+    if (!link) {
+      return res.status(status).json({ error });
+    }
+
+    const shoots = await shootsForTarget(link.target_id);
+
+    // Only the first open is logged, so refreshing the page doesn't flood the activity log
+    if (!link.opened_at) {
+      await pool.query('UPDATE vendor_links SET opened_at = NOW() WHERE id = $1', [link.id]);
+      for (const shoot of shoots) {
+        await appendShootActivity(shoot.id, 'Vendor Link Opened', 'Vendor opened the quote link');
+      }
+    }
+
+    const submitted = new Set(link.submitted_shoot_ids || []);
+    const vendorId = link.vendor_id || (shoots[0] && shoots[0].vendor_id);
+    const vendor = vendorId
+      ? (await pool.query('SELECT id, name FROM vendors WHERE id = $1', [vendorId])).rows[0]
+      : null;
+    res.json({
+      link: toPublicVendorLink(link),
+      vendor: vendor || null,
+      shoots: shoots.filter(s => !submitted.has(s.id) && !s.approved).map(s => toVendorLinkShoot(s, vendorId)),
+    });
+  } catch (error) {
+    console.error('❌ Error opening vendor link:', error.message);
+    res.status(500).json({ error: 'Failed to open vendor link', details: error.message });
+  }
+});
+
+// The link is used up once every shoot it covers has a quote
+async function markVendorLinkSubmitted(link, targetShoots, shootId) {
+  const nowSubmitted = [...(link.submitted_shoot_ids || []), shootId];
+  const allSubmitted = targetShoots.every(s => nowSubmitted.includes(s.id));
+  await pool.query(
+    `UPDATE vendor_links SET submitted_shoot_ids = $2${allSubmitted ? ', used_at = NOW()' : ''} WHERE id = $1`,
+    [link.id, JSON.stringify(nowSubmitted)]
+  );
+}
+
+// Submit a vendor quote through a link - records the vendor's bid and keeps
+// the shoot's quote, vendor rates and status pointing at the lowest bid
+app.post('/api/shoots/:id/vendor-quote', requireVendorLink, async (req, res) => {
+  const { amount, notes, itemizedPrices, gstRate } = req.body;
+  if (typeof amount !== 'number' || amount < 0) {
+    return res.status(400).json({ error: 'A valid quote amount is required' });
+  }
+
+  try {
+    const link = req.vendorLink;
+    const targetShoots = await shootsForTarget(link.target_id);
+    const shoot = targetShoots.find(s => s.id === req.params.id);
+    if (!shoot) {
+      return res.status(403).json({ error: 'This quote link does not cover this shoot' });
+    }
+    const submittedIds = link.submitted_shoot_ids || [];
+    if (submittedIds.includes(shoot.id)) {
+      return res.status(409).json({ error: 'A quote for this shoot has already been submitted with this link' });
+    }
+    // Other vendors may still bid while the approver is comparing
+    if (!['new_request', 'with_vendor', 'with_swati'].includes(shoot.status) || shoot.approved) {
+      return res.status(409).json({
+        error: 'Quote cannot be submitted',
+        details: `Shoot is in status "${shoot.status}" and is not awaiting a vendor quote.`
+      });
+    }
+
+    const vendorId = link.vendor_id || shoot.vendor_id;
+    const vendorResult = vendorId ? await pool.query('SELECT id, name FROM vendors WHERE id = $1', [vendorId]) : { rows: [] };
+    const vendorName = vendorResult.rows[0] ? vendorResult.rows[0].name : 'Vendor';
+
+    const prices = (Array.isArray(itemizedPrices) ? itemizedPrices : [])
+      .map(p => ({ id: p.id, vendorRate: Number(p.vendorRate) || 0 }));
+
+    // A quote that matches the open counter-offer line for line accepts it
+    const counter = shoot.counter_offer && shoot.counter_offer.status === 'open'
+      && shoot.counter_offer.vendorId === (vendorId || null) ? shoot.counter_offer : null;
+    if (counter && matchesCounterOffer(counter, prices)) {
+      const row = await acceptCounterOffer(shoot, counter, vendorName);
+      await markVendorLinkSubmitted(link, targetShoots, shoot.id);
+      console.log('✅ POST /api/shoots/:id/vendor-quote - Counter-offer accepted for:', shoot.id, 'amount:', counter.amount);
+      return res.json(toVendorLinkShoot(row, vendorId));
+    }
+
+    const bid = {
+      id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+      vendorId: vendorId || null,
+      vendorName,
+      linkId: link.id,
+      amount,
+      gstRate: normalizeGstRate(gstRate, (await getTaxSettings()).defaultGstRate),
+      notes: notes || '',
+      itemizedPrices: prices,
+      submittedAt: new Date().toISOString(),
+    };
+    // A vendor's newer bid replaces its older one
+    const bids = [...(shoot.vendor_bids || []).filter(b => b.vendorId !== bid.vendorId), bid];
+    const lowest = bids.reduce((best, b) => (b.amount < best.amount ? b : best), bids[0]);
+
+    const equipment = (shoot.equipment || []).map(eq => {
+      const priceInfo = lowest.itemizedPrices.find(p => p.id === eq.id);
+      return priceInfo ? { ...eq, vendorRate: priceInfo.vendorRate } : eq;
+    });
+
+    const revisions = shoot.quote_revisions || [];
+    const quoteRevisions = appendQuoteRevision(revisions, buildQuoteRevision(revisions, {
+      equipment: (shoot.equipment || []).map(eq => {
+        const priceInfo = prices.find(p => p.id === eq.id);
+        return { ...eq, vendorRate: priceInfo ? priceInfo.vendorRate : 0 };
+      }),
+      amount,
+      notes,
+      vendorId,
+      vendorName,
+      bidId: bid.id,
+      submittedBy: 'vendor link',
+    }));
+
+    // Anything else from the countered vendor is a counter of their own
+    const counterOffer = counter
+      ? { ...counter, status: 'countered', respondedAt: new Date().toISOString() }
+      : shoot.counter_offer;
+
+    const result = await pool.query(`
+      UPDATE shoots SET status = 'with_swati', equipment = $2, vendor_quote = $3, vendor_bids = $4, quote_revisions = $5, counter_offer = $6,
+        status_changed_at = CASE WHEN status = 'with_swati' THEN status_changed_at ELSE NOW() END
+      WHERE id = $1
+      RETURNING *
+    `, [
+      shoot.id,
+      JSON.stringify(equipment),
+      JSON.stringify({ amount: lowest.amount, gstRate: lowest.gstRate, notes: lowest.notes, bidId: lowest.id }),
+      JSON.stringify(bids),
+      JSON.stringify(quoteRevisions),
+      JSON.stringify(counterOffer || null),
+    ]);
+    await appendShootActivity(shoot.id, counter ? 'Counter-Offer Countered' : 'Quote Submitted', counter
+      ? `${vendorName} countered with ₹${amount.toLocaleString()} (approver offered ₹${counter.amount.toLocaleString()})`
+      : `${vendorName} submitted quote via link: ₹${amount.toLocaleString()}${bids.length > 1 ? ` (${bids.length} bids)` : ''}`);
+
+    await markVendorLinkSubmitted(link, targetShoots, shoot.id);
+
+    console.log('✅ POST /api/shoots/:id/vendor-quote - Saved quote for:', shoot.id, 'amount:', amount);
+    res.json(toVendorLinkShoot(result.rows[0], vendorId));
+  } catch (error) {
+    console.error('❌ Error saving vendor quote:', error.message);
+    res.status(500).json({ error: 'Failed to save vendor quote', details: error.message });
+  }
+});
+
+// ============================================
+// COUNTER-OFFERS
+// ============================================
+// The approver proposes a rate per equipment line (or strikes a line) and the
+// shoot goes back to the vendor on their existing link. Submitting the counter
+// unchanged accepts it and approves the shoot at the negotiated total;
+// any other quote is the vendor countering again.
+
+function matchesCounterOffer(counter, prices) {
+  return counter.lines.every(line => {
+    const price = prices.find(p => p.id === line.id);
+    return line.struck
+      ? !price || price.vendorRate === 0
+      : !!price && price.vendorRate === line.counterRate;
+  });
+}
+
+async function acceptCounterOffer(shoot, counter, vendorName) {
+  const equipment = (shoot.equipment || [])
+    .filter(eq => !counter.lines.some(line => line.id === eq.id && line.struck))
+    .map(eq => {
+      const line = counter.lines.find(l => l.id === eq.id);
+      return line ? { ...eq, vendorRate: line.counterRate } : eq;
+    });
+
+  // Proposing the counter was the approver's step - a band with more approvers still needs them
+  const bands = await getApprovalBands();
+  const approvalSteps = counter.approvalSteps || [];
+  const isFinal = approvalSteps.length >= getApprovalBand(bands, counter.amount).approverRoles.length;
+
+  const revisions = shoot.quote_revisions || [];
+  const withRevision = appendQuoteRevision(revisions, buildQuoteRevision(revisions, {
+    equipment,
+    amount: counter.amount,
+    notes: counter.notes,
+    vendorId: counter.vendorId,
+    vendorName,
+    submittedBy: 'vendor link',
+  }));
+  const quoteRevisions = isFinal
+    ? closeQuoteRound(withRevision, { status: 'approved', decidedBy: `${vendorName} (accepted counter-offer)` })
+    : withRevision;
+
+  const result = await pool.query(`
+    UPDATE shoots SET status = $8, approved = $9, approved_amount = $2, equipment = $3,
+      vendor_quote = $4, vendor_id = COALESCE($5, vendor_id), vendor_bids = '[]'::jsonb,
+      quote_revisions = $6, counter_offer = $7, approval_steps = $10,
+      status_changed_at = CASE WHEN status = $8 THEN status_changed_at ELSE NOW() END
+    WHERE id = $1
+    RETURNING *
+  `, [
+    shoot.id,
+    counter.amount,
+    JSON.stringify(equipment),
+    JSON.stringify({
+      amount: counter.amount,
+      gstRate: counter.gstRate,
+      notes: counter.notes || '',
+      counterOfferId: counter.id,
+    }),
+    counter.vendorId,
+    JSON.stringify(quoteRevisions),
+    JSON.stringify({ ...counter, status: 'accepted', respondedAt: new Date().toISOString() }),
+    isFinal ? 'ready_for_shoot' : 'with_senior_approver',
+    isFinal,
+    JSON.stringify(approvalSteps),
+  ]);
+  await appendShootActivity(shoot.id, 'Counter-Offer Accepted', isFinal
+    ? `${vendorName} accepted the counter-offer. Approved amount: ₹${counter.amount.toLocaleString()}`
+    : `${vendorName} accepted the counter-offer of ₹${counter.amount.toLocaleString()}. Awaiting next approval.`);
+
+  // Let the requestor know the shoot is approved, as an approver approving it would
+  if (isFinal && shoot.requestor && shoot.requestor.email) {
+    sendEmail(shoot.requestor.email, 'quoteApproved', {
+      name: shoot.name,
+      date: shoot.date,
+      location: shoot.location,
+      equipment,
+      approvedAmount: counter.amount,
+      approvedBy: counter.proposedBy,
+      vendorName,
+      requestGroupId: shoot.request_group_id,
+      recipientName: shoot.requestor.name,
+    }, shoot.email_thread_id);
+  }
+
+  const updated = await pool.query('SELECT * FROM shoots WHERE id = $1', [shoot.id]);
+  return updated.rows[0] || result.rows[0];
+}
+
+// Send a counter-offer for a shoot's quote (or one of its bids) back to the vendor
+app.post('/api/shoots/:id/counter-offer', requireAuth, requirePermission('approve_quote'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  const { bidId, lines, notes } = req.body;
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return res.status(400).json({ error: 'Counter-offer lines are required' });
+  }
+
+  try {
+    const existing = await pool.query('SELECT * FROM shoots WHERE id = $1', [req.params.id]);
+    const shoot = existing.rows[0];
+    if (!shoot) {
+      return res.status(404).json({ error: 'Shoot not found' });
+    }
+    if (!isAwaitingApproval(shoot.status) || shoot.approved) {
+      return res.status(409).json({
+        error: 'Counter-offer cannot be sent',
+        details: `Shoot is in status "${shoot.status}" and is not awaiting approval.`
+      });
+    }
+    const approverRole = currentApprovalRole(await getApprovalBands(), shoot);
+    if (!canActOnApprovalStep(req.user, approverRole)) {
+      return res.status(403).json({ error: 'Not allowed', details: `This quote is waiting on ${approverRole} approval` });
+    }
+
+    // Counter the awarded bid if there is one, otherwise the vendor the shoot is assigned to
+    const bid = bidId ? (shoot.vendor_bids || []).find(b => b.id === bidId) : null;
+    if (bidId && !bid) {
+      return res.status(404).json({ error: 'Bid not found' });
+    }
+    const vendorId = (bid && bid.vendorId) || shoot.vendor_id || null;
+    const vendorResult = vendorId ? await pool.query('SELECT id, name FROM vendors WHERE id = $1', [vendorId]) : { rows: [] };
+    const vendorName = vendorResult.rows[0] ? vendorResult.rows[0].name : 'Vendor';
+    const quotedRates = bid ? bid.itemizedPrices : (shoot.equipment || []).map(eq => ({ id: eq.id, vendorRate: eq.vendorRate || 0 }));
+
+    const counterLines = (shoot.equipment || []).map(eq => {
+      const line = lines.find(l => l.id === eq.id) || {};
+      const quoted = quotedRates.find(p => p.id === eq.id);
+      const vendorRate = quoted ? Number(quoted.vendorRate) || 0 : 0;
+      return {
+        id: eq.id,
+        name: eq.name,
+        quantity: eq.quantity || 1,
+        vendorRate,
+        counterRate: line.struck ? 0 : Math.max(0, Number(line.counterRate ?? vendorRate) || 0),
+        struck: !!line.struck,
+      };
+    });
+    if (counterLines.every(line => line.struck)) {
+      return res.status(400).json({ error: 'A counter-offer must keep at least one line' });
+    }
+
+    const counter = {
+      id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+      vendorId,
+      vendorName,
+      bidId: bid ? bid.id : null,
+      lines: counterLines,
+      amount: counterLines.reduce((sum, line) => sum + line.counterRate, 0),
+      quotedAmount: bid ? bid.amount : (shoot.vendor_quote && shoot.vendor_quote.amount) || 0,
+      gstRate: bid ? bid.gstRate : (shoot.vendor_quote || {}).gstRate,
+      notes: notes || '',
+      proposedBy: req.user.name,
+      proposedAt: new Date().toISOString(),
+      status: 'open',
+      // Steps taken so far plus the proposer's - they carry over if the vendor accepts
+      approvalSteps: [...(shoot.approval_steps || []), {
+        step: (shoot.approval_steps || []).length + 1,
+        role: approverRole,
+        amount: counterLines.reduce((sum, line) => sum + line.counterRate, 0),
+        decidedBy: req.user.name,
+        decidedByEmail: req.user.email,
+        decidedAt: new Date().toISOString(),
+      }],
+    };
+    const quoteRevisions = closeQuoteRound(shoot.quote_revisions || [], {
+      status: 'countered', selectedBidId: counter.bidId, decidedBy: req.user.name,
+    });
+
+    // Negotiation continues with this vendor only
+    const result = await pool.query(`
+      UPDATE shoots SET status = 'with_vendor', vendor_id = COALESCE($2, vendor_id), vendor_quote = NULL,
+        vendor_bids = '[]'::jsonb, quote_revisions = $3, counter_offer = $4, approval_steps = '[]'::jsonb,
+        status_changed_at = CASE WHEN status = 'with_vendor' THEN status_changed_at ELSE NOW() END
+      WHERE id = $1
+      RETURNING *
+    `, [shoot.id, vendorId, JSON.stringify(quoteRevisions), JSON.stringify(counter)]);
+
+    // Re-open the vendor's link for this shoot so they can answer on it
+    const reopened = await pool.query(`
+      UPDATE vendor_links
+      SET used_at = NULL, submitted_shoot_ids = submitted_shoot_ids - $2::text
+      WHERE target_id IN ($2, $3) AND vendor_id IS NOT DISTINCT FROM $4
+        AND revoked_at IS NULL AND expires_at > NOW()
+      RETURNING id
+    `, [shoot.id, shoot.request_group_id || shoot.id, vendorId]);
+
+    await appendShootActivity(shoot.id, 'Counter-Offer Sent', `${req.user.name} countered ${vendorName}'s ₹${counter.quotedAmount.toLocaleString()} with ₹${counter.amount.toLocaleString()}${counterLines.some(l => l.struck) ? ` (${counterLines.filter(l => l.struck).length} line(s) removed)` : ''}`);
+
+    console.log('✅ Counter-offer sent for:', shoot.id, 'to', vendorName, 'links reopened:', reopened.rowCount);
+    const updated = await pool.query('SELECT * FROM shoots WHERE id = $1', [shoot.id]);
+    res.json({ shoot: updated.rows[0] || result.rows[0], linkReopened: reopened.rowCount > 0 });
+  } catch (error) {
+    console.error('❌ Error sending counter-offer:', error.message);
+    res.status(500).json({ error: 'Failed to send counter-offer', details: error.message });
+  }
+});
+
+// ============================================
+// SHOOT ACTIONS
+// ============================================
+// One endpoint per workflow step. Each names the statuses it can start from
+// and the changes it makes; the move then goes through the same transition,
+// approval chain and quote history rules as a save. Emails and activity
+// entries stay with the client, as for saves.
+
+// Write an action's changes - the status check in the WHERE clause catches a
+// concurrent change between reading the shoot and writing it
+async function applyShootAction(existing, changes, user) {
+  const incoming = { ...existing, ...changes };
+  const illegalMove = transitionError(existing.status, incoming.status);
+  if (illegalMove) return { status: 409, error: 'Illegal status change', details: illegalMove };
+
+  const chain = await applyApprovalChain(existing, incoming, user);
+  if (chain.error) return { status: 403, error: 'Not allowed', details: chain.error };
+  incoming.status = chain.status;
+  incoming.approved = chain.approved;
+  const quoteRevisions = await nextQuoteRevisions(existing, incoming, user);
+  const isRejection = isAwaitingApproval(existing.status) && incoming.status === 'with_vendor';
+
+  const result = await pool.query(`
+    UPDATE shoots SET status = $2, approved = $3, approved_amount = $4, equipment = $5, vendor_quote = $6,
+      vendor_id = $7, rejection_reason = $8, invoice_file = $9, paid = $10, cancellation_reason = $11,
+      quote_revisions = $12, approval_steps = $13,
+      vendor_bids = CASE WHEN $14 THEN '[]'::jsonb ELSE vendor_bids END,
+      invoice_data = $16, invoice_match = $17, payments = $18,
+      status_changed_at = CASE WHEN status = $2 THEN status_changed_at ELSE NOW() END
+    WHERE id = $1 AND status = $15
+    RETURNING *
+  `, [
+    existing.id,
+    incoming.status,
+    !!incoming.approved,
+    incoming.approved_amount,
+    JSON.stringify(incoming.equipment || []),
+    JSON.stringify(incoming.vendor_quote),
+    incoming.vendor_id || null,
+    incoming.rejection_reason,
+    JSON.stringify(incoming.invoice_file),
+    !!incoming.paid,
+    incoming.cancellation_reason,
+    JSON.stringify(quoteRevisions),
+    JSON.stringify(chain.approvalSteps),
+    isRejection,
+    existing.status,
+    JSON.stringify(incoming.invoice_data || null),
+    JSON.stringify(incoming.invoice_match || null),
+    JSON.stringify(incoming.payments || []),
+  ]);
+  if (result.rows.length === 0) {
+    return { status: 409, error: 'Illegal status change', details: 'The shoot was changed by someone else - reload to see its current state.' };
+  }
+  // A rejected round goes back to the vendors - re-open their links for this shoot so they can quote again
+  if (isRejection) {
+    await pool.query(`
+      UPDATE vendor_links
+      SET used_at = NULL, submitted_shoot_ids = submitted_shoot_ids - $2::text
+      WHERE target_id IN ($2, $3) AND revoked_at IS NULL AND expires_at > NOW()
+    `, [existing.id, existing.request_group_id || existing.id]);
+  }
+  return { shoot: result.rows[0] };
+}
+
+// Route handler for an action. buildChanges returns the columns to change, or
+// { status, error } to refuse the request.
+function shootAction(name, { from, buildChanges }) {
+  return async (req, res) => {
+    if (!process.env.DATABASE_URL) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+      });
+    }
+
+    try {
+      const existing = await pool.query('SELECT * FROM shoots WHERE id = $1', [req.params.id]);
+      const shoot = existing.rows[0];
+      if (!shoot) {
+        return res.status(404).json({ error: 'Shoot not found' });
+      }
+      if (!from.includes(shoot.status)) {
+        return res.status(409).json({
+          error: 'Illegal status change',
+          details: `Cannot ${name} a shoot in status "${shoot.status}".`,
+          shoot
+        });
+      }
+
+      const changes = await buildChanges(shoot, req.body || {}, req.user);
+      if (changes.error) {
+        return res.status(changes.status || 400).json({ error: changes.error, details: changes.details, shoot });
+      }
+      const result = await applyShootAction(shoot, changes, req.user);
+      if (result.error) {
+        const current = await pool.query('SELECT * FROM shoots WHERE id = $1', [shoot.id]);
+        console.log(`⚠️ ${req.user.email} could not ${name} ${shoot.id}: ${result.details}`);
+        return res.status(result.status).json({ error: result.error, details: result.details, shoot: current.rows[0] || shoot });
+      }
+
+      console.log(`✅ ${name}: ${shoot.id} ${shoot.status} → ${result.shoot.status}`);
+      res.json(result.shoot);
+    } catch (error) {
+      console.error(`❌ Error running ${name}:`, error.message);
+      res.status(500).json({ error: `Failed to ${name}`, details: error.message });
+    }
+  };
+}
+
+const AWAITING_APPROVAL = ['with_swati', 'with_senior_approver'];
+
+// Send a new request out for quotes
+app.post('/api/shoots/:id/send-to-vendor', requireAuth, requirePermission('send_to_vendor'), shootAction('send to vendor', {
+  from: ['new_request'],
+  buildChanges: (shoot, body) => ({ status: 'with_vendor', vendor_id: body.vendorId || shoot.vendor_id }),
+}));
+
+// Enter a vendor's quote in-app (vendors on a link use /vendor-quote)
+app.post('/api/shoots/:id/submit-quote', requireAuth, requirePermission('submit_quote'), shootAction('submit a quote for', {
+  from: ['new_request', 'with_vendor'],
+  buildChanges: async (shoot, body) => {
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { error: 'A valid quote amount is required' };
+    }
+    const prices = Array.isArray(body.itemizedPrices) ? body.itemizedPrices : [];
+    const gstRate = normalizeGstRate(body.gstRate, (await getTaxSettings()).defaultGstRate);
+    return {
+      status: 'with_swati',
+      vendor_quote: { amount, gstRate, notes: body.notes || '' },
+      equipment: (shoot.equipment || []).map(eq => {
+        const price = prices.find(p => p.id === eq.id);
+        return price ? { ...eq, vendorRate: Number(price.vendorRate) || 0 } : eq;
+      }),
+    };
+  },
+}));
+
+// Approve the quote (or award one of the bids) - the approval chain decides
+// whether this completes the approval or hands it to the next approver
+app.post('/api/shoots/:id/approve', requireAuth, requirePermission('approve_quote'), shootAction('approve', {
+  from: AWAITING_APPROVAL,
+  buildChanges: (shoot, body) => {
+    const bid = body.bidId ? (shoot.vendor_bids || []).find(b => b.id === body.bidId) : null;
+    if (body.bidId && !bid) {
+      return { status: 404, error: 'Bid not found' };
+    }
+    const vendorQuote = bid ? { amount: bid.amount, gstRate: bid.gstRate, notes: bid.notes, bidId: bid.id } : shoot.vendor_quote;
+    if (!vendorQuote) {
+      return { status: 409, error: 'No quote to approve' };
+    }
+    return {
+      status: 'ready_for_shoot',
+      vendor_quote: vendorQuote,
+      vendor_id: bid ? bid.vendorId || shoot.vendor_id : shoot.vendor_id,
+      approved_amount: vendorQuote.amount,
+      equipment: bid
+        ? (shoot.equipment || []).map(eq => {
+          const price = bid.itemizedPrices.find(p => p.id === eq.id);
+          return price ? { ...eq, vendorRate: price.vendorRate } : eq;
+        })
+        : shoot.equipment,
+    };
+  },
+}));
+
+// Reject the quote - it goes back to the vendor for a new round
+app.post('/api/shoots/:id/reject', requireAuth, requirePermission('approve_quote'), shootAction('reject', {
+  from: AWAITING_APPROVAL,
+  buildChanges: (shoot, body) => {
+    if (!body.reason || !String(body.reason).trim()) {
+      return { error: 'A rejection reason is required' };
+    }
+    return {
+      status: 'with_vendor',
+      rejection_reason: String(body.reason).trim(),
+      vendor_quote: null,
+      approved: false,
+      approved_amount: null,
+    };
+  },
+}));
+
+// Attach (or replace) the vendor's invoice with an uploaded file and read its details - does not change the status.
+// Completed shoots are paid, so their invoice can no longer be replaced
+app.post('/api/shoots/:id/upload-invoice', requireAuth, requirePermission('upload_invoice'), shootAction('upload an invoice for', {
+  from: ['ready_for_shoot', 'pending_invoice'],
+  buildChanges: async (shoot, body) => {
+    const result = body.fileId ? await pool.query('SELECT * FROM files WHERE id = $1', [body.fileId]) : { rows: [] };
+    const file = result.rows[0];
+    if (!file) {
+      return { error: 'Upload the invoice file first', details: 'fileId must reference a file uploaded to /api/files' };
+    }
+    await pool.query('UPDATE files SET shoot_id = $2 WHERE id = $1', [file.id, shoot.id]);
+    return { invoice_file: toFileReference(file), invoice_data: await extractInvoiceData(file) };
+  },
+}));
+
+// Record a payment - an advance once approved, instalments against the invoice.
+// The payment that clears the balance closes the shoot, and the invoice has to
+// pass the three-way match (or carry an override reason when it doesn't)
+app.post('/api/shoots/:id/payments', requireAuth, requirePermission('mark_paid'), shootAction('record a payment for', {
+  from: ['ready_for_shoot', 'pending_invoice'],
+  buildChanges: paymentChanges,
+}));
+
+// Settle whatever is outstanding in one payment and close the shoot
+app.post('/api/shoots/:id/mark-paid', requireAuth, requirePermission('mark_paid'), shootAction('mark paid', {
+  from: ['pending_invoice'],
+  buildChanges: async (shoot, body, user) => {
+    const balance = outstandingBalance(shoot, await getTaxSettings());
+    return paymentChanges(shoot, { ...body, amount: balance > 0 ? balance : undefined }, user);
+  },
+}));
+
+// Mark a shoot as shot before the scheduler sees its dates pass - it then waits for the vendor's invoice
+app.post('/api/shoots/:id/complete-shoot', requireAuth, requirePermission('upload_invoice'), shootAction('complete', {
+  from: ['ready_for_shoot'],
+  buildChanges: () => ({ status: 'pending_invoice' }),
+}));
+
+// Cancel a shoot that has not been shot yet
+app.post('/api/shoots/:id/cancel', requireAuth, requirePermission('edit_shoot'), shootAction('cancel', {
+  from: ['new_request', 'with_vendor', 'with_swati', 'with_senior_approver', 'ready_for_shoot', 'pending_invoice'],
+  buildChanges: (shoot, body) => ({
+    status: 'cancelled',
+    approved: false,
+    cancellation_reason: String(body.reason || '').trim() || null,
+  }),
+}));
+
+// ============================================
+// EMAIL API ENDPOINTS
+// ============================================
+
+// Send email endpoint
+app.post('/api/email/send', async (req, res) => {
+  try {
+    const { to, template, shoot, threadMessageId } = req.body;
+    
+    if (!to || !template || !shoot) {
+      return res.status(400).json({ error: 'Missing required fields: to, template, shoot' });
+    }
+    
+    if (!emailTemplates[template]) {
+      return res.status(400).json({ error: `Invalid template: ${template}. Valid templates: ${Object.keys(emailTemplates).join(', ')}` });
+    }
+    
+    // Pass threadMessageId for email threading (optional)
+    const result = await sendEmail(to, template, shoot, threadMessageId || null);
+    
+    if (result.success) {
+      // Return messageId so frontend can store it for threading
+      res.json({ success: true, messageId: result.messageId });
+    } else {
+      res.status(500).json({ success: false, error: result.error });
+    }
+  } catch (error) {
+    console.error('Email API error:', error);
+    res.status(500).json({ error: 'Failed to send email', details: error.message });
+  }
+});
+
+// Batch send emails (for multi-recipient scenarios)
+app.post('/api/email/batch', async (req, res) => {
   try {
     const { emails } = req.body; // Array of { to, template, shoot }
     
@@ -1201,28 +4302,531 @@ app.get('/api/email/status', (req, res) => {
   });
 });
 
-// Start server
-app.listen(port, async () => {
-  console.log('='.repeat(60));
-  console.log(`🚀 API Server running on port ${port}`);
-  console.log('='.repeat(60));
-  
-  const dbInitialized = await initDatabase();
-  
-  console.log('='.repeat(60));
-  if (dbInitialized) {
-    console.log('✅ Server is ready to accept requests');
-    console.log('✅ Database is connected and tables are initialized');
-  } else {
-    console.log('⚠️  WARNING: Server started but database is NOT connected');
-    console.log('⚠️  Data will NOT be saved until database is configured');
-    console.log('');
-    console.log('📋 To fix this in Railway:');
-    console.log('   1. Go to your Railway project dashboard');
-    console.log('   2. Click "+ New" → Database → Add PostgreSQL');
-    console.log('   3. Railway will automatically connect it to this service');
-    console.log('   4. Redeploy this service');
-  }
-  console.log('='.repeat(60));
+// ============================================
+// REMINDERS
+// ============================================
+// A scheduler on the server (not a browser tab) moves shoots whose dates have
+// passed to pending_invoice and chases whoever a shoot is waiting on. Each rule
+// has escalation levels; a level is recorded in the shoot's activities under a
+// reminderKey before its email goes out, so it is sent exactly once even with
+// several server instances. Only the highest level due is sent - a shoot that
+// is already 14 days late does not also get the 7-day reminder.
+
+const REMINDER_INTERVAL_MINUTES = parseInt(process.env.REMINDER_INTERVAL_MINUTES || '15', 10);
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// First and last day of a shoot (UTC midnights) - null when it has no start date
+function shootDateRange(row) {
+  if (!row.start_date) return null;
+  const start = new Date(`${row.start_date}T00:00:00Z`);
+  const end = row.end_date ? new Date(`${row.end_date}T00:00:00Z`) : start;
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+  return { start, end: end < start ? start : end };
+}
+
+// Last day of a shoot
+const shootEndDate = (row) => {
+  const range = shootDateRange(row);
+  return range ? range.end : null;
+};
+
+// A shoot is over once the day after its last day has started
+const shootEndedAt = (row) => {
+  const end = shootEndDate(row);
+  return end ? new Date(end.getTime() + DAY_MS) : null;
+};
+
+const toDate = (value) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Recipients: 'requestor', 'vendor', 'approver' (whoever the quote waits on) or a role
+// Each rule: when it applies, when the clock started, and its levels in order
+const REMINDER_RULES = [
+  {
+    id: 'quote_overdue',
+    title: 'Quote not submitted',
+    actionLabel: 'Submit the quote',
+    applies: (row) => row.status === 'with_vendor',
+    since: (row) => toDate(row.status_changed_at),
+    levels: [
+      { afterHours: 48, to: ['vendor', 'requestor'] },
+      { afterHours: 96, to: ['vendor', 'requestor', 'admin'] },
+    ],
+    message: (row, ctx) => `${ctx.vendorName || 'The vendor'} was asked for a quote for <strong>${row.name}</strong> ${ctx.waiting} ago and has not submitted one yet.`,
+  },
+  {
+    id: 'approval_pending',
+    title: 'Approval pending',
+    actionLabel: 'Review the quote',
+    applies: (row) => isAwaitingApproval(row.status),
+    // A chain that stays in one status restarts the clock at each step
+    since: (row) => {
+      const steps = row.approval_steps || [];
+      const lastStep = steps.length > 0 ? toDate(steps[steps.length - 1].decidedAt) : null;
+      const changed = toDate(row.status_changed_at);
+      return lastStep && (!changed || lastStep > changed) ? lastStep : changed;
+    },
+    levels: [
+      { afterHours: 24, to: ['approver'] },
+      { afterHours: 72, to: ['approver', 'admin'] },
+    ],
+    message: (row, ctx) => `The quote for <strong>${row.name}</strong> has been waiting on ${ctx.approverRole || 'approval'} for ${ctx.waiting}.`,
+    amount: (row) => (row.vendor_quote && row.vendor_quote.amount) || row.approved_amount,
+  },
+  {
+    id: 'invoice_missing',
+    title: 'Invoice missing',
+    template: 'invoiceReminder',
+    applies: (row) => row.status === 'pending_invoice' && !row.invoice_file,
+    since: shootEndedAt,
+    levels: [
+      { afterHours: 7 * 24, to: ['requestor', 'vendor'] },
+      { afterHours: 14 * 24, to: ['requestor', 'vendor', 'finance', 'admin'] },
+    ],
+  },
+  {
+    id: 'payment_overdue',
+    title: 'Payment overdue',
+    actionLabel: 'Record the payment',
+    applies: (row, ctx) => row.status === 'pending_invoice' && !!row.invoice_file && ctx.balance > 0,
+    // Due the vendor's payment terms after the invoice date
+    since: (row, ctx) => {
+      const invoice = row.invoice_data || {};
+      const invoiced = toDate(invoice.invoiceDate) || toDate(invoice.extractedAt) || shootEndedAt(row);
+      return invoiced ? new Date(invoiced.getTime() + ctx.paymentTermsDays * DAY_MS) : null;
+    },
+    levels: [
+      { afterHours: 0, to: ['finance'] },
+      { afterHours: 7 * 24, to: ['finance', 'founder', 'admin'] },
+    ],
+    message: (row, ctx) => `₹${ctx.balance.toLocaleString('en-IN')} is still owed to ${ctx.vendorName || 'the vendor'} for <strong>${row.name}</strong>. Payment was due ${ctx.waiting} ago.`,
+    amount: (row, ctx) => ctx.balance,
+  },
+];
+
+const formatWaiting = (ms) => {
+  const hours = Math.floor(ms / HOUR_MS);
+  if (hours < 48) return `${hours} hours`;
+  return `${Math.floor(hours / 24)} days`;
+};
+
+// Move a shoot whose dates have passed to pending_invoice (only if it is still ready_for_shoot)
+async function completeEndedShoot(row) {
+  const activity = {
+    id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    shootId: row.id,
+    action: 'Shoot Completed',
+    description: 'Shoot date has passed. Moved to Pending Invoice.',
+    timestamp: new Date().toISOString(),
+    emailTriggered: false,
+  };
+  const result = await pool.query(`
+    UPDATE shoots SET status = 'pending_invoice', status_changed_at = NOW(),
+      activities = COALESCE(activities, '[]'::jsonb) || $2::jsonb
+    WHERE id = $1 AND status = 'ready_for_shoot'
+  `, [row.id, JSON.stringify([activity])]);
+  if (result.rowCount > 0) console.log(`✅ ${row.name} (${row.id}) moved to pending_invoice - shoot date has passed`);
+}
+
+// Record a reminder level in the activities - false when it was recorded already
+async function claimReminder(row, key, activity) {
+  const result = await pool.query(`
+    UPDATE shoots SET activities = COALESCE(activities, '[]'::jsonb) || $2::jsonb
+    WHERE id = $1 AND status = $3 AND NOT COALESCE(activities, '[]'::jsonb) @> $4::jsonb
+  `, [row.id, JSON.stringify([activity]), row.status, JSON.stringify([{ reminderKey: key }])]);
+  return result.rowCount > 0;
+}
+
+// The highest level of a rule that is due on a shoot and hasn't been sent -
+// null when the rule doesn't apply, its clock hasn't run long enough or the level went out already
+function dueReminderLevel(rule, row, ctx, now) {
+  if (!rule.applies(row, ctx)) return null;
+  const since = rule.since(row, ctx);
+  if (!since) return null;
+  const elapsed = now - since.getTime();
+  let levelIndex = -1;
+  rule.levels.forEach((level, index) => {
+    if (elapsed >= level.afterHours * HOUR_MS) levelIndex = index;
+  });
+  if (levelIndex < 0) return null;
+
+  // Keys carry when the clock started, so a new round (e.g. a rejected quote) is chased again
+  const prefix = `${rule.id}:${since.toISOString()}:`;
+  const sentLevel = (row.activities || [])
+    .filter(a => typeof a.reminderKey === 'string' && a.reminderKey.startsWith(prefix))
+    .reduce((max, a) => Math.max(max, parseInt(a.reminderKey.slice(prefix.length), 10)), -1);
+  if (sentLevel >= levelIndex) return null;
+  return { levelIndex, level: rule.levels[levelIndex], elapsed, key: `${prefix}${levelIndex}` };
+}
+
+// Email addresses a reminder level goes to
+function reminderRecipients(level, row, ctx) {
+  const emails = new Set();
+  for (const recipient of level.to) {
+    if (recipient === 'requestor') {
+      if (row.requestor && row.requestor.email) emails.add(row.requestor.email);
+    } else if (recipient === 'vendor') {
+      if (ctx.vendorEmail) emails.add(ctx.vendorEmail);
+    } else {
+      const role = recipient === 'approver' ? ctx.approverRole : recipient;
+      (ctx.emailsByRole[role] || []).forEach(email => emails.add(email));
+    }
+  }
+  return [...emails];
+}
+
+// Evaluate every rule against one shoot
+async function runShootReminders(row, ctx, now) {
+  for (const rule of REMINDER_RULES) {
+    const due = dueReminderLevel(rule, row, ctx, now);
+    if (!due) continue;
+
+    const { levelIndex, level, elapsed, key } = due;
+    const isEscalation = levelIndex > 0;
+    const waiting = formatWaiting(Math.max(elapsed, 0) || (level.afterHours * HOUR_MS));
+    const title = isEscalation ? `${rule.title} - escalated` : rule.title;
+    const recipients = reminderRecipients(level, row, ctx);
+    const activity = {
+      id: `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+      shootId: row.id,
+      action: rule.id === 'invoice_missing' && !isEscalation ? 'Invoice Reminder Sent' : `${title} Reminder Sent`,
+      description: recipients.length > 0
+        ? `Automated ${isEscalation ? 'escalation' : 'reminder'} after ${waiting} - sent to ${recipients.join(', ')}`
+        : `Automated ${isEscalation ? 'escalation' : 'reminder'} after ${waiting} - no one to email`,
+      timestamp: new Date().toISOString(),
+      emailTriggered: recipients.length > 0,
+      reminderKey: key,
+    };
+    if (!(await claimReminder(row, key, activity))) continue;
+
+    const data = {
+      name: row.name,
+      date: row.date,
+      location: row.location,
+      equipment: row.equipment,
+      vendorName: ctx.vendorName,
+      requestGroupId: row.request_group_id,
+      daysSince: Math.floor(elapsed / DAY_MS),
+      reminder: {
+        title,
+        message: rule.message ? rule.message(row, { ...ctx, waiting }) : null,
+        actionLabel: rule.actionLabel,
+        amount: rule.amount ? rule.amount(row, ctx) : null,
+        waiting,
+        isEscalation,
+      },
+    };
+    for (const email of recipients) {
+      await sendEmail(email, rule.template || 'workflowReminder', data, row.email_thread_id);
+    }
+    console.log(`⏰ ${rule.id} level ${levelIndex + 1} for ${row.name} (${row.id}) → ${recipients.join(', ') || 'nobody'}`);
+  }
+}
+
+let remindersRunning = false;
+
+// One pass over the open shoots - returns how many were checked
+async function runReminders() {
+  if (remindersRunning) return 0;
+  remindersRunning = true;
+  try {
+    const now = Date.now();
+    const [shoots, vendors, users, bands, taxSettings] = await Promise.all([
+      pool.query("SELECT * FROM shoots WHERE status NOT IN ('completed', 'cancelled')"),
+      pool.query('SELECT * FROM vendors'),
+      pool.query('SELECT email, role FROM users'),
+      getApprovalBands(),
+      getTaxSettings(),
+    ]);
+    const vendorsById = new Map(vendors.rows.map(v => [v.id, v]));
+    const emailsByRole = users.rows.reduce((acc, u) => ({ ...acc, [u.role]: [...(acc[u.role] || []), u.email] }), {});
+
+    for (const row of shoots.rows) {
+      try {
+        if (row.status === 'ready_for_shoot') {
+          const endedAt = shootEndedAt(row);
+          if (endedAt && endedAt.getTime() <= now) await completeEndedShoot(row);
+          continue;
+        }
+        const vendor = vendorsById.get(row.vendor_id);
+        const contact = vendor && (vendor.contacts || []).find(c => c.email);
+        await runShootReminders(row, {
+          vendorName: vendor ? vendor.name : null,
+          vendorEmail: contact ? contact.email : null,
+          paymentTermsDays: vendor && vendor.payment_terms_days != null ? vendor.payment_terms_days : 30,
+          approverRole: isAwaitingApproval(row.status) ? currentApprovalRole(bands, row) : null,
+          balance: row.status === 'pending_invoice' ? outstandingBalance(row, taxSettings) : 0,
+          emailsByRole,
+        }, now);
+      } catch (error) {
+        console.error(`❌ Reminders failed for ${row.id}:`, error.message);
+      }
+    }
+    return shoots.rows.length;
+  } finally {
+    remindersRunning = false;
+  }
+}
+
+function startReminderScheduler() {
+  const run = () => runReminders().catch(error => console.error('❌ Reminder run failed:', error.message));
+  run();
+  setInterval(run, REMINDER_INTERVAL_MINUTES * 60 * 1000);
+  console.log(`⏰ Reminder scheduler running every ${REMINDER_INTERVAL_MINUTES} minutes`);
+}
+
+// Run the reminders now instead of waiting for the next tick (admin only)
+app.post('/api/reminders/run', requireAuth, requirePermission('manage_settings'), async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const checked = await runReminders();
+    res.json({ success: true, checked });
+  } catch (error) {
+    console.error('❌ Error running reminders:', error.message);
+    res.status(500).json({ error: 'Failed to run reminders', details: error.message });
+  }
+});
+
+// ============================================
+// CALENDAR FEED
+// ============================================
+// Each user can subscribe their calendar app to an ICS feed of the approved
+// shoots. Calendar apps can't sign in, so the feed URL carries a token of its
+// own - minting a new one retires the old URL.
+
+const CALENDAR_STATUSES = ['ready_for_shoot', 'pending_invoice', 'completed'];
+const CALENDAR_STATUS_LABELS = {
+  ready_for_shoot: 'Approved',
+  pending_invoice: 'Shot - awaiting invoice',
+  completed: 'Completed',
+};
+
+const icsDate = (date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+const icsTimestamp = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const icsText = (value) => String(value || '')
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines over 75 octets continue on the next line after a space (RFC 5545 3.1) -
+// counted in UTF-8 bytes and only broken between characters
+const foldIcsLine = (line) => {
+  const parts = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines spend one octet on the leading space
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// One all-day event per shoot - DTEND is the day after the last day
+function buildShootCalendar(rows, vendorsById, calendarName) {
+  const now = icsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ShootFlow//Shoot Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+  ];
+  for (const row of rows) {
+    const range = shootDateRange(row);
+    if (!range) continue;
+    const vendor = vendorsById.get(row.vendor_id);
+    const equipment = (row.equipment || []).map(eq => `${eq.quantity > 1 ? `${eq.quantity} x ` : ''}${eq.name}`);
+    const description = [
+      `Status: ${CALENDAR_STATUS_LABELS[row.status] || row.status}`,
+      vendor ? `Vendor: ${vendor.name}` : null,
+      row.requestor && row.requestor.name ? `Requested by: ${row.requestor.name}` : null,
+      equipment.length > 0 ? `Equipment: ${equipment.join(', ')}` : null,
+    ].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${row.id}@shootflow`,
+      `DTSTAMP:${now}`,
+      `DTSTART;VALUE=DATE:${icsDate(range.start)}`,
+      `DTEND;VALUE=DATE:${icsDate(new Date(range.end.getTime() + DAY_MS))}`,
+      `SUMMARY:${icsText(row.name)}`,
+      `LOCATION:${icsText(row.location)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      'STATUS:CONFIRMED',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Whether the signed-in user has a feed
+app.get('/api/calendar/feed', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const result = await pool.query('SELECT calendar_token_hash, calendar_token_created_at FROM users WHERE email = $1', [req.user.email]);
+    const row = result.rows[0] || {};
+    res.json({ active: !!row.calendar_token_hash, createdAt: row.calendar_token_created_at || null });
+  } catch (error) {
+    console.error('❌ Error loading calendar feed:', error.message);
+    res.status(500).json({ error: 'Failed to load calendar feed', details: error.message });
+  }
+});
+
+// Mint the signed-in user's feed token - the token is only returned now, and the previous URL stops working
+app.post('/api/calendar/feed', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const token = crypto.randomBytes(24).toString('base64url');
+    const result = await pool.query(`
+      UPDATE users SET calendar_token_hash = $2, calendar_token_created_at = NOW()
+      WHERE email = $1
+      RETURNING calendar_token_created_at
+    `, [req.user.email, hashToken(token)]);
+    console.log('📅 Calendar feed created for:', req.user.email);
+    res.json({ token, createdAt: result.rows[0].calendar_token_created_at });
+  } catch (error) {
+    console.error('❌ Error creating calendar feed:', error.message);
+    res.status(500).json({ error: 'Failed to create calendar feed', details: error.message });
+  }
 });
 
+// Stop the signed-in user's feed
+app.delete('/api/calendar/feed', requireAuth, async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    await pool.query('UPDATE users SET calendar_token_hash = NULL, calendar_token_created_at = NULL WHERE email = $1', [req.user.email]);
+    console.log('📅 Calendar feed stopped for:', req.user.email);
+    res.json({ active: false, createdAt: null });
+  } catch (error) {
+    console.error('❌ Error stopping calendar feed:', error.message);
+    res.status(500).json({ error: 'Failed to stop calendar feed', details: error.message });
+  }
+});
+
+// The feed itself - no session, the token in the URL identifies the user.
+// Vendors only see the shoots they supply.
+app.get('/api/calendar/:token.ics', async (req, res) => {
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({
+      error: 'Database not configured',
+      details: 'DATABASE_URL environment variable is not set. Please add a PostgreSQL database in Railway.'
+    });
+  }
+
+  try {
+    const userResult = await pool.query('SELECT * FROM users WHERE calendar_token_hash = $1', [hashToken(req.params.token)]);
+    const user = userResult.rows[0];
+    if (!user) {
+      return res.status(404).json({ error: 'Calendar feed not found', details: 'The feed URL was replaced or stopped. Copy the new one from ShootFlow.' });
+    }
+
+    const [shoots, vendors] = await Promise.all([
+      pool.query('SELECT * FROM shoots WHERE status = ANY($1) ORDER BY start_date NULLS LAST, created_at', [CALENDAR_STATUSES]),
+      pool.query('SELECT * FROM vendors'),
+    ]);
+    const vendorsById = new Map(vendors.rows.map(v => [v.id, v]));
+    const email = user.email.toLowerCase();
+    const rows = user.role === 'vendor'
+      ? shoots.rows.filter(row => {
+        const vendor = vendorsById.get(row.vendor_id);
+        return vendor && (vendor.contacts || []).some(c => (c.email || '').toLowerCase() === email);
+      })
+      : shoots.rows;
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="shootflow.ics"');
+    res.send(buildShootCalendar(rows, vendorsById, 'ShootFlow Shoots'));
+  } catch (error) {
+    console.error('❌ Error building calendar feed:', error.message);
+    res.status(500).json({ error: 'Failed to build calendar feed', details: error.message });
+  }
+});
+
+// Start server - the tests require this file for its helpers without listening
+if (require.main === module) {
+  app.listen(port, async () => {
+    console.log('='.repeat(60));
+    console.log(`🚀 API Server running on port ${port}`);
+    console.log('='.repeat(60));
+    
+    const dbInitialized = await initDatabase();
+    
+    console.log('='.repeat(60));
+    if (dbInitialized) {
+      console.log('✅ Server is ready to accept requests');
+      console.log('✅ Database is connected and tables are initialized');
+      startReminderScheduler();
+    } else {
+      console.log('⚠️  WARNING: Server started but database is NOT connected');
+      console.log('⚠️  Data will NOT be saved until database is configured');
+      console.log('');
+      console.log('📋 To fix this in Railway:');
+      console.log('   1. Go to your Railway project dashboard');
+      console.log('   2. Click "+ New" → Database → Add PostgreSQL');
+      console.log('   3. Railway will automatically connect it to this service');
+      console.log('   4. Redeploy this service');
+    }
+    console.log('='.repeat(60));
+  });
+}
+
+// Helpers covered by the tests in server/test
+module.exports = {
+  SHOOT_TRANSITIONS,
+  transitionError,
+  permissionsForShootUpdate,
+  toVendorLinkShoot,
+  parseInvoiceDate,
+  parseInvoiceText,
+  DEFAULT_INVOICE_MATCH_SETTINGS,
+  matchInvoice,
+  DEFAULT_TAX_SETTINGS,
+  normalizeImportedShoot,
+  REMINDER_RULES,
+  dueReminderLevel,
+  reminderRecipients,
+  parseLegacyShootDates,
+  foldIcsLine,
+  amountDue,
+  outstandingBalance,
+};
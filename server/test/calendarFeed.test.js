@@ -0,0 +1,29 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { foldIcsLine } = require('../index.js');
+
+const octets = (line) => Buffer.byteLength(line, 'utf8');
+const unfold = (folded) => folded.split('\r\n ').join('');
+
+test('foldIcsLine leaves lines of up to 75 octets alone', () => {
+  const line = `SUMMARY:${'a'.repeat(67)}`;
+  assert.equal(foldIcsLine(line), line);
+});
+
+test('foldIcsLine folds ASCII lines at 75 octets', () => {
+  const line = `DESCRIPTION:${'x'.repeat(200)}`;
+  const folded = foldIcsLine(line);
+  assert.deepEqual(folded.split('\r\n').map(octets), [75, 75, 64]);
+  assert.equal(unfold(folded), line);
+});
+
+test('foldIcsLine counts UTF-8 octets and never splits a character', () => {
+  const line = `LOCATION:${'मुंबई स्टूडियो '.repeat(8)}📷🎬`;
+  const folded = foldIcsLine(line);
+  for (const part of folded.split('\r\n')) {
+    assert.ok(octets(part) <= 75, `${octets(part)} octets`);
+    // A split surrogate pair would not survive encoding
+    assert.equal(Buffer.from(part, 'utf8').toString('utf8'), part);
+  }
+  assert.equal(unfold(folded), line);
+});
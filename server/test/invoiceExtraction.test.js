@@ -0,0 +1,71 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseInvoiceDate, parseInvoiceText } = require('../index.js');
+
+const INVOICE = `
+Great Day Works
+GSTIN: 27ABCDE1234F1Z5
+Tax Invoice
+Invoice No: GDW/31/25-26
+Invoice Date: 12/04/2025
+Bill To
+LearnApp Pvt Ltd
+GSTIN: 27FGHIJ5678K1Z2
+S.No Description HSN Qty Rate Amount
+1 Sony FX6 Camera 998439 2 5,000.00 10,000.00
+2 Aputure 600d Light 998439 3 1,500.00 4,500.00
+Sub Total 14,500.00
+CGST @ 9% 1,305.00
+SGST @ 9% 1,305.00
+Grand Total ₹ 17,110.00
+Amount in words: Seventeen thousand one hundred ten only
+`;
+
+test('parseInvoiceDate reads day-first, month-name and ISO dates', () => {
+  assert.equal(parseInvoiceDate('12/04/2025'), '2025-04-12');
+  assert.equal(parseInvoiceDate('12-Apr-25'), '2025-04-12');
+  assert.equal(parseInvoiceDate('3rd March 2025'), '2025-03-03');
+  assert.equal(parseInvoiceDate('2025-04-12'), '2025-04-12');
+  assert.equal(parseInvoiceDate('31/13/2025'), null);
+  assert.equal(parseInvoiceDate('no date here'), null);
+});
+
+test('parseInvoiceText reads the header, GSTINs, line items, taxes and totals', () => {
+  const data = parseInvoiceText(INVOICE, 'invoice.pdf');
+  assert.equal(data.invoiceNumber, 'GDW/31/25-26');
+  assert.equal(data.invoiceDate, '2025-04-12');
+  assert.equal(data.vendorGstin, '27ABCDE1234F1Z5');
+  assert.equal(data.buyerGstin, '27FGHIJ5678K1Z2');
+  assert.deepEqual(data.lineItems, [
+    { description: 'Sony FX6 Camera', hsn: '998439', quantity: 2, rate: 5000, amount: 10000 },
+    { description: 'Aputure 600d Light', hsn: '998439', quantity: 3, rate: 1500, amount: 4500 },
+  ]);
+  assert.deepEqual(data.taxes, [
+    { type: 'CGST', rate: 9, amount: 1305 },
+    { type: 'SGST', rate: 9, amount: 1305 },
+  ]);
+  assert.equal(data.subtotal, 14500);
+  assert.equal(data.taxTotal, 2610);
+  assert.equal(data.grandTotal, 17110);
+  assert.deepEqual(data.warnings, []);
+});
+
+test('parseInvoiceText falls back to the file name for the invoice number', () => {
+  const data = parseInvoiceText('Sub Total 1,000.00\nIGST 18% 180.00\nGrand Total 1,180.00', 'GDW Inv No. 31_25-26.pdf');
+  assert.equal(data.invoiceNumber, '31/25-26');
+});
+
+test('parseInvoiceText calculates a missing grand total and warns about what it could not read', () => {
+  const data = parseInvoiceText('Sub Total 1,000.00\nIGST 18% 180.00', 'scan.pdf');
+  assert.equal(data.grandTotal, 1180);
+  assert.ok(data.warnings.includes('No grand total found - calculated from the subtotal and taxes'));
+  assert.ok(data.warnings.includes('Invoice number not found'));
+  assert.ok(data.warnings.includes('Invoice date not found'));
+  assert.ok(data.warnings.includes('No line items could be read'));
+});
+
+test('parseInvoiceText warns when the line items do not add up to the subtotal', () => {
+  const text = INVOICE.replace('Sub Total 14,500.00', 'Sub Total 15,000.00');
+  const data = parseInvoiceText(text, 'invoice.pdf');
+  assert.ok(data.warnings.some(w => w.startsWith('Line items add up to')));
+});
@@ -0,0 +1,91 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { DEFAULT_INVOICE_MATCH_SETTINGS: settings, matchInvoice } = require('../index.js');
+
+// vendorRate is the quoted price of the whole line
+const approvedShoot = (invoiceData) => ({
+  approvedAmount: 14500,
+  equipment: [
+    { id: 'eq-1', name: 'Sony FX6 Camera', quantity: 2, vendorRate: 10000 },
+    { id: 'eq-2', name: 'Aputure 600d Light', quantity: 3, vendorRate: 4500 },
+  ],
+  invoiceData,
+});
+
+const invoice = (lineItems, extra = {}) => ({
+  status: 'reviewed',
+  lineItems,
+  subtotal: lineItems.reduce((sum, line) => sum + line.amount, 0),
+  ...extra,
+});
+
+test('matchInvoice matches an invoice that agrees with the approval line for line', () => {
+  const match = matchInvoice(approvedShoot(invoice([
+    { description: 'Sony FX6 Camera Body', quantity: 2, amount: 10000 },
+    { description: 'Aputure 600d Light', quantity: 3, amount: 4500 },
+  ])), settings);
+  assert.equal(match.status, 'matched');
+  assert.equal(match.difference, 0);
+  assert.deepEqual(match.lines.map(l => l.status), ['ok', 'ok']);
+  assert.deepEqual(match.flags, []);
+});
+
+test('matchInvoice flags lines over the approved rate, quantity changes and unrequested items', () => {
+  const match = matchInvoice(approvedShoot(invoice([
+    { description: 'Sony FX6 Camera', quantity: 2, amount: 10200 },
+    { description: 'Aputure 600d Light', quantity: 2, amount: 4500 },
+    { description: 'Smoke Machine', quantity: 1, amount: 100 },
+  ])), settings);
+  assert.equal(match.status, 'flagged');
+  assert.deepEqual(match.lines.map(l => l.status), ['over', 'quantity_changed', 'not_requested']);
+  assert.equal(match.lines[0].difference, 200);
+  assert.deepEqual(match.flags, [
+    '1 invoiced item(s) were never requested',
+    '1 item(s) invoiced above the approved rate',
+    '1 item(s) invoiced in a different quantity',
+  ]);
+});
+
+test('matchInvoice lists requested items missing from the invoice', () => {
+  const match = matchInvoice(approvedShoot(invoice([
+    { description: 'Sony FX6 Camera', quantity: 2, amount: 10000 },
+  ])), settings);
+  assert.equal(match.lines[1].status, 'missing');
+  assert.ok(match.flags.includes('1 requested item(s) are not on the invoice'));
+});
+
+test('matchInvoice exceeds the approval only beyond the tolerance', () => {
+  // 5% of 14,500 is 725, more than the ₹500 floor
+  const within = matchInvoice(approvedShoot(invoice([], { subtotal: 15200 })), settings);
+  assert.equal(within.tolerance, 725);
+  assert.notEqual(within.status, 'exceeds');
+
+  const over = matchInvoice(approvedShoot(invoice([], { subtotal: 15300 })), settings);
+  assert.equal(over.status, 'exceeds');
+  assert.equal(over.difference, 800);
+});
+
+test('matchInvoice does not hold items added after approval against the approved rates', () => {
+  const shoot = approvedShoot(invoice([
+    { description: 'Sony FX6 Camera', quantity: 2, amount: 10000 },
+    { description: 'Aputure 600d Light', quantity: 3, amount: 4500 },
+    { description: 'Wireless Lav Mic', quantity: 1, amount: 300 },
+  ]));
+  shoot.equipment.push({ id: 'eq-3', name: 'Wireless Lav Mic', quantity: 1, isNew: true });
+  const match = matchInvoice(shoot, settings);
+  assert.equal(match.lines[2].status, 'added_after_approval');
+  assert.equal(match.lines[2].difference, null);
+  assert.ok(match.flags.includes('1 item(s) were added after approval'));
+});
+
+test('matchInvoice cannot verify unread or unreviewed invoices', () => {
+  assert.equal(matchInvoice(approvedShoot(null), settings).status, 'unverified');
+  assert.equal(matchInvoice(approvedShoot({ status: 'failed' }), settings).status, 'unverified');
+
+  const extracted = matchInvoice(approvedShoot(invoice([
+    { description: 'Sony FX6 Camera', quantity: 2, amount: 10000 },
+    { description: 'Aputure 600d Light', quantity: 3, amount: 4500 },
+  ], { status: 'extracted' })), settings);
+  assert.equal(extracted.status, 'flagged');
+  assert.deepEqual(extracted.flags, ['Invoice details were read from the PDF but not reviewed']);
+});
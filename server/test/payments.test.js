@@ -0,0 +1,27 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { DEFAULT_TAX_SETTINGS: taxSettings, amountDue, outstandingBalance } = require('../index.js');
+
+test('amountDue is the approved amount plus GST less TDS before the invoice is reviewed', () => {
+  // ₹10,000 + 18% GST - 2% TDS
+  assert.equal(amountDue({ approved_amount: 10000, vendor_quote: { amount: 12000 } }, taxSettings), 11600);
+  // The quote's own GST rate wins over the default
+  assert.equal(amountDue({ vendor_quote: { amount: 10000, gstRate: 5 } }, taxSettings), 10300);
+});
+
+test('amountDue follows the reviewed invoice', () => {
+  const invoice = { status: 'reviewed', subtotal: 10000, taxTotal: 1800, grandTotal: 11800 };
+  assert.equal(amountDue({ approved_amount: 9000, invoice_data: invoice }, taxSettings), 11600);
+  assert.equal(amountDue({ invoice_data: { ...invoice, netPayable: 11500 } }, taxSettings), 11500);
+  // An invoice nobody has reviewed doesn't change what is owed
+  assert.equal(amountDue({ approved_amount: 9000, invoice_data: { ...invoice, status: 'extracted' } }, taxSettings), 10440);
+});
+
+test('outstandingBalance takes off every payment in the ledger', () => {
+  const row = {
+    approved_amount: 10000,
+    payments: [{ amount: 5000, kind: 'advance' }, { amount: '1600', kind: 'partial' }],
+  };
+  assert.equal(outstandingBalance(row, taxSettings), 5000);
+  assert.equal(outstandingBalance({ ...row, payments: [] }, taxSettings), 11600);
+});
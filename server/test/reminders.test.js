@@ -0,0 +1,85 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { REMINDER_RULES, dueReminderLevel, reminderRecipients } = require('../index.js');
+
+const HOUR_MS = 60 * 60 * 1000;
+const rule = (id) => REMINDER_RULES.find(r => r.id === id);
+const NOW = Date.parse('2025-07-20T12:00:00Z');
+const hoursAgo = (hours) => new Date(NOW - hours * HOUR_MS).toISOString();
+
+const ctx = {
+  vendorName: 'Lens House',
+  vendorEmail: 'rentals@lenshouse.example',
+  paymentTermsDays: 30,
+  approverRole: 'approver',
+  balance: 0,
+  emailsByRole: { approver: ['approver@example.com'], admin: ['admin@example.com'], finance: ['finance@example.com'] },
+};
+
+test('quote_overdue is not due before 48 hours with the vendor', () => {
+  const row = { status: 'with_vendor', status_changed_at: hoursAgo(47) };
+  assert.equal(dueReminderLevel(rule('quote_overdue'), row, ctx, NOW), null);
+});
+
+test('quote_overdue reminds after 48 hours and escalates after 96', () => {
+  const reminder = dueReminderLevel(rule('quote_overdue'), { status: 'with_vendor', status_changed_at: hoursAgo(50) }, ctx, NOW);
+  assert.equal(reminder.levelIndex, 0);
+  assert.equal(reminder.key, `quote_overdue:${hoursAgo(50)}:0`);
+
+  const escalation = dueReminderLevel(rule('quote_overdue'), { status: 'with_vendor', status_changed_at: hoursAgo(100) }, ctx, NOW);
+  assert.equal(escalation.levelIndex, 1);
+});
+
+test('a level that was sent for the same round is not sent again', () => {
+  const since = hoursAgo(50);
+  const row = { status: 'with_vendor', status_changed_at: since, activities: [{ reminderKey: `quote_overdue:${since}:0` }] };
+  assert.equal(dueReminderLevel(rule('quote_overdue'), row, ctx, NOW), null);
+
+  // A new round (the quote went back to the vendor) starts a new clock
+  const newRound = { ...row, status_changed_at: hoursAgo(49) };
+  assert.equal(dueReminderLevel(rule('quote_overdue'), newRound, ctx, NOW).levelIndex, 0);
+});
+
+test('rules only apply to shoots in their status', () => {
+  const row = { status: 'with_swati', status_changed_at: hoursAgo(200) };
+  assert.equal(dueReminderLevel(rule('quote_overdue'), row, ctx, NOW), null);
+  assert.equal(dueReminderLevel(rule('approval_pending'), row, ctx, NOW).levelIndex, 1);
+});
+
+test('approval_pending restarts its clock at each approval step', () => {
+  const row = {
+    status: 'with_swati',
+    status_changed_at: hoursAgo(100),
+    approval_steps: [{ decidedAt: hoursAgo(10) }],
+  };
+  assert.equal(dueReminderLevel(rule('approval_pending'), row, ctx, NOW), null);
+});
+
+test('invoice_missing counts from the day after the shoot ends', () => {
+  const row = { status: 'pending_invoice', start_date: '2025-07-10', end_date: '2025-07-12' };
+  // Ended at midnight on Jul 13 - 7 days later is Jul 20 00:00
+  assert.equal(dueReminderLevel(rule('invoice_missing'), row, ctx, NOW).levelIndex, 0);
+  assert.equal(dueReminderLevel(rule('invoice_missing'), { ...row, end_date: '2025-07-14' }, ctx, NOW), null);
+  assert.equal(dueReminderLevel(rule('invoice_missing'), { ...row, invoice_file: { name: 'inv.pdf' } }, ctx, NOW), null);
+});
+
+test('payment_overdue is due once the payment terms after the invoice date have passed', () => {
+  const row = { status: 'pending_invoice', invoice_file: { name: 'inv.pdf' }, invoice_data: { invoiceDate: '2025-06-15' } };
+  assert.equal(dueReminderLevel(rule('payment_overdue'), row, { ...ctx, balance: 5000 }, NOW).levelIndex, 0);
+  assert.equal(dueReminderLevel(rule('payment_overdue'), row, { ...ctx, balance: 5000, paymentTermsDays: 45 }, NOW), null);
+  assert.equal(dueReminderLevel(rule('payment_overdue'), row, ctx, NOW), null);
+});
+
+test('reminderRecipients resolves the requestor, vendor and roles without duplicates', () => {
+  const row = { requestor: { name: 'Priya', email: 'priya@example.com' } };
+  assert.deepEqual(
+    reminderRecipients({ to: ['vendor', 'requestor', 'admin'] }, row, ctx),
+    ['rentals@lenshouse.example', 'priya@example.com', 'admin@example.com']
+  );
+  // 'approver' is whoever the quote waits on
+  assert.deepEqual(
+    reminderRecipients({ to: ['approver', 'admin'] }, row, { ...ctx, approverRole: 'admin' }),
+    ['admin@example.com']
+  );
+  assert.deepEqual(reminderRecipients({ to: ['vendor', 'founder'] }, {}, { ...ctx, vendorEmail: null }), []);
+});
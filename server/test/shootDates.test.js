@@ -0,0 +1,46 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseLegacyShootDates } = require('../index.js');
+
+test('parseLegacyShootDates spreads shoot_date over the duration', () => {
+  assert.deepEqual(
+    parseLegacyShootDates({ shoot_date: new Date('2025-10-12T00:00:00Z'), duration: '3 Days' }),
+    { start: '2025-10-12', end: '2025-10-14' }
+  );
+  assert.deepEqual(
+    parseLegacyShootDates({ shoot_date: '2025-12-31T00:00:00Z', duration: '2 Days' }),
+    { start: '2025-12-31', end: '2026-01-01' }
+  );
+});
+
+test('parseLegacyShootDates keeps the day of a shoot_date saved at midnight in another zone', () => {
+  // Midnight Oct 12 in India is 18:30 UTC on Oct 11
+  assert.deepEqual(
+    parseLegacyShootDates({ shoot_date: new Date('2025-10-11T18:30:00Z'), duration: '1 Day' }),
+    { start: '2025-10-12', end: '2025-10-12' }
+  );
+  // Midnight Oct 12 in New York is 04:00 UTC on Oct 12
+  assert.deepEqual(
+    parseLegacyShootDates({ shoot_date: new Date('2025-10-12T04:00:00Z'), duration: '2 Days' }),
+    { start: '2025-10-12', end: '2025-10-13' }
+  );
+});
+
+test('parseLegacyShootDates reads the card label with the year of the request', () => {
+  const created_at = new Date('2025-09-20T10:00:00Z');
+  assert.deepEqual(parseLegacyShootDates({ date: 'Oct 12-13', created_at }), { start: '2025-10-12', end: '2025-10-13' });
+  assert.deepEqual(parseLegacyShootDates({ date: 'Oct 12', created_at }), { start: '2025-10-12', end: '2025-10-12' });
+  assert.deepEqual(parseLegacyShootDates({ date: 'Oct 30 - Nov 2', created_at }), { start: '2025-10-30', end: '2025-11-02' });
+});
+
+test('parseLegacyShootDates rolls dates over the new year', () => {
+  const created_at = new Date('2025-12-10T10:00:00Z');
+  assert.deepEqual(parseLegacyShootDates({ date: 'Jan 5 - Jan 7', created_at }), { start: '2026-01-05', end: '2026-01-07' });
+  assert.deepEqual(parseLegacyShootDates({ date: 'Dec 30 - Jan 2', created_at }), { start: '2025-12-30', end: '2026-01-02' });
+});
+
+test('parseLegacyShootDates returns null when there is nothing to read', () => {
+  assert.equal(parseLegacyShootDates({ date: 'TBD', created_at: new Date() }), null);
+  assert.equal(parseLegacyShootDates({ date: 'Oct 12' }), null);
+  assert.equal(parseLegacyShootDates({ shoot_date: 'not a date' }), null);
+});
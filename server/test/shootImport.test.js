@@ -0,0 +1,77 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { DEFAULT_TAX_SETTINGS, normalizeImportedShoot } = require('../index.js');
+
+const options = {
+  user: { name: 'Asha Admin', email: 'asha@example.com' },
+  vendorIds: new Set(['vendor-1']),
+  taxSettings: DEFAULT_TAX_SETTINGS,
+  source: 'shoots.csv',
+};
+
+const input = (overrides = {}) => ({
+  id: 'import-1-2',
+  name: 'Founder Interview',
+  shootDate: '2025-07-12',
+  endDate: '2025-07-13',
+  status: 'completed',
+  vendorId: 'vendor-1',
+  equipment: [
+    { name: 'Sony FX6', quantity: 2, rate: 2500 },
+    { name: 'Lav Mic', quantity: 1, rate: 400, total: 1000 },
+  ],
+  ...overrides,
+});
+
+test('normalizeImportedShoot builds a shoot row with its dates and label', () => {
+  const { row, error } = normalizeImportedShoot(input({ amount: 12000 }), options);
+  assert.equal(error, undefined);
+  assert.equal(row.name, 'Founder Interview');
+  assert.equal(row.start_date, '2025-07-12');
+  assert.equal(row.end_date, '2025-07-13');
+  assert.equal(row.date, 'Jul 12 - Jul 13');
+  assert.equal(row.duration, '2 Days');
+  assert.equal(row.approved, true);
+  assert.equal(row.approved_amount, 12000);
+  assert.equal(row.vendor_quote.gstRate, 18);
+  assert.equal(row.activities[0].description, 'Imported by Asha Admin from shoots.csv');
+});
+
+test('normalizeImportedShoot stores vendor rates as line totals over the shoot days', () => {
+  const { row } = normalizeImportedShoot(input(), options);
+  const [camera, mic] = row.equipment;
+  // 2 units at ₹2,500 a day for 2 days
+  assert.equal(camera.dailyRate, 2500);
+  assert.equal(camera.expectedRate, 2500);
+  assert.equal(camera.days, 2);
+  assert.equal(camera.vendorRate, 10000);
+  // A line total from the CSV is kept as it is
+  assert.equal(mic.vendorRate, 1000);
+  // Without an amount the line totals add up
+  assert.equal(row.vendor_quote.amount, 11000);
+});
+
+test('normalizeImportedShoot records a paid shoot as one final payment of the amount due', () => {
+  const { row } = normalizeImportedShoot(input({ amount: 10000, paid: true, paidDate: '2025-08-01' }), options);
+  // ₹10,000 + 18% GST - 2% TDS
+  assert.equal(row.payments.length, 1);
+  assert.equal(row.payments[0].amount, 11600);
+  assert.equal(row.payments[0].date, '2025-08-01');
+  assert.equal(row.payments[0].kind, 'final');
+});
+
+test('normalizeImportedShoot refuses rows it cannot import', () => {
+  assert.equal(normalizeImportedShoot(input({ name: ' ' }), options).error, 'Shoot name is required');
+  assert.equal(normalizeImportedShoot(input({ shootDate: '12/07/2025' }), options).error, 'A shoot date (YYYY-MM-DD) is required');
+  assert.equal(normalizeImportedShoot(input({ status: 'archived' }), options).error, 'Unknown status "archived"');
+  assert.equal(normalizeImportedShoot(input({ status: 'pending_invoice', paid: true }), options).error, 'Only completed shoots can be imported as paid');
+  assert.equal(normalizeImportedShoot(input({ vendorId: 'vendor-9' }), options).error, 'Unknown vendor "vendor-9"');
+  assert.equal(normalizeImportedShoot(input({ amount: 'lots' }), options).error, 'Amount must be a number');
+});
+
+test('normalizeImportedShoot treats an end date before the start as a one-day shoot', () => {
+  const { row } = normalizeImportedShoot(input({ endDate: '2025-07-10' }), options);
+  assert.equal(row.end_date, '2025-07-12');
+  assert.equal(row.duration, '1 Day');
+  assert.equal(row.equipment[0].vendorRate, 5000);
+});
@@ -0,0 +1,78 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { SHOOT_TRANSITIONS, transitionError, permissionsForShootUpdate } = require('../index.js');
+
+test('transitionError allows saves that keep the status', () => {
+  assert.equal(transitionError('with_vendor', 'with_vendor'), null);
+  assert.equal(transitionError('completed', undefined), null);
+});
+
+test('transitionError allows every move in the workflow', () => {
+  for (const [from, targets] of Object.entries(SHOOT_TRANSITIONS)) {
+    for (const to of targets) {
+      assert.equal(transitionError(from, to), null, `${from} -> ${to}`);
+    }
+  }
+});
+
+test('transitionError refuses moves outside the workflow', () => {
+  assert.match(transitionError('completed', 'with_vendor'), /cannot move to "with_vendor"/);
+  assert.match(transitionError('new_request', 'ready_for_shoot'), /cannot move/);
+  assert.match(transitionError('cancelled', 'new_request'), /cannot move/);
+  assert.match(transitionError('completed', 'cancelled'), /cannot move/);
+});
+
+test('transitionError refuses unknown statuses', () => {
+  assert.equal(transitionError('new_request', 'archived'), 'Unknown status "archived"');
+});
+
+test('permissionsForShootUpdate needs create_request for new shoots', () => {
+  assert.deepEqual(permissionsForShootUpdate(undefined, { status: 'new_request' }), ['create_request']);
+});
+
+test('permissionsForShootUpdate maps every status change to the permission of its action', () => {
+  const shoot = (status) => ({ status, paid: false, approved_amount: null });
+  assert.deepEqual(permissionsForShootUpdate(shoot('new_request'), shoot('with_vendor')), ['send_to_vendor']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('new_request'), shoot('with_swati')), ['submit_quote']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('with_vendor'), shoot('with_swati')), ['submit_quote']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('with_swati'), shoot('with_vendor')), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('with_swati'), shoot('ready_for_shoot')), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('with_senior_approver'), shoot('ready_for_shoot')), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('ready_for_shoot'), shoot('pending_invoice')), ['upload_invoice']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('ready_for_shoot'), shoot('cancelled')), ['edit_shoot']);
+  assert.deepEqual(permissionsForShootUpdate(shoot('pending_invoice'), shoot('cancelled')), ['edit_shoot']);
+
+  for (const [from, targets] of Object.entries(SHOOT_TRANSITIONS)) {
+    for (const to of targets) {
+      assert.equal(permissionsForShootUpdate(shoot(from), shoot(to)).length, 1, `${from} -> ${to} has no permission`);
+    }
+  }
+});
+
+test('permissionsForShootUpdate guards payments, approved amounts and prices on saves without a status change', () => {
+  const existing = {
+    status: 'pending_invoice',
+    paid: false,
+    approved_amount: 1000,
+    vendor_quote: { amount: 1000, gstRate: 18 },
+    equipment: [{ id: 'cam-1', name: 'FX6', vendorRate: 1000 }],
+  };
+  assert.deepEqual(permissionsForShootUpdate(existing, { ...existing, paid: true }), ['mark_paid']);
+  assert.deepEqual(permissionsForShootUpdate(existing, { ...existing, approved_amount: 2000 }), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(existing, { ...existing, vendor_quote: { amount: 2000, gstRate: 18 } }), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(existing, { ...existing, vendor_quote: null }), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(existing, { ...existing, equipment: [{ id: 'cam-1', name: 'FX6', vendorRate: 1 }] }), ['approve_quote']);
+  assert.deepEqual(permissionsForShootUpdate(existing, { ...existing, location: 'Studio B' }), []);
+});
+
+test('permissionsForShootUpdate needs every permission when a save changes the status and a guarded field', () => {
+  const existing = { status: 'ready_for_shoot', paid: false, approved_amount: 1000 };
+  assert.deepEqual(
+    permissionsForShootUpdate(existing, { ...existing, status: 'pending_invoice', approved_amount: 5000 }).sort(),
+    ['approve_quote', 'upload_invoice']
+  );
+  assert.deepEqual(
+    permissionsForShootUpdate(existing, { ...existing, status: 'cancelled', paid: true }).sort(),
+    ['edit_shoot', 'mark_paid']
+  );
+});
@@ -0,0 +1,72 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { toVendorLinkShoot } = require('../index.js');
+
+const bid = (vendorId, amount, rate) => ({
+  id: `bid-${vendorId}`,
+  vendorId,
+  vendorName: vendorId,
+  amount,
+  gstRate: 18,
+  notes: `${vendorId} notes`,
+  itemizedPrices: [{ id: 'cam-1', vendorRate: rate }],
+});
+
+const row = {
+  id: 'shoot-1',
+  name: 'Launch film',
+  date: 'Mar 4, 2026',
+  location: 'Studio A',
+  status: 'with_swati',
+  start_date: '2026-03-04',
+  end_date: '2026-03-04',
+  requestor: { name: 'Asha', email: 'asha@example.com', phone: '+91 98000 00000' },
+  equipment: [{ id: 'cam-1', name: 'FX6', quantity: 2, scheduledDays: ['2026-03-04'], expectedRate: 4000, vendorRate: 3000 }],
+  vendor_bids: [bid('vendor-a', 9000, 4500), bid('vendor-b', 6000, 3000)],
+  vendor_quote: { amount: 6000, gstRate: 18, bidId: 'bid-vendor-b' },
+  quote_revisions: [{ id: 'rev-1', vendorId: 'vendor-b', amount: 6000 }],
+  counter_offer: { id: 'co-1', vendorId: 'vendor-b', status: 'open', amount: 5500, lines: [] },
+  approval_steps: [{ role: 'approver', decidedBy: 'Swati' }],
+  approved_amount: 6000,
+  invoice_data: { grandTotal: 7080 },
+  payments: [{ amount: 1000 }],
+};
+
+test('toVendorLinkShoot never shows a competing vendor\'s bid', () => {
+  const shoot = toVendorLinkShoot(row, 'vendor-a');
+  const json = JSON.stringify(shoot);
+
+  assert.deepEqual(shoot.vendor_bids.map(b => b.vendorId), ['vendor-a']);
+  assert.deepEqual(shoot.vendor_quote, { amount: 9000, gstRate: 18, notes: 'vendor-a notes' });
+  assert.equal(shoot.equipment[0].vendorRate, 4500);
+  assert.equal(shoot.counter_offer, null);
+  assert.ok(!json.includes('vendor-b'), 'the other vendor appears in the response');
+  assert.ok(!json.includes('6000'), 'the other vendor\'s amount appears in the response');
+});
+
+test('toVendorLinkShoot leaves out internal shoot fields', () => {
+  const shoot = toVendorLinkShoot(row, 'vendor-a');
+
+  for (const field of ['quote_revisions', 'approval_steps', 'approved_amount', 'invoice_data', 'payments']) {
+    assert.ok(!(field in shoot), `${field} is exposed`);
+  }
+  assert.deepEqual(shoot.requestor, { name: 'Asha' });
+  assert.deepEqual(Object.keys(shoot.equipment[0]).sort(), ['category', 'days', 'id', 'name', 'quantity', 'scheduledDays', 'vendorRate']);
+});
+
+test('toVendorLinkShoot includes the vendor\'s own bid and counter-offer', () => {
+  const shoot = toVendorLinkShoot(row, 'vendor-b');
+
+  assert.deepEqual(shoot.vendor_bids.map(b => b.id), ['bid-vendor-b']);
+  assert.equal(shoot.counter_offer.id, 'co-1');
+  assert.equal(shoot.equipment[0].vendorRate, 3000);
+});
+
+test('toVendorLinkShoot shows no bids to a link without a vendor', () => {
+  const shoot = toVendorLinkShoot(row, null);
+
+  assert.deepEqual(shoot.vendor_bids, []);
+  assert.equal(shoot.vendor_quote, null);
+  assert.equal(shoot.counter_offer, null);
+  assert.equal(shoot.equipment[0].vendorRate, 0);
+});
@@ -7,19 +7,38 @@ import { CreateRequestForm } from './components/CreateRequestForm';
 import { FinanceDashboard } from './components/FinanceDashboard';
 import { EquipmentCatalogManager, CatalogItem } from './components/EquipmentCatalogManager';
 import { ArchiveScreen } from './components/ArchiveScreen';
+import { ShootCalendar } from './components/ShootCalendar';
+import { VendorManager } from './components/VendorManager';
+import { ShootImportScreen } from './components/ShootImportScreen';
 import { NotificationToast, EmailThreadModal, EmailSentModal, type Notification, type Activity, type EmailMessage } from './components/NotificationSystem';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { LoginPage } from './components/LoginPage';
 import { EditShootForm } from './components/EditShootForm';
 import { isSupabaseConfigured } from './lib/supabase';
 import { DEFAULT_RECIPIENTS } from './services/emailService';
-
-// API URL Configuration
-// In production (Railway), use the production API
-// In development (localhost), use local API
-const API_URL = import.meta.env.DEV 
-  ? 'http://localhost:3001' 
-  : 'https://divine-nature-production-c49a.up.railway.app';
+import { API_URL, authHeaders, getAuthToken } from './lib/api';
+import { canAccessView, ROLE_LABELS } from './lib/permissions';
+import { openVendorLink } from './services/vendorLinkService';
+import { sendCounterOffer, type CounterOfferLine } from './services/quoteService';
+import { runShootAction, ShootStatusError, type ShootAction } from './services/shootService';
+import {
+  fetchApprovalBands,
+  fetchInvoiceMatchSettings,
+  fetchTaxSettings,
+  saveApprovalBands,
+  saveInvoiceMatchSettings,
+  saveTaxSettings,
+} from './services/settingsService';
+import { uploadFile, type StoredFileRef } from './services/fileService';
+import { reextractInvoiceData, saveInvoiceData, type InvoiceData, type InvoiceFields } from './services/invoiceService';
+import { DEFAULT_APPROVAL_BANDS, getApprovalChain, isAwaitingApproval, type ApprovalBand, type ApprovalStep } from './lib/approvals';
+import { DEFAULT_INVOICE_MATCH_SETTINGS, type InvoiceMatch, type InvoiceMatchSettings } from './lib/invoiceMatch';
+import { DEFAULT_TAX_SETTINGS, type TaxSettings } from './lib/tax';
+import { PAYMENT_KIND_LABELS, type Payment, type PaymentInput } from './lib/payments';
+import { formatShootDateLabel } from './lib/shootDates';
+import { deactivateVendor, fetchVendors, getVendorEmail, mapDbVendor, saveVendor, type Vendor } from './services/vendorService';
+import { deactivateProject, fetchProjects, saveProject, type Project } from './services/projectService';
+import type { ImportResult } from './services/importService';
 
 console.log('🔗 API:', API_URL, '| Mode:', import.meta.env.DEV ? 'DEV' : 'PROD');
 
@@ -27,6 +46,7 @@ export type ShootStatus =
   | 'new_request' 
   | 'with_vendor' 
   | 'with_swati' 
+  | 'with_senior_approver' // Approved by the first approver, waiting on the next one in the chain
   | 'ready_for_shoot' 
   | 'pending_invoice'
   | 'completed'
@@ -41,6 +61,56 @@ export interface Equipment {
   expectedRate?: number;  // Rate from catalog (requestor's expected price)
   vendorRate?: number;    // Rate quoted by vendor
   isNew?: boolean;        // Flag to indicate item was added after approval
+  days?: number;          // Days the item is charged for
+  scheduledDays?: string[]; // YYYY-MM-DD days it's needed - every day of the shoot when absent
+}
+
+// A quote one invited vendor submitted through their link (competitive quoting)
+export interface VendorBid {
+  id: string;
+  vendorId?: string | null;
+  vendorName: string;
+  linkId?: string;
+  amount: number; // Taxable value - GST is on top
+  gstRate?: number;
+  notes: string;
+  itemizedPrices: { id: string; vendorRate: number }[];
+  submittedAt: string;
+}
+
+// One submitted quote in a shoot's history - kept when a round is rejected
+export interface QuoteRevision {
+  id: string;
+  round: number;
+  vendorId?: string | null;
+  vendorName: string;
+  bidId?: string | null;
+  amount: number;
+  notes: string;
+  itemizedPrices: { id: string; name: string; quantity: number; vendorRate: number }[];
+  submittedAt: string;
+  submittedBy?: string;
+  status: 'pending' | 'superseded' | 'rejected' | 'approved' | 'not_selected' | 'countered';
+  rejectionReason?: string;
+  decidedAt?: string;
+  decidedBy?: string;
+}
+
+// The approver's per-line counter to a vendor quote
+export interface CounterOffer {
+  id: string;
+  vendorId?: string | null;
+  vendorName: string;
+  bidId?: string | null;
+  lines: { id: string; name: string; quantity: number; vendorRate: number; counterRate: number; struck: boolean }[];
+  amount: number;
+  quotedAmount: number;
+  gstRate?: number; // Carried over from the quote being countered
+  notes: string;
+  proposedBy: string;
+  proposedAt: string;
+  status: 'open' | 'accepted' | 'countered';
+  respondedAt?: string;
 }
 
 export interface Shoot {
@@ -57,16 +127,22 @@ export interface Shoot {
     email?: string;
   };
   vendorQuote?: {
-    amount: number;
+    amount: number; // Taxable value - GST is on top
+    gstRate?: number; // Percent the vendor charges
     notes: string;
+    bidId?: string; // Bid the quote came from, when several vendors quoted
+    counterOfferId?: string; // Set when the vendor accepted a counter-offer
   };
+  vendorBids?: VendorBid[];
+  quoteRevisions?: QuoteRevision[];
+  counterOffer?: CounterOffer | null;
+  approvalSteps?: ApprovalStep[]; // Approvals taken on the quote being decided
   approved?: boolean;
   approvedAmount?: number;
-  invoiceFile?: {
-    name: string;
-    url: string;
-    data?: string; // Base64 encoded PDF data
-  };
+  invoiceFile?: StoredFileRef; // The PDF itself lives in file storage
+  invoiceData?: InvoiceData; // Details read from the invoice PDF
+  invoiceMatch?: InvoiceMatch; // Three-way match taken when the invoice was paid
+  payments?: Payment[]; // Advances and instalments - paid once they clear the balance
   paid?: boolean;
   rejectionReason?: string;
   approvalEmail?: string;
@@ -74,15 +150,18 @@ export interface Shoot {
   activities?: Activity[];
   emailThreadId?: string;
   createdAt?: Date;
-  shootDate?: Date;
+  startDate?: string; // First day, YYYY-MM-DD - `date` is only its label
+  endDate?: string; // Last day, YYYY-MM-DD
   // Multi-shoot support
   requestGroupId?: string;
   isMultiShoot?: boolean;
   multiShootIndex?: number;
   totalShootsInRequest?: number;
+  vendorId?: string;
+  projectId?: string; // Project / cost centre the shoot is charged to
 }
 
-export type ViewMode = 'dashboard' | 'vendor' | 'approval' | 'invoice' | 'new_request' | 'finance' | 'catalog' | 'archive' | 'edit_shoot';
+export type ViewMode = 'dashboard' | 'vendor' | 'approval' | 'invoice' | 'new_request' | 'finance' | 'catalog' | 'vendors' | 'archive' | 'calendar' | 'edit_shoot' | 'import';
 
 // LocalStorage keys - v2 to clear old data
 const STORAGE_KEYS = {
@@ -104,7 +183,6 @@ const loadFromStorage = <T,>(key: string, defaultValue: T): T => {
         return parsed.map((shoot: any) => ({
           ...shoot,
           createdAt: shoot.createdAt ? new Date(shoot.createdAt) : undefined,
-          shootDate: shoot.shootDate ? new Date(shoot.shootDate) : undefined,
           activities: shoot.activities?.map((a: any) => ({
             ...a,
             timestamp: new Date(a.timestamp),
@@ -138,26 +216,65 @@ const saveToStorage = <T,>(key: string, value: T): void => {
   }
 };
 
+// Map a snake_case database row to a Shoot
+const mapDbShoot = (s: any): Shoot => ({
+  id: s.id,
+  name: s.name,
+  date: s.date,
+  duration: s.duration,
+  location: s.location,
+  equipment: s.equipment || [],
+  status: s.status,
+  requestor: s.requestor,
+  vendorQuote: s.vendor_quote,
+  vendorBids: s.vendor_bids || [],
+  quoteRevisions: s.quote_revisions || [],
+  counterOffer: s.counter_offer || null,
+  approvalSteps: s.approval_steps || [],
+  approved: s.approved,
+  approvedAmount: s.approved_amount,
+  invoiceFile: s.invoice_file,
+  invoiceData: s.invoice_data || undefined,
+  invoiceMatch: s.invoice_match || undefined,
+  payments: s.payments || [],
+  paid: s.paid,
+  rejectionReason: s.rejection_reason,
+  approvalEmail: s.approval_email,
+  cancellationReason: s.cancellation_reason,
+  activities: s.activities || [],
+  emailThreadId: s.email_thread_id,
+  createdAt: s.created_at ? new Date(s.created_at) : undefined,
+  startDate: s.start_date || undefined,
+  endDate: s.end_date || undefined,
+  requestGroupId: s.request_group_id,
+  isMultiShoot: s.is_multi_shoot,
+  multiShootIndex: s.multi_shoot_index,
+  totalShootsInRequest: s.total_shoots_in_request,
+  vendorId: s.vendor_id || undefined,
+  projectId: s.project_id || undefined,
+});
+
 function AppContent() {
-  const { isAuthenticated, isAdmin, user, logout } = useAuth();
+  const { isAuthenticated, isAdmin, user, logout, can } = useAuth();
   
-  // Check if this is a vendor link (opens form only) - vendors don't need login
+  // Check if this is a vendor link (opens form only) - vendors don't need login,
+  // the link token is validated by the backend before the form renders
   const urlParams = new URLSearchParams(window.location.search);
-  const vendorShootId = urlParams.get('vendor');
+  const vendorToken = urlParams.get('vendor');
   
   // If not authenticated and not a vendor link, show login
-  if (!isAuthenticated && !vendorShootId) {
+  if (!isAuthenticated && !vendorToken) {
     return <LoginPage />;
   }
   
   // Load viewMode from localStorage, default to dashboard
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
-    if (vendorShootId) return 'vendor';
+    if (vendorToken) return 'vendor';
     const saved = localStorage.getItem(STORAGE_KEYS.VIEW_MODE);
     return (saved as ViewMode) || 'dashboard';
   });
   const [selectedShootId, setSelectedShootId] = useState<string | null>(() => {
-    if (vendorShootId) return vendorShootId;
+    if (vendorToken) return null;
     return localStorage.getItem(STORAGE_KEYS.SELECTED_SHOOT);
   });
   
@@ -165,6 +282,16 @@ function AppContent() {
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.VIEW_MODE, viewMode);
   }, [viewMode]);
+
+  // Fall back to the dashboard if the current view isn't available to this role
+  useEffect(() => {
+    if (!vendorToken && !canAccessView(user?.role, viewMode)) {
+      setViewMode('dashboard');
+    }
+  }, [viewMode, user?.role]);
+
+  // Navigation callback for a view, or undefined when the role can't open it
+  const openView = (mode: ViewMode) => canAccessView(user?.role, mode) ? () => setViewMode(mode) : undefined;
   
   useEffect(() => {
     if (selectedShootId) {
@@ -246,7 +373,7 @@ function AppContent() {
       quoteAmount?: number;
       location?: string;
       requestorName?: string;
-      equipmentList?: Array<{ name: string; dailyRate: number; quantity?: number }>;
+      equipmentList?: Array<{ name: string; dailyRate: number; quantity?: number; days?: number; scheduledDays?: string[] }>;
       shoot?: Shoot;
       shoots?: any[]; // For multi-shoot requests
     }
@@ -286,13 +413,19 @@ function AppContent() {
       name: shootName,
       date: additionalData?.dates || 'TBD',
       location: additionalData?.location || 'TBD',
-      equipment: additionalData?.equipmentList?.map(e => ({ name: e.name, dailyRate: e.dailyRate, quantity: e.quantity || 1 })) || [],
+      equipment: additionalData?.equipmentList?.map(e => ({ name: e.name, dailyRate: e.dailyRate, quantity: e.quantity || 1, days: e.days, scheduledDays: e.scheduledDays })) || [],
       requestor: { name: additionalData?.requestorName || 'ShootFlow Team', email: recipientEmail },
       vendorQuote: { amount: additionalData?.quoteAmount || 0, notes: '' },
       approvedAmount: additionalData?.quoteAmount || 0,
       recipientName: recipientName,
     };
 
+    // Templates name the shoot's assigned vendor
+    const shootVendor = getShootVendor(existingShootForData || additionalData?.shoot);
+    if (shootVendor && !(shootData as any).vendorName) {
+      (shootData as any).vendorName = shootVendor.name;
+    }
+
     // For Gmail threading: ensure all emails in a request group have the same subject
     // Use a consistent threadSubject based on requestGroupId or first shoot name
     if (existingShootForData?.requestGroupId) {
@@ -314,7 +447,7 @@ function AppContent() {
     // Create the email for UI notification
     const newEmail: EmailMessage = {
       id: Date.now().toString(),
-      from: emailType === 'quote_submitted' ? 'vendor@gopalamedia.com' : 'bhavya.oberoi@learnapp.co',
+      from: emailType === 'quote_submitted' ? (getVendorEmail(shootVendor) || shootVendor?.name || 'Vendor') : 'bhavya.oberoi@learnapp.co',
       to: recipientEmail,
       subject: emailSubjects[emailType],
       body: `Email sent via SMTP for ${shootName}`,
@@ -580,21 +713,61 @@ function AppContent() {
     loadFromStorage(STORAGE_KEYS.CATALOG, defaultCatalogItems)
   );
   
+  // Vendors registry - loaded from the API
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const activeVendors = vendors.filter(v => v.isActive);
+  // On a vendor link the only vendor loaded is the one the link was sent to
+  const getShootVendor = (shoot?: Partial<Shoot> | null) =>
+    vendorToken ? vendors[0] : vendors.find(v => v.id === shoot?.vendorId);
+
+  // Projects / cost centres shoots are charged to - loaded from the API
+  const [projects, setProjects] = useState<Project[]>([]);
+  const activeProjects = projects.filter(p => p.isActive);
+
+  // Budget bands that decide each quote's approval chain - loaded from the API
+  const [approvalBands, setApprovalBands] = useState<ApprovalBand[]>(DEFAULT_APPROVAL_BANDS);
+  const [invoiceMatchSettings, setInvoiceMatchSettings] = useState<InvoiceMatchSettings>(DEFAULT_INVOICE_MATCH_SETTINGS);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+
   // Default shoots data - empty, users will create their own
   const defaultShoots: Shoot[] = [];
 
-  // Load shoots from localStorage, fallback to defaults
+  // Load shoots from localStorage, fallback to defaults (vendor links only get the shoots they cover)
   const [shoots, setShoots] = useState<Shoot[]>(() => 
-    loadFromStorage(STORAGE_KEYS.SHOOTS, defaultShoots)
+    vendorToken ? [] : loadFromStorage(STORAGE_KEYS.SHOOTS, defaultShoots)
   );
 
   // Only show loading if we have NO cached data
   const cachedShoots = loadFromStorage(STORAGE_KEYS.SHOOTS, []);
-  const [isLoadingData, setIsLoadingData] = useState(cachedShoots.length === 0);
+  const [isLoadingData, setIsLoadingData] = useState(cachedShoots.length === 0 || !!vendorToken);
+  const [vendorLinkError, setVendorLinkError] = useState<string | null>(null);
+
+  // Vendor link - validate the token and load only the shoots it covers
+  useEffect(() => {
+    if (!vendorToken) return;
+
+    const loadVendorLink = async () => {
+      const result = await openVendorLink(vendorToken);
+      if (result.error || !result.shoots) {
+        setVendorLinkError(result.error || 'This quote link is invalid');
+      } else if (result.shoots.length === 0) {
+        setVendorLinkError('All quotes for this link have already been submitted');
+      } else {
+        const linkShoots = result.shoots.map(mapDbShoot);
+        setShoots(linkShoots);
+        if (result.vendor) setVendors([mapDbVendor(result.vendor)]);
+        setSelectedShootId(linkShoots[0].id);
+      }
+      setIsLoadingData(false);
+    };
+
+    loadVendorLink();
+  }, [vendorToken]);
 
   // Load data from API on mount (if configured) - runs in background
   useEffect(() => {
     const loadDataFromAPI = async () => {
+      if (vendorToken) return;
       if (!API_URL) {
         console.log('API not configured, using localStorage');
         setIsLoadingData(false);
@@ -606,10 +779,11 @@ function AppContent() {
         const [shootsResponse, catalogResponse] = await Promise.all([
           fetch(`${API_URL}/api/shoots`, {
             method: 'GET',
-            headers: { 'Accept': 'application/json' },
+            headers: authHeaders({ 'Accept': 'application/json' }),
             signal: AbortSignal.timeout(8000)
           }),
           fetch(`${API_URL}/api/catalog`, {
+            headers: authHeaders(),
             signal: AbortSignal.timeout(8000)
           })
         ]);
@@ -618,32 +792,7 @@ function AppContent() {
         if (shootsResponse.ok) {
           const shootsData = await shootsResponse.json();
           if (Array.isArray(shootsData)) {
-            const formattedShoots: Shoot[] = shootsData.map((s: any) => ({
-              id: s.id,
-              name: s.name,
-              date: s.date,
-              duration: s.duration,
-              location: s.location,
-              equipment: s.equipment || [],
-              status: s.status,
-              requestor: s.requestor,
-              vendorQuote: s.vendor_quote,
-              approved: s.approved,
-              approvedAmount: s.approved_amount,
-              invoiceFile: s.invoice_file,
-              paid: s.paid,
-              rejectionReason: s.rejection_reason,
-              approvalEmail: s.approval_email,
-              cancellationReason: s.cancellation_reason,
-              activities: s.activities || [],
-              emailThreadId: s.email_thread_id,
-              createdAt: s.created_at ? new Date(s.created_at) : undefined,
-              shootDate: s.shoot_date ? new Date(s.shoot_date) : undefined,
-              requestGroupId: s.request_group_id,
-              isMultiShoot: s.is_multi_shoot,
-              multiShootIndex: s.multi_shoot_index,
-              totalShootsInRequest: s.total_shoots_in_request,
-            }));
+            const formattedShoots: Shoot[] = shootsData.map(mapDbShoot);
             setShoots(formattedShoots);
             console.log('✅ Loaded', formattedShoots.length, 'shoots from API');
           }
@@ -658,6 +807,7 @@ function AppContent() {
             dailyRate: parseFloat(c.daily_rate) || 0,
             category: c.category,
             lastUpdated: c.last_updated,
+            stock: c.stock || {},
           }));
           
           const apiIds = new Set(apiCatalog.map(c => String(c.id)));
@@ -668,6 +818,45 @@ function AppContent() {
           setCatalogItems(mergedCatalog);
           console.log('✅ Loaded', apiCatalog.length, 'catalog items from API');
         }
+
+        // Process vendors
+        try {
+          const apiVendors = await fetchVendors();
+          setVendors(apiVendors);
+          console.log('✅ Loaded', apiVendors.length, 'vendors from API');
+        } catch (error) {
+          console.error('❌ Vendors fetch error:', error);
+        }
+
+        // Process projects
+        try {
+          const apiProjects = await fetchProjects();
+          setProjects(apiProjects);
+          console.log('✅ Loaded', apiProjects.length, 'projects from API');
+        } catch (error) {
+          console.error('❌ Projects fetch error:', error);
+        }
+
+        // Process approval bands
+        try {
+          setApprovalBands(await fetchApprovalBands());
+        } catch (error) {
+          console.error('❌ Approval bands fetch error:', error);
+        }
+
+        // Process invoice match settings
+        try {
+          setInvoiceMatchSettings(await fetchInvoiceMatchSettings());
+        } catch (error) {
+          console.error('❌ Invoice match settings fetch error:', error);
+        }
+
+        // Process tax settings
+        try {
+          setTaxSettings(await fetchTaxSettings());
+        } catch (error) {
+          console.error('❌ Tax settings fetch error:', error);
+        }
       } catch (error) {
         console.error('❌ API fetch error:', error);
       } finally {
@@ -683,8 +872,9 @@ function AppContent() {
     saveToStorage(STORAGE_KEYS.CATALOG, catalogItems);
   }, [catalogItems]);
 
-  // Always persist shoots to localStorage as backup
+  // Always persist shoots to localStorage as backup (not the partial list a vendor link sees)
   useEffect(() => {
+    if (vendorToken) return;
     saveToStorage(STORAGE_KEYS.SHOOTS, shoots);
   }, [shoots]);
 
@@ -696,6 +886,11 @@ function AppContent() {
   // Helper function to save shoot to API
   const saveShootToAPI = async (shoot: Shoot) => {
     if (!API_URL) return;
+    // Writes require a session - vendors on a quote link go through saveVendorQuoteToAPI
+    if (!getAuthToken()) {
+      console.warn('Not signed in, skipping API save for:', shoot.id);
+      return;
+    }
     
     const dbShoot = {
       id: shoot.id,
@@ -717,18 +912,21 @@ function AppContent() {
       activities: shoot.activities,
       email_thread_id: shoot.emailThreadId,
       created_at: shoot.createdAt?.toISOString(),
-      shoot_date: shoot.shootDate?.toISOString(),
+      start_date: shoot.startDate || null,
+      end_date: shoot.endDate || null,
       request_group_id: shoot.requestGroupId,
       is_multi_shoot: shoot.isMultiShoot,
       multi_shoot_index: shoot.multiShootIndex,
       total_shoots_in_request: shoot.totalShootsInRequest,
+      vendor_id: shoot.vendorId,
+      project_id: shoot.projectId,
     };
 
     try {
       console.log('Saving to API:', dbShoot.id, 'status:', dbShoot.status);
       const response = await fetch(`${API_URL}/api/shoots`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(),
         body: JSON.stringify(dbShoot),
         signal: AbortSignal.timeout(5000), // 5 second timeout
       });
@@ -736,7 +934,27 @@ function AppContent() {
       if (response.ok) {
         const result = await response.json();
         console.log('API save successful:', result.id, 'new status:', result.status);
+        // Bids, quote history and the approval chain are maintained by the server - pick up what it recorded
+        setShoots(prev => prev.map(s => s.id === result.id
+          ? {
+              ...s,
+              status: result.status,
+              approved: result.approved,
+              vendorBids: result.vendor_bids || [],
+              quoteRevisions: result.quote_revisions || [],
+              approvalSteps: result.approval_steps || [],
+            }
+          : s
+        ));
         return result;
+      } else if (response.status === 409) {
+        // The status moved on elsewhere - take the server's copy instead of the stale one
+        const result = await response.json();
+        console.error('API save refused:', result.details);
+        if (result.shoot) {
+          handleStatusConflict(new ShootStatusError(result.details || result.error, result.shoot));
+        }
+        throw new Error(result.details || result.error);
       } else {
         const errorText = await response.text();
         console.error('API save failed with status:', response.status, errorText);
@@ -748,6 +966,54 @@ function AppContent() {
     }
   };
 
+  // Replace a stale shoot with the server's copy and tell the user why their change didn't apply
+  const handleStatusConflict = (error: ShootStatusError) => {
+    const current = mapDbShoot(error.shoot);
+    setShoots(prev => prev.map(s => s.id === current.id ? current : s));
+    addNotification({
+      type: 'system',
+      title: 'Change not applied',
+      message: error.message,
+      shootId: current.id,
+      shootName: current.name,
+    });
+  };
+
+  // Run a workflow action on the server - its row becomes the new local state
+  const runWorkflowAction = async (shoot: Shoot, action: ShootAction, body?: Record<string, unknown>): Promise<Shoot> => {
+    try {
+      const updatedShoot = mapDbShoot(await runShootAction(shoot.id, action, body));
+      setShoots(prev => prev.map(s => s.id === updatedShoot.id ? updatedShoot : s));
+      return updatedShoot;
+    } catch (error: any) {
+      if (error instanceof ShootStatusError) {
+        handleStatusConflict(error);
+      } else {
+        addNotification({ type: 'system', title: 'Action failed', message: error.message, shootId: shoot.id, shootName: shoot.name });
+      }
+      throw error;
+    }
+  };
+
+  // Helper function to submit a vendor quote to API through a vendor link (no session needed)
+  const saveVendorQuoteToAPI = async (token: string, shootId: string, amount: number, notes: string, itemizedPrices?: { id: string; vendorRate: number }[], gstRate?: number) => {
+    if (!API_URL) return;
+
+    const response = await fetch(`${API_URL}/api/shoots/${encodeURIComponent(shootId)}/vendor-quote`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, amount, notes, itemizedPrices, gstRate }),
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Vendor quote save failed:', response.status, errorText);
+      throw new Error(`API error: ${response.status}`);
+    }
+    return response.json();
+  };
+
   // Helper function to save a single catalog item to API
   const saveCatalogItemToAPI = async (item: CatalogItem) => {
     if (!API_URL) return;
@@ -758,13 +1024,14 @@ function AppContent() {
       daily_rate: item.dailyRate,
       category: item.category,
       last_updated: new Date().toISOString(),
+      stock: item.stock,
     };
 
     try {
       console.log('Saving catalog item to API:', dbItem.name);
       const response = await fetch(`${API_URL}/api/catalog`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(),
         body: JSON.stringify(dbItem),
         signal: AbortSignal.timeout(5000),
       });
@@ -805,12 +1072,13 @@ function AppContent() {
         daily_rate: item.dailyRate,
         category: item.category,
         last_updated: new Date().toISOString(),
+        stock: item.stock,
       }));
 
       // Use bulk endpoint for efficiency
       const response = await fetch(`${API_URL}/api/catalog/bulk`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(),
         body: JSON.stringify(dbItems),
         signal: AbortSignal.timeout(10000),
       });
@@ -829,160 +1097,13 @@ function AppContent() {
     }
   };
 
-  // Helper function to parse shoot date and get end date
-  const parseShootEndDate = (dateStr: string): Date | null => {
-    try {
-      // Handle formats like "Oct 12-13", "Oct 8-10", "Nov 2-5", "Oct 15", "Oct 20"
-      const months: { [key: string]: number } = {
-        'Jan': 0, 'Feb': 1, 'Mar': 2, 'Apr': 3, 'May': 4, 'Jun': 5,
-        'Jul': 6, 'Aug': 7, 'Sep': 8, 'Oct': 9, 'Nov': 10, 'Dec': 11
-      };
-      
-      const parts = dateStr.split(' ');
-      if (parts.length < 2) return null;
-      
-      const monthStr = parts[0];
-      const month = months[monthStr];
-      if (month === undefined) return null;
-      
-      const dayPart = parts[1];
-      let endDay: number;
-      
-      if (dayPart.includes('-')) {
-        // Range format: "12-13" -> get end day (13)
-        const [, end] = dayPart.split('-').map(d => parseInt(d));
-        endDay = end;
-      } else {
-        // Single day: "15"
-        endDay = parseInt(dayPart);
-      }
-      
-      if (isNaN(endDay)) return null;
-      
-      // Use current year, but if month is in the past, assume next year
-      const today = new Date();
-      let year = today.getFullYear();
-      const checkDate = new Date(year, month, endDay, 23, 59, 59);
-      
-      return checkDate;
-    } catch {
-      return null;
-    }
-  };
-
-  // Automatically move Active Shoots to Pending Invoice when end date passes
-  useEffect(() => {
-    const checkAndUpdateShoots = () => {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      let hasUpdates = false;
-      const updatedShoots = shoots.map(shoot => {
-        if (shoot.status === 'ready_for_shoot') {
-          const endDate = parseShootEndDate(shoot.date);
-          if (endDate && endDate < today) {
-            hasUpdates = true;
-            // Add activity
-            const newActivity: Activity = {
-              id: Date.now().toString() + shoot.id,
-              shootId: shoot.id,
-              action: 'Shoot Completed',
-              description: 'Shoot date has passed. Moved to Pending Invoice.',
-              timestamp: new Date(),
-              emailTriggered: false,
-            };
-            return {
-              ...shoot,
-              status: 'pending_invoice' as ShootStatus,
-              activities: [...(shoot.activities || []), newActivity],
-            };
-          }
-        }
-        return shoot;
-      });
-      
-      if (hasUpdates) {
-        setShoots(updatedShoots);
-      }
-    };
-
-    // Check immediately and then every minute
-    checkAndUpdateShoots();
-    const interval = setInterval(checkAndUpdateShoots, 60000);
-    
-    return () => clearInterval(interval);
-  }, [shoots]);
-
-  // Automatic Invoice Reminder - Send email 7 days after shoot completed without invoice
-  useEffect(() => {
-    const checkInvoiceReminders = () => {
-      const today = new Date();
-      const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
-      
-      shoots.forEach(shoot => {
-        // Only check shoots in pending_invoice status without an invoice
-        if (shoot.status !== 'pending_invoice' || shoot.invoiceFile) return;
-        
-        // Find when the shoot was moved to pending_invoice
-        const completedActivity = shoot.activities?.find(a => 
-          a.action === 'Shoot Completed' || a.action.includes('Pending Invoice')
-        );
-        
-        if (!completedActivity) return;
-        
-        const completedDate = new Date(completedActivity.timestamp);
-        const daysSinceComplete = today.getTime() - completedDate.getTime();
-        
-        // Check if it's been 7+ days and we haven't sent a reminder yet
-        const reminderSent = shoot.activities?.some(a => 
-          a.action.includes('Invoice Reminder Sent')
-        );
-        
-        if (daysSinceComplete >= SEVEN_DAYS_MS && !reminderSent) {
-          console.log(`📧 Sending invoice reminder for ${shoot.name} (7+ days without invoice)`);
-          
-          // Send invoice reminder email
-          triggerEmail(
-            shoot.id,
-            shoot.name,
-            'invoice_reminder',
-            shoot.requestor.email || DEFAULT_RECIPIENTS.admin,
-            {
-              shoot: {
-                ...shoot,
-                vendorName: 'Gopala Media'
-              }
-            }
-          );
-          
-          // Mark that we sent a reminder (to avoid duplicate emails)
-          addActivityToShoot(
-            shoot.id, 
-            'Invoice Reminder Sent', 
-            'Automated reminder sent - 7 days since shoot completion without invoice'
-          );
-        }
-      });
-    };
-    
-    // Check on mount and every hour
-    checkInvoiceReminders();
-    const interval = setInterval(checkInvoiceReminders, 60 * 60 * 1000); // Check every hour
-    
-    return () => clearInterval(interval);
-  }, [shoots]);
+  // Moving shoots to Pending Invoice once their dates pass, and the quote, approval,
+  // invoice and payment reminders, run on the server (see REMINDERS in server/index.js)
 
   const handleSendToVendor = async (shootId: string) => {
     const shoot = shoots.find(s => s.id === shootId);
     if (shoot) {
-      const updatedShoot = { ...shoot, status: 'with_vendor' as ShootStatus };
-      
-      // Save to API first
-      await saveShootToAPI(updatedShoot);
-      
-      setShoots(prev => prev.map(s => 
-        s.id === shootId ? updatedShoot : s
-      ));
+      await runWorkflowAction(shoot, 'send-to-vendor', { vendorId: shoot.vendorId });
       
       // Trigger email notification
       triggerEmail(
@@ -992,7 +1113,7 @@ function AppContent() {
         shoot.requestor.email || 'anish@company.com'
       );
       
-      addActivityToShoot(shootId, 'Sent to Vendor', 'Equipment request sent to Gopala Media for quotation');
+      addActivityToShoot(shootId, 'Sent to Vendor', `Equipment request sent to ${getShootVendor(shoot)?.name || 'vendor'} for quotation`);
     }
   };
 
@@ -1000,7 +1121,7 @@ function AppContent() {
   const pendingQuoteSubmissions = React.useRef<{ shootId: string; shoot: Shoot; amount: number }[]>([]);
   const quoteSubmissionTimer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
   
-  const handleVendorSubmit = async (shootId: string, amount: number, notes: string, itemizedPrices?: { id: string; vendorRate: number }[]) => {
+  const handleVendorSubmit = async (shootId: string, amount: number, notes: string, itemizedPrices?: { id: string; vendorRate: number }[], gstRate?: number) => {
     const shoot = shoots.find(s => s.id === shootId);
     if (!shoot) {
       console.error('Shoot not found:', shootId);
@@ -1016,21 +1137,19 @@ function AppContent() {
         });
       }
       
-    const updatedShoot = { 
+    let updatedShoot: Shoot = { 
       ...shoot, 
         status: 'with_swati' as ShootStatus,
         equipment: updatedEquipment,
-        vendorQuote: { amount, notes }
+        vendorQuote: { amount, notes, gstRate }
       };
     
-    // Update local state first for immediate UI feedback
-    setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
-    
-    // Then save to API (don't block on this)
-    try {
-      await saveShootToAPI(updatedShoot);
-    } catch (error) {
-      console.error('API save failed, data saved locally:', error);
+    // Vendors submit through their link, staff enter the quote as a workflow action
+    if (vendorToken) {
+      setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
+      await saveVendorQuoteToAPI(vendorToken, shootId, amount, notes, itemizedPrices, gstRate);
+    } else {
+      updatedShoot = await runWorkflowAction(shoot, 'submit-quote', { amount, notes, itemizedPrices, gstRate });
     }
     
     // Add to pending submissions (for batch email)
@@ -1110,34 +1229,32 @@ function AppContent() {
     }, 500); // Wait 500ms for all submissions to come in
     
     // Only redirect to dashboard if not in standalone vendor mode
-    const urlParams = new URLSearchParams(window.location.search);
-    if (!urlParams.get('vendor')) {
+    if (!vendorToken) {
     setViewMode('dashboard');
     }
   };
 
-  const handleApprove = async (shootId: string) => {
+  const handleApprove = async (shootId: string, bidId?: string) => {
+    if (!can('approve_quote')) {
+      throw new Error('Only approvers can approve quotes');
+    }
     const shoot = shoots.find(s => s.id === shootId);
     if (!shoot) {
       console.error('Shoot not found:', shootId);
       throw new Error('Shoot not found');
     }
     
-    const updatedShoot = { 
-      ...shoot, 
-            status: 'ready_for_shoot' as ShootStatus,
-            approved: true,
-      approvedAmount: shoot.vendorQuote?.amount
-    };
-    
-    // Update local state first for immediate UI feedback
-    setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
-    
-    // Then save to API
-    try {
-      await saveShootToAPI(updatedShoot);
-    } catch (error) {
-      console.error('API save failed:', error);
+    // The server awards the bid (vendor, quote and rates) and walks the approval chain
+    // for the quote's budget band - the shoot may only move on to the next approver
+    const updatedShoot = await runWorkflowAction(shoot, 'approve', { bidId });
+    const approvedQuote = updatedShoot.vendorQuote;
+    const steps = updatedShoot.approvalSteps || [];
+    const step: ApprovalStep | undefined = steps[steps.length - 1];
+
+    if (updatedShoot.status === 'with_senior_approver') {
+      const chain = getApprovalChain(approvalBands, updatedShoot);
+      addActivityToShoot(shootId, 'Approval Step', `Step ${steps.length} of ${chain.band.approverRoles.length} approved by ${step?.decidedBy || user?.name}. Amount: ₹${approvedQuote?.amount?.toLocaleString()} • ${chain.band.label}. Awaiting ${ROLE_LABELS[chain.currentRole] || chain.currentRole}.`);
+      return;
     }
     
     // Send approval email via SMTP to requestor
@@ -1149,37 +1266,29 @@ function AppContent() {
         {
           dates: shoot.date,
           location: shoot.location,
-          quoteAmount: shoot.vendorQuote?.amount,
+          quoteAmount: approvedQuote?.amount,
         shoot: updatedShoot
         }
       );
       
-    addActivityToShoot(shootId, 'Quote Approved', `Approved by founder. Amount: ₹${shoot.vendorQuote?.amount?.toLocaleString()}`);
+    const bid = bidId ? shoot.vendorBids?.find(b => b.id === bidId) : undefined;
+    const bidCount = shoot.vendorBids?.length || 0;
+    addActivityToShoot(shootId, 'Quote Approved', bid
+      ? `Awarded to ${bid.vendorName} (${bidCount} ${bidCount === 1 ? 'bid' : 'bids'}). Amount: ₹${bid.amount.toLocaleString()}`
+      : `Approved by ${step?.decidedBy || user?.name}. Amount: ₹${approvedQuote?.amount?.toLocaleString()}`);
   };
 
   const handleReject = async (shootId: string, reason: string) => {
+    if (!can('approve_quote')) {
+      throw new Error('Only approvers can reject quotes');
+    }
     const shoot = shoots.find(s => s.id === shootId);
     if (!shoot) {
       console.error('Shoot not found:', shootId);
       throw new Error('Shoot not found');
     }
     
-    const updatedShoot = { 
-      ...shoot, 
-            status: 'with_vendor' as ShootStatus,
-            rejectionReason: reason,
-            vendorQuote: undefined
-    };
-    
-    // Update local state first for immediate UI feedback
-    setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
-    
-    // Then save to API
-    try {
-      await saveShootToAPI(updatedShoot);
-    } catch (error) {
-      console.error('API save failed:', error);
-    }
+    const updatedShoot = await runWorkflowAction(shoot, 'reject', { reason });
     
     // Send rejection email via SMTP with threading support
     triggerEmail(
@@ -1188,30 +1297,47 @@ function AppContent() {
       'rejected',
       shoot.requestor.email || DEFAULT_RECIPIENTS.admin,
       {
-        shoot: { ...updatedShoot, rejectionReason: reason }
+        shoot: updatedShoot
       }
     );
     
     addActivityToShoot(shootId, 'Quote Rejected', `Reason: ${reason}. Sent back to vendor for revision.`);
   };
 
-  const handleUploadInvoice = async (shootId: string, fileName: string, fileData?: string) => {
+  // Counter-offers are recorded by the server (it also re-opens the vendor's link)
+  const handleCounterOffer = async (shootId: string, lines: CounterOfferLine[], notes: string, bidId?: string) => {
+    if (!can('approve_quote')) {
+      throw new Error('Only approvers can send counter-offers');
+    }
+    const result = await sendCounterOffer(shootId, { bidId, lines, notes });
+    const updatedShoot = mapDbShoot(result.shoot);
+    setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
+    return { linkReopened: result.linkReopened };
+  };
+
+  // Mark a shoot as shot ahead of the scheduler, so its invoice can be chased
+  const handleCompleteShoot = async (shootId: string) => {
+    const shoot = shoots.find(s => s.id === shootId);
+    if (!shoot) return;
+    await runWorkflowAction(shoot, 'complete-shoot');
+    addActivityToShoot(shootId, 'Shoot Completed', `Marked as shot by ${user?.name || 'the team'}. Moved to Pending Invoice.`);
+  };
+
+  const handleCancelShoot = async (shootId: string, reason?: string) => {
+    const shoot = shoots.find(s => s.id === shootId);
+    if (!shoot) return;
+    await runWorkflowAction(shoot, 'cancel', { reason });
+    addActivityToShoot(shootId, 'Shoot Cancelled', reason ? `Reason: ${reason}` : 'Cancelled without a reason');
+  };
+
+  const handleUploadInvoice = async (shootId: string, file: File) => {
     const shoot = shoots.find(s => s.id === shootId);
     if (!shoot) return;
     
-    const updatedShoot = { 
-      ...shoot,
-            invoiceFile: {
-              name: fileName,
-        url: '#',
-        data: fileData // Store base64 PDF data
-      }
-    };
-    
-    // Save to API first
-    await saveShootToAPI(updatedShoot);
-    
-    setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
+    // Upload to file storage first, then attach the stored file to the shoot
+    const storedFile = await uploadFile(file, shootId);
+    const updatedShoot = await runWorkflowAction(shoot, 'upload-invoice', { fileId: storedFile.id });
+    const fileName = storedFile.name;
     
     // Send invoice uploaded email via SMTP to finance
       triggerEmail(
@@ -1225,34 +1351,74 @@ function AppContent() {
       addActivityToShoot(shootId, 'Invoice Uploaded', `File: ${fileName}`);
   };
 
-  const handleMarkPaid = async (shootId: string) => {
+  // Invoice details are saved straight to the server - the form shows any error
+  const handleSaveInvoiceData = async (shootId: string, fields: InvoiceFields) => {
+    try {
+      const updatedShoot = mapDbShoot(await saveInvoiceData(shootId, fields));
+      setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
+      addActivityToShoot(shootId, 'Invoice Reviewed', `Invoice ${fields.invoiceNumber} • ₹${fields.grandTotal?.toLocaleString()}`);
+    } catch (error) {
+      if (error instanceof ShootStatusError) handleStatusConflict(error);
+      throw error;
+    }
+  };
+
+  const handleReextractInvoice = async (shootId: string) => {
+    try {
+      const updatedShoot = mapDbShoot(await reextractInvoiceData(shootId));
+      setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
+    } catch (error) {
+      if (error instanceof ShootStatusError) handleStatusConflict(error);
+      throw error;
+    }
+  };
+
+  // The server matches the invoice against the approval - an override reason
+  // is needed when it is over tolerance or couldn't be matched
+  const handleRecordPayment = async (shootId: string, payment: PaymentInput) => {
+    if (!can('mark_paid')) {
+      console.error('Only finance can record payments');
+      return;
+    }
     const shoot = shoots.find(s => s.id === shootId);
     if (!shoot) return;
     
-    const updatedShoot = { 
-      ...shoot, 
-            status: 'completed' as ShootStatus,
-            paid: true
-    };
-    
-    // Save to API first
-    await saveShootToAPI(updatedShoot);
+    // Without an amount the server closes a shoot whose advances already cover the invoice
+    const updatedShoot = await runWorkflowAction(shoot, 'payments', payment.amount > 0 ? { ...payment } : { overrideReason: payment.overrideReason });
+    const recorded = updatedShoot.payments?.[updatedShoot.payments.length - 1];
+    const paymentSummary = payment.amount > 0
+      ? `${recorded ? PAYMENT_KIND_LABELS[recorded.kind] : 'Payment'} of ₹${payment.amount.toLocaleString()}${payment.reference ? ` (ref ${payment.reference})` : ''}`
+      : 'Earlier payments';
+
+    if (!updatedShoot.paid) {
+      addActivityToShoot(shootId, 'Payment Recorded', `${paymentSummary} recorded`);
+      return;
+    }
     
-    setShoots(prev => prev.map(s => s.id === shootId ? updatedShoot : s));
+    // Send payment complete email via SMTP to the shoot's vendor
+    const vendorEmail = getVendorEmail(getShootVendor(shoot));
+    if (vendorEmail) {
+      triggerEmail(
+        shootId,
+        shoot.name,
+        'payment_complete',
+        vendorEmail,
+        {
+          shoot: updatedShoot
+        }
+      );
+    } else {
+      console.warn('No vendor email for', shoot.name, '- payment email not sent');
+    }
     
-    // Send payment complete email via SMTP with threading support
-    triggerEmail(
+    addActivityToShoot(
       shootId,
-      shoot.name,
-      'payment_complete',
-      DEFAULT_RECIPIENTS.vendor, // Send to vendor
-      {
-        shoot: updatedShoot
-      }
+      'Payment Completed',
+      payment.overrideReason
+        ? `${paymentSummary} cleared the balance - invoice paid with override: ${payment.overrideReason}`
+        : `${paymentSummary} cleared the balance - invoice verified and paid in full`
     );
     
-    addActivityToShoot(shootId, 'Payment Completed', 'Invoice verified and payment processed');
-    
     setSelectedShootId(null);
   };
 
@@ -1266,6 +1432,56 @@ function AppContent() {
     setViewMode('invoice');
   };
 
+  // Save a vendor to the registry and refresh local state
+  const handleSaveVendor = async (vendor: Vendor) => {
+    const saved = await saveVendor(vendor);
+    setVendors(prev => prev.some(v => v.id === saved.id)
+      ? prev.map(v => v.id === saved.id ? saved : v)
+      : [...prev, saved]);
+  };
+
+  // Save a project and its budgets, and refresh local state
+  const handleSaveProject = async (project: Project) => {
+    const saved = await saveProject(project);
+    setProjects(prev => prev.some(p => p.id === saved.id)
+      ? prev.map(p => p.id === saved.id ? saved : p)
+      : [...prev, saved]);
+  };
+
+  const handleDeactivateProject = async (projectId: string) => {
+    const updated = await deactivateProject(projectId);
+    setProjects(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  const handleSaveApprovalBands = async (bands: ApprovalBand[]) => {
+    const saved = await saveApprovalBands(bands);
+    setApprovalBands(saved);
+  };
+
+  const handleSaveInvoiceMatchSettings = async (settings: InvoiceMatchSettings) => {
+    const saved = await saveInvoiceMatchSettings(settings);
+    setInvoiceMatchSettings(saved);
+  };
+
+  const handleSaveTaxSettings = async (settings: TaxSettings) => {
+    const saved = await saveTaxSettings(settings);
+    setTaxSettings(saved);
+  };
+
+  const handleDeactivateVendor = async (vendorId: string) => {
+    const updated = await deactivateVendor(vendorId);
+    setVendors(prev => prev.map(v => v.id === updated.id ? updated : v));
+  };
+
+  // Imported shoots are new rows; existing ones come back with an invoice attached
+  const handleShootsImported = (result: ImportResult) => {
+    const rows = result.shoots.map(mapDbShoot);
+    setShoots(prev => [
+      ...rows.filter(row => !prev.some(s => s.id === row.id)),
+      ...prev.map(s => rows.find(row => row.id === s.id) || s),
+    ]);
+  };
+
   // Helper function to create a single shoot
   const createSingleShoot = (shootData: any, baseTimestamp: number): Shoot => {
     const nameParts = (shootData.requestorName || 'Unknown').split(' ');
@@ -1278,8 +1494,8 @@ function AppContent() {
     return {
       id: shootId,
       name: shootData.shootName,
-      date: `${new Date(shootData.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${new Date(shootData.endDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
-      duration: shootData.equipment.length > 0 ? `${shootData.equipment[0].days} Days` : '1 Day',
+      date: shootData.startDate ? formatShootDateLabel(shootData.startDate, shootData.endDate) : 'TBD',
+      duration: shootData.days > 1 ? `${shootData.days} Days` : '1 Day',
       location: shootData.location,
       equipment: shootData.equipment.map((item: any) => ({
         id: item.id,
@@ -1288,6 +1504,8 @@ function AppContent() {
         quantity: item.quantity || 1,
         category: item.category,
         expectedRate: item.dailyRate || 0,
+        days: item.days || 1,
+        scheduledDays: item.scheduledDays,
       })),
       status: 'new_request',
       requestor: {
@@ -1301,6 +1519,10 @@ function AppContent() {
       isMultiShoot: shootData.isMultiShoot || false,
       multiShootIndex: shootData.multiShootIndex,
       totalShootsInRequest: shootData.totalShootsInRequest,
+      vendorId: shootData.vendorId,
+      projectId: shootData.projectId,
+      startDate: shootData.startDate || undefined,
+      endDate: shootData.endDate || shootData.startDate || undefined,
       activities: [{
         id: '1',
         shootId,
@@ -1354,6 +1576,8 @@ function AppContent() {
           name: item.name,
           dailyRate: item.dailyRate || 0,
           quantity: item.quantity || 1,
+          days: item.days || 1,
+          scheduledDays: item.scheduledDays,
         })),
       }));
       
@@ -1406,6 +1630,8 @@ function AppContent() {
             name: item.name,
             dailyRate: item.dailyRate || 0,
             quantity: item.quantity || 1,
+            days: item.days || 1,
+            scheduledDays: item.scheduledDays,
           })),
           shoot: {
             ...newShoot,
@@ -1432,30 +1658,40 @@ function AppContent() {
     console.log('Related shoots:', related.map(s => s.name));
   }
   
-  const pendingApprovals = shoots.filter(s => s.status === 'with_swati');
+  const pendingApprovals = shoots.filter(s => isAwaitingApproval(s.status));
 
   return (
     <div className="min-h-screen" style={{ backgroundColor: '#F5F7FA' }}>
       {viewMode === 'dashboard' && (
         <MainDashboard 
           shoots={shoots}
+          vendors={vendors}
           onSendToVendor={handleSendToVendor}
-          onOpenVendorLink={handleOpenVendorLink}
-          onOpenApprovals={() => setViewMode('approval')}
-          onOpenInvoice={handleOpenInvoiceModal}
-          onOpenNewRequest={() => setViewMode('new_request')}
-          onOpenFinance={() => setViewMode('finance')}
-          onOpenCatalog={() => setViewMode('catalog')}
-          onOpenArchive={() => setViewMode('archive')}
+          onOpenVendorLink={can('send_to_vendor') ? handleOpenVendorLink : undefined}
+          onOpenApprovals={openView('approval')}
+          onOpenInvoice={can('upload_invoice') ? handleOpenInvoiceModal : undefined}
+          onRecordAdvance={can('mark_paid') ? handleOpenInvoiceModal : undefined}
+          onApprove={can('approve_quote') ? handleApprove : undefined}
+          onReject={can('approve_quote') ? handleReject : undefined}
+          onCompleteShoot={can('upload_invoice') ? handleCompleteShoot : undefined}
+          onCancelShoot={can('edit_shoot') ? handleCancelShoot : undefined}
+          onOpenNewRequest={openView('new_request')}
+          onOpenFinance={openView('finance')}
+          onOpenCatalog={openView('catalog')}
+          onOpenVendors={openView('vendors')}
+          onOpenArchive={openView('archive')}
+          onOpenCalendar={openView('calendar')}
+          onOpenImport={openView('import')}
           // Auth props
           isAdmin={isAdmin}
+          roleLabel={user ? ROLE_LABELS[user.role] : undefined}
           userName={user?.name}
           userEmail={user?.email}
           onLogout={logout}
-          onEditShoot={(shootId) => {
+          onEditShoot={can('edit_shoot') ? (shootId) => {
             setSelectedShootId(shootId);
             setViewMode('edit_shoot');
-          }}
+          } : undefined}
         />
       )}
       
@@ -1484,13 +1720,19 @@ function AppContent() {
             // Clear URL params when going back
             window.history.replaceState({}, '', window.location.pathname);
           }}
-          isStandalone={!!vendorShootId}
+          isStandalone={!!vendorToken}
+          canShareLink={can('send_to_vendor')}
+          vendorName={getShootVendor(selectedShoot)?.name}
+          vendors={activeVendors}
+          defaultGstRate={taxSettings.defaultGstRate}
+          catalogItems={vendorToken ? undefined : catalogItems}
+          existingShoots={vendorToken ? undefined : shoots}
         />
         ) : (
           <div className="min-h-screen flex items-center justify-center bg-gray-50">
             <div className="text-center">
-              <p className="text-gray-600 text-lg">Shoot not found</p>
-              <p className="text-gray-400 text-sm mt-2">This quote request may have expired or been removed.</p>
+              <p className="text-gray-600 text-lg">{vendorLinkError ? 'Quote link unavailable' : 'Shoot not found'}</p>
+              <p className="text-gray-400 text-sm mt-2">{vendorLinkError || 'This quote request may have expired or been removed.'}</p>
             </div>
           </div>
         )
@@ -1502,11 +1744,17 @@ function AppContent() {
           allShoots={shoots}
           onApprove={handleApprove}
           onReject={handleReject}
+          onCounterOffer={handleCounterOffer}
+          approvalBands={approvalBands}
+          onSaveApprovalBands={can('manage_settings') ? handleSaveApprovalBands : undefined}
           onBack={() => setViewMode('dashboard')}
-          onOpenFinance={() => setViewMode('finance')}
-          onOpenCatalog={() => setViewMode('catalog')}
-          onOpenArchive={() => setViewMode('archive')}
-          isAdmin={isAdmin}
+          onOpenFinance={openView('finance')}
+          onOpenCatalog={openView('catalog')}
+          onOpenVendors={openView('vendors')}
+          onOpenArchive={openView('archive')}
+          canApprove={can('approve_quote')}
+          vendors={vendors}
+          taxSettings={taxSettings}
         />
       )}
       
@@ -1514,7 +1762,11 @@ function AppContent() {
         <InvoiceManagement 
           shoot={selectedShoot}
           onUploadInvoice={handleUploadInvoice}
-          onMarkPaid={handleMarkPaid}
+          onRecordPayment={can('mark_paid') ? handleRecordPayment : undefined}
+          matchSettings={invoiceMatchSettings}
+          taxSettings={taxSettings}
+          onSaveInvoiceData={can('upload_invoice') ? handleSaveInvoiceData : undefined}
+          onReextractInvoice={can('upload_invoice') ? handleReextractInvoice : undefined}
           onClose={() => {
             setViewMode('dashboard');
             setSelectedShootId(null);
@@ -1525,6 +1777,11 @@ function AppContent() {
       {viewMode === 'new_request' && (
         <CreateRequestForm 
           catalogItems={catalogItems}
+          vendors={activeVendors}
+          projects={activeProjects}
+          allShoots={shoots}
+          taxSettings={taxSettings}
+          approvalBands={approvalBands}
           onClose={() => setViewMode('dashboard')}
           onSubmit={handleCreateRequest}
           onAddCatalogItem={async (newItem) => {
@@ -1544,11 +1801,20 @@ function AppContent() {
       {viewMode === 'finance' && (
         <FinanceDashboard 
           shoots={shoots}
+          vendors={vendors}
+          projects={projects}
+          onSaveProject={can('manage_projects') ? handleSaveProject : undefined}
+          onDeactivateProject={can('manage_projects') ? handleDeactivateProject : undefined}
           onBack={() => setViewMode('dashboard')}
-          onUploadInvoice={handleOpenInvoiceModal}
-          onOpenApprovals={() => setViewMode('approval')}
-          onOpenCatalog={() => setViewMode('catalog')}
-          onOpenArchive={() => setViewMode('archive')}
+          onUploadInvoice={can('upload_invoice') ? handleOpenInvoiceModal : undefined}
+          invoiceMatchSettings={invoiceMatchSettings}
+          onSaveInvoiceMatchSettings={can('manage_settings') ? handleSaveInvoiceMatchSettings : undefined}
+          taxSettings={taxSettings}
+          onSaveTaxSettings={can('manage_settings') ? handleSaveTaxSettings : undefined}
+          onOpenApprovals={openView('approval')}
+          onOpenCatalog={openView('catalog')}
+          onOpenVendors={openView('vendors')}
+          onOpenArchive={openView('archive')}
         />
       )}
 
@@ -1556,21 +1822,69 @@ function AppContent() {
         <EquipmentCatalogManager 
           catalogItems={catalogItems}
           onUpdateCatalog={handleUpdateCatalog}
+          vendors={activeVendors}
+          onBack={() => setViewMode('dashboard')}
+          onOpenApprovals={openView('approval')}
+          onOpenFinance={openView('finance')}
+          onOpenVendors={openView('vendors')}
+          onOpenArchive={openView('archive')}
+          approvalsPending={pendingApprovals.length}
+        />
+      )}
+
+      {viewMode === 'vendors' && (
+        <VendorManager
+          vendors={vendors}
+          onSaveVendor={handleSaveVendor}
+          onDeactivateVendor={handleDeactivateVendor}
           onBack={() => setViewMode('dashboard')}
-          onOpenApprovals={() => setViewMode('approval')}
-          onOpenFinance={() => setViewMode('finance')}
-          onOpenArchive={() => setViewMode('archive')}
+          onOpenApprovals={openView('approval')}
+          onOpenFinance={openView('finance')}
+          onOpenCatalog={openView('catalog')}
+          onOpenArchive={openView('archive')}
           approvalsPending={pendingApprovals.length}
         />
       )}
 
+      {viewMode === 'import' && (
+        <ShootImportScreen
+          shoots={shoots}
+          vendors={vendors}
+          onBack={() => setViewMode('dashboard')}
+          onImported={handleShootsImported}
+        />
+      )}
+
       {viewMode === 'archive' && (
         <ArchiveScreen 
           shoots={shoots}
           onBack={() => setViewMode('dashboard')}
-          onOpenApprovals={() => setViewMode('approval')}
-          onOpenFinance={() => setViewMode('finance')}
-          onOpenCatalog={() => setViewMode('catalog')}
+          onOpenApprovals={openView('approval')}
+          onOpenFinance={openView('finance')}
+          onOpenCatalog={openView('catalog')}
+          onOpenVendors={openView('vendors')}
+          approvalsPending={pendingApprovals.length}
+          vendors={vendors}
+          taxSettings={taxSettings}
+        />
+      )}
+
+      {viewMode === 'calendar' && (
+        <ShootCalendar
+          shoots={shoots}
+          vendors={vendors}
+          onBack={() => setViewMode('dashboard')}
+          onOpenApprovals={openView('approval')}
+          onOpenFinance={openView('finance')}
+          onOpenCatalog={openView('catalog')}
+          onOpenVendors={openView('vendors')}
+          onOpenArchive={openView('archive')}
+          onOpenVendorLink={can('send_to_vendor') ? handleOpenVendorLink : undefined}
+          onOpenInvoice={can('upload_invoice') ? handleOpenInvoiceModal : undefined}
+          onEditShoot={can('edit_shoot') ? (shootId) => {
+            setSelectedShootId(shootId);
+            setViewMode('edit_shoot');
+          } : undefined}
           approvalsPending={pendingApprovals.length}
         />
       )}
@@ -1587,11 +1901,22 @@ function AppContent() {
               : []
           }
           catalogItems={catalogItems}
-          onSave={async (shootId, updatedEquipment, updatedVendorQuote) => {
+          vendors={vendors.filter(v => v.isActive || v.id === selectedShoot.vendorId)}
+          projects={projects.filter(p => p.isActive || p.id === selectedShoot.projectId)}
+          existingShoots={shoots}
+          onSave={async (shootId, updatedEquipment, updatedVendorQuote, vendorId, projectId) => {
             const shoot = shoots.find(s => s.id === shootId);
             if (!shoot) return;
               
               const updates: Partial<Shoot> = { equipment: updatedEquipment };
+              const vendorChanged = !!vendorId && vendorId !== shoot.vendorId;
+              if (vendorChanged) {
+                updates.vendorId = vendorId;
+              }
+              const projectChanged = projectId !== undefined && (projectId || undefined) !== shoot.projectId;
+              if (projectChanged) {
+                updates.projectId = projectId || undefined;
+              }
               
               // Update vendor quote if provided
               if (updatedVendorQuote) {
@@ -1610,7 +1935,13 @@ function AppContent() {
             const priceNote = updatedVendorQuote 
               ? ` New amount: ₹${updatedVendorQuote.amount.toLocaleString()}`
               : '';
-            addActivityToShoot(shootId, 'Equipment Updated', `Equipment list modified by ${user?.name || 'Admin'}.${priceNote}`);
+            const vendorNote = vendorChanged
+              ? ` Vendor changed to ${vendors.find(v => v.id === vendorId)?.name || 'vendor'}.`
+              : '';
+            const projectNote = projectChanged
+              ? ` Charged to ${projects.find(p => p.id === projectId)?.name || 'no project'}.`
+              : '';
+            addActivityToShoot(shootId, 'Equipment Updated', `Equipment list modified by ${user?.name || 'Admin'}.${priceNote}${vendorNote}${projectNote}`);
           }}
           onClose={() => {
             setViewMode('dashboard');
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ArrowRight } from 'lucide-react';
+import type { UserRole } from '../context/AuthContext';
+import type { ApprovalBand } from '../lib/approvals';
+import { ROLE_LABELS, ROLE_PERMISSIONS } from '../lib/permissions';
+
+interface ApprovalBandsEditorProps {
+  bands: ApprovalBand[];
+  onSave: (bands: ApprovalBand[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Roles that can sit in an approval chain
+const APPROVER_ROLES = (Object.keys(ROLE_PERMISSIONS) as UserRole[])
+  .filter(role => ROLE_PERMISSIONS[role].includes('approve_quote'));
+
+export function ApprovalBandsEditor({ bands, onSave, onClose }: ApprovalBandsEditorProps) {
+  const [draft, setDraft] = useState<ApprovalBand[]>(bands.map(b => ({ ...b, approverRoles: [...b.approverRoles] })));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const updateBand = (index: number, update: Partial<ApprovalBand>) => {
+    setDraft(prev => prev.map((b, i) => (i === index ? { ...b, ...update } : b)));
+  };
+
+  // New bands go in before the open-ended last band
+  const addBand = () => {
+    setDraft(prev => {
+      const previousLimit = prev.length > 1 ? prev[prev.length - 2].maxAmount || 0 : 0;
+      const band: ApprovalBand = {
+        id: `band_${Date.now()}`,
+        label: 'New Band',
+        maxAmount: previousLimit + 10000,
+        approverRoles: ['approver'],
+      };
+      return [...prev.slice(0, -1), band, prev[prev.length - 1]];
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft.map((b, i) => ({ ...b, label: b.label.trim(), maxAmount: i === draft.length - 1 ? null : b.maxAmount })));
+      onClose();
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save approval bands');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div
+        className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+        style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.2)' }}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Approval Bands</h3>
+            <p className="text-xs text-gray-500">A quote's amount picks its band; the band's approvers sign off in order</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {draft.map((band, index) => {
+            const isLast = index === draft.length - 1;
+            const lowerLimit = index > 0 ? draft[index - 1].maxAmount || 0 : 0;
+            return (
+              <div key={band.id} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-3 mb-3">
+                  <input
+                    type="text"
+                    value={band.label}
+                    onChange={(e) => updateBand(index, { label: e.target.value })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <span>₹{lowerLimit.toLocaleString()} –</span>
+                    {isLast ? (
+                      <span className="w-28 text-gray-700">no limit</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min={0}
+                        value={band.maxAmount ?? ''}
+                        onChange={(e) => updateBand(index, { maxAmount: parseInt(e.target.value) || 0 })}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </div>
+                  {!isLast && draft.length > 1 && (
+                    <button
+                      onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {/* Approval chain */}
+                <div className="flex items-center flex-wrap gap-2">
+                  {band.approverRoles.map((role, step) => (
+                    <React.Fragment key={step}>
+                      {step > 0 && <ArrowRight className="w-3 h-3 text-gray-400" />}
+                      <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs" style={{ backgroundColor: '#EEF2FF', color: '#2D60FF' }}>
+                        {step + 1}. {ROLE_LABELS[role]}
+                        {band.approverRoles.length > 1 && (
+                          <button
+                            onClick={() => updateBand(index, { approverRoles: band.approverRoles.filter((_, i) => i !== step) })}
+                            className="hover:text-red-500"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </span>
+                    </React.Fragment>
+                  ))}
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && updateBand(index, { approverRoles: [...band.approverRoles, e.target.value as UserRole] })}
+                    className="px-2 py-1 border border-gray-200 rounded-lg text-xs text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">+ Add approver</option>
+                    {APPROVER_ROLES.filter(role => !band.approverRoles.includes(role)).map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={addBand}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Band
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200">
+          {saveError && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{saveError}</div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-5 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || draft.some(b => !b.label.trim())}
+              className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {isSaving ? 'Saving...' : 'Save Bands'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
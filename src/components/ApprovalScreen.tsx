@@ -5,32 +5,54 @@ import {
   DollarSign, 
   Package, 
   Archive,
+  Building2,
   X,
   Clock,
   XCircle,
   Eye,
   EyeOff,
-  Lock
+  Lock,
+  RotateCcw,
+  Settings
 } from 'lucide-react';
-import type { Shoot } from '../App';
+import type { Shoot, VendorBid, Equipment } from '../App';
+import type { CounterOfferLine } from '../services/quoteService';
+import { QuoteHistory } from './QuoteHistory';
+import { computeGst, type TaxSettings } from '../lib/tax';
+import { ApprovalBandsEditor } from './ApprovalBandsEditor';
+import { ExportMenu } from './ExportMenu';
+import type { Vendor } from '../services/vendorService';
 import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, ROLE_INITIALS } from '../lib/permissions';
+import { canActOnApprovalStep, getApprovalChain, isAwaitingApproval, type ApprovalBand } from '../lib/approvals';
+import { groupShootsByMonth } from '../lib/shootDates';
+import { getEquipmentDayCount } from '../lib/availability';
 
 interface ApprovalScreenProps {
   shoots: Shoot[];
   allShoots: Shoot[];
-  onApprove: (shootId: string) => Promise<void> | void;
+  onApprove: (shootId: string, bidId?: string) => Promise<void> | void; // bidId awards a competing bid
   onReject: (shootId: string, reason: string) => Promise<void> | void;
+  onCounterOffer?: (shootId: string, lines: CounterOfferLine[], notes: string, bidId?: string) => Promise<{ linkReopened: boolean }>;
+  approvalBands: ApprovalBand[];
+  onSaveApprovalBands?: (bands: ApprovalBand[]) => Promise<void>; // Admins only
   onBack: () => void;
-  onOpenFinance: () => void;
-  onOpenCatalog: () => void;
-  onOpenArchive: () => void;
-  isAdmin?: boolean;
+  onOpenFinance?: () => void;
+  onOpenCatalog?: () => void;
+  onOpenVendors?: () => void;
+  onOpenArchive?: () => void;
+  // Approvers see quote amounts and can approve/reject
+  canApprove?: boolean;
+  vendors?: Vendor[];
+  taxSettings?: TaxSettings;
 }
 
 type FilterTab = 'all' | 'pending' | 'approved' | 'rejected';
 
-export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack, onOpenFinance, onOpenCatalog, onOpenArchive, isAdmin = false }: ApprovalScreenProps) {
-  const { user } = useAuth();
+export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onCounterOffer, approvalBands, onSaveApprovalBands, onBack, onOpenFinance, onOpenCatalog, onOpenVendors, onOpenArchive, canApprove = false, vendors, taxSettings }: ApprovalScreenProps) {
+  const { user, isAdmin } = useAuth();
+  const roleLabel = user ? ROLE_LABELS[user.role] : 'Pre-production Team';
+  const roleInitials = user ? ROLE_INITIALS[user.role] : 'PT';
   const [filterTab, setFilterTab] = useState<FilterTab>('pending');
   const [selectedShoot, setSelectedShoot] = useState<Shoot | null>(null);
   const [relatedShoots, setRelatedShoots] = useState<Shoot[]>([]);
@@ -38,12 +60,71 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
+  const [showBandsEditor, setShowBandsEditor] = useState(false);
 
   // Get all shoots in the current group (for multi-shoot display)
   const groupedShoots = selectedShoot ? [selectedShoot, ...relatedShoots] : [];
   const isMultiShoot = groupedShoots.length > 1;
   const activeGroupShoot = groupedShoots[activeShootIndex] || selectedShoot;
 
+  // Competitive quoting - the approver picks which vendor's bid to award per shoot,
+  // defaulting to the bid the current quote came from (the lowest)
+  const [awardedBids, setAwardedBids] = useState<Record<string, string>>({});
+  const getSelectedBid = (shoot?: Shoot | null): VendorBid | undefined => {
+    const bids = shoot?.vendorBids || [];
+    if (!shoot || bids.length === 0) return undefined;
+    const bidId = awardedBids[shoot.id] || shoot.vendorQuote?.bidId;
+    return bids.find(b => b.id === bidId)
+      || bids.reduce((best, b) => (b.amount < best.amount ? b : best), bids[0]);
+  };
+  const getQuoteAmount = (shoot?: Shoot | null) => getSelectedBid(shoot)?.amount ?? shoot?.vendorQuote?.amount;
+  const getQuoteGstRate = (shoot?: Shoot | null) => getSelectedBid(shoot)?.gstRate ?? shoot?.vendorQuote?.gstRate;
+  const isComparingBids = canApprove && (activeGroupShoot?.vendorBids?.length || 0) > 1;
+
+  // Line-item negotiation - a counter rate per equipment line, or the line struck
+  const [counterDraft, setCounterDraft] = useState<{ shootId: string; lines: Record<string, { counterRate: number; struck: boolean }> } | null>(null);
+  const [counterNotes, setCounterNotes] = useState('');
+  const [isSendingCounter, setIsSendingCounter] = useState(false);
+  const isCountering = !!counterDraft && counterDraft.shootId === activeGroupShoot?.id;
+  const getQuotedRate = (shoot: Shoot, item: Equipment) => {
+    const bid = getSelectedBid(shoot);
+    return bid ? bid.itemizedPrices.find(p => p.id === item.id)?.vendorRate || 0 : item.vendorRate || 0;
+  };
+
+  // Multi-level approvals - a shoot is only actionable by the role its chain is waiting on
+  const getChain = (shoot: Shoot) => getApprovalChain(approvalBands, shoot, getQuoteAmount(shoot));
+  const canDecide = (shoot?: Shoot | null) => !!shoot && canApprove && isAwaitingApproval(shoot.status) && !shoot.approved
+    && canActOnApprovalStep(user?.role, getChain(shoot).currentRole);
+  const activeChain = activeGroupShoot ? getChain(activeGroupShoot) : null;
+
+  // Shoots of the group awaiting this user's decision - a group can be decided shoot by shoot
+  const pendingGroupShoots = groupedShoots.filter(canDecide);
+  const [groupDecisions, setGroupDecisions] = useState<Record<string, { decision: 'approve' | 'reject'; reason: string }>>({});
+  const decidedShoots = pendingGroupShoots.filter(s => groupDecisions[s.id]);
+  const isActiveShootPending = canDecide(activeGroupShoot);
+
+  const setShootDecision = (shootId: string, decision?: 'approve' | 'reject') => {
+    setGroupDecisions(prev => {
+      const next = { ...prev };
+      if (decision) {
+        next[shootId] = { decision, reason: prev[shootId]?.reason || '' };
+      } else {
+        delete next[shootId];
+      }
+      return next;
+    });
+  };
+
+  const closeDetails = () => {
+    setShowDetailsModal(false);
+    setSelectedShoot(null);
+    setRelatedShoots([]);
+    setActiveShootIndex(0);
+    setAwardedBids({});
+    setCounterDraft(null);
+    setGroupDecisions({});
+  };
+
   // Helper to open shoot details with related shoots
   const openShootDetails = (shoot: Shoot) => {
     setSelectedShoot(shoot);
@@ -80,68 +161,8 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
   const approvedCount = getGroupedCount(allShoots.filter(s => s.approved && s.status !== 'with_swati'));
   const rejectedCount = getGroupedCount(allShoots.filter(s => s.rejectionReason));
 
-  // Month name mappings
-  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                      'July', 'August', 'September', 'October', 'November', 'December'];
-  const shortMonthMap: { [key: string]: number } = {
-    'Jan': 0, 'Feb': 1, 'Mar': 2, 'Apr': 3, 'May': 4, 'Jun': 5,
-    'Jul': 6, 'Aug': 7, 'Sep': 8, 'Oct': 9, 'Nov': 10, 'Dec': 11
-  };
-
-  // Group shoots by month
-  const groupByMonth = (shootList: Shoot[]) => {
-    const groups: { [key: string]: Shoot[] } = {};
-    
-    shootList.forEach(shoot => {
-      const dateStr = shoot.date;
-      let monthIndex = -1;
-      let year = new Date().getFullYear();
-      
-      // Try to extract month from date string
-      for (const [shortMonth, index] of Object.entries(shortMonthMap)) {
-        if (dateStr.includes(shortMonth)) {
-          monthIndex = index;
-          break;
-        }
-      }
-      
-      // If shoot has shootDate, use that for accurate year
-      if (shoot.shootDate) {
-        const shootDateObj = new Date(shoot.shootDate);
-        if (!isNaN(shootDateObj.getTime())) {
-          monthIndex = shootDateObj.getMonth();
-          year = shootDateObj.getFullYear();
-        }
-      }
-      
-      if (monthIndex === -1) monthIndex = new Date().getMonth();
-      
-      const monthKey = `${monthNames[monthIndex]} ${year}`;
-      
-      if (!groups[monthKey]) {
-        groups[monthKey] = [];
-      }
-      groups[monthKey].push(shoot);
-    });
-    
-    return groups;
-  };
-
-  // Sort months chronologically
-  const sortMonthsChronologically = (months: string[]) => {
-    return months.sort((a, b) => {
-      const [monthA, yearA] = a.split(' ');
-      const [monthB, yearB] = b.split(' ');
-      const indexA = monthNames.indexOf(monthA);
-      const indexB = monthNames.indexOf(monthB);
-      const yearDiff = parseInt(yearA) - parseInt(yearB);
-      if (yearDiff !== 0) return yearDiff;
-      return indexA - indexB;
-    });
-  };
-
-  // Get filtered data based on tab - with grouping for multi-shoot requests
-  const getFilteredData = () => {
+  // Shoots in the current tab, every shoot of a multi-shoot request included
+  const getTabShoots = () => {
     let filtered: Shoot[] = [];
 
     if (filterTab === 'pending') {
@@ -166,9 +187,14 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
       });
     }
 
+    return filtered;
+  };
+
+  // Get filtered data based on tab - with grouping for multi-shoot requests
+  const getFilteredData = () => {
     // Group multi-shoot requests - only show first shoot in each group
     const seenGroups = new Set<string>();
-    const groupedFiltered = filtered.filter(shoot => {
+    const groupedFiltered = tabShoots.filter(shoot => {
       if (shoot.requestGroupId) {
         if (seenGroups.has(shoot.requestGroupId)) {
           return false; // Skip other shoots in the same group
@@ -187,26 +213,23 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
     return allShoots.filter(s => s.requestGroupId === shoot.requestGroupId && s.id !== shoot.id).length;
   };
 
+  const tabShoots = getTabShoots();
   const filteredData = getFilteredData();
-  const groupedData = groupByMonth(filteredData);
-  const monthOrder = sortMonthsChronologically(Object.keys(groupedData));
+  const monthGroups = groupShootsByMonth(filteredData);
 
   const handleReject = () => {
     if (selectedShoot && rejectReason.trim()) {
-      // Reject all shoots in the group
+      // Reject every shoot of the group that is still pending
       if (isMultiShoot) {
-        groupedShoots.forEach(shoot => {
+        pendingGroupShoots.forEach(shoot => {
           onReject(shoot.id, rejectReason);
         });
       } else {
       onReject(selectedShoot.id, rejectReason);
       }
       setShowRejectDialog(false);
-      setShowDetailsModal(false);
       setRejectReason('');
-      setSelectedShoot(null);
-      setRelatedShoots([]);
-      setActiveShootIndex(0);
+      closeDetails();
     }
   };
 
@@ -217,23 +240,80 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
       setIsApproving(true);
       
       try {
-        // Approve all shoots in the group
+        // Approve every shoot of the group that is still pending
         if (isMultiShoot) {
-          for (const shoot of groupedShoots) {
-            await onApprove(shoot.id);
+          for (const shoot of pendingGroupShoots) {
+            await onApprove(shoot.id, getSelectedBid(shoot)?.id);
           }
         } else {
-          await onApprove(selectedShoot.id);
+          await onApprove(selectedShoot.id, getSelectedBid(selectedShoot)?.id);
         }
       } catch (error) {
         console.error('Approval error:', error);
       } finally {
         setIsApproving(false);
-        setShowDetailsModal(false);
-        setSelectedShoot(null);
-        setRelatedShoots([]);
-        setActiveShootIndex(0);
+        closeDetails();
+      }
+    }
+  };
+
+  // Apply the per-shoot decisions - undecided shoots stay pending
+  const handleSubmitDecisions = async () => {
+    if (isApproving || decidedShoots.length === 0) return;
+    setIsApproving(true);
+    try {
+      for (const shoot of decidedShoots) {
+        const { decision, reason } = groupDecisions[shoot.id];
+        if (decision === 'approve') {
+          await onApprove(shoot.id, getSelectedBid(shoot)?.id);
+        } else {
+          await onReject(shoot.id, reason.trim());
+        }
       }
+    } catch (error) {
+      console.error('Approval error:', error);
+    } finally {
+      setIsApproving(false);
+      closeDetails();
+    }
+  };
+
+  const startCounterOffer = () => {
+    if (!activeGroupShoot) return;
+    setCounterDraft({
+      shootId: activeGroupShoot.id,
+      lines: Object.fromEntries(activeGroupShoot.equipment.map(item => [
+        item.id, { counterRate: getQuotedRate(activeGroupShoot, item), struck: false }
+      ])),
+    });
+    setCounterNotes('');
+  };
+
+  const updateCounterLine = (itemId: string, update: Partial<{ counterRate: number; struck: boolean }>) => {
+    setCounterDraft(prev => prev && ({
+      ...prev,
+      lines: { ...prev.lines, [itemId]: { ...prev.lines[itemId], ...update } },
+    }));
+  };
+
+  const handleSendCounterOffer = async () => {
+    if (!counterDraft || !onCounterOffer || isSendingCounter) return;
+    const shoot = groupedShoots.find(s => s.id === counterDraft.shootId);
+    if (!shoot) return;
+    setIsSendingCounter(true);
+    try {
+      const lines = Object.entries(counterDraft.lines).map(([id, line]) => ({ id, ...line }));
+      const bid = getSelectedBid(shoot);
+      const result = await onCounterOffer(shoot.id, lines, counterNotes, bid?.id);
+      if (!result.linkReopened) {
+        alert(`Counter-offer saved. ${bid?.vendorName || 'The vendor'} has no active quote link - create a new link to share it.`);
+      }
+      closeDetails();
+    } catch (error: any) {
+      console.error('Counter-offer error:', error);
+      alert(error.message || 'Failed to send counter-offer');
+    } finally {
+      setIsSendingCounter(false);
     }
   };
 
@@ -242,7 +322,18 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
   };
 
   const getStatusBadge = (shoot: Shoot) => {
-    if (shoot.status === 'with_swati' && !shoot.approved) {
+    if (shoot.status === 'with_senior_approver') {
+      const chain = getChain(shoot);
+      return (
+        <span 
+          className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs"
+          style={{ backgroundColor: '#F3E8FF', color: '#9B51E0' }}
+        >
+          <Clock className="w-3 h-3" />
+          Step {chain.steps.length + 1} • {ROLE_LABELS[chain.currentRole]}
+        </span>
+      );
+    } else if (shoot.status === 'with_swati' && !shoot.approved) {
       return (
         <span 
           className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs"
@@ -315,6 +406,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             )}
           </button>
 
+          {onOpenFinance && (
           <button
             onClick={onOpenFinance}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -323,7 +415,9 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             <DollarSign className="w-5 h-5" />
             <span>Finance & Invoices</span>
           </button>
+          )}
 
+          {onOpenCatalog && (
           <button
             onClick={onOpenCatalog}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -332,7 +426,20 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             <Package className="w-5 h-5" />
             <span>Catalog</span>
           </button>
+          )}
+
+          {onOpenVendors && (
+          <button
+            onClick={onOpenVendors}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+          )}
 
+          {onOpenArchive && (
           <button
             onClick={onOpenArchive}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -341,6 +448,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             <Archive className="w-5 h-5" />
             <span>Archive</span>
           </button>
+          )}
         </nav>
 
         {/* User Profile */}
@@ -350,10 +458,10 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
               className="w-10 h-10 rounded-full flex items-center justify-center text-white"
               style={{ backgroundColor: '#2D60FF' }}
             >
-              {isAdmin ? 'A' : 'PT'}
+              {roleInitials}
             </div>
             <div>
-              <div className="text-white text-sm">{isAdmin ? 'Admin' : 'Pre-production Team'}</div>
+              <div className="text-white text-sm">{roleLabel}</div>
               <div className="text-gray-400 text-xs">{isAdmin ? 'Administrator' : 'Team Member'}</div>
             </div>
           </div>
@@ -369,7 +477,16 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
               <h1 className="text-gray-900 text-2xl font-semibold">Approval Center</h1>
               <p className="text-gray-500 text-sm">Review and manage vendor quotes</p>
             </div>
-            <div className="flex gap-6">
+            <div className="flex items-center gap-6">
+              {onSaveApprovalBands && (
+                <button
+                  onClick={() => setShowBandsEditor(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Settings className="w-4 h-4" />
+                  Approval Bands
+                </button>
+              )}
               <div className="text-right">
                 <div className="text-sm text-gray-500">Pending</div>
                 <div className="text-xl font-semibold" style={{ color: '#F2994A' }}>{pendingCount}</div>
@@ -437,8 +554,17 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             >
               Rejected
             </button>
-            <div className="ml-auto text-sm text-gray-500">
-              Sort by Month
+            <div className="ml-auto flex items-center gap-4">
+              <span className="text-sm text-gray-500">Sort by Month</span>
+              {canApprove && (
+                <ExportMenu
+                  shoots={tabShoots}
+                  fileName={`approvals-${filterTab}`}
+                  vendors={vendors}
+                  taxSettings={taxSettings}
+                  description={`${filterTab === 'pending' ? 'Pending review' : filterTab.charAt(0).toUpperCase() + filterTab.slice(1)} quotes, one row per shoot`}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -446,11 +572,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
         {/* Approval Table (Grouped by Month) */}
         <div className="px-8 py-8">
           <div className="space-y-8">
-            {monthOrder.map(month => {
-              const monthData = groupedData[month];
-              
-              if (!monthData || monthData.length === 0) return null;
-              
+            {monthGroups.map(({ label: month, shoots: monthData }) => {
               return (
                 <div key={month}>
                   {/* Group Header */}
@@ -471,7 +593,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                             <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Date</th>
                             <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Requestor</th>
                             <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Equipment</th>
-                            {isAdmin && <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Quote Amount</th>}
+                            {canApprove && <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Quote Amount</th>}
                             <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Status</th>
                             <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Action</th>
                           </tr>
@@ -507,11 +629,14 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                               <td className="px-6 py-4 text-gray-600">
                                 {shoot.equipment.length} items
                               </td>
-                              {isAdmin && (
+                              {canApprove && (
                                 <td className="px-6 py-4">
                                   <span className="font-semibold" style={{ color: '#27AE60' }}>
                                     ₹{shoot.vendorQuote?.amount.toLocaleString() || 'N/A'}
                                   </span>
+                                  {(shoot.vendorBids?.length || 0) > 1 && (
+                                    <div className="text-xs text-gray-500">lowest of {shoot.vendorBids?.length} bids</div>
+                                  )}
                                 </td>
                               )}
                               <td className="px-6 py-4">
@@ -558,7 +683,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             className="bg-white rounded-2xl flex flex-col my-4"
             style={{ 
               boxShadow: '0 8px 32px rgba(0,0,0,0.15)', 
-              width: isMultiShoot ? '600px' : '520px',
+              width: isComparingBids ? '760px' : isMultiShoot ? '600px' : '520px',
               maxWidth: '95vw',
               maxHeight: '90vh'
             }}
@@ -577,12 +702,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                 </p>
               </div>
               <button
-                onClick={() => {
-                  setShowDetailsModal(false);
-                  setSelectedShoot(null);
-                  setRelatedShoots([]);
-                  setActiveShootIndex(0);
-                }}
+                onClick={closeDetails}
                 className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
               >
                 <X className="w-5 h-5" />
@@ -626,6 +746,12 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                             <span className="font-medium text-sm truncate block">{shoot.name}</span>
                             <span className={`text-xs ${activeShootIndex === index ? 'text-blue-100' : 'text-gray-500'}`}>
                               ₹{shoot.vendorQuote?.amount?.toLocaleString() || 0}
+                              {' • '}
+                              {groupDecisions[shoot.id]
+                                ? (groupDecisions[shoot.id].decision === 'approve' ? '✓ Approve' : '✗ Reject')
+                                : shoot.approved ? 'Approved'
+                                  : shoot.status === 'with_senior_approver' ? `Awaiting ${ROLE_LABELS[getChain(shoot).currentRole]}`
+                                  : shoot.status === 'with_swati' ? 'Pending' : 'Rejected'}
                             </span>
                           </div>
                         </div>
@@ -670,13 +796,23 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
               </div>
 
               {/* Quote Summary */}
-              <div className={`grid ${isAdmin ? 'grid-cols-2' : 'grid-cols-1'} gap-3 mb-3`}>
-                {isAdmin && (
+              <div className={`grid ${canApprove ? 'grid-cols-2' : 'grid-cols-1'} gap-3 mb-3`}>
+                {canApprove && (
                   <div className="p-3 rounded-lg" style={{ backgroundColor: '#F0FDF4' }}>
-                    <div className="text-xs mb-1" style={{ color: '#27AE60' }}>Quote Amount</div>
+                    <div className="text-xs mb-1" style={{ color: '#27AE60' }}>
+                      {isComparingBids ? `Selected Bid • ${getSelectedBid(activeGroupShoot)?.vendorName}` : 'Quote Amount'}
+                    </div>
                     <div className="text-xl font-bold" style={{ color: '#27AE60' }}>
-                      ₹{activeGroupShoot?.vendorQuote?.amount.toLocaleString()}
+                      ₹{getQuoteAmount(activeGroupShoot)?.toLocaleString()}
                     </div>
+                    {getQuoteGstRate(activeGroupShoot) !== undefined && (() => {
+                      const gst = computeGst(getQuoteAmount(activeGroupShoot) || 0, getQuoteGstRate(activeGroupShoot) || 0, false);
+                      return (
+                        <div className="text-xs text-gray-500 mt-1">
+                          + GST ₹{gst.gstTotal.toLocaleString()} ({gst.gstRate}%) • ₹{gst.total.toLocaleString()} incl. GST
+                        </div>
+                      );
+                    })()}
                   </div>
                 )}
                 <div className="p-3 rounded-lg bg-gray-50">
@@ -685,16 +821,57 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                 </div>
               </div>
               
+              {/* Approval Chain - the band the quote falls in and who signs off */}
+              {canApprove && activeGroupShoot && activeChain && (isAwaitingApproval(activeGroupShoot.status) || activeChain.steps.length > 0) && (
+                <div className="mb-3 p-3 rounded-lg border border-gray-200">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-medium text-gray-700">Approval Chain</span>
+                    <span className="text-xs text-gray-500">{activeChain.band.label}</span>
+                  </div>
+                  <div className="space-y-1">
+                    {activeChain.band.approverRoles.map((role, index) => {
+                      const step = activeChain.steps[index];
+                      const isCurrent = !step && index === activeChain.steps.length && isAwaitingApproval(activeGroupShoot.status);
+                      return (
+                        <div key={index} className="flex items-center justify-between text-xs">
+                          <span className={step || isCurrent ? 'text-gray-900' : 'text-gray-400'}>
+                            {index + 1}. {ROLE_LABELS[role]}
+                          </span>
+                          {step ? (
+                            <span style={{ color: '#27AE60' }}>
+                              ✓ {step.decidedBy} • {new Date(step.decidedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                          ) : isCurrent ? (
+                            <span style={{ color: '#F2994A' }}>Awaiting</span>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Counter-offer status */}
+              {canApprove && activeGroupShoot?.counterOffer && activeGroupShoot.counterOffer.status !== 'accepted' && (
+                <div className="mb-3 p-3 rounded-lg border text-xs" style={{ backgroundColor: '#EEF2FF', borderColor: '#C7D2FE', color: '#2D60FF' }}>
+                  {activeGroupShoot.counterOffer.status === 'open'
+                    ? `Counter-offer of ₹${activeGroupShoot.counterOffer.amount.toLocaleString()} sent to ${activeGroupShoot.counterOffer.vendorName} by ${activeGroupShoot.counterOffer.proposedBy} - awaiting response`
+                    : `${activeGroupShoot.counterOffer.vendorName} countered your ₹${activeGroupShoot.counterOffer.amount.toLocaleString()} offer`}
+                </div>
+              )}
+
               {/* Non-admin message */}
-              {!isAdmin && (
+              {!canApprove && (
                 <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2">
                   <EyeOff className="w-4 h-4 text-amber-600" />
-                  <span className="text-sm text-amber-700">Quote amounts are visible to admins only</span>
+                  <span className="text-sm text-amber-700">Quote amounts are visible to approvers only</span>
                 </div>
               )}
 
               {/* Grand Total for multi-shoot */}
-              {isMultiShoot && isAdmin && (
+              {isMultiShoot && canApprove && (
                 <div className="mb-3 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200">
                   <div className="text-xs text-blue-600 mb-1 font-medium">All Shoots Total</div>
                   <div className="space-y-0.5">
@@ -704,7 +881,7 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                           {shoot.name}
                         </span>
                         <span className={idx === activeShootIndex ? 'text-blue-600 font-medium' : 'text-gray-900'}>
-                          ₹{shoot.vendorQuote?.amount?.toLocaleString() || 0}
+                          ₹{getQuoteAmount(shoot)?.toLocaleString() || 0}
                         </span>
                       </div>
                     ))}
@@ -712,19 +889,252 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                   <div className="flex justify-between mt-1.5 pt-1.5 border-t border-blue-200">
                     <span className="font-semibold text-gray-900 text-sm">Grand Total</span>
                     <span className="text-lg font-bold text-blue-600">
-                      ₹{groupedShoots.reduce((sum, s) => sum + (s.vendorQuote?.amount || 0), 0).toLocaleString()}
+                      ₹{groupedShoots.reduce((sum, s) => sum + (getQuoteAmount(s) || 0), 0).toLocaleString()}
                     </span>
                   </div>
                 </div>
               )}
 
+              {/* Per-shoot decision for multi-shoot groups */}
+              {isMultiShoot && canApprove && isActiveShootPending && !isCountering && activeGroupShoot && (
+                <div className="mb-3 p-3 rounded-lg border border-gray-200">
+                  <div className="text-xs font-medium text-gray-700 mb-2">Decision for {activeGroupShoot.name}</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['approve', 'reject'] as const).map(decision => {
+                      const isSelected = groupDecisions[activeGroupShoot.id]?.decision === decision;
+                      const color = decision === 'approve' ? '#27AE60' : '#DC2626';
+                      return (
+                        <button
+                          key={decision}
+                          type="button"
+                          onClick={() => setShootDecision(activeGroupShoot.id, isSelected ? undefined : decision)}
+                          className="px-3 py-1.5 rounded-lg border-2 text-xs font-medium transition-colors"
+                          style={{
+                            borderColor: isSelected ? color : '#E5E7EB',
+                            backgroundColor: isSelected ? `${color}15` : 'white',
+                            color: isSelected ? color : '#374151'
+                          }}
+                        >
+                          {decision === 'approve' ? 'Approve this shoot' : 'Reject this shoot'}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {groupDecisions[activeGroupShoot.id]?.decision === 'reject' && (
+                    <textarea
+                      value={groupDecisions[activeGroupShoot.id].reason}
+                      onChange={(e) => {
+                        const reason = e.target.value;
+                        setGroupDecisions(prev => ({ ...prev, [activeGroupShoot.id]: { decision: 'reject', reason } }));
+                      }}
+                      placeholder="Reason for rejecting this shoot..."
+                      rows={2}
+                      className="mt-2 w-full px-3 py-2 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-red-500 resize-none"
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Counter-Offer - the approver's rate per line */}
+              {isCountering && activeGroupShoot && counterDraft && (() => {
+                const shoot = activeGroupShoot;
+                const quotedTotal = shoot.equipment.reduce((sum, item) => sum + getQuotedRate(shoot, item), 0);
+                const counterTotal = shoot.equipment.reduce((sum, item) => {
+                  const line = counterDraft.lines[item.id];
+                  return sum + (line && !line.struck ? line.counterRate : 0);
+                }, 0);
+
+                return (
+                  <div className="mb-3">
+                    <div className="flex items-center justify-between mb-1.5">
+                      <span className="text-xs font-medium text-gray-700">
+                        Counter-Offer{getSelectedBid(shoot) ? ` • ${getSelectedBid(shoot)?.vendorName}` : ''}
+                      </span>
+                      <span className="text-xs text-gray-500">Set a rate per line or remove it</span>
+                    </div>
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-[280px] overflow-y-auto">
+                      {shoot.equipment.map(item => {
+                        const line = counterDraft.lines[item.id] || { counterRate: 0, struck: false };
+                        const expectedPrice = (item.expectedRate || item.dailyRate || 0) * (item.quantity || 1) * getEquipmentDayCount(item);
+                        return (
+                          <div key={item.id} className="py-2 px-3 bg-white flex items-center gap-2">
+                            <div className="flex-1 min-w-0">
+                              <div className={`text-xs ${line.struck ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                                {item.name}
+                                {item.quantity && item.quantity > 1 && (
+                                  <span className="text-gray-500 ml-1">(x{item.quantity})</span>
+                                )}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                Quoted ₹{getQuotedRate(shoot, item).toLocaleString()} • Expected ₹{expectedPrice.toLocaleString()}
+                              </div>
+                            </div>
+                            <input
+                              type="number"
+                              min={0}
+                              value={line.struck ? '' : line.counterRate}
+                              disabled={line.struck}
+                              onChange={(e) => updateCounterLine(item.id, { counterRate: Math.max(0, Number(e.target.value) || 0) })}
+                              className="w-24 px-2 py-1 border border-gray-200 rounded-lg text-xs text-right focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => updateCounterLine(item.id, { struck: !line.struck })}
+                              className="p-1 rounded hover:bg-gray-100 transition-colors"
+                              title={line.struck ? 'Restore line' : 'Remove line'}
+                            >
+                              {line.struck
+                                ? <RotateCcw className="w-3.5 h-3.5 text-gray-500" />
+                                : <X className="w-3.5 h-3.5 text-red-500" />}
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <div className="mt-2 p-2 rounded-lg bg-gray-50 flex items-center justify-between text-xs">
+                      <span className="text-gray-600">Quoted ₹{quotedTotal.toLocaleString()}</span>
+                      <span className="font-semibold" style={{ color: '#2D60FF' }}>Counter ₹{counterTotal.toLocaleString()}</span>
+                    </div>
+                    <textarea
+                      value={counterNotes}
+                      onChange={(e) => setCounterNotes(e.target.value)}
+                      placeholder="Note to the vendor (optional)"
+                      rows={2}
+                      className="mt-2 w-full px-3 py-2 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                    />
+                  </div>
+                );
+              })()}
+
+              {/* Bid Comparison - per-line rates of every vendor against the catalog rate */}
+              {isComparingBids && !isCountering && activeGroupShoot && (() => {
+                const shoot = activeGroupShoot;
+                const bids = shoot.vendorBids || [];
+                const selectedBid = getSelectedBid(shoot);
+                const getBidRate = (bid: VendorBid, itemId: string) =>
+                  bid.itemizedPrices.find(p => p.id === itemId)?.vendorRate || 0;
+                const totalExpected = shoot.equipment.reduce((sum, item) => 
+                  sum + ((item.expectedRate || item.dailyRate || 0) * (item.quantity || 1) * getEquipmentDayCount(item)), 0
+                );
+                const lowestTotal = Math.min(...bids.map(b => b.amount));
+
+                return (
+                  <div className="mb-3">
+                    <div className="flex items-center justify-between mb-1.5">
+                      <span className="text-xs font-medium text-gray-700">Bid Comparison • {bids.length} vendors</span>
+                      <span className="text-xs text-gray-500">Select a vendor to award</span>
+                    </div>
+                    <div className="border border-gray-200 rounded-lg overflow-x-auto max-h-[320px] overflow-y-auto">
+                      <table className="w-full text-xs">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-700">Item</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Expected</th>
+                            {bids.map(bid => {
+                              const isSelected = bid.id === selectedBid?.id;
+                              return (
+                                <th key={bid.id} className="px-3 py-2 text-right font-medium">
+                                  <button
+                                    type="button"
+                                    onClick={() => setAwardedBids(prev => ({ ...prev, [shoot.id]: bid.id }))}
+                                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md border transition-colors"
+                                    style={{
+                                      borderColor: isSelected ? '#2D60FF' : '#E5E7EB',
+                                      backgroundColor: isSelected ? '#EEF2FF' : 'white',
+                                      color: isSelected ? '#2D60FF' : '#374151'
+                                    }}
+                                  >
+                                    {isSelected && <CheckCircle className="w-3 h-3" />}
+                                    {bid.vendorName}
+                                  </button>
+                                </th>
+                              );
+                            })}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {shoot.equipment.map(item => {
+                            const expectedPrice = (item.expectedRate || item.dailyRate || 0) * (item.quantity || 1) * getEquipmentDayCount(item);
+                            const rates = bids.map(bid => getBidRate(bid, item.id)).filter(r => r > 0);
+                            const bestRate = rates.length > 0 ? Math.min(...rates) : 0;
+
+                            return (
+                              <tr key={item.id} className="bg-white">
+                                <td className="px-3 py-2 text-gray-900">
+                                  {item.name}
+                                  {item.quantity && item.quantity > 1 && (
+                                    <span className="text-gray-500 ml-1">(x{item.quantity})</span>
+                                  )}
+                                </td>
+                                <td className="px-3 py-2 text-right text-gray-500">₹{expectedPrice.toLocaleString()}</td>
+                                {bids.map(bid => {
+                                  const rate = getBidRate(bid, item.id);
+                                  const isBest = rate > 0 && rate === bestRate && rates.length > 1;
+                                  return (
+                                    <td
+                                      key={bid.id}
+                                      className="px-3 py-2 text-right"
+                                      style={{
+                                        backgroundColor: isBest ? '#E8F5E9' : undefined,
+                                        color: expectedPrice > 0 && rate > expectedPrice ? '#E74C3C' : '#111827',
+                                        fontWeight: isBest ? 600 : undefined
+                                      }}
+                                    >
+                                      {rate > 0 ? `₹${rate.toLocaleString()}` : '—'}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                        <tfoot className="bg-gray-50 border-t border-gray-200">
+                          <tr>
+                            <td className="px-3 py-2 font-semibold text-gray-900">Total</td>
+                            <td className="px-3 py-2 text-right text-gray-500">₹{totalExpected.toLocaleString()}</td>
+                            {bids.map(bid => {
+                              const diff = bid.amount - totalExpected;
+                              return (
+                                <td key={bid.id} className="px-3 py-2 text-right">
+                                  <div
+                                    className="font-semibold"
+                                    style={{ color: bid.amount === lowestTotal ? '#27AE60' : '#111827' }}
+                                  >
+                                    ₹{bid.amount.toLocaleString()}
+                                  </div>
+                                  {bid.gstRate !== undefined && (
+                                    <div className="text-gray-400">+ {bid.gstRate}% GST</div>
+                                  )}
+                                  {totalExpected > 0 && diff !== 0 && (
+                                    <div style={{ color: diff > 0 ? '#E74C3C' : '#27AE60' }}>
+                                      {diff > 0 ? '↑' : '↓'} ₹{Math.abs(diff).toLocaleString()}
+                                    </div>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        </tfoot>
+                      </table>
+                    </div>
+                    {selectedBid?.notes && (
+                      <div className="mt-2">
+                        <div className="text-xs font-medium text-gray-700 mb-1">{selectedBid.vendorName} Notes</div>
+                        <div className="p-2 bg-gray-50 rounded-lg text-gray-600 text-xs">{selectedBid.notes}</div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
+
               {/* Equipment List - Clean View */}
+              {!isComparingBids && !isCountering && (
               <div className="mb-3">
                 <div className="text-xs font-medium text-gray-700 mb-1.5">Equipment List</div>
                 
                 <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-[200px] overflow-y-auto">
                   {activeGroupShoot?.equipment.map((item) => {
-                    const expectedPrice = (item.expectedRate || item.dailyRate || 0) * (item.quantity || 1);
+                    const expectedPrice = (item.expectedRate || item.dailyRate || 0) * (item.quantity || 1) * getEquipmentDayCount(item);
                     const vendorPrice = item.vendorRate || 0;
                     const difference = vendorPrice - expectedPrice;
                     
@@ -736,10 +1146,15 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                             {item.quantity && item.quantity > 1 && (
                               <span className="text-gray-500 text-xs ml-1">(x{item.quantity})</span>
                             )}
+                            {item.scheduledDays && item.scheduledDays.length > 0 && (
+                              <span className="text-gray-500 text-xs ml-1">
+                                • {item.scheduledDays.length} {item.scheduledDays.length === 1 ? 'day' : 'days'}
+                              </span>
+                            )}
                           </div>
                           
                           {/* Vendor Price with Difference Below - Admin only */}
-                          {isAdmin ? (
+                          {canApprove ? (
                             <div className="text-right flex-shrink-0 ml-2">
                               <div className="text-gray-900 text-xs font-medium">
                                 ₹{vendorPrice.toLocaleString()}
@@ -767,11 +1182,11 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                 </div>
                 
                 {/* Total Summary - Compact - Admin only */}
-                {isAdmin && (() => {
+                {canApprove && (() => {
                   const shoot = activeGroupShoot;
                   if (!shoot) return null;
                   const totalExpected = shoot.equipment.reduce((sum, item) => 
-                    sum + ((item.expectedRate || item.dailyRate || 0) * (item.quantity || 1)), 0
+                    sum + ((item.expectedRate || item.dailyRate || 0) * (item.quantity || 1) * getEquipmentDayCount(item)), 0
                   );
                   const totalVendor = shoot.equipment.reduce((sum, item) => 
                     sum + (item.vendorRate || 0), 0
@@ -800,9 +1215,15 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                   ) : null;
                 })()}
               </div>
+              )}
+
+              {/* Quote History - earlier rounds and what changed between them */}
+              {canApprove && activeGroupShoot?.quoteRevisions && (
+                <QuoteHistory key={activeGroupShoot.id} revisions={activeGroupShoot.quoteRevisions} />
+              )}
 
               {/* Vendor Notes */}
-              {activeGroupShoot?.vendorQuote?.notes && (
+              {!isComparingBids && activeGroupShoot?.vendorQuote?.notes && (
                 <div className="mb-3">
                   <div className="text-xs font-medium text-gray-700 mb-1">Vendor Notes</div>
                   <div className="p-2 bg-gray-50 rounded-lg text-gray-600 text-xs">
@@ -823,14 +1244,53 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             </div>
 
             {/* Modal Footer - Only show action buttons for pending approvals AND admin users */}
-            {activeGroupShoot?.status === 'with_swati' && !activeGroupShoot?.approved && isAdmin && (
+            {(isMultiShoot ? pendingGroupShoots.length > 0 : isActiveShootPending) && canApprove && (
               <div className="px-6 py-3 border-t border-gray-100 flex-shrink-0">
                 {isMultiShoot && (
                   <div className="mb-2 text-center text-xs text-gray-500">
-                    Applies to all {groupedShoots.length} shoots
+                    {isCountering
+                      ? `Counter-offer applies to ${activeGroupShoot?.name} only`
+                      : decidedShoots.length > 0
+                        ? `${decidedShoots.filter(s => groupDecisions[s.id].decision === 'approve').length} to approve • ${decidedShoots.filter(s => groupDecisions[s.id].decision === 'reject').length} to reject • ${pendingGroupShoots.length - decidedShoots.length} left pending`
+                        : `Applies to all ${pendingGroupShoots.length} pending shoots`}
                   </div>
                 )}
+          {isMultiShoot && decidedShoots.length > 0 && !isCountering ? (
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => setGroupDecisions({})}
+              className="px-5 py-2.5 rounded-lg border-2 border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors font-medium text-sm"
+            >
+              Clear Decisions
+            </button>
+            <button
+              onClick={handleSubmitDecisions}
+              disabled={isApproving || decidedShoots.some(s => groupDecisions[s.id].decision === 'reject' && !groupDecisions[s.id].reason.trim())}
+              className="px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {isApproving ? 'Saving...' : `Submit ${decidedShoots.length} Decision${decidedShoots.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+          ) : isCountering ? (
           <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => setCounterDraft(null)}
+              className="px-5 py-2.5 rounded-lg border-2 border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors font-medium text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSendCounterOffer}
+              disabled={isSendingCounter}
+              className="px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {isSendingCounter ? 'Sending...' : 'Send Counter-Offer'}
+            </button>
+          </div>
+          ) : (
+          <div className={`grid ${onCounterOffer && isActiveShootPending ? 'grid-cols-3' : 'grid-cols-2'} gap-3`}>
             <button
               onClick={() => setShowRejectDialog(true)}
                     className="px-5 py-2.5 rounded-lg border-2 text-red-600 hover:bg-red-50 transition-colors font-medium text-sm"
@@ -838,6 +1298,15 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
             >
                     Reject {isMultiShoot ? 'All' : 'Quote'}
             </button>
+            {onCounterOffer && isActiveShootPending && (
+              <button
+                onClick={startCounterOffer}
+                className="px-5 py-2.5 rounded-lg border-2 transition-colors font-medium text-sm hover:bg-blue-50"
+                style={{ borderColor: '#2D60FF', color: '#2D60FF' }}
+              >
+                Counter
+              </button>
+            )}
             <button
               onClick={handleApprove}
               disabled={isApproving}
@@ -850,19 +1319,24 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
                   Approving...
                 </span>
               ) : (
-                `Approve ${isMultiShoot ? 'All' : 'Quote'}`
+                isComparingBids && !isMultiShoot
+                  ? `Award ${getSelectedBid(activeGroupShoot)?.vendorName}`
+                  : `Approve ${isMultiShoot ? 'All' : 'Quote'}`
               )}
             </button>
                 </div>
+          )}
               </div>
             )}
             
             {/* Non-admin pending approval message */}
-            {activeGroupShoot?.status === 'with_swati' && !activeGroupShoot?.approved && !isAdmin && (
+            {activeGroupShoot && isAwaitingApproval(activeGroupShoot.status) && !activeGroupShoot.approved && !isActiveShootPending && (!isMultiShoot || pendingGroupShoots.length === 0) && (
               <div className="px-6 py-3 border-t border-gray-100 flex-shrink-0 bg-gray-50">
                 <div className="text-center text-sm text-gray-600">
                   <Lock className="w-4 h-4 inline-block mr-1" />
-                  Approval actions are available to admins only
+                  {canApprove && activeChain
+                    ? `Awaiting ${ROLE_LABELS[activeChain.currentRole]} approval`
+                    : 'Approval actions are available to approvers only'}
                 </div>
               </div>
             )}
@@ -915,7 +1389,8 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
               </button>
             </div>
             <p className="text-sm text-gray-600 mb-4">
-              Please provide a reason for rejecting the quote for <strong>{selectedShoot.name}</strong>:
+              Please provide a reason for rejecting the quote for{' '}
+              <strong>{isMultiShoot ? `all ${pendingGroupShoots.length} pending shoots` : selectedShoot.name}</strong>:
             </p>
             <textarea
               value={rejectReason}
@@ -943,6 +1418,15 @@ export function ApprovalScreen({ shoots, allShoots, onApprove, onReject, onBack,
           </div>
         </div>
       )}
+
+      {/* Approval Bands Editor */}
+      {showBandsEditor && onSaveApprovalBands && (
+        <ApprovalBandsEditor
+          bands={approvalBands}
+          onSave={onSaveApprovalBands}
+          onClose={() => setShowBandsEditor(false)}
+        />
+      )}
     </div>
   );
 }
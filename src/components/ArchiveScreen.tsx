@@ -5,6 +5,7 @@ import {
   DollarSign, 
   Package, 
   Archive,
+  Building2,
   XCircle,
   AlertCircle,
   Eye,
@@ -14,16 +15,24 @@ import {
 } from 'lucide-react';
 import type { Shoot } from '../App';
 import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, ROLE_INITIALS } from '../lib/permissions';
+import type { TaxSettings } from '../lib/tax';
+import { groupShootsByMonth } from '../lib/shootDates';
+import type { Vendor } from '../services/vendorService';
+import { ExportMenu } from './ExportMenu';
 
 interface ArchiveScreenProps {
   shoots: Shoot[];
   onBack: () => void;
-  onOpenApprovals: () => void;
-  onOpenFinance: () => void;
-  onOpenCatalog: () => void;
+  onOpenApprovals?: () => void;
+  onOpenFinance?: () => void;
+  onOpenCatalog?: () => void;
+  onOpenVendors?: () => void;
   onRestoreShoot?: (shootId: string) => void;
   onDeletePermanently?: (shootId: string) => void;
   approvalsPending?: number;
+  vendors?: Vendor[];
+  taxSettings?: TaxSettings;
 }
 
 type FilterTab = 'all' | 'rejected' | 'cancelled';
@@ -34,11 +43,16 @@ export function ArchiveScreen({
   onOpenApprovals, 
   onOpenFinance, 
   onOpenCatalog,
+  onOpenVendors,
   onRestoreShoot,
   onDeletePermanently,
-  approvalsPending = 0
+  approvalsPending = 0,
+  vendors,
+  taxSettings
 }: ArchiveScreenProps) {
-  const { isAdmin } = useAuth();
+  const { user, isAdmin } = useAuth();
+  const roleLabel = user ? ROLE_LABELS[user.role] : 'Pre-production Team';
+  const roleInitials = user ? ROLE_INITIALS[user.role] : 'PT';
   const [filterTab, setFilterTab] = useState<FilterTab>('all');
   const [selectedShoot, setSelectedShoot] = useState<Shoot | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
@@ -49,66 +63,6 @@ export function ArchiveScreen({
   const rejectedCount = shoots.filter(s => s.rejectionReason).length;
   const cancelledCount = shoots.filter(s => s.status === 'cancelled').length;
 
-  // Month name mappings
-  const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                      'July', 'August', 'September', 'October', 'November', 'December'];
-  const shortMonthMap: { [key: string]: number } = {
-    'Jan': 0, 'Feb': 1, 'Mar': 2, 'Apr': 3, 'May': 4, 'Jun': 5,
-    'Jul': 6, 'Aug': 7, 'Sep': 8, 'Oct': 9, 'Nov': 10, 'Dec': 11
-  };
-
-  // Group shoots by month
-  const groupByMonth = (shootList: Shoot[]) => {
-    const groups: { [key: string]: Shoot[] } = {};
-    
-    shootList.forEach(shoot => {
-      const dateStr = shoot.date;
-      let monthIndex = -1;
-      let year = new Date().getFullYear();
-      
-      // Try to extract month from date string
-      for (const [shortMonth, index] of Object.entries(shortMonthMap)) {
-        if (dateStr.includes(shortMonth)) {
-          monthIndex = index;
-          break;
-        }
-      }
-      
-      // If shoot has shootDate, use that for accurate year
-      if (shoot.shootDate) {
-        const shootDateObj = new Date(shoot.shootDate);
-        if (!isNaN(shootDateObj.getTime())) {
-          monthIndex = shootDateObj.getMonth();
-          year = shootDateObj.getFullYear();
-        }
-      }
-      
-      if (monthIndex === -1) monthIndex = new Date().getMonth();
-      
-      const monthKey = `${monthNames[monthIndex]} ${year}`;
-      
-      if (!groups[monthKey]) {
-        groups[monthKey] = [];
-      }
-      groups[monthKey].push(shoot);
-    });
-    
-    return groups;
-  };
-
-  // Sort months chronologically
-  const sortMonthsChronologically = (months: string[]) => {
-    return months.sort((a, b) => {
-      const [monthA, yearA] = a.split(' ');
-      const [monthB, yearB] = b.split(' ');
-      const indexA = monthNames.indexOf(monthA);
-      const indexB = monthNames.indexOf(monthB);
-      const yearDiff = parseInt(yearA) - parseInt(yearB);
-      if (yearDiff !== 0) return yearDiff;
-      return indexA - indexB;
-    });
-  };
-
   // Get filtered data based on tab
   const getFilteredData = () => {
     if (filterTab === 'rejected') {
@@ -120,8 +74,7 @@ export function ArchiveScreen({
   };
 
   const filteredData = getFilteredData();
-  const groupedData = groupByMonth(filteredData);
-  const monthOrder = sortMonthsChronologically(Object.keys(groupedData));
+  const monthGroups = groupShootsByMonth(filteredData);
 
   const openDetails = (shoot: Shoot) => {
     setSelectedShoot(shoot);
@@ -161,6 +114,7 @@ export function ArchiveScreen({
             <span>Active Shoots</span>
           </button>
 
+          {onOpenApprovals && (
           <button
             onClick={onOpenApprovals}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors relative hover:bg-gray-700"
@@ -177,7 +131,9 @@ export function ArchiveScreen({
               </span>
             )}
           </button>
+          )}
 
+          {onOpenFinance && (
           <button
             onClick={onOpenFinance}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -186,7 +142,9 @@ export function ArchiveScreen({
             <DollarSign className="w-5 h-5" />
             <span>Finance & Invoices</span>
           </button>
+          )}
 
+          {onOpenCatalog && (
           <button
             onClick={onOpenCatalog}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -195,6 +153,18 @@ export function ArchiveScreen({
             <Package className="w-5 h-5" />
             <span>Catalog</span>
           </button>
+          )}
+
+          {onOpenVendors && (
+          <button
+            onClick={onOpenVendors}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+          )}
 
           <button
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors"
@@ -212,10 +182,10 @@ export function ArchiveScreen({
               className="w-10 h-10 rounded-full flex items-center justify-center text-white"
               style={{ backgroundColor: '#2D60FF' }}
             >
-              {isAdmin ? 'A' : 'PT'}
+              {roleInitials}
             </div>
             <div>
-              <div className="text-white text-sm">{isAdmin ? 'Admin' : 'Pre-production Team'}</div>
+              <div className="text-white text-sm">{roleLabel}</div>
               <div className="text-gray-400 text-xs">{isAdmin ? 'Administrator' : 'Team Member'}</div>
             </div>
           </div>
@@ -291,8 +261,15 @@ export function ArchiveScreen({
               <AlertCircle className="w-4 h-4" />
               Cancelled
             </button>
-            <div className="ml-auto text-sm text-gray-500">
-              Sort by Month
+            <div className="ml-auto flex items-center gap-4">
+              <span className="text-sm text-gray-500">Sort by Month</span>
+              <ExportMenu
+                shoots={filteredData}
+                fileName={`archive-${filterTab}`}
+                vendors={vendors}
+                taxSettings={taxSettings}
+                description={filterTab === 'all' ? 'All rejected and cancelled shoots' : `${filterTab === 'rejected' ? 'Rejected' : 'Cancelled'} shoots`}
+              />
             </div>
           </div>
         </div>
@@ -300,11 +277,7 @@ export function ArchiveScreen({
         {/* Archive Table (Grouped by Month) */}
         <div className="px-8 py-8">
           <div className="space-y-8">
-            {monthOrder.map(month => {
-              const monthData = groupedData[month];
-              
-              if (!monthData || monthData.length === 0) return null;
-              
+            {monthGroups.map(({ label: month, shoots: monthData }) => {
               return (
                 <div key={month}>
                   {/* Group Header */}
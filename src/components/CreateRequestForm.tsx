@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, ChevronLeft, ChevronRight, ChevronDown, Calendar, Search, Plus, Camera, Trash2, Check, Aperture, Sun, Mic, Video, Clapperboard, Package, Truck, Users, Lightbulb, Monitor, HardDrive, Headphones, Radio, Zap, CheckCircle, AlertTriangle, AlertOctagon, Copy, Lock } from 'lucide-react';
 import type { CatalogItem } from './EquipmentCatalogManager';
+import type { Vendor } from '../services/vendorService';
+import type { Project } from '../services/projectService';
+import type { Shoot } from '../App';
+import { DEFAULT_APPROVAL_BANDS, getApprovalBand, type ApprovalBand } from '../lib/approvals';
+import { getPeriodKey, getProjectBudgetStatus, periodLabel } from '../lib/budgets';
+import { DEFAULT_TAX_SETTINGS, type TaxSettings } from '../lib/tax';
+import { getDayRange, getEquipmentAvailability, getEquipmentBookings, type EquipmentBooking } from '../lib/availability';
+import { EquipmentAvailabilityBadge } from './EquipmentAvailability';
 
 interface CartItem extends CatalogItem {
   quantity: number;
+  scheduledDays?: string[]; // YYYY-MM-DD days the item is needed - every day of the shoot when absent
 }
 
 interface ShootData {
@@ -19,10 +28,15 @@ interface CreateRequestFormProps {
   onClose: () => void;
   onSubmit: (requestData: any) => void | Promise<void>;
   catalogItems: CatalogItem[];
+  vendors?: Vendor[]; // Active vendors the request can be assigned to
   onAddCatalogItem?: (item: CatalogItem) => void;
+  approvalBands?: ApprovalBand[]; // Budget bands the totals are measured against
+  projects?: Project[]; // Active projects the request can be charged to
+  allShoots?: Shoot[]; // Existing shoots, for what is left of the project's budget and equipment stock
+  taxSettings?: TaxSettings;
 }
 
-export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalogItem }: CreateRequestFormProps) {
+export function CreateRequestForm({ onClose, onSubmit, catalogItems, vendors = [], onAddCatalogItem, approvalBands = DEFAULT_APPROVAL_BANDS, projects = [], allShoots = [], taxSettings = DEFAULT_TAX_SETTINGS }: CreateRequestFormProps) {
   // Get current date in India timezone (IST)
   const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
   const currentDay = today.getDate();
@@ -32,6 +46,15 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
   // Shared fields
   const [requestorName, setRequestorName] = useState('');
   const [approvalEmail, setApprovalEmail] = useState('');
+  const [vendorId, setVendorId] = useState('');
+  const [projectId, setProjectId] = useState('');
+
+  // Default to the first vendor once the registry has loaded
+  useEffect(() => {
+    if (!vendorId && vendors.length > 0) {
+      setVendorId(vendors[0].id);
+    }
+  }, [vendors]);
   
   // Add New Equipment Modal state
   const [showAddEquipmentModal, setShowAddEquipmentModal] = useState(false);
@@ -217,6 +240,18 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
     }
   };
 
+  // Select or clear one day of the shoot for an item - every day selected means no schedule
+  const toggleItemDay = (itemId: string, day: string) => {
+    const shootDays = getShootDays(activeShoot);
+    updateActiveShoot('cart', activeShoot.cart.map(c => {
+      if (c.id !== itemId) return c;
+      const current = getLineDays(c, activeShoot);
+      const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+      if (next.length === 0) return c; // An item is needed on at least one day
+      return { ...c, scheduledDays: next.length === shootDays.length ? undefined : next };
+    }));
+  };
+
   const getCartQuantity = (itemId: string) => {
     const item = activeShoot.cart.find(c => c.id === itemId);
     return item ? item.quantity : 0;
@@ -273,40 +308,135 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
   };
 
   const calculateShootTotal = (shoot: ShootData) => {
-    const days = calculateDays(shoot);
-    return shoot.cart.reduce((sum, item) => sum + (item.dailyRate * item.quantity * days), 0);
+    return shoot.cart.reduce((sum, item) => sum + (item.dailyRate * item.quantity * getLineDayCount(item, shoot)), 0);
   };
 
   const calculateGrandTotal = () => {
     return shoots.reduce((sum, shoot) => sum + calculateShootTotal(shoot), 0);
   };
 
-  // Get budget status based on total amount
+  // Get budget status from the band the total falls in - the first band is in budget,
+  // the last is over budget, anything between is a warning
   const getBudgetStatus = (total: number) => {
-    if (total <= 30000) {
+    const band = getApprovalBand(approvalBands, total);
+    const index = approvalBands.indexOf(band);
+    const approvers = band.approverRoles.length > 1 ? ` • ${band.approverRoles.length} approvals` : '';
+    if (index === 0) {
       return {
         color: '#27AE60',
         bgColor: '#E8F5E9',
-        label: 'In Budget',
+        label: `${band.label}${approvers}`,
         Icon: CheckCircle
       };
-    } else if (total <= 60000) {
+    } else if (index < approvalBands.length - 1) {
       return {
         color: '#F5A623',
         bgColor: '#FFF8E1',
-        label: 'Slightly Over Budget',
+        label: `${band.label}${approvers}`,
         Icon: AlertTriangle
       };
     } else {
       return {
         color: '#E74C3C',
         bgColor: '#FFEBEE',
-        label: 'Over Budget',
+        label: `${band.label}${approvers}`,
         Icon: AlertOctagon
       };
     }
   };
 
+  // What this request does to the project's budget in each period its shoots fall in
+  const getBudgetWarnings = () => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return [];
+    const periods = new Map<string, { date: Date; estimate: number }>();
+    shoots.forEach(shoot => {
+      if (!shoot.selectedStartDate) return;
+      const date = new Date(shoot.selectedStartDate.year, shoot.selectedStartDate.month, shoot.selectedStartDate.day);
+      const key = getPeriodKey(date, project.budgetPeriod);
+      const period = periods.get(key) || { date, estimate: 0 };
+      period.estimate += calculateShootTotal(shoot);
+      periods.set(key, period);
+    });
+    return Array.from(periods.entries()).map(([key, { date, estimate }]) => {
+      const status = getProjectBudgetStatus(project, allShoots, taxSettings, date);
+      const label = periodLabel(key);
+      if (status.budget === null || status.remaining === null) {
+        return { key, color: '#6B7280', Icon: AlertTriangle, message: `No ${project.name} budget set for ${label}` };
+      }
+      if (estimate > status.remaining) {
+        return {
+          key,
+          color: '#E74C3C',
+          Icon: AlertOctagon,
+          message: `Would overrun the ${label} budget by ₹${Math.round(estimate - status.remaining).toLocaleString()} - ₹${Math.max(Math.round(status.remaining), 0).toLocaleString()} of ₹${status.budget.toLocaleString()} left`,
+        };
+      }
+      if (estimate + status.pipeline > status.remaining) {
+        return {
+          key,
+          color: '#F5A623',
+          Icon: AlertTriangle,
+          message: `₹${Math.round(status.remaining).toLocaleString()} left in ${label}, but ₹${Math.round(status.pipeline).toLocaleString()} more is awaiting quotes or approval`,
+        };
+      }
+      return {
+        key,
+        color: '#27AE60',
+        Icon: CheckCircle,
+        message: `Within budget - ₹${Math.round(status.remaining - estimate).toLocaleString()} of ₹${status.budget.toLocaleString()} left in ${label} after this request`,
+      };
+    });
+  };
+
+  const getShootDays = (shoot: ShootData) => {
+    if (!shoot.selectedStartDate) return [];
+    const { year, month, day } = shoot.selectedStartDate;
+    const end = shoot.selectedEndDate || shoot.selectedStartDate;
+    return getDayRange(new Date(year, month, day), new Date(end.year, end.month, end.day));
+  };
+
+  // Days a cart item is needed - its own selection within the shoot's dates, otherwise all of them
+  const getLineDays = (item: CartItem, shoot: ShootData) => {
+    const shootDays = getShootDays(shoot);
+    const scheduled = (item.scheduledDays || []).filter(day => shootDays.includes(day));
+    return scheduled.length > 0 ? scheduled : shootDays;
+  };
+
+  const getLineDayCount = (item: CartItem, shoot: ShootData) => Math.max(1, getLineDays(item, shoot).length);
+
+  // Stock of an item on a shoot's dates - the request's other shoots count as pending bookings
+  const getShootAvailability = (item: CatalogItem, shoot: ShootData) => {
+    const line = shoot.cart.find(c => c.id === item.id);
+    const days = line ? getLineDays(line, shoot) : getShootDays(shoot);
+    if (days.length === 0) return null;
+    const draftBookings: EquipmentBooking[] = shoots
+      .filter(other => other.id !== shoot.id)
+      .flatMap(other => {
+        const otherLine = other.cart.find(c => c.id === item.id);
+        return otherLine ? [{
+          shootId: `draft-${other.id}`,
+          shootName: other.shootName || 'Another shoot in this request',
+          vendorId: vendorId || undefined,
+          days: getLineDays(otherLine, other),
+          quantity: otherLine.quantity,
+          approved: false,
+        }] : [];
+      });
+    return getEquipmentAvailability(item, {
+      days,
+      bookings: [...getEquipmentBookings(item, allShoots), ...draftBookings],
+      requested: line?.quantity || 0,
+      vendorId: vendorId || undefined,
+    });
+  };
+
+  // Items any shoot of the request would overbook
+  const getOverbookedItems = () =>
+    shoots.flatMap(shoot => shoot.cart
+      .filter(item => getShootAvailability(item, shoot)?.overbooked)
+      .map(item => ({ key: `${shoot.id}-${item.id}`, shootName: shoot.shootName, name: item.name })));
+
   const formatDate = (date: { day: number; month: number; year: number } | null) => {
     if (!date) return '';
     return `${monthNamesShort[date.month]} ${date.day}`;
@@ -331,12 +461,23 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
       // Submit all shoots as part of one request
       const shootsData = shoots.map(shoot => {
         const days = calculateDays(shoot);
+        const shootDays = getShootDays(shoot);
         return {
           shootName: shoot.shootName,
           location: shoot.location,
           startDate: shoot.selectedStartDate ? `${shoot.selectedStartDate.year}-${String(shoot.selectedStartDate.month + 1).padStart(2, '0')}-${String(shoot.selectedStartDate.day).padStart(2, '0')}` : '',
           endDate: shoot.selectedEndDate ? `${shoot.selectedEndDate.year}-${String(shoot.selectedEndDate.month + 1).padStart(2, '0')}-${String(shoot.selectedEndDate.day).padStart(2, '0')}` : '',
-          equipment: shoot.cart.map(item => ({ ...item, days, expectedRate: item.dailyRate })),
+          days,
+          // Items needed on only some days carry those days - the rest run the whole shoot
+          equipment: shoot.cart.map(item => {
+            const lineDays = getLineDays(item, shoot);
+            return {
+              ...item,
+              days: Math.max(1, lineDays.length),
+              scheduledDays: lineDays.length < shootDays.length ? lineDays : undefined,
+              expectedRate: item.dailyRate,
+            };
+          }),
           totalBudget: calculateShootTotal(shoot),
         };
       });
@@ -347,6 +488,8 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
         ...shootData,
         shootName: shootData.shootName || `Shoot ${index + 1}`,
         approvalEmail,
+        vendorId: vendorId || undefined,
+        projectId: projectId || undefined,
         isMultiShoot: shoots.length > 1,
         multiShootIndex: index,
         totalShootsInRequest: shoots.length,
@@ -473,6 +616,7 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
   // Check if form is valid
   const isFormValid = () => {
     if (!requestorName || !approvalEmail) return false;
+    if (vendors.length > 0 && !vendorId) return false;
     return shoots.every(shoot => 
       shoot.shootName && shoot.location && shoot.cart.length > 0 && 
       shoot.selectedStartDate && shoot.selectedEndDate
@@ -504,7 +648,7 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
           <div className="w-1/2 flex flex-col bg-white border-r border-gray-200">
             {/* Shared Fields Section */}
             <div className="px-8 py-4 border-b border-gray-100 bg-gray-50">
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div>
                   <label className="block text-xs text-gray-500 mb-1">Requestor Name</label>
                 <input
@@ -525,7 +669,42 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                   />
                 </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Vendor</label>
+                  <select
+                    value={vendorId}
+                    onChange={(e) => setVendorId(e.target.value)}
+                    disabled={vendors.length === 0}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white disabled:bg-gray-100"
+                  >
+                    {vendors.length === 0 && <option value="">No vendors yet</option>}
+                    {vendors.map(vendor => (
+                      <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
+              {projects.length > 0 && (
+                <div className="mt-3">
+                  <label className="block text-xs text-gray-500 mb-1">Project / Cost Centre</label>
+                  <select
+                    value={projectId}
+                    onChange={(e) => setProjectId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm bg-white"
+                  >
+                    <option value="">No project</option>
+                    {projects.map(project => (
+                      <option key={project.id} value={project.id}>{project.code ? `${project.name} (${project.code})` : project.name}</option>
+                    ))}
+                  </select>
+                  {getBudgetWarnings().map(warning => (
+                    <div key={warning.key} className="flex items-center gap-1.5 mt-1.5 text-xs" style={{ color: warning.color }}>
+                      <warning.Icon className="w-3.5 h-3.5 flex-shrink-0" />
+                      <span>{warning.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               </div>
 
             {/* Shoot Tabs */}
@@ -897,6 +1076,19 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
                   </div>
                 </div>
 
+                {/* Equipment the vendor can't cover on these dates */}
+                {getOverbookedItems().length > 0 && (
+                  <div className="p-3 rounded-xl text-xs space-y-1" style={{ backgroundColor: '#FDECEA', color: '#E74C3C' }}>
+                    <div className="flex items-center gap-1.5 font-medium">
+                      <AlertOctagon className="w-3.5 h-3.5 flex-shrink-0" />
+                      Not enough stock with approved and pending shoots on the same dates
+                    </div>
+                    {getOverbookedItems().map(item => (
+                      <div key={item.key} className="pl-5">{shoots.length > 1 && item.shootName ? `${item.shootName}: ` : ''}{item.name}</div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Shoot Summary Card */}
                 <div className="p-4 rounded-xl border border-gray-200 bg-gray-50">
                   <div className="flex items-center justify-between">
@@ -1012,7 +1204,45 @@ export function CreateRequestForm({ onClose, onSubmit, catalogItems, onAddCatalo
                             {/* Item Info */}
                             <div className="flex-1 min-w-0">
                               <div className="text-gray-900 text-sm">{item.name}</div>
-                                  <div className="text-gray-500 text-xs">₹{item.dailyRate.toLocaleString()}/day</div>
+                                  <div className="flex items-center gap-2 flex-wrap text-gray-500 text-xs">
+                                    ₹{item.dailyRate.toLocaleString()}/day
+                                    {(() => {
+                                      const availability = getShootAvailability(item, activeShoot);
+                                      return availability && <EquipmentAvailabilityBadge availability={availability} />;
+                                    })()}
+                                  </div>
+                                  {/* Days the item is needed on multi-day shoots */}
+                                  {(() => {
+                                    const line = activeShoot.cart.find(c => c.id === item.id);
+                                    const shootDays = getShootDays(activeShoot);
+                                    if (!line || shootDays.length < 2) return null;
+                                    const lineDays = getLineDays(line, activeShoot);
+                                    return (
+                                      <div className="flex items-center gap-1 mt-2" style={{ flexWrap: 'wrap' }}>
+                                        {shootDays.map(day => {
+                                          const [year, month, date] = day.split('-').map(Number);
+                                          const selected = lineDays.includes(day);
+                                          return (
+                                            <button
+                                              key={day}
+                                              type="button"
+                                              onClick={() => toggleItemDay(item.id, day)}
+                                              className="px-2 py-0.5 rounded text-xs transition-all"
+                                              style={selected
+                                                ? { backgroundColor: '#EFF6FF', color: '#2D60FF', border: '1px solid #2D60FF' }
+                                                : { backgroundColor: 'white', color: '#9CA3AF', border: '1px solid #E5E7EB' }}
+                                              title={selected ? 'Needed this day - click to skip' : 'Not needed this day - click to add'}
+                                            >
+                                              {formatDate({ year, month: month - 1, day: date })}
+                                            </button>
+                                          );
+                                        })}
+                                        <span className="text-xs text-gray-500">
+                                          {lineDays.length} of {shootDays.length} days
+                                        </span>
+                                      </div>
+                                    );
+                                  })()}
                             </div>
                             
                                 {/* Add/Remove Buttons with Quantity Controls */}
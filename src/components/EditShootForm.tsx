@@ -2,12 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Save, ArrowLeft, Package, Edit3, DollarSign, ChevronDown, Search, Camera, Aperture, Lightbulb, Headphones, Clapperboard, Monitor, Zap, Truck, Users, Check } from 'lucide-react';
 import type { Shoot, Equipment } from '../App';
 import type { CatalogItem } from './EquipmentCatalogManager';
+import type { Vendor } from '../services/vendorService';
+import type { Project } from '../services/projectService';
+import { getEquipmentAvailability, getEquipmentBookings, getEquipmentDays } from '../lib/availability';
+import { EquipmentAvailabilityBadge } from './EquipmentAvailability';
 
 interface EditShootFormProps {
   shoot: Shoot;
   relatedShoots?: Shoot[];
   catalogItems: CatalogItem[];
-  onSave: (shootId: string, updatedEquipment: Equipment[], updatedVendorQuote?: { amount: number; notes: string }) => void;
+  vendors?: Vendor[];
+  projects?: Project[]; // Projects the shoots can be charged to
+  existingShoots?: Shoot[]; // Every shoot, to check equipment stock on overlapping dates
+  onSave: (shootId: string, updatedEquipment: Equipment[], updatedVendorQuote?: { amount: number; notes: string }, vendorId?: string, projectId?: string) => void;
   onClose: () => void;
 }
 
@@ -18,7 +25,7 @@ interface EditableEquipment extends Equipment {
   originalVendorRate?: number;
 }
 
-export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave, onClose }: EditShootFormProps) {
+export function EditShootForm({ shoot, relatedShoots = [], catalogItems, vendors = [], projects = [], existingShoots = [], onSave, onClose }: EditShootFormProps) {
   const allShoots = [shoot, ...relatedShoots];
   const isMultiShoot = allShoots.length > 1;
   
@@ -28,6 +35,8 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [editingPrices, setEditingPrices] = useState(false);
+  const [vendorId, setVendorId] = useState(shoot.vendorId || '');
+  const [projectId, setProjectId] = useState(shoot.projectId || '');
 
   const getCategoryIcon = (category: string) => {
     const categoryLower = category.toLowerCase();
@@ -203,7 +212,7 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
       const updatedQuote = s.vendorQuote 
         ? { ...s.vendorQuote, amount: editedTotal }
         : { amount: editedTotal, notes: 'Updated by admin' };
-      onSave(s.id, equipment as Equipment[], updatedQuote);
+      onSave(s.id, equipment as Equipment[], updatedQuote, vendorId || undefined, projects.length > 0 ? projectId : undefined);
     });
     onClose();
   };
@@ -215,6 +224,23 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
 
   const isItemAdded = (itemId: string) => currentEquipment.some(eq => eq.id === itemId);
 
+  // Stock of an item on the current shoot's dates - the request's other shoots count as edited here
+  const getItemAvailability = (item: EditableEquipment) => {
+    const catalogItem = catalogItems.find(c => c.id === item.id) || catalogItems.find(c => c.name === item.name);
+    const days = currentShoot ? getEquipmentDays(item, currentShoot) : [];
+    if (!catalogItem || days.length === 0) return null;
+    const groupIds = allShoots.map(s => s.id);
+    const editedShoots = allShoots
+      .filter(s => s.id !== currentShoot.id)
+      .map(s => ({ ...s, equipment: shootsData[s.id] || s.equipment, vendorId: vendorId || s.vendorId }));
+    return getEquipmentAvailability(catalogItem, {
+      days,
+      bookings: getEquipmentBookings(catalogItem, [...existingShoots.filter(s => !groupIds.includes(s.id)), ...editedShoots]),
+      requested: item.quantity || 1,
+      vendorId: vendorId || undefined,
+    });
+  };
+
   return (
     <div className="min-h-screen" style={{ backgroundColor: '#F5F7FA' }}>
       {/* Header */}
@@ -236,6 +262,32 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
             
             {/* Desktop buttons */}
             <div className="hidden md:flex items-center gap-3">
+              {vendors.length > 0 && (
+                <select
+                  value={vendorId}
+                  onChange={(e) => setVendorId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Vendor"
+                >
+                  {!vendorId && <option value="">Select vendor</option>}
+                  {vendors.map(vendor => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </select>
+              )}
+              {projects.length > 0 && (
+                <select
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Project"
+                >
+                  <option value="">No project</option>
+                  {projects.map(project => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={() => setEditingPrices(!editingPrices)}
                 className={`px-4 py-2 rounded-lg flex items-center gap-2 transition-colors text-sm font-medium ${
@@ -413,6 +465,7 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
                 {currentEquipment.map((item) => {
                   const currentRate = item.vendorRate || item.dailyRate || 0;
                   const isNewItem = item.isNew === true;
+                  const availability = getItemAvailability(item);
                   
                   return (
                     <div 
@@ -437,6 +490,7 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
                                 </span>
                               )}
                             </div>
+                            {availability && <div className="mt-1"><EquipmentAvailabilityBadge availability={availability} /></div>}
                           </div>
                           <button
                             onClick={() => removeEquipment(item.id)}
@@ -510,6 +564,7 @@ export function EditShootForm({ shoot, relatedShoots = [], catalogItems, onSave,
                               </span>
                             )}
                           </div>
+                          {availability && <div className="mt-1"><EquipmentAvailabilityBadge availability={availability} /></div>}
                         </div>
                         
                         <div className="flex items-center justify-center gap-1" style={{ width: '90px' }}>
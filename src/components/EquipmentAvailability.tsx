@@ -0,0 +1,50 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { EquipmentAvailability } from '../lib/availability';
+
+interface EquipmentAvailabilityBadgeProps {
+  availability: EquipmentAvailability;
+}
+
+// Other shoots holding the item, for the badge's tooltip
+const describeConflicts = (availability: EquipmentAvailability) =>
+  availability.conflicts
+    .map(booking => `${booking.shootName}: ${booking.quantity} (${booking.approved ? 'approved' : 'pending'})`)
+    .join('\n');
+
+export function EquipmentAvailabilityBadge({ availability }: EquipmentAvailabilityBadgeProps) {
+  const { stock, approved, pending, requested, available, overbooked, conflicts } = availability;
+
+  if (stock === null) {
+    if (conflicts.length === 0) return null;
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-gray-500" title={describeConflicts(availability)}>
+        Also on {conflicts.length} {conflicts.length === 1 ? 'shoot' : 'shoots'} these dates
+      </span>
+    );
+  }
+
+  if (overbooked) {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium"
+        style={{ backgroundColor: '#FDECEA', color: '#E74C3C' }}
+        title={describeConflicts(availability)}
+      >
+        <AlertTriangle className="w-3 h-3" />
+        {approved + pending + requested} of {stock} booked
+        {pending > 0 && ` (${pending} pending)`}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: '#E8F5E9', color: '#27AE60' }}
+      title={conflicts.length > 0 ? describeConflicts(availability) : undefined}
+    >
+      <CheckCircle className="w-3 h-3" />
+      {available} of {stock} free
+    </span>
+  );
+}
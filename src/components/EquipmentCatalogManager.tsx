@@ -5,6 +5,7 @@ import {
   DollarSign, 
   Package, 
   Archive,
+  Building2,
   Search, 
   Plus, 
   Edit2, 
@@ -12,6 +13,9 @@ import {
   X 
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, ROLE_INITIALS } from '../lib/permissions';
+import { getItemStock } from '../lib/availability';
+import type { Vendor } from '../services/vendorService';
 
 export interface CatalogItem {
   id: string;
@@ -19,28 +23,35 @@ export interface CatalogItem {
   dailyRate: number;
   category: string;
   lastUpdated: string;
+  stock?: Record<string, number>; // Units each vendor holds, by vendor id
 }
 
 interface EquipmentCatalogManagerProps {
   catalogItems: CatalogItem[];
   onUpdateCatalog: (items: CatalogItem[]) => void;
+  vendors?: Vendor[]; // Active vendors whose stock can be recorded
   onBack: () => void;
-  onOpenApprovals: () => void;
-  onOpenFinance: () => void;
-  onOpenArchive: () => void;
+  onOpenApprovals?: () => void;
+  onOpenFinance?: () => void;
+  onOpenVendors?: () => void;
+  onOpenArchive?: () => void;
   approvalsPending?: number;
 }
 
 export function EquipmentCatalogManager({ 
   catalogItems, 
   onUpdateCatalog, 
+  vendors = [],
   onBack,
   onOpenApprovals,
   onOpenFinance,
+  onOpenVendors,
   onOpenArchive,
   approvalsPending = 0
 }: EquipmentCatalogManagerProps) {
-  const { isAdmin } = useAuth();
+  const { user, isAdmin } = useAuth();
+  const roleLabel = user ? ROLE_LABELS[user.role] : 'Pre-production Team';
+  const roleInitials = user ? ROLE_INITIALS[user.role] : 'PT';
   const [searchQuery, setSearchQuery] = useState('');
   const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
   const [showDrawer, setShowDrawer] = useState(false);
@@ -52,6 +63,7 @@ export function EquipmentCatalogManager({
   const [formCategory, setFormCategory] = useState('');
   const [formRate, setFormRate] = useState('');
   const [customCategory, setCustomCategory] = useState(''); // For "Other" category
+  const [formStock, setFormStock] = useState<Record<string, string>>({}); // Units by vendor id, as typed
 
   const categories = ['all', 'Camera', 'Lens', 'Light', 'Tripod', 'Audio', 'Small Equipments', 'Extra', 'Assistant', 'Gaffer', 'Transport', 'Other'];
 
@@ -60,6 +72,7 @@ export function EquipmentCatalogManager({
     setFormName(item.name);
     setFormCategory(item.category);
     setFormRate(item.dailyRate.toString());
+    setFormStock(Object.fromEntries(Object.entries(item.stock || {}).map(([vendorId, units]) => [vendorId, String(units)])));
     setShowDrawer(true);
   };
 
@@ -74,7 +87,19 @@ export function EquipmentCatalogManager({
     if (editingItem && formName && formRate) {
       const updated = catalogItems.map(item =>
         item.id === editingItem.id
-          ? { ...item, name: formName, category: formCategory, dailyRate: parseInt(formRate), lastUpdated: 'Today' }
+          ? {
+            ...item,
+            name: formName,
+            category: formCategory,
+            dailyRate: parseInt(formRate),
+            // A blank field means the vendor's stock isn't tracked
+            stock: Object.fromEntries(
+              Object.entries(formStock)
+                .filter(([, units]) => units.trim() !== '')
+                .map(([vendorId, units]) => [vendorId, Math.max(0, parseInt(units) || 0)])
+            ),
+            lastUpdated: 'Today'
+          }
           : item
       );
       onUpdateCatalog(updated);
@@ -147,6 +172,7 @@ export function EquipmentCatalogManager({
             <span>Active Shoots</span>
           </button>
 
+          {onOpenApprovals && (
           <button
             onClick={onOpenApprovals}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors relative hover:bg-gray-700"
@@ -163,7 +189,9 @@ export function EquipmentCatalogManager({
               </span>
             )}
           </button>
+          )}
 
+          {onOpenFinance && (
           <button
             onClick={onOpenFinance}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -172,6 +200,7 @@ export function EquipmentCatalogManager({
             <DollarSign className="w-5 h-5" />
             <span>Finance & Invoices</span>
           </button>
+          )}
 
           <button
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors"
@@ -181,6 +210,18 @@ export function EquipmentCatalogManager({
             <span>Catalog</span>
           </button>
 
+          {onOpenVendors && (
+          <button
+            onClick={onOpenVendors}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+          )}
+
+          {onOpenArchive && (
           <button
             onClick={onOpenArchive}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -189,6 +230,7 @@ export function EquipmentCatalogManager({
             <Archive className="w-5 h-5" />
             <span>Archive</span>
           </button>
+          )}
         </nav>
 
         {/* User Profile */}
@@ -198,10 +240,10 @@ export function EquipmentCatalogManager({
               className="w-10 h-10 rounded-full flex items-center justify-center text-white"
               style={{ backgroundColor: '#2D60FF' }}
             >
-              {isAdmin ? 'A' : 'PT'}
+              {roleInitials}
             </div>
             <div>
-              <div className="text-white text-sm">{isAdmin ? 'Admin' : 'Pre-production Team'}</div>
+              <div className="text-white text-sm">{roleLabel}</div>
               <div className="text-gray-400 text-xs">{isAdmin ? 'Administrator' : 'Team Member'}</div>
             </div>
           </div>
@@ -277,6 +319,7 @@ export function EquipmentCatalogManager({
                     <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Item Name</th>
                     <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Category</th>
                     <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Daily Rate</th>
+                    <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Stock</th>
                     <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Last Updated</th>
                     <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Action</th>
                   </tr>
@@ -296,6 +339,12 @@ export function EquipmentCatalogManager({
                       <td className="px-6 py-4 font-medium" style={{ color: '#27AE60' }}>
                         ₹{item.dailyRate.toLocaleString()}
                       </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {getItemStock(item) ?? '—'}
+                        {Object.keys(item.stock || {}).length > 1 && (
+                          <span className="text-xs text-gray-400"> across {Object.keys(item.stock || {}).length} vendors</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4 text-gray-500 text-sm">{item.lastUpdated}</td>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-2">
@@ -399,6 +448,29 @@ export function EquipmentCatalogManager({
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+
+              {vendors.length > 0 && (
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">Stock by Vendor</label>
+                  <p className="mb-2 text-xs text-gray-500">Units each vendor can supply at once. Requests warn when overlapping shoots need more.</p>
+                  <div className="space-y-2">
+                    {vendors.map(vendor => (
+                      <div key={vendor.id} className="flex items-center gap-3">
+                        <span className="flex-1 text-sm text-gray-700 truncate">{vendor.name}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={formStock[vendor.id] ?? ''}
+                          onChange={(e) => setFormStock(prev => ({ ...prev, [vendor.id]: e.target.value }))}
+                          placeholder="Not tracked"
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          style={{ width: '120px' }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Drawer Footer */}
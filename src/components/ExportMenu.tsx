@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Download, FileSpreadsheet, FileText, X } from 'lucide-react';
+import type { Shoot } from '../App';
+import type { Vendor } from '../services/vendorService';
+import { DEFAULT_TAX_SETTINGS, type TaxSettings } from '../lib/tax';
+import { exportShootsCsv, exportShootsXlsx } from '../lib/shootExport';
+
+interface ExportMenuProps {
+  shoots: Shoot[]; // Already filtered - the export is exactly what the screen shows
+  fileName: string;
+  vendors?: Vendor[];
+  taxSettings?: TaxSettings;
+  description?: string; // What is being exported, e.g. the active tab and date range
+}
+
+// CSV / Excel export of the shoots on screen, for the accountants
+export function ExportMenu({ shoots, fileName, vendors = [], taxSettings = DEFAULT_TAX_SETTINGS, description }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeEquipment, setIncludeEquipment] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const options = { vendors, taxSettings, includeEquipment };
+
+  const handleCsv = () => {
+    setExportError(null);
+    exportShootsCsv(fileName, shoots, options);
+    setIsOpen(false);
+  };
+
+  const handleXlsx = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await exportShootsXlsx(fileName, shoots, options);
+      setIsOpen(false);
+    } catch (error: any) {
+      setExportError(error.message || 'Failed to create the spreadsheet');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 bg-white rounded-xl border border-gray-200 shadow-xl p-4 z-50 min-w-[300px]">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold text-gray-900">Export {shoots.length} {shoots.length === 1 ? 'shoot' : 'shoots'}</h4>
+            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {description && <p className="text-xs text-gray-500 mb-3">{description}</p>}
+
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeEquipment}
+              onChange={(e) => setIncludeEquipment(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Include equipment lines
+          </label>
+
+          {exportError && (
+            <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">{exportError}</div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleCsv}
+              disabled={shoots.length === 0}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              CSV
+            </button>
+            <button
+              onClick={handleXlsx}
+              disabled={shoots.length === 0 || isExporting}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              {isExporting ? 'Preparing...' : 'Excel'}
+            </button>
+          </div>
+          {includeEquipment && (
+            <p className="text-xs text-gray-400 mt-3">CSV puts equipment lines in a second file; Excel adds an Equipment sheet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
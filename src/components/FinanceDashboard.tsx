@@ -5,6 +5,7 @@ import {
   DollarSign, 
   Package, 
   Archive,
+  Building2,
   FileText, 
   Upload,
   X,
@@ -14,30 +15,63 @@ import {
   Calendar,
   TrendingUp,
   BarChart3,
-  List
+  List,
+  Settings,
+  Target
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, PieChart, Pie, Cell, Legend } from 'recharts';
 import type { Shoot } from '../App';
+import type { Vendor } from '../services/vendorService';
+import type { Project } from '../services/projectService';
 import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, ROLE_INITIALS } from '../lib/permissions';
+import { isAwaitingApproval } from '../lib/approvals';
+import { downloadStoredFile, formatFileSize } from '../services/fileService';
+import { DEFAULT_INVOICE_MATCH_SETTINGS, type InvoiceMatchSettings } from '../lib/invoiceMatch';
+import { computeGst, DEFAULT_TAX_SETTINGS, getShootTaxSummary, isInterState, type TaxSettings } from '../lib/tax';
+import { getAmountPaid, getOutstandingBalance, hasOutstandingBalance } from '../lib/payments';
+import { getShootDateRange } from '../lib/shootDates';
+import { InvoiceMatchSettingsEditor } from './InvoiceMatchSettingsEditor';
+import { TaxSettingsEditor } from './TaxSettingsEditor';
+import { PaymentLedger } from './PaymentLedger';
+import { VendorPayables } from './VendorPayables';
+import { ProjectBudgets } from './ProjectBudgets';
+import { ExportMenu } from './ExportMenu';
+import { StoredFilePreview } from './StoredFilePreview';
 
 interface FinanceDashboardProps {
   shoots: Shoot[];
+  vendors?: Vendor[];
+  projects?: Project[];
+  // Omitted for roles that can't manage projects
+  onSaveProject?: (project: Project) => Promise<void>;
+  onDeactivateProject?: (projectId: string) => Promise<void>;
   onBack: () => void;
-  onUploadInvoice: (shootId: string) => void;
-  onOpenApprovals: () => void;
-  onOpenCatalog: () => void;
-  onOpenArchive: () => void;
+  onUploadInvoice?: (shootId: string) => void;
+  invoiceMatchSettings?: InvoiceMatchSettings;
+  // Omitted for roles that can't change settings
+  onSaveInvoiceMatchSettings?: (settings: InvoiceMatchSettings) => Promise<void>;
+  taxSettings?: TaxSettings;
+  onSaveTaxSettings?: (settings: TaxSettings) => Promise<void>;
+  onOpenApprovals?: () => void;
+  onOpenCatalog?: () => void;
+  onOpenVendors?: () => void;
+  onOpenArchive?: () => void;
 }
 
 type FilterTab = 'all' | 'paid' | 'pending';
-type ViewMode = 'list' | 'chart';
+type ViewMode = 'list' | 'chart' | 'payables' | 'budgets';
 type ChartView = 'monthly' | 'daily';
+// Pre-tax is what the work cost; cash outflow adds GST (TDS still leaves the bank, just to the government)
+type AmountBasis = 'pre_tax' | 'cash_outflow';
 
-export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprovals, onOpenCatalog, onOpenArchive }: FinanceDashboardProps) {
+export function FinanceDashboard({ shoots, vendors = [], projects = [], onSaveProject, onDeactivateProject, onBack, onUploadInvoice, invoiceMatchSettings = DEFAULT_INVOICE_MATCH_SETTINGS, onSaveInvoiceMatchSettings, taxSettings = DEFAULT_TAX_SETTINGS, onSaveTaxSettings, onOpenApprovals, onOpenCatalog, onOpenVendors, onOpenArchive }: FinanceDashboardProps) {
   // Debug log
   console.log('📊 FinanceDashboard received', shoots?.length || 0, 'shoots');
   
-  const { isAdmin } = useAuth();
+  const { user, isAdmin } = useAuth();
+  const roleLabel = user ? ROLE_LABELS[user.role] : 'Pre-production Team';
+  const roleInitials = user ? ROLE_INITIALS[user.role] : 'PT';
   const [filterTab, setFilterTab] = useState<FilterTab>('all');
   const [selectedInvoice, setSelectedInvoice] = useState<Shoot | null>(null);
   const [showPdfModal, setShowPdfModal] = useState(false);
@@ -54,61 +88,59 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
   const [selectedMonthStart, setSelectedMonthStart] = useState<string>('');
   const [selectedMonthEnd, setSelectedMonthEnd] = useState<string>('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const approvalsPending = shoots.filter(s => s.status === 'with_swati').length;
+  const approvalsPending = shoots.filter(s => isAwaitingApproval(s.status)).length;
 
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [showMatchSettings, setShowMatchSettings] = useState(false);
+  const [showTaxSettings, setShowTaxSettings] = useState(false);
+  const [amountBasis, setAmountBasis] = useState<AmountBasis>('cash_outflow');
+
+  // The PDF is streamed from file storage by the viewer
   const openPdfViewer = (shoot: Shoot) => {
     setSelectedInvoice(shoot);
+    setDownloadError(null);
     setShowPdfModal(true);
   };
 
+  const handleDownloadInvoice = async (shoot: Shoot) => {
+    if (!shoot.invoiceFile) return;
+    setDownloadError(null);
+    try {
+      await downloadStoredFile(shoot.invoiceFile);
+    } catch (error: any) {
+      setDownloadError(error.message || 'Failed to download the invoice');
+    }
+  };
+
   // Month name mappings
   const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
                       'July', 'August', 'September', 'October', 'November', 'December'];
   const shortMonthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 
                            'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
-  // Helper to safely parse amount as number
+  const getVendorGstin = (shoot: Shoot) =>
+    shoot.invoiceData?.vendorGstin || vendors.find(v => v.id === shoot.vendorId)?.gstNumber || null;
+
+  // Actual figures from a reviewed invoice, otherwise estimated from the approved quote
+  const getTaxSummary = (shoot: Shoot) => getShootTaxSummary(shoot, taxSettings, getVendorGstin(shoot));
+
+  // The amount every total and chart uses, on the selected basis
   const parseAmount = (shoot: Shoot): number => {
-    // Try approved amount first, then vendor quote
-    let amount = shoot.approvedAmount ?? shoot.vendorQuote?.amount ?? 0;
-    
-    // Handle string amounts (from database)
-    if (typeof amount === 'string') {
-      // Remove any non-numeric characters except decimal point
-      const cleaned = amount.replace(/[^0-9.]/g, '');
-      const parsed = parseFloat(cleaned);
-      return isNaN(parsed) ? 0 : parsed;
-    }
-    
-    // Ensure it's a valid number
-    const num = Number(amount);
-    return isNaN(num) ? 0 : num;
+    const summary = getTaxSummary(shoot);
+    return amountBasis === 'pre_tax' ? summary.preTax : summary.cashOutflow;
+  };
+
+  // The day a shoot counts on - its first day, or when it was requested if it has no dates
+  const getShootDateObj = (shoot: Shoot): Date => {
+    const range = getShootDateRange(shoot);
+    if (range) return range.start;
+    const requested = shoot.createdAt ? new Date(shoot.createdAt) : null;
+    return requested && !isNaN(requested.getTime()) ? requested : new Date();
   };
 
-  // Parse date and get month/year
   const getMonthYear = (shoot: Shoot): { month: number; year: number; day: number } => {
-    const dateStr = shoot.date;
-    
-    if (dateStr && /^\d{4}-\d{2}-\d{2}/.test(dateStr)) {
-      const [year, month, day] = dateStr.split('-').map(Number);
-      return { month: month - 1, year, day };
-    }
-    
-    if (shoot.shootDate) {
-      const d = new Date(shoot.shootDate);
-      if (!isNaN(d.getTime())) {
-        return { month: d.getMonth(), year: d.getFullYear(), day: d.getDate() };
-      }
-    }
-    
-    for (let i = 0; i < shortMonthNames.length; i++) {
-      if (dateStr?.includes(shortMonthNames[i])) {
-        return { month: i, year: new Date().getFullYear(), day: 1 };
-      }
-    }
-    
-    const now = new Date();
-    return { month: now.getMonth(), year: now.getFullYear(), day: now.getDate() };
+    const date = getShootDateObj(shoot);
+    return { month: date.getMonth(), year: date.getFullYear(), day: date.getDate() };
   };
 
   // Group shoots by month
@@ -128,49 +160,24 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
     return groups;
   };
 
-  // Helper to get shoot date as Date object - aligned with getMonthYear
-  const getShootDateObj = (shoot: any): Date | null => {
-    const dateStr = shoot.date;
-    
-    // Try YYYY-MM-DD format first (this is how data is stored)
-    if (dateStr && /^\d{4}-\d{2}-\d{2}/.test(dateStr)) {
-      const [year, month, day] = dateStr.split('-').map(Number);
-      return new Date(year, month - 1, day);
-    }
-    
-    // Try shootDate field
-    if (shoot.shootDate) {
-      const d = new Date(shoot.shootDate);
-      if (!isNaN(d.getTime())) {
-        return d;
-      }
-    }
-    
-    // Try shootDates array
-    if (shoot.shootDates?.[0]) {
-      const d = new Date(shoot.shootDates[0]);
-      if (!isNaN(d.getTime())) {
-        return d;
-      }
-    }
-    
-    // Fallback: use getMonthYear to construct date
-    const { month, year, day } = getMonthYear(shoot);
-    return new Date(year, month, day);
-  };
+  // Shoots finance tracks - invoiced ones, and active ones that already got an advance
+  const financeShoots = shoots.filter(s => 
+    s.status === 'pending_invoice' || 
+    s.status === 'completed' || 
+    s.paid ||
+    (s.payments?.length || 0) > 0
+  );
+  // Pending means money is still owed, however much has been paid already
+  const isPending = (s: Shoot) => hasOutstandingBalance(s, taxSettings);
 
   // Filter invoice data
   const getInvoiceData = () => {
-    let filtered = shoots.filter(s => 
-      s.status === 'pending_invoice' || 
-      s.status === 'completed' || 
-      s.paid
-    );
+    let filtered = financeShoots;
 
     if (filterTab === 'paid') {
-      filtered = filtered.filter(s => s.paid);
+      filtered = filtered.filter(s => !isPending(s));
     } else if (filterTab === 'pending') {
-      filtered = filtered.filter(s => !s.paid);
+      filtered = filtered.filter(isPending);
     }
 
     // Apply date range filter
@@ -187,7 +194,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
 
     return filtered.map(shoot => ({
       ...shoot,
-      vendor: 'Gopala Digital World',
+      vendor: vendors.find(v => v.id === shoot.vendorId)?.name || 'Unassigned',
       amount: parseAmount(shoot),
     }));
   };
@@ -196,13 +203,14 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
   const groupedInvoices = groupByMonth(invoiceData);
   const monthOrder = Object.keys(groupedInvoices).sort((a, b) => a.localeCompare(b));
 
-  // Calculate totals - explicitly ensure numeric addition
-  const totalPaid = shoots.filter(s => s.paid).reduce((sum: number, s) => {
-    return Number(sum) + parseAmount(s);
-  }, 0);
-  const totalPending = shoots.filter(s => !s.paid && (s.status === 'pending_invoice' || s.status === 'completed')).reduce((sum: number, s) => {
-    return Number(sum) + parseAmount(s);
+  // Calculate totals - paid is what the ledgers record, pending what is still owed
+  const totalPaid = financeShoots.reduce((sum: number, s) => sum + getAmountPaid(s), 0);
+  const totalPending = financeShoots.filter(isPending).reduce((sum: number, s) => {
+    return sum + getOutstandingBalance(s, taxSettings);
   }, 0);
+  const paidTaxSummaries = shoots.filter(s => s.paid).map(getTaxSummary);
+  const totalGstPaid = paidTaxSummaries.reduce((sum, t) => sum + t.gst, 0);
+  const totalTdsWithheld = paidTaxSummaries.reduce((sum, t) => sum + t.tds, 0);
   const totalShoots = invoiceData.length;
 
   const toggleMonth = (monthKey: string) => {
@@ -240,7 +248,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
   };
 
   const getMonthPaidCount = (monthShoots: Shoot[]) => {
-    return monthShoots.filter(s => s.paid).length;
+    return monthShoots.filter(s => !isPending(s)).length;
   };
 
   // Chart data
@@ -331,7 +339,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
       
       return allDays;
     }
-  }, [chartView, selectedStartDate, selectedEndDate, selectedMonthStart, selectedMonthEnd, invoiceData, groupedInvoices, monthOrder]);
+  }, [chartView, selectedStartDate, selectedEndDate, selectedMonthStart, selectedMonthEnd, invoiceData, groupedInvoices, monthOrder, amountBasis]);
 
   // Helper to infer category from equipment name
   const inferCategory = (name: string, existingCategory?: string): string => {
@@ -481,7 +489,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
       ...item,
       percentage: total > 0 ? Math.round((item.value / total) * 100) : 0
     }));
-  }, [invoiceData, monthOrder, selectedMonthStart, selectedMonthEnd, chartView, selectedStartDate, selectedEndDate]);
+  }, [invoiceData, monthOrder, selectedMonthStart, selectedMonthEnd, chartView, selectedStartDate, selectedEndDate, amountBasis]);
 
   // Detailed category items for drill-down view
   const categoryDetailedItems = useMemo(() => {
@@ -558,7 +566,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
     });
     
     return categoryItems;
-  }, [invoiceData, monthOrder, selectedMonthStart, selectedMonthEnd, chartView, selectedStartDate, selectedEndDate]);
+  }, [invoiceData, monthOrder, selectedMonthStart, selectedMonthEnd, chartView, selectedStartDate, selectedEndDate, amountBasis]);
 
   // Colors for pie chart
   const PIE_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16', '#F97316', '#6366F1'];
@@ -611,6 +619,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
             <LayoutDashboard className="w-5 h-5" />
             <span>Active Shoots</span>
           </button>
+          {onOpenApprovals && (
           <button onClick={onOpenApprovals} className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors relative hover:bg-gray-700" style={{ color: '#9CA3AF' }}>
             <CheckCircle className="w-5 h-5" />
             <span>Approvals</span>
@@ -618,25 +627,36 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
               <span className="absolute right-3 top-1/2 -translate-y-1/2 w-6 h-6 rounded-full flex items-center justify-center text-xs" style={{ backgroundColor: '#F2994A', color: 'white' }}>{approvalsPending}</span>
             )}
           </button>
+          )}
           <button className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors" style={{ backgroundColor: '#2D60FF', color: 'white' }}>
             <DollarSign className="w-5 h-5" />
             <span>Finance & Invoices</span>
           </button>
+          {onOpenCatalog && (
           <button onClick={onOpenCatalog} className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700" style={{ color: '#9CA3AF' }}>
             <Package className="w-5 h-5" />
             <span>Catalog</span>
           </button>
+          )}
+          {onOpenVendors && (
+          <button onClick={onOpenVendors} className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700" style={{ color: '#9CA3AF' }}>
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+          )}
+          {onOpenArchive && (
           <button onClick={onOpenArchive} className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700" style={{ color: '#9CA3AF' }}>
             <Archive className="w-5 h-5" />
             <span>Archive</span>
           </button>
+          )}
         </nav>
 
         <div className="px-4 py-6 border-t" style={{ borderColor: '#374151' }}>
           <div className="flex items-center gap-3 px-4">
-            <div className="w-10 h-10 rounded-full flex items-center justify-center text-white" style={{ backgroundColor: '#2D60FF' }}>{isAdmin ? 'A' : 'PT'}</div>
+            <div className="w-10 h-10 rounded-full flex items-center justify-center text-white" style={{ backgroundColor: '#2D60FF' }}>{roleInitials}</div>
             <div>
-              <div className="text-white text-sm">{isAdmin ? 'Admin' : 'Pre-production Team'}</div>
+              <div className="text-white text-sm">{roleLabel}</div>
               <div className="text-gray-400 text-xs">{isAdmin ? 'Administrator' : 'Team Member'}</div>
             </div>
           </div>
@@ -654,6 +674,44 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
             </div>
             {/* View Toggle */}
             <div className="flex items-center gap-2">
+              {onSaveInvoiceMatchSettings && (
+                <button
+                  onClick={() => setShowMatchSettings(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 mr-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Settings className="w-4 h-4" />
+                  Match Tolerance
+                </button>
+              )}
+              {onSaveTaxSettings && (
+                <button
+                  onClick={() => setShowTaxSettings(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 mr-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Settings className="w-4 h-4" />
+                  Tax Settings
+                </button>
+              )}
+              <div className="mr-2">
+                <ExportMenu
+                  shoots={invoiceData}
+                  fileName={`finance-${filterTab}`}
+                  vendors={vendors}
+                  taxSettings={taxSettings}
+                  description={`${filterTab === 'all' ? 'All' : filterTab === 'paid' ? 'Paid' : 'Pending'} shoots${
+                    filterStartDate && filterEndDate ? ` from ${filterStartDate} to ${filterEndDate}` : ''
+                  }`}
+                />
+              </div>
+              <select
+                value={amountBasis}
+                onChange={(e) => setAmountBasis(e.target.value as AmountBasis)}
+                className="px-3 py-1.5 mr-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Amounts in totals and charts"
+              >
+                <option value="cash_outflow">Cash outflow (incl. GST)</option>
+                <option value="pre_tax">Pre-tax spend</option>
+              </select>
               <button
                 onClick={() => setViewMode('list')}
                 className="flex items-center gap-2 rounded-full font-medium transition-all whitespace-nowrap"
@@ -684,6 +742,36 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                 <BarChart3 className="w-4 h-4" />
                 Chart
               </button>
+              <button
+                onClick={() => setViewMode('payables')}
+                className="flex items-center gap-2 rounded-full font-medium transition-all whitespace-nowrap"
+                style={{
+                  padding: '10px 20px',
+                  fontSize: '14px',
+                  lineHeight: '1',
+                  backgroundColor: viewMode === 'payables' ? '#2563EB' : '#F3F4F6',
+                  color: viewMode === 'payables' ? '#FFFFFF' : '#4B5563',
+                  boxShadow: viewMode === 'payables' ? '0 2px 8px rgba(37, 99, 235, 0.4)' : 'none'
+                }}
+              >
+                <Building2 className="w-4 h-4" />
+                Payables
+              </button>
+              <button
+                onClick={() => setViewMode('budgets')}
+                className="flex items-center gap-2 rounded-full font-medium transition-all whitespace-nowrap"
+                style={{
+                  padding: '10px 20px',
+                  fontSize: '14px',
+                  lineHeight: '1',
+                  backgroundColor: viewMode === 'budgets' ? '#2563EB' : '#F3F4F6',
+                  color: viewMode === 'budgets' ? '#FFFFFF' : '#4B5563',
+                  boxShadow: viewMode === 'budgets' ? '0 2px 8px rgba(37, 99, 235, 0.4)' : 'none'
+                }}
+              >
+                <Target className="w-4 h-4" />
+                Budgets
+              </button>
             </div>
           </div>
         </div>
@@ -719,7 +807,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                   boxShadow: filterTab === 'paid' ? '0 2px 8px rgba(45, 96, 255, 0.4)' : 'none'
                 }}
               >
-                Paid ({shoots.filter(s => s.paid).length})
+                Paid ({financeShoots.filter(s => !isPending(s)).length})
             </button>
             <button
               onClick={() => setFilterTab('pending')}
@@ -733,7 +821,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                   boxShadow: filterTab === 'pending' ? '0 2px 8px rgba(45, 96, 255, 0.4)' : 'none'
                 }}
               >
-                Pending ({shoots.filter(s => !s.paid && (s.status === 'pending_invoice' || s.status === 'completed')).length})
+                Pending ({financeShoots.filter(isPending).length})
               </button>
             </div>
 
@@ -741,11 +829,19 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
             <div className="flex items-center gap-6">
               <div>
                 <div className="text-xs text-gray-400">Total Paid</div>
-                <div className="text-lg font-bold text-gray-900">₹{totalPaid.toLocaleString()}</div>
+                <div className="text-lg font-bold text-gray-900">₹{Math.round(totalPaid).toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-400">Outstanding</div>
+                <div className="text-lg font-bold text-gray-900">₹{Math.round(totalPending).toLocaleString()}</div>
               </div>
               <div>
-                <div className="text-xs text-gray-400">Pending</div>
-                <div className="text-lg font-bold text-gray-900">₹{totalPending.toLocaleString()}</div>
+                <div className="text-xs text-gray-400">GST Paid</div>
+                <div className="text-lg font-bold text-gray-900">₹{Math.round(totalGstPaid).toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-400">TDS Withheld</div>
+                <div className="text-lg font-bold text-gray-900">₹{Math.round(totalTdsWithheld).toLocaleString()}</div>
               </div>
               <div className="relative">
                 <button 
@@ -821,7 +917,17 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
 
         {/* Content Area */}
         <div className="px-6 py-4">
-          {viewMode === 'chart' ? (
+          {viewMode === 'payables' ? (
+            <VendorPayables shoots={shoots} vendors={vendors} taxSettings={taxSettings} />
+          ) : viewMode === 'budgets' ? (
+            <ProjectBudgets
+              shoots={shoots}
+              projects={projects}
+              taxSettings={taxSettings}
+              onSaveProject={onSaveProject}
+              onDeactivateProject={onDeactivateProject}
+            />
+          ) : viewMode === 'chart' ? (
             /* Chart View */
             <div className="space-y-6">
               {/* Time Period Selector */}
@@ -920,7 +1026,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                     </h3>
                     <p className="text-sm text-gray-500 mt-1">
                       {chartView === 'monthly' 
-                        ? 'Track your spending month over month' 
+                        ? `Track your ${amountBasis === 'pre_tax' ? 'pre-tax spend' : 'cash outflow'} month over month` 
                         : selectedStartDate && selectedEndDate 
                           ? `${new Date(selectedStartDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })} - ${new Date(selectedEndDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`
                           : 'Select a date range'}
@@ -1135,7 +1241,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                                 (e.rate || e.price || e.dailyRate || e.vendorRate || e.rentalCost || e.cost || e.total || e.totalCost || e.name || e.itemName) 
                               );
                             // Always make clickable if has equipment OR has invoice file
-                            const isClickable = hasEquipment || invoice.invoiceFile?.data;
+                            const isClickable = hasEquipment || invoice.invoiceFile?.fileId;
                             
                             return (
                               <div key={invoice.id}>
@@ -1153,14 +1259,18 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                                     </div>
                                     <div>
                                       <div className="font-medium text-gray-900 text-sm">{invoice.name}</div>
-                                      <div className="text-xs text-gray-500">{invoice.date}</div>
+                                      <div className="text-xs text-gray-500">{invoice.date} • {invoice.vendor}</div>
                                     </div>
                                   </div>
                                   <div className="flex items-center gap-4">
                                     <div className="text-right">
                                       <div className="font-semibold text-sm" style={{ color: '#27AE60' }}>₹{invoice.amount.toLocaleString()}</div>
                                       <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${invoice.paid ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'}`}>
-                                        {invoice.paid ? 'Paid' : 'Pending'}
+                                        {invoice.paid
+                                          ? 'Paid'
+                                          : (invoice.payments?.length || 0) > 0
+                                            ? `₹${Math.max(getOutstandingBalance(invoice, taxSettings), 0).toLocaleString()} due`
+                                            : 'Pending'}
                                   </span>
                                     </div>
                                     <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
@@ -1169,9 +1279,11 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                                     <FileText className="w-4 h-4" />
                                   </button>
                                 )}
+                                      {onUploadInvoice && (
                                       <button onClick={() => onUploadInvoice(invoice.id)} className="p-2 rounded-lg text-gray-400 hover:bg-gray-100" title={invoice.invoiceFile ? 'Replace PDF' : 'Upload PDF'}>
                                         <Upload className="w-4 h-4" />
                                       </button>
+                                      )}
                                     </div>
                                   </div>
                                 </div>
@@ -1180,7 +1292,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                                 {isInvoiceExpanded && isClickable && (
                                   <div className="bg-gray-50 px-5 py-4 ml-11 mr-5 mb-3 rounded-lg">
                                     {/* Invoice PDF Preview */}
-                                    {invoice.invoiceFile?.data && (
+                                    {invoice.invoiceFile?.fileId && (
                                       <div className="mb-4">
                                         <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-3">
                                           Invoice Document
@@ -1244,7 +1356,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                                     )}
                                     
                                     {/* If no equipment but has PDF */}
-                                    {!hasEquipment && invoice.invoiceFile?.data && (
+                                    {!hasEquipment && invoice.invoiceFile?.fileId && (
                                       <div className="text-sm text-gray-500 mt-2">
                                         Click "View Invoice PDF" above to see the full invoice details.
                                       </div>
@@ -1275,7 +1387,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
       {/* PDF Preview Modal */}
       {showPdfModal && selectedInvoice && (
         <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-2xl max-h-[90vh] overflow-hidden flex flex-col" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.15)', width: '500px' }}>
+          <div className="bg-white rounded-2xl max-h-[90vh] overflow-hidden flex flex-col" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.15)', width: selectedInvoice.invoiceFile?.fileId ? '800px' : '500px' }}>
             <div className="flex items-center justify-between px-6 py-5 border-b border-gray-100">
               <div>
                 <h2 className="text-xl font-semibold text-gray-900">Invoice Details</h2>
@@ -1289,7 +1401,7 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
             <div className="flex-1 overflow-auto p-6">
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="p-4 rounded-xl" style={{ backgroundColor: '#F0FDF4' }}>
-                  <div className="text-sm mb-1" style={{ color: '#27AE60' }}>Amount Paid</div>
+                  <div className="text-sm mb-1" style={{ color: '#27AE60' }}>{amountBasis === 'pre_tax' ? 'Amount (pre-tax)' : 'Amount incl. GST'}</div>
                   <div className="text-2xl font-bold" style={{ color: '#27AE60' }}>₹{parseAmount(selectedInvoice).toLocaleString()}</div>
                 </div>
                 <div className="p-4 rounded-xl bg-gray-50">
@@ -1307,10 +1419,17 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                       </div>
                       <div>
                       <div className="font-medium text-gray-900">{selectedInvoice.invoiceFile?.name || 'invoice.pdf'}</div>
-                      <div className="text-sm" style={{ color: '#27AE60' }}>PDF Document</div>
+                      <div className="text-sm" style={{ color: '#27AE60' }}>
+                        PDF Document{selectedInvoice.invoiceFile?.size ? ` • ${formatFileSize(selectedInvoice.invoiceFile.size)}` : ''}
+                      </div>
                     </div>
                   </div>
                 </div>
+                {selectedInvoice.invoiceFile?.fileId && (
+                  <div className="mt-3 border-2 border-gray-200 rounded-xl overflow-hidden" style={{ height: '420px' }}>
+                    <StoredFilePreview file={selectedInvoice.invoiceFile} />
+                  </div>
+                )}
               </div>
 
               <div>
@@ -1318,8 +1437,62 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                       <div className="space-y-2 text-sm">
                   <div className="flex justify-between py-2 border-b border-gray-100">
                           <span className="text-gray-500">Vendor</span>
-                    <span className="text-gray-900">Gopala Digital World</span>
+                    <span className="text-gray-900">{vendors.find(v => v.id === selectedInvoice.vendorId)?.name || 'Unassigned'}</span>
                   </div>
+                  {selectedInvoice.invoiceData?.invoiceNumber && (
+                    <div className="flex justify-between py-2 border-b border-gray-100">
+                      <span className="text-gray-500">Invoice No.</span>
+                      <span className="text-gray-900">
+                        {selectedInvoice.invoiceData.invoiceNumber}
+                        {selectedInvoice.invoiceData.invoiceDate && ` • ${selectedInvoice.invoiceData.invoiceDate}`}
+                      </span>
+                    </div>
+                  )}
+                  {selectedInvoice.invoiceData?.vendorGstin && (
+                    <div className="flex justify-between py-2 border-b border-gray-100">
+                      <span className="text-gray-500">Vendor GSTIN</span>
+                      <span className="text-gray-900 font-mono">{selectedInvoice.invoiceData.vendorGstin}</span>
+                    </div>
+                  )}
+                  {(() => {
+                    const summary = getTaxSummary(selectedInvoice);
+                    const invoiceTaxes = summary.isActual ? selectedInvoice.invoiceData?.taxes || [] : [];
+                    const estimate = computeGst(
+                      summary.preTax,
+                      selectedInvoice.vendorQuote?.gstRate ?? taxSettings.defaultGstRate,
+                      isInterState(getVendorGstin(selectedInvoice), taxSettings.companyGstin)
+                    );
+                    const gstLines = invoiceTaxes.length > 0
+                      ? invoiceTaxes.map(tax => ({ label: `${tax.type}${tax.rate !== undefined ? ` @ ${tax.rate}%` : ''}`, amount: tax.amount }))
+                      : estimate.interState
+                        ? [{ label: `IGST @ ${estimate.gstRate}% (est.)`, amount: estimate.igst }]
+                        : [
+                            { label: `CGST @ ${estimate.gstRate / 2}% (est.)`, amount: estimate.cgst },
+                            { label: `SGST @ ${estimate.gstRate / 2}% (est.)`, amount: estimate.sgst },
+                          ];
+                    return (
+                      <>
+                        <div className="flex justify-between py-2 border-b border-gray-100">
+                          <span className="text-gray-500">Taxable Value</span>
+                          <span className="text-gray-900">₹{summary.preTax.toLocaleString()}</span>
+                        </div>
+                        {gstLines.filter(line => line.amount > 0).map(line => (
+                          <div key={line.label} className="flex justify-between py-2 border-b border-gray-100">
+                            <span className="text-gray-500">{line.label}</span>
+                            <span className="text-gray-900">₹{line.amount.toLocaleString()}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between py-2 border-b border-gray-100">
+                          <span className="text-gray-500">TDS withheld{summary.isActual ? '' : ' (est.)'}</span>
+                          <span className="text-gray-900">− ₹{summary.tds.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between py-2 border-b border-gray-100 font-medium">
+                          <span className="text-gray-700">Net Payable to Vendor</span>
+                          <span className="text-gray-900">₹{summary.netPayable.toLocaleString()}</span>
+                        </div>
+                      </>
+                    );
+                  })()}
                   <div className="flex justify-between py-2 border-b border-gray-100">
                     <span className="text-gray-500">Location</span>
                     <span className="text-gray-900">{selectedInvoice.location}</span>
@@ -1330,27 +1503,28 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
                   </div>
                 </div>
               </div>
+
+              <div className="mt-6">
+                <div className="text-sm font-medium text-gray-700 mb-3">Payments</div>
+                <PaymentLedger shoot={selectedInvoice} taxSettings={taxSettings} />
+              </div>
             </div>
 
             <div className="px-6 py-4 border-t border-gray-100">
+              {downloadError && (
+                <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{downloadError}</div>
+              )}
               <div className="flex gap-3">
-                {selectedInvoice.invoiceFile?.data ? (
+                {selectedInvoice.invoiceFile?.fileId ? (
                 <button
-                  onClick={() => {
-                    const link = document.createElement('a');
-                      link.href = selectedInvoice.invoiceFile!.data!;
-                      link.download = selectedInvoice.invoiceFile!.name || 'invoice.pdf';
-                      document.body.appendChild(link);
-                      link.click();
-                      document.body.removeChild(link);
-                    }}
+                  onClick={() => handleDownloadInvoice(selectedInvoice)}
                     className="flex-1 py-3 rounded-lg text-white transition-colors font-medium flex items-center justify-center gap-2 hover:opacity-90"
                     style={{ backgroundColor: '#27AE60' }}
                 >
                   <Download className="w-4 h-4" />
                   Download PDF
                 </button>
-                ) : (
+                ) : onUploadInvoice && (
                   <button
                     onClick={() => onUploadInvoice(selectedInvoice.id)}
                     className="flex-1 py-3 rounded-lg border-2 transition-colors font-medium flex items-center justify-center gap-2 hover:bg-orange-50"
@@ -1457,6 +1631,22 @@ export function FinanceDashboard({ shoots, onBack, onUploadInvoice, onOpenApprov
           </div>
         </div>
       )}
+
+      {showMatchSettings && onSaveInvoiceMatchSettings && (
+        <InvoiceMatchSettingsEditor
+          settings={invoiceMatchSettings}
+          onSave={onSaveInvoiceMatchSettings}
+          onClose={() => setShowMatchSettings(false)}
+        />
+      )}
+
+      {showTaxSettings && onSaveTaxSettings && (
+        <TaxSettingsEditor
+          settings={taxSettings}
+          onSave={onSaveTaxSettings}
+          onClose={() => setShowTaxSettings(false)}
+        />
+      )}
     </div>
   );
 }
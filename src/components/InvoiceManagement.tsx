@@ -1,19 +1,51 @@
-import { useState, useRef } from 'react';
-import { X, Upload, FileText, ExternalLink, CheckCircle, Download } from 'lucide-react';
+import { useState, useRef, useMemo } from 'react';
+import { X, Upload, FileText, ExternalLink, CheckCircle, Download, IndianRupee } from 'lucide-react';
 import type { Shoot } from '../App';
+import { StoredFilePreview } from './StoredFilePreview';
+import { InvoiceReviewForm } from './InvoiceReviewForm';
+import type { InvoiceFields } from '../services/invoiceService';
+import { InvoiceMatchReport } from './InvoiceMatchReport';
+import { isPaymentBlocked, matchInvoice, needsOverrideReason, type InvoiceMatchSettings } from '../lib/invoiceMatch';
+import { downloadStoredFile, formatFileSize, MAX_UPLOAD_BYTES } from '../services/fileService';
+import type { TaxSettings } from '../lib/tax';
+import { getOutstandingBalance, PAYMENT_METHOD_LABELS, type PaymentInput, type PaymentMethod } from '../lib/payments';
+import { PaymentLedger } from './PaymentLedger';
 
 interface InvoiceManagementProps {
   shoot: Shoot;
-  onUploadInvoice: (shootId: string, fileName: string, fileData?: string) => void;
-  onMarkPaid: (shootId: string) => void;
+  onUploadInvoice: (shootId: string, file: File) => Promise<void>;
+  // Omitted for roles that can't record payments
+  onRecordPayment?: (shootId: string, payment: PaymentInput) => Promise<void>;
+  matchSettings: InvoiceMatchSettings;
+  taxSettings: TaxSettings;
+  // Omitted for roles that can't review invoice details
+  onSaveInvoiceData?: (shootId: string, fields: InvoiceFields) => Promise<void>;
+  onReextractInvoice?: (shootId: string) => Promise<void>;
   onClose: () => void;
 }
 
-export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose }: InvoiceManagementProps) {
+export function InvoiceManagement({ shoot, onUploadInvoice, onRecordPayment, matchSettings, taxSettings, onSaveInvoiceData, onReextractInvoice, onClose }: InvoiceManagementProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [paymentDraft, setPaymentDraft] = useState<PaymentInput>({ amount: 0, date: '', method: 'bank_transfer', reference: '', notes: '' });
+  const [overrideReason, setOverrideReason] = useState('');
+  const [isPaying, setIsPaying] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
+
+  const balance = getOutstandingBalance(shoot, taxSettings);
+  // The payment that clears the balance closes the shoot - only against the invoice
+  const settlesBalance = paymentDraft.amount >= balance;
+  const canSettle = shoot.status === 'pending_invoice' && !!shoot.invoiceFile;
+  const remainingAfterPayment = Math.max(Math.round((balance - paymentDraft.amount) * 100) / 100, 0);
+
+  // The server runs the same match when the balance is cleared
+  const match = useMemo(() => matchInvoice(shoot, matchSettings), [shoot, matchSettings]);
+  const paymentBlocked = isPaymentBlocked(match, matchSettings);
+  const requiresOverride = needsOverrideReason(match);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -35,24 +67,24 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
   };
 
   const handleFileUpload = async (file: File) => {
-    if (file.type === 'application/pdf') {
-      setIsUploading(true);
-      
-      // Read file as base64
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64Data = reader.result as string;
-        onUploadInvoice(shoot.id, file.name, base64Data);
-        setShowPreview(true);
-        setIsUploading(false);
-      };
-      reader.onerror = () => {
-        console.error('Error reading file');
-        setIsUploading(false);
-      };
-      reader.readAsDataURL(file);
-    } else {
-      alert('Please upload a PDF file');
+    if (file.type !== 'application/pdf') {
+      setFileError('Please upload a PDF file');
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setFileError(`The PDF is ${formatFileSize(file.size)} - invoices can be at most ${formatFileSize(MAX_UPLOAD_BYTES)}`);
+      return;
+    }
+
+    setIsUploading(true);
+    setFileError(null);
+    try {
+      await onUploadInvoice(shoot.id, file);
+      setShowPreview(true);
+    } catch (error: any) {
+      setFileError(error.message || 'Failed to upload the invoice');
+    } finally {
+      setIsUploading(false);
     }
   };
 
@@ -63,23 +95,45 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
     }
   };
 
-  const handleVerifyAndPay = () => {
-    onMarkPaid(shoot.id);
-    onClose();
+  const openPaymentForm = () => {
+    setPaymentDraft({
+      amount: Math.max(balance, 0),
+      date: new Date().toISOString().slice(0, 10),
+      method: 'bank_transfer',
+      reference: '',
+      notes: '',
+    });
+    setOverrideReason('');
+    setPayError(null);
+    setShowPaymentForm(true);
+  };
+
+  const handleRecordPayment = async () => {
+    if (!onRecordPayment) return;
+    setIsPaying(true);
+    setPayError(null);
+    try {
+      await onRecordPayment(shoot.id, {
+        ...paymentDraft,
+        reference: paymentDraft.reference.trim(),
+        notes: paymentDraft.notes.trim(),
+        overrideReason: settlesBalance && requiresOverride ? overrideReason.trim() : undefined,
+      });
+      setShowPaymentForm(false);
+      if (settlesBalance) onClose();
+    } catch (error: any) {
+      setPayError(error.message || 'Failed to record the payment');
+    } finally {
+      setIsPaying(false);
+    }
   };
 
-  const handleDownload = () => {
-    if (shoot.invoiceFile?.data) {
-      // Create download link from base64 data
-      const link = document.createElement('a');
-      link.href = shoot.invoiceFile.data;
-      link.download = shoot.invoiceFile.name || 'invoice.pdf';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } else if (shoot.invoiceFile?.url) {
-      // Try opening the URL
-      window.open(shoot.invoiceFile.url, '_blank');
+  const handleDownload = async () => {
+    if (!shoot.invoiceFile) return;
+    try {
+      await downloadStoredFile(shoot.invoiceFile);
+    } catch (error: any) {
+      setFileError(error.message || 'Failed to download the invoice');
     }
   };
 
@@ -144,7 +198,11 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
                       Payment Status
                     </div>
                     <div style={{ color: shoot.paid ? '#27AE60' : '#F2994A' }}>
-                      {shoot.paid ? 'Paid' : 'Unpaid'}
+                      {shoot.paid
+                        ? 'Paid'
+                        : (shoot.payments?.length || 0) > 0
+                          ? `Partly paid • ₹${Math.max(balance, 0).toLocaleString()} outstanding`
+                          : 'Unpaid'}
                     </div>
                   </div>
                 </div>
@@ -154,43 +212,50 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
               <div>
                 <h3 className="text-lg mb-3">Invoice Document</h3>
                 
-                <div
-                  onDragOver={handleDragOver}
-                  onDragLeave={handleDragLeave}
-                  onDrop={handleDrop}
-                  onClick={() => fileInputRef.current?.click()}
-                  className="border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all mb-4"
-                  style={{
-                    borderColor: isDragging ? '#2D60FF' : '#E2E8F0',
-                    backgroundColor: isDragging ? '#EEF2FF' : '#F8FAFC'
-                  }}
-                >
-                  {isUploading ? (
-                    <div className="flex items-center justify-center gap-2">
-                      <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
-                      <span className="text-gray-600">Uploading...</span>
-                    </div>
-                  ) : (
-                    <>
-                      <Upload 
-                        className="w-10 h-10 mx-auto mb-2" 
-                        style={{ color: isDragging ? '#2D60FF' : '#94A3B8' }}
-                      />
-                      <p className="text-sm mb-1">
-                        <span style={{ color: '#2D60FF' }}>Click to upload</span> or drag and drop
-                      </p>
-                      <p className="text-xs text-gray-500">PDF files only (max 10MB)</p>
-                    </>
-                  )}
-                  
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".pdf"
-                    onChange={handleFileInputChange}
-                    className="hidden"
-                  />
-                </div>
+                {/* A paid invoice is final - it can no longer be replaced */}
+                {!shoot.paid && (
+                  <div
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    onDrop={handleDrop}
+                    onClick={() => fileInputRef.current?.click()}
+                    className="border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all mb-4"
+                    style={{
+                      borderColor: isDragging ? '#2D60FF' : '#E2E8F0',
+                      backgroundColor: isDragging ? '#EEF2FF' : '#F8FAFC'
+                    }}
+                  >
+                    {isUploading ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                        <span className="text-gray-600">Uploading...</span>
+                      </div>
+                    ) : (
+                      <>
+                        <Upload 
+                          className="w-10 h-10 mx-auto mb-2" 
+                          style={{ color: isDragging ? '#2D60FF' : '#94A3B8' }}
+                        />
+                        <p className="text-sm mb-1">
+                          <span style={{ color: '#2D60FF' }}>Click to upload</span> or drag and drop
+                        </p>
+                        <p className="text-xs text-gray-500">PDF files only (max 10MB)</p>
+                      </>
+                    )}
+                    
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".pdf"
+                      onChange={handleFileInputChange}
+                      className="hidden"
+                    />
+                  </div>
+                )}
+
+                {fileError && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{fileError}</div>
+                )}
 
                 {shoot.invoiceFile && (
                   <div 
@@ -207,13 +272,15 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
                       <div>
                         <div className="font-medium">{shoot.invoiceFile.name}</div>
                         <div className="text-sm" style={{ color: '#27AE60' }}>
-                          {shoot.invoiceFile.data ? 'Ready to download' : 'File reference saved'}
+                          {shoot.invoiceFile.fileId
+                            ? `Stored${shoot.invoiceFile.size ? ` • ${formatFileSize(shoot.invoiceFile.size)}` : ''}`
+                            : 'File reference saved'}
                         </div>
                       </div>
                     </div>
                     
                     <div className="flex items-center gap-2">
-                      {shoot.invoiceFile.data && (
+                      {shoot.invoiceFile.fileId && (
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -241,6 +308,28 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
                   </div>
                 )}
               </div>
+
+              {shoot.invoiceFile && (
+                <InvoiceReviewForm
+                  invoiceData={shoot.invoiceData}
+                  approvedAmount={typeof shoot.approvedAmount === 'string' ? parseFloat(shoot.approvedAmount) : shoot.approvedAmount}
+                  defaultTdsRate={taxSettings.tdsRate}
+                  onSave={onSaveInvoiceData && !shoot.paid ? (fields) => onSaveInvoiceData(shoot.id, fields) : undefined}
+                  onReextract={onReextractInvoice && shoot.invoiceFile.fileId && !shoot.paid ? () => onReextractInvoice(shoot.id) : undefined}
+                />
+              )}
+
+              <div>
+                <h3 className="text-lg mb-3">Payments</h3>
+                <PaymentLedger shoot={shoot} taxSettings={taxSettings} />
+              </div>
+
+              {shoot.paid && shoot.invoiceMatch && (
+                <div>
+                  <h3 className="text-lg mb-3">Payment Check</h3>
+                  <InvoiceMatchReport match={shoot.invoiceMatch} />
+                </div>
+              )}
             </div>
 
             {/* Right Side - Preview */}
@@ -251,21 +340,8 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
                 className="border-2 border-gray-200 rounded-xl overflow-hidden"
                 style={{ height: '500px' }}
               >
-                {shoot.invoiceFile?.data ? (
-                  <iframe
-                    src={shoot.invoiceFile.data}
-                    className="w-full h-full"
-                    title="PDF Preview"
-                  />
-                ) : shoot.invoiceFile && showPreview ? (
-                  <div className="h-full flex flex-col items-center justify-center bg-gray-50">
-                    <FileText className="w-16 h-16 text-gray-400 mb-4" />
-                    <p className="text-gray-600 mb-2">{shoot.invoiceFile.name}</p>
-                    <p className="text-sm text-gray-500 mb-4">PDF file stored</p>
-                    <p className="text-xs text-gray-400 px-8 text-center">
-                      Upload a new PDF to enable preview and download
-                    </p>
-                  </div>
+                {shoot.invoiceFile && (shoot.invoiceFile.fileId || showPreview) ? (
+                  <StoredFilePreview file={shoot.invoiceFile} />
                 ) : (
                   <div className="h-full flex items-center justify-center bg-gray-50">
                     <div className="text-center text-gray-400">
@@ -282,7 +358,7 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
         {/* Footer */}
         <div className="p-6 border-t border-gray-100">
           <div className="flex gap-3">
-            {shoot.invoiceFile?.data && (
+            {shoot.invoiceFile?.fileId && (
               <button
                 onClick={handleDownload}
                 className="flex-1 py-2.5 rounded-lg border-2 flex items-center justify-center gap-2 transition-all font-medium hover:bg-blue-50"
@@ -292,14 +368,14 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
                 Download PDF
               </button>
             )}
-            {shoot.invoiceFile && !shoot.paid && (
+            {!shoot.paid && onRecordPayment && (shoot.invoiceFile || shoot.status === 'ready_for_shoot') && (
               <button
-                onClick={handleVerifyAndPay}
+                onClick={openPaymentForm}
                 className="flex-1 py-2.5 rounded-lg text-white flex items-center justify-center gap-2 transition-all font-medium hover:opacity-90"
                 style={{ backgroundColor: '#27AE60' }}
               >
-                <CheckCircle className="w-5 h-5" />
-                Verify & Mark as Paid
+                <IndianRupee className="w-5 h-5" />
+                {shoot.invoiceFile ? 'Record Payment' : 'Record Advance'}
               </button>
             )}
           </div>
@@ -320,6 +396,147 @@ export function InvoiceManagement({ shoot, onUploadInvoice, onMarkPaid, onClose
           </div>
         )}
       </div>
+
+      {/* Record a payment - the one that clears the balance is checked against the approval first */}
+      {showPaymentForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.2)' }}>
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Record Payment</h3>
+                <p className="text-xs text-gray-500">₹{Math.max(balance, 0).toLocaleString()} outstanding to the vendor</p>
+              </div>
+              <button onClick={() => setShowPaymentForm(false)} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <label className="text-sm text-gray-700">
+                  Amount (₹) *
+                  <input
+                    type="number"
+                    min={0}
+                    max={Math.max(balance, 0)}
+                    value={paymentDraft.amount || ''}
+                    onChange={(e) => setPaymentDraft(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Payment date *
+                  <input
+                    type="date"
+                    value={paymentDraft.date}
+                    onChange={(e) => setPaymentDraft(prev => ({ ...prev, date: e.target.value }))}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Method *
+                  <select
+                    value={paymentDraft.method}
+                    onChange={(e) => setPaymentDraft(prev => ({ ...prev, method: e.target.value as PaymentMethod }))}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                      <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  UTR / Reference{paymentDraft.method !== 'cash' && ' *'}
+                  <input
+                    type="text"
+                    value={paymentDraft.reference}
+                    onChange={(e) => setPaymentDraft(prev => ({ ...prev, reference: e.target.value }))}
+                    placeholder={paymentDraft.method === 'cheque' ? 'Cheque number' : 'UTR or transaction ID'}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              </div>
+              <label className="block text-sm text-gray-700 mb-4">
+                Notes
+                <input
+                  type="text"
+                  value={paymentDraft.notes}
+                  onChange={(e) => setPaymentDraft(prev => ({ ...prev, notes: e.target.value }))}
+                  placeholder="e.g. 50% advance as per quote"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+
+              {settlesBalance && !canSettle ? (
+                <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-700">
+                  The balance can only be cleared against the vendor's invoice once the shoot is done. Record a smaller advance for now.
+                </div>
+              ) : settlesBalance ? (
+                <>
+                  <div className="text-sm font-medium text-gray-700 mb-2">This payment clears the balance - invoice check</div>
+                  <InvoiceMatchReport match={match} />
+
+                  {paymentBlocked ? (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                      This invoice is over the approved amount by more than the tolerance and can't be paid in full. Get the quote re-approved or ask the vendor for a revised invoice.
+                    </div>
+                  ) : requiresOverride && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Override reason *</label>
+                      <textarea
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        rows={3}
+                        placeholder="Why should this invoice be paid anyway?"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+                  ₹{remainingAfterPayment.toLocaleString()} will remain outstanding after this payment.
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200">
+              {payError && (
+                <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{payError}</div>
+              )}
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setShowPaymentForm(false)}
+                  className="flex-1 px-5 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRecordPayment}
+                  disabled={
+                    isPaying
+                    // Nothing left to pay when advances already cover the invoice - this just closes the shoot
+                    || (paymentDraft.amount <= 0 && balance > 0)
+                    || paymentDraft.amount > Math.max(balance, 0)
+                    || (paymentDraft.amount > 0 && paymentDraft.method !== 'cash' && !paymentDraft.reference.trim())
+                    || (settlesBalance && (!canSettle || paymentBlocked || (requiresOverride && !overrideReason.trim())))
+                  }
+                  className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: settlesBalance && requiresOverride ? '#F2994A' : '#27AE60' }}
+                >
+                  {isPaying
+                    ? 'Saving...'
+                    : !settlesBalance
+                      ? 'Record Payment'
+                      : paymentDraft.amount <= 0
+                        ? (requiresOverride ? 'Override & Close as Paid' : 'Close as Paid')
+                        : (requiresOverride ? 'Override & Pay in Full' : 'Pay in Full')}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
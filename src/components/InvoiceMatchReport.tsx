@@ -0,0 +1,124 @@
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import type { InvoiceMatch, InvoiceMatchLineStatus } from '../lib/invoiceMatch';
+
+interface InvoiceMatchReportProps {
+  match: InvoiceMatch;
+}
+
+const LINE_BADGES: Record<InvoiceMatchLineStatus, { label: string; color: string }> = {
+  ok: { label: 'Matched', color: '#27AE60' },
+  over: { label: 'Over', color: '#E74C3C' },
+  under: { label: 'Under', color: '#2D60FF' },
+  quantity_changed: { label: 'Qty changed', color: '#F2994A' },
+  added_after_approval: { label: 'Added after approval', color: '#F2994A' },
+  missing: { label: 'Not invoiced', color: '#9CA3AF' },
+  not_requested: { label: 'Not requested', color: '#E74C3C' },
+};
+
+const SUMMARIES: Record<InvoiceMatch['status'], { label: string; color: string; background: string }> = {
+  matched: { label: 'Invoice matches the approval', color: '#27AE60', background: '#F0FDF4' },
+  flagged: { label: 'Within tolerance, with differences to check', color: '#F2994A', background: '#FEF3C7' },
+  exceeds: { label: 'Invoice exceeds the approved amount', color: '#DC2626', background: '#FEF2F2' },
+  unverified: { label: 'Invoice could not be matched', color: '#F2994A', background: '#FEF3C7' },
+};
+
+const formatAmount = (amount: number | null | undefined) =>
+  amount === null || amount === undefined ? '—' : `₹${amount.toLocaleString()}`;
+
+// Three-way match of the vendor's invoice against the approved quote and the requested equipment
+export function InvoiceMatchReport({ match }: InvoiceMatchReportProps) {
+  const summary = SUMMARIES[match.status];
+  const SummaryIcon = match.status === 'matched' ? CheckCircle : match.status === 'exceeds' ? XCircle : AlertTriangle;
+
+  return (
+    <div>
+      <div className="p-4 rounded-xl mb-3" style={{ backgroundColor: summary.background }}>
+        <div className="flex items-center gap-2 font-medium mb-2" style={{ color: summary.color }}>
+          <SummaryIcon className="w-5 h-5" />
+          {summary.label}
+        </div>
+        <div className="grid grid-cols-3 gap-3 text-sm">
+          <div>
+            <div className="text-xs text-gray-500">Approved</div>
+            <div className="font-semibold text-gray-900">{formatAmount(match.approvedAmount)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Invoiced (before tax)</div>
+            <div className="font-semibold text-gray-900">{formatAmount(match.invoicedAmount)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Difference</div>
+            <div
+              className="font-semibold"
+              style={{ color: (match.difference || 0) > 0 ? '#E74C3C' : (match.difference || 0) < 0 ? '#27AE60' : '#111827' }}
+            >
+              {match.difference === null ? '—' : `${match.difference > 0 ? '+' : ''}₹${match.difference.toLocaleString()}`}
+            </div>
+          </div>
+        </div>
+        <div className="text-xs text-gray-500 mt-2">Tolerance ₹{Math.round(match.tolerance).toLocaleString()}</div>
+      </div>
+
+      {match.flags.length > 0 && (
+        <div className="mb-3 space-y-1">
+          {match.flags.map(flag => (
+            <div key={flag} className="flex items-start gap-1.5 text-xs text-orange-700">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {flag}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {match.lines.length > 0 && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Item</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Approved</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Invoiced</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {match.lines.map((line, index) => {
+                const badge = LINE_BADGES[line.status];
+                return (
+                  <tr key={line.equipmentId || `invoice-${index}`}>
+                    <td className="px-3 py-2">
+                      <div className="text-gray-900">{line.name}</div>
+                      {line.invoiceDescription && line.invoiceDescription !== line.name && (
+                        <div className="text-gray-400">Invoice: {line.invoiceDescription}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatAmount(line.approvedAmount)}
+                      {line.approvedQuantity && line.approvedQuantity > 1 && <span className="text-gray-400"> (x{line.approvedQuantity})</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      {formatAmount(line.invoicedAmount)}
+                      {line.invoicedQuantity && line.invoicedQuantity > 1 && <span className="text-gray-400"> (x{line.invoicedQuantity})</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <span className="px-2 py-0.5 rounded-full whitespace-nowrap" style={{ backgroundColor: `${badge.color}20`, color: badge.color }}>
+                        {badge.label}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {match.overrideReason && (
+        <div className="mt-3 p-3 bg-gray-50 rounded-lg text-xs text-gray-700">
+          Paid with override: {match.overrideReason}
+          {match.checkedBy && <span className="text-gray-400"> — {match.checkedBy}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { InvoiceMatchSettings } from '../lib/invoiceMatch';
+
+interface InvoiceMatchSettingsEditorProps {
+  settings: InvoiceMatchSettings;
+  onSave: (settings: InvoiceMatchSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+export function InvoiceMatchSettingsEditor({ settings, onSave, onClose }: InvoiceMatchSettingsEditorProps) {
+  const [draft, setDraft] = useState<InvoiceMatchSettings>({ ...settings });
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save invoice match settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-md" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.2)' }}>
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Invoice Match Tolerance</h3>
+            <p className="text-xs text-gray-500">How far an invoice may exceed the approved amount</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Percent of approval
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={draft.tolerancePercent}
+                onChange={(e) => setDraft(prev => ({ ...prev, tolerancePercent: parseFloat(e.target.value) || 0 }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Or at least (₹)
+              <input
+                type="number"
+                min={0}
+                value={draft.toleranceAmount}
+                onChange={(e) => setDraft(prev => ({ ...prev, toleranceAmount: parseFloat(e.target.value) || 0 }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">The larger of the two applies.</p>
+
+          <div>
+            <div className="text-sm text-gray-700 mb-2">Beyond the tolerance</div>
+            <div className="space-y-2">
+              {([
+                ['override', 'Allow payment with an override reason'],
+                ['block', 'Block payment until re-approved or re-invoiced'],
+              ] as const).map(([value, label]) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={draft.exceedAction === value}
+                    onChange={() => setDraft(prev => ({ ...prev, exceedAction: value }))}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200">
+          {saveError && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{saveError}</div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-5 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import type { InvoiceData, InvoiceFields, InvoiceLineItem, InvoiceTax } from '../services/invoiceService';
+
+interface InvoiceReviewFormProps {
+  invoiceData?: InvoiceData;
+  approvedAmount?: number;
+  defaultTdsRate: number;
+  // Omitted when the invoice can no longer be edited
+  onSave?: (fields: InvoiceFields) => Promise<void>;
+  onReextract?: () => Promise<void>;
+}
+
+const TAX_TYPES = ['CGST', 'SGST', 'UTGST', 'IGST'];
+
+const EMPTY_FIELDS: InvoiceFields = {
+  invoiceNumber: null,
+  invoiceDate: null,
+  vendorGstin: null,
+  buyerGstin: null,
+  lineItems: [],
+  taxes: [],
+  subtotal: null,
+  taxTotal: 0,
+  grandTotal: null,
+};
+
+const toFields = (data?: InvoiceData): InvoiceFields => (data ? {
+  ...EMPTY_FIELDS,
+  ...data,
+  lineItems: (data.lineItems || []).map(item => ({ ...item })),
+  taxes: (data.taxes || []).map(tax => ({ ...tax })),
+} : EMPTY_FIELDS);
+
+const sum = (values: number[]) => Math.round(values.reduce((total, v) => total + (v || 0), 0) * 100) / 100;
+
+const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50';
+
+// Prefilled from the details read out of the PDF - finance corrects and confirms them
+export function InvoiceReviewForm({ invoiceData, approvedAmount, defaultTdsRate, onSave, onReextract }: InvoiceReviewFormProps) {
+  const [fields, setFields] = useState<InvoiceFields>(() => toFields(invoiceData));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new upload or re-extraction replaces the draft
+  useEffect(() => {
+    setFields(toFields(invoiceData));
+    setError(null);
+  }, [invoiceData?.extractedAt, invoiceData?.reviewedAt]);
+
+  const readOnly = !onSave;
+  const update = (change: Partial<InvoiceFields>) => setFields(prev => ({ ...prev, ...change }));
+
+  const updateLine = (index: number, change: Partial<InvoiceLineItem>) => {
+    setFields(prev => ({
+      ...prev,
+      lineItems: prev.lineItems.map((item, i) => {
+        if (i !== index) return item;
+        const next = { ...item, ...change };
+        // Keep the amount in step with quantity x rate
+        if (change.quantity !== undefined || change.rate !== undefined) {
+          next.amount = Math.round(next.quantity * next.rate * 100) / 100;
+        }
+        return next;
+      }),
+    }));
+  };
+
+  const updateTax = (index: number, change: Partial<InvoiceTax>) => {
+    setFields(prev => ({ ...prev, taxes: prev.taxes.map((tax, i) => (i === index ? { ...tax, ...change } : tax)) }));
+  };
+
+  const itemsTotal = sum(fields.lineItems.map(item => item.amount));
+  const taxTotal = sum(fields.taxes.map(tax => tax.amount));
+  const subtotal = fields.lineItems.length > 0 ? itemsTotal : fields.subtotal || 0;
+  const expectedTotal = sum([subtotal, taxTotal]);
+  const totalMismatch = fields.grandTotal !== null && Math.abs(expectedTotal - fields.grandTotal) > 1;
+  // TDS is withheld from the taxable value, not the GST
+  const tdsRate = fields.tdsRate ?? defaultTdsRate;
+  const tds = Math.round(subtotal * tdsRate) / 100;
+  const netPayable = fields.grandTotal === null ? undefined : sum([fields.grandTotal, -tds]);
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...fields, subtotal, taxTotal, tdsRate, tds, netPayable });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save invoice details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReextract = async () => {
+    if (!onReextract) return;
+    setIsExtracting(true);
+    setError(null);
+    try {
+      await onReextract();
+    } catch (err: any) {
+      setError(err.message || 'Failed to read the invoice');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg">Invoice Details</h3>
+        <div className="flex items-center gap-2">
+          {invoiceData?.status === 'reviewed' ? (
+            <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs" style={{ backgroundColor: '#27AE6020', color: '#27AE60' }}>
+              <CheckCircle className="w-3 h-3" />
+              Reviewed{invoiceData.reviewedBy ? ` by ${invoiceData.reviewedBy}` : ''}
+            </span>
+          ) : invoiceData?.status === 'extracted' ? (
+            <span className="px-2.5 py-1 rounded-full text-xs" style={{ backgroundColor: '#F2994A20', color: '#F2994A' }}>
+              Read from PDF • needs review
+            </span>
+          ) : null}
+          {onReextract && (
+            <button
+              onClick={handleReextract}
+              disabled={isExtracting}
+              className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+              title="Read the PDF again"
+            >
+              <RefreshCw className={`w-4 h-4 ${isExtracting ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {invoiceData?.status === 'failed' && (
+        <div className="mb-3 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-700">
+          {invoiceData.error || 'The invoice could not be read'}
+        </div>
+      )}
+      {invoiceData?.status === 'extracted' && invoiceData.warnings && invoiceData.warnings.length > 0 && (
+        <div className="mb-3 p-3 bg-orange-50 border border-orange-200 rounded-lg text-xs text-orange-700 space-y-1">
+          {invoiceData.warnings.map(warning => (
+            <div key={warning} className="flex items-start gap-1.5">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {warning}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <label className="text-xs text-gray-500">
+          Invoice Number
+          <input
+            type="text"
+            value={fields.invoiceNumber || ''}
+            onChange={(e) => update({ invoiceNumber: e.target.value || null })}
+            disabled={readOnly}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Invoice Date
+          <input
+            type="date"
+            value={fields.invoiceDate || ''}
+            onChange={(e) => update({ invoiceDate: e.target.value || null })}
+            disabled={readOnly}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Vendor GSTIN
+          <input
+            type="text"
+            value={fields.vendorGstin || ''}
+            onChange={(e) => update({ vendorGstin: e.target.value.toUpperCase() || null })}
+            disabled={readOnly}
+            maxLength={15}
+            className={`${inputClass} mt-1 font-mono`}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          Billed To GSTIN
+          <input
+            type="text"
+            value={fields.buyerGstin || ''}
+            onChange={(e) => update({ buyerGstin: e.target.value.toUpperCase() || null })}
+            disabled={readOnly}
+            maxLength={15}
+            className={`${inputClass} mt-1 font-mono`}
+          />
+        </label>
+      </div>
+
+      {/* Line items */}
+      <div className="border border-gray-200 rounded-lg overflow-hidden mb-3">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-2 py-2 text-left text-xs font-medium text-gray-700">Description</th>
+              <th className="px-2 py-2 text-left text-xs font-medium text-gray-700 w-24">HSN/SAC</th>
+              <th className="px-2 py-2 text-right text-xs font-medium text-gray-700 w-16">Qty</th>
+              <th className="px-2 py-2 text-right text-xs font-medium text-gray-700 w-24">Rate</th>
+              <th className="px-2 py-2 text-right text-xs font-medium text-gray-700 w-24">Amount</th>
+              {!readOnly && <th className="w-8" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {fields.lineItems.map((item, index) => (
+              <tr key={index}>
+                <td className="px-2 py-1.5">
+                  <input type="text" value={item.description} onChange={(e) => updateLine(index, { description: e.target.value })} disabled={readOnly} className={inputClass} />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="text" value={item.hsn || ''} onChange={(e) => updateLine(index, { hsn: e.target.value || undefined })} disabled={readOnly} className={inputClass} />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="number" min={0} value={item.quantity} onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })} disabled={readOnly} className={`${inputClass} text-right`} />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="number" min={0} value={item.rate} onChange={(e) => updateLine(index, { rate: parseFloat(e.target.value) || 0 })} disabled={readOnly} className={`${inputClass} text-right`} />
+                </td>
+                <td className="px-2 py-1.5">
+                  <input type="number" min={0} value={item.amount} onChange={(e) => updateLine(index, { amount: parseFloat(e.target.value) || 0 })} disabled={readOnly} className={`${inputClass} text-right`} />
+                </td>
+                {!readOnly && (
+                  <td className="px-1">
+                    <button
+                      onClick={() => update({ lineItems: fields.lineItems.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 hover:text-red-500 rounded"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {fields.lineItems.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-3 py-3 text-center text-xs text-gray-400">No line items</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {!readOnly && (
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => update({ lineItems: [...fields.lineItems, { description: '', quantity: 1, rate: 0, amount: 0 }] })}
+            className="flex items-center gap-1 px-3 py-1.5 border border-dashed border-gray-300 rounded-lg text-xs text-gray-600 hover:border-blue-400 hover:text-blue-600"
+          >
+            <Plus className="w-3 h-3" />
+            Line Item
+          </button>
+          <button
+            onClick={() => update({ taxes: [...fields.taxes, { type: 'IGST', rate: 18, amount: Math.round(subtotal * 18) / 100 }] })}
+            className="flex items-center gap-1 px-3 py-1.5 border border-dashed border-gray-300 rounded-lg text-xs text-gray-600 hover:border-blue-400 hover:text-blue-600"
+          >
+            <Plus className="w-3 h-3" />
+            Tax
+          </button>
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="space-y-2 text-sm mb-4">
+        <div className="flex justify-between">
+          <span className="text-gray-500">Subtotal</span>
+          {fields.lineItems.length > 0 || readOnly ? (
+            <span className="text-gray-900">₹{subtotal.toLocaleString()}</span>
+          ) : (
+            <input
+              type="number"
+              min={0}
+              value={fields.subtotal ?? ''}
+              onChange={(e) => update({ subtotal: e.target.value === '' ? null : parseFloat(e.target.value) })}
+              className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+        {fields.taxes.map((tax, index) => (
+          <div key={index} className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={tax.type}
+                onChange={(e) => updateTax(index, { type: e.target.value })}
+                disabled={readOnly}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-xs disabled:bg-gray-50"
+              >
+                {TAX_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={tax.rate ?? ''}
+                onChange={(e) => {
+                  const rate = e.target.value === '' ? undefined : parseFloat(e.target.value);
+                  updateTax(index, { rate, amount: rate === undefined ? tax.amount : Math.round(subtotal * rate) / 100 });
+                }}
+                disabled={readOnly}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-xs text-right disabled:bg-gray-50"
+              />
+              <span className="text-xs text-gray-500">%</span>
+              {!readOnly && (
+                <button
+                  onClick={() => update({ taxes: fields.taxes.filter((_, i) => i !== index) })}
+                  className="p-1 text-gray-400 hover:text-red-500 rounded"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <input
+              type="number"
+              min={0}
+              value={tax.amount}
+              onChange={(e) => updateTax(index, { amount: parseFloat(e.target.value) || 0 })}
+              disabled={readOnly}
+              className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right disabled:bg-gray-50"
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between pt-2 border-t border-gray-200 font-semibold">
+          <span className="text-gray-900">Grand Total</span>
+          <input
+            type="number"
+            min={0}
+            value={fields.grandTotal ?? ''}
+            onChange={(e) => update({ grandTotal: e.target.value === '' ? null : parseFloat(e.target.value) })}
+            disabled={readOnly}
+            className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right font-semibold disabled:bg-gray-50"
+          />
+        </div>
+        {totalMismatch && (
+          <div className="text-xs" style={{ color: '#E74C3C' }}>
+            Subtotal plus taxes is ₹{expectedTotal.toLocaleString()}
+            {!readOnly && (
+              <button onClick={() => update({ grandTotal: expectedTotal })} className="ml-2 underline">Use this</button>
+            )}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">TDS</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={tdsRate}
+              onChange={(e) => update({ tdsRate: parseFloat(e.target.value) || 0 })}
+              disabled={readOnly}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-xs text-right disabled:bg-gray-50"
+            />
+            <span className="text-xs text-gray-500">% of subtotal</span>
+          </div>
+          <span className="text-gray-700">− ₹{tds.toLocaleString()}</span>
+        </div>
+        {netPayable !== undefined && (
+          <div className="flex justify-between font-semibold">
+            <span className="text-gray-900">Net Payable to Vendor</span>
+            <span style={{ color: '#2D60FF' }}>₹{netPayable.toLocaleString()}</span>
+          </div>
+        )}
+        {approvedAmount !== undefined && fields.grandTotal !== null && subtotal > 0 && Math.abs(subtotal - approvedAmount) > 1 && (
+          <div className="text-xs" style={{ color: '#F2994A' }}>
+            Invoiced ₹{subtotal.toLocaleString()} before tax against ₹{approvedAmount.toLocaleString()} approved
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+      {onSave && (
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !fields.invoiceNumber || !fields.grandTotal}
+          className="w-full py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+          style={{ backgroundColor: '#2D60FF' }}
+        >
+          {isSaving ? 'Saving...' : invoiceData?.status === 'reviewed' ? 'Update Invoice Details' : 'Confirm Invoice Details'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import type { Shoot, ShootStatus } from '../App';
+import { KanbanCard, type KanbanCardAction } from './KanbanCard';
+import { BOARD_MOVES, SHOOT_STATUSES, STATUS_COLORS, STATUS_LABELS, getBoardMove, type BoardMove } from '../lib/workflow';
+
+// A card - one shoot, or a request group shown by the shoot that needs attention first
+export type BoardShoot = Shoot & { groupedShoots?: Shoot[]; shootCount?: number; groupStatusCounts?: Partial<Record<ShootStatus, number>> };
+
+interface KanbanBoardProps {
+  items: BoardShoot[];
+  // Runs a move for one shoot - moves the user's role can't make are omitted
+  moves: Partial<Record<BoardMove, (shoot: Shoot, reason?: string) => Promise<unknown> | void>>;
+  getActionType: (shoot: Shoot) => KanbanCardAction;
+  onCardAction: (shoot: Shoot) => void;
+}
+
+// Closed shoots pile up - their columns only show the most recent ones
+const CLOSED_COLUMN_LIMIT = 20;
+
+interface PendingMove {
+  item: BoardShoot;
+  move: BoardMove;
+  targets: Shoot[];
+}
+
+export function KanbanBoard({ items, moves, getActionType, onCardAction }: KanbanBoardProps) {
+  const [dragging, setDragging] = useState<BoardShoot | null>(null);
+  const [dropTarget, setDropTarget] = useState<ShootStatus | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [reason, setReason] = useState('');
+
+  // The move a drop would make and the shoots it moves, or why it is refused
+  const resolveMove = (item: BoardShoot, to: ShootStatus): { move: BoardMove; targets: Shoot[] } | { refusal: string } | null => {
+    if (item.status === to) return null;
+    const move = getBoardMove(item.status, to);
+    if (!move) {
+      return { refusal: `A shoot in ${STATUS_LABELS[item.status]} can't move to ${STATUS_LABELS[to]}.` };
+    }
+    if (!moves[move]) {
+      return { refusal: `Your role can't ${BOARD_MOVES[move].label.toLowerCase()}.` };
+    }
+    // A group moves together - the shoots already past this column stay where they are
+    const targets = BOARD_MOVES[move].opensScreen
+      ? [item]
+      : (item.groupedShoots || [item]).filter(shoot => shoot.status === item.status);
+    // Checked for every shoot up front so a group is never left half-approved
+    const undecided = move === 'approve' ? targets.find(shoot => !shoot.vendorQuote) : undefined;
+    if (undecided) {
+      return { refusal: `${undecided.name} has bids from several vendors - choose one on the Approvals screen.` };
+    }
+    return { move, targets };
+  };
+
+  const runMove = async (item: BoardShoot, move: BoardMove, targets: Shoot[], moveReason?: string) => {
+    const run = moves[move];
+    if (!run) return;
+    setBusyId(item.id);
+    setNotice(null);
+    try {
+      // One at a time - each shoot of a group is checked against its own status on the server
+      for (const shoot of targets) {
+        await run(shoot, moveReason);
+      }
+    } catch (error) {
+      setNotice(error instanceof Error && error.message ? error.message : `Could not ${BOARD_MOVES[move].label.toLowerCase()} ${item.name}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, to: ShootStatus) => {
+    e.preventDefault();
+    const item = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!item) return;
+
+    const resolved = resolveMove(item, to);
+    if (!resolved) return;
+    if ('refusal' in resolved) {
+      setNotice(resolved.refusal);
+      return;
+    }
+
+    const { move, targets } = resolved;
+    if (BOARD_MOVES[move].reason) {
+      setReason('');
+      setPendingMove({ item, move, targets });
+      return;
+    }
+    runMove(item, move, targets);
+  };
+
+  const confirmPendingMove = () => {
+    if (!pendingMove) return;
+    const { item, move, targets } = pendingMove;
+    setPendingMove(null);
+    runMove(item, move, targets, reason.trim() || undefined);
+  };
+
+  const getGroupSummary = (item: BoardShoot) => {
+    const statuses = Object.entries(item.groupStatusCounts || {}) as [ShootStatus, number][];
+    if (statuses.length < 2) return undefined;
+    return statuses
+      .sort(([a], [b]) => SHOOT_STATUSES.indexOf(a) - SHOOT_STATUSES.indexOf(b))
+      .map(([status, count]) => `${count} ${STATUS_LABELS[status]}`)
+      .join(' • ');
+  };
+
+  return (
+    <div>
+      {notice && (
+        <div className="mb-4 flex items-center gap-2 px-4 py-3 rounded-lg text-sm" style={{ backgroundColor: '#FEF2F2', color: '#E74C3C' }}>
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} className="p-1 hover:bg-red-100 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {SHOOT_STATUSES.map(status => {
+          const columnItems = items.filter(item => item.status === status);
+          const isClosed = status === 'completed' || status === 'cancelled';
+          const shown = isClosed ? columnItems.slice(0, CLOSED_COLUMN_LIMIT) : columnItems;
+          const resolved = dragging && dropTarget === status ? resolveMove(dragging, status) : null;
+          const highlight = resolved ? ('refusal' in resolved ? '#E74C3C' : '#2D60FF') : null;
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (!dragging) return;
+                e.preventDefault();
+                if (dropTarget !== status) setDropTarget(status);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+              }}
+              onDrop={(e) => handleDrop(e, status)}
+              className="flex-shrink-0 rounded-xl p-3 transition-colors"
+              style={{
+                width: '288px',
+                backgroundColor: highlight ? `${highlight}10` : '#EEF1F6',
+                outline: highlight ? `2px dashed ${highlight}` : 'none',
+              }}
+            >
+              <div className="flex items-center justify-between px-1 mb-3">
+                <div className="flex items-center gap-2">
+                  <span className="rounded-full" style={{ width: '8px', height: '8px', backgroundColor: STATUS_COLORS[status] }} />
+                  <span className="text-sm font-medium text-gray-700">{STATUS_LABELS[status]}</span>
+                </div>
+                <span className="text-xs text-gray-500">{columnItems.length}</span>
+              </div>
+
+              <div style={{ minHeight: '96px' }}>
+                {shown.map(item => (
+                  <div
+                    key={item.id}
+                    draggable={busyId !== item.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', item.id);
+                      setDragging(item);
+                      setNotice(null);
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null);
+                      setDropTarget(null);
+                    }}
+                    style={{ opacity: busyId === item.id || dragging?.id === item.id ? 0.5 : 1 }}
+                  >
+                    <KanbanCard
+                      shoot={item}
+                      actionType={getActionType(item)}
+                      onAction={() => onCardAction(item)}
+                      shootCount={item.shootCount}
+                      groupSummary={getGroupSummary(item)}
+                    />
+                  </div>
+                ))}
+                {columnItems.length > shown.length && (
+                  <div className="text-xs text-gray-500 text-center py-2">
+                    {columnItems.length - shown.length} older in the Archive and Finance screens
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Reason for a rejection or cancellation */}
+      {pendingMove && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl w-full max-w-md" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.15)' }}>
+            <div className="px-6 py-4 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">{BOARD_MOVES[pendingMove.move].label}</h3>
+              <p className="text-sm text-gray-500">
+                {pendingMove.item.name}
+                {pendingMove.targets.length > 1 && ` and ${pendingMove.targets.length - 1} more shoots in this request`}
+              </p>
+            </div>
+            <div className="px-6 py-4">
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                autoFocus
+                placeholder={BOARD_MOVES[pendingMove.move].reason === 'required' ? 'Reason (required)' : 'Reason (optional)'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="px-6 py-4 border-t border-gray-100 flex gap-3">
+              <button
+                onClick={() => setPendingMove(null)}
+                className="flex-1 px-5 py-2.5 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+              >
+                Back
+              </button>
+              <button
+                onClick={confirmPendingMove}
+                disabled={BOARD_MOVES[pendingMove.move].reason === 'required' && !reason.trim()}
+                className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+                style={{ backgroundColor: '#E74C3C' }}
+              >
+                {BOARD_MOVES[pendingMove.move].label}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,27 @@
 import { Calendar, MapPin, Send, Bell, Upload } from 'lucide-react';
 import type { Shoot } from '../App';
 
+export type KanbanCardAction = 'review' | 'remind' | 'upload' | 'none';
+
 interface KanbanCardProps {
   shoot: Shoot;
   onAction: (shootId: string) => void;
-  actionType: 'review' | 'remind' | 'upload' | 'none';
+  actionType: KanbanCardAction;
+  shootCount?: number; // Shoots in the request group the card stands for
+  groupSummary?: string; // Statuses across a group whose shoots are at different stages
 }
 
-export function KanbanCard({ shoot, onAction, actionType }: KanbanCardProps) {
+export function KanbanCard({ shoot, onAction, actionType, shootCount = 1, groupSummary }: KanbanCardProps) {
   const getStatusBadge = () => {
     const badges = {
       new_request: { label: 'New Request', color: '#F2994A' },
       with_vendor: { label: 'Wait for Vendor', color: '#F2994A' },
       with_swati: { label: 'Pending Approval', color: '#F2994A' },
+      with_senior_approver: { label: 'Senior Approval', color: '#F2994A' },
       ready_for_shoot: { label: 'Ready', color: '#27AE60' },
       pending_invoice: { label: 'Awaiting Invoice', color: '#F2994A' },
       completed: { label: 'Completed', color: '#27AE60' },
+      cancelled: { label: 'Cancelled', color: '#6B7280' },
     };
 
     const badge = badges[shoot.status];
@@ -84,7 +90,14 @@ export function KanbanCard({ shoot, onAction, actionType }: KanbanCardProps) {
     >
       {/* Header */}
       <div className="mb-3">
-        <h3 className="mb-2">{shoot.name}</h3>
+        <div className="flex items-center gap-2 mb-2">
+          <h3>{shoot.name}</h3>
+          {shootCount > 1 && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700 font-medium whitespace-nowrap">
+              +{shootCount - 1} more
+            </span>
+          )}
+        </div>
         <div className="flex items-center gap-2 flex-wrap">
           <div className="flex items-center gap-1 text-sm text-gray-600">
             <Calendar className="w-4 h-4" />
@@ -92,6 +105,7 @@ export function KanbanCard({ shoot, onAction, actionType }: KanbanCardProps) {
           </div>
           {getStatusBadge()}
         </div>
+        {groupSummary && <div className="mt-1 text-xs text-gray-500">{groupSummary}</div>}
       </div>
 
       {/* Body */}
@@ -5,6 +5,7 @@ import {
   DollarSign, 
   Package, 
   Archive,
+  Building2,
   Plus,
   Upload,
   X,
@@ -15,42 +16,75 @@ import {
   LogOut,
   User,
   Shield,
-  Edit3
+  Edit3,
+  IndianRupee,
+  List,
+  SquareKanban,
+  CalendarDays
 } from 'lucide-react';
-import type { Shoot } from '../App';
+import type { Shoot, ShootStatus } from '../App';
+import { buildVendorLinkUrl, createVendorLink } from '../services/vendorLinkService';
+import type { Vendor } from '../services/vendorService';
+import { isAwaitingApproval } from '../lib/approvals';
+import { KanbanBoard } from './KanbanBoard';
+import type { KanbanCardAction } from './KanbanCard';
+import type { BoardMove } from '../lib/workflow';
 
 interface MainDashboardProps {
   shoots: Shoot[];
-  onSendToVendor: (shootId: string) => void;
-  onOpenVendorLink: (shootId: string) => void;
-  onOpenApprovals: () => void;
-  onOpenInvoice: (shootId: string) => void;
-  onOpenNewRequest: () => void;
-  onOpenFinance: () => void;
-  onOpenCatalog: () => void;
-  onOpenArchive: () => void;
+  vendors?: Vendor[];
+  onSendToVendor: (shootId: string) => void | Promise<void>;
+  // Navigation/actions are omitted when the user's role can't use them
+  onOpenVendorLink?: (shootId: string) => void;
+  onOpenApprovals?: () => void;
+  onOpenInvoice?: (shootId: string) => void;
+  onRecordAdvance?: (shootId: string) => void;
+  // Workflow actions run by dragging cards on the board
+  onApprove?: (shootId: string) => Promise<void>;
+  onReject?: (shootId: string, reason: string) => Promise<void>;
+  onCompleteShoot?: (shootId: string) => Promise<void>;
+  onCancelShoot?: (shootId: string, reason?: string) => Promise<void>;
+  onOpenNewRequest?: () => void;
+  onOpenFinance?: () => void;
+  onOpenCatalog?: () => void;
+  onOpenVendors?: () => void;
+  onOpenArchive?: () => void;
+  onOpenCalendar?: () => void;
+  onOpenImport?: () => void;
   // Auth props
   isAdmin?: boolean;
+  roleLabel?: string;
   userName?: string;
   userEmail?: string;
   onLogout?: () => void;
   onEditShoot?: (shootId: string) => void;
 }
 
-type NavItem = 'active' | 'approvals' | 'finance' | 'catalog' | 'archive';
+type NavItem = 'active' | 'approvals' | 'finance' | 'catalog' | 'vendors' | 'archive';
 type FilterType = 'all' | 'new_request' | 'approvals_pending' | 'active_shoots' | 'pending_invoice';
+type DashboardView = 'table' | 'board';
 
 export function MainDashboard({ 
   shoots, 
+  vendors = [],
   onSendToVendor,
   onOpenInvoice,
+  onRecordAdvance,
+  onApprove,
+  onReject,
+  onCompleteShoot,
+  onCancelShoot,
   onOpenApprovals,
   onOpenVendorLink,
   onOpenNewRequest,
   onOpenFinance,
   onOpenCatalog,
+  onOpenVendors,
   onOpenArchive,
+  onOpenCalendar,
+  onOpenImport,
   isAdmin = false,
+  roleLabel = 'Pre-production Team',
   userName = 'User',
   userEmail = '',
   onLogout,
@@ -58,20 +92,31 @@ export function MainDashboard({
 }: MainDashboardProps) {
   const [activeNav, setActiveNav] = useState<NavItem>('active');
   const [selectedFilter, setSelectedFilter] = useState<FilterType>('all');
+  const [dashboardView, setDashboardView] = useState<DashboardView>('table');
   const [showSendToVendorModal, setShowSendToVendorModal] = useState(false);
   const [selectedShootForVendor, setSelectedShootForVendor] = useState<Shoot | null>(null);
   const [linkCopied, setLinkCopied] = useState(false);
+  const [vendorLinkUrl, setVendorLinkUrl] = useState<string | null>(null);
 
-  const openSendToVendorModal = (shoot: Shoot) => {
+  const getVendorName = (shoot: Shoot) => vendors.find(v => v.id === shoot.vendorId)?.name || 'Unassigned';
+
+  const openSendToVendorModal = async (shoot: Shoot) => {
     setSelectedShootForVendor(shoot);
     setShowSendToVendorModal(true);
     setLinkCopied(false);
+    setVendorLinkUrl(null);
+    // Mint a fresh expiring link for this shoot (or its request group)
+    try {
+      const link = await createVendorLink(shoot.requestGroupId || shoot.id, shoot.vendorId);
+      if (link.token) setVendorLinkUrl(buildVendorLinkUrl(link.token));
+    } catch (error) {
+      console.error('Error creating vendor link:', error);
+    }
   };
 
   const handleCopyLink = () => {
-    if (selectedShootForVendor) {
-      const vendorLink = `${window.location.origin}?vendor=${selectedShootForVendor.id}`;
-      navigator.clipboard.writeText(vendorLink);
+    if (vendorLinkUrl) {
+      navigator.clipboard.writeText(vendorLinkUrl);
       setLinkCopied(true);
       setTimeout(() => setLinkCopied(false), 2000);
     }
@@ -86,8 +131,8 @@ export function MainDashboard({
   };
 
   // Helper to count unique request groups (multi-shoots count as 1)
-  const getGroupedCountForStatus = (status: string) => {
-    const filtered = shoots.filter(s => s.status === status);
+  const getGroupedCountForStatus = (...statuses: ShootStatus[]) => {
+    const filtered = shoots.filter(s => statuses.includes(s.status));
     const groupIds = new Set<string>();
     let standaloneCount = 0;
     
@@ -102,12 +147,12 @@ export function MainDashboard({
     return groupIds.size + standaloneCount;
   };
 
-  const approvalsPending = getGroupedCountForStatus('with_swati');
+  const approvalsPending = getGroupedCountForStatus('with_swati', 'with_senior_approver');
 
   // Count all active (non-completed) shoots - grouped
   const allActiveFiltered = shoots.filter(s => 
     s.status === 'pending_invoice' || 
-    s.status === 'with_swati' || 
+    isAwaitingApproval(s.status) || 
     s.status === 'with_vendor' ||
     s.status === 'new_request' ||
     s.status === 'ready_for_shoot'
@@ -156,12 +201,20 @@ export function MainDashboard({
     },
   ];
 
+  // Shoots of a group can be decided separately, so a group row is shown by the
+  // shoot that needs attention first and lists the statuses of the whole group
+  const STATUS_PRIORITY: ShootStatus[] = ['with_swati', 'with_senior_approver', 'new_request', 'with_vendor', 'pending_invoice', 'ready_for_shoot'];
+  const statusRank = (status: ShootStatus) => {
+    const rank = STATUS_PRIORITY.indexOf(status);
+    return rank === -1 ? STATUS_PRIORITY.length : rank;
+  };
+
   // Group shoots by requestGroupId - multi-shoot requests appear as one row
   // Maintains original order (newest first based on createdAt from API)
-  const groupShoots = (shootsList: Shoot[]): (Shoot & { groupedShoots?: Shoot[], shootCount?: number })[] => {
+  const groupShoots = (shootsList: Shoot[]): (Shoot & { groupedShoots?: Shoot[], shootCount?: number, groupStatusCounts?: Partial<Record<ShootStatus, number>> })[] => {
     const grouped: Map<string, Shoot[]> = new Map();
     const seenGroups = new Set<string>();
-    const result: (Shoot & { groupedShoots?: Shoot[], shootCount?: number })[] = [];
+    const result: (Shoot & { groupedShoots?: Shoot[], shootCount?: number, groupStatusCounts?: Partial<Record<ShootStatus, number>> })[] = [];
     
     // First pass: collect all shoots by group
     shootsList.forEach(shoot => {
@@ -179,10 +232,17 @@ export function MainDashboard({
         if (!seenGroups.has(shoot.requestGroupId)) {
           seenGroups.add(shoot.requestGroupId);
           const groupShoots = grouped.get(shoot.requestGroupId) || [shoot];
+          const representative = [...groupShoots].sort((a, b) => statusRank(a.status) - statusRank(b.status))[0];
+          // Count statuses across the whole group, not just the shoots in this filter
+          const groupStatusCounts: Partial<Record<ShootStatus, number>> = {};
+          shoots
+            .filter(s => s.requestGroupId === shoot.requestGroupId && s.status !== 'cancelled')
+            .forEach(s => { groupStatusCounts[s.status] = (groupStatusCounts[s.status] || 0) + 1; });
           result.push({
-            ...groupShoots[0],
+            ...representative,
             groupedShoots: groupShoots,
-            shootCount: groupShoots.length
+            shootCount: groupShoots.length,
+            groupStatusCounts
           });
         }
       } else {
@@ -201,7 +261,7 @@ export function MainDashboard({
     if (selectedFilter === 'all') {
       filtered = shoots.filter(s => 
         s.status === 'pending_invoice' || 
-        s.status === 'with_swati' || 
+        isAwaitingApproval(s.status) || 
         s.status === 'with_vendor' ||
         s.status === 'new_request' ||
         s.status === 'ready_for_shoot'
@@ -209,7 +269,7 @@ export function MainDashboard({
     } else if (selectedFilter === 'new_request') {
       filtered = shoots.filter(s => s.status === 'new_request');
     } else if (selectedFilter === 'approvals_pending') {
-      filtered = shoots.filter(s => s.status === 'with_swati');
+      filtered = shoots.filter(s => isAwaitingApproval(s.status));
     } else if (selectedFilter === 'active_shoots') {
       filtered = shoots.filter(s => s.status === 'ready_for_shoot');
     } else if (selectedFilter === 'pending_invoice') {
@@ -236,6 +296,8 @@ export function MainDashboard({
         return { label: 'Shoot Completed', bg: '#F3E8FF', color: '#9B51E0' };
       case 'with_swati':
         return { label: 'Approval Pending', bg: '#FEF3E2', color: '#F2994A' };
+      case 'with_senior_approver':
+        return { label: 'Senior Approval Pending', bg: '#FEF3E2', color: '#F2994A' };
       case 'with_vendor':
         return { label: 'Waiting for Quote', bg: '#F3F4F6', color: '#6B7280' };
       case 'new_request':
@@ -248,7 +310,7 @@ export function MainDashboard({
   };
 
   const getActionButton = (shoot: Shoot) => {
-    if (shoot.status === 'pending_invoice') {
+    if (shoot.status === 'pending_invoice' && onOpenInvoice) {
       return (
         <button
           onClick={() => onOpenInvoice(shoot.id)}
@@ -261,7 +323,7 @@ export function MainDashboard({
       );
     }
     
-    if (shoot.status === 'with_swati') {
+    if (isAwaitingApproval(shoot.status) && onOpenApprovals) {
       return (
         <button
           onClick={onOpenApprovals}
@@ -273,7 +335,7 @@ export function MainDashboard({
       );
     }
     
-    if (shoot.status === 'with_vendor') {
+    if (shoot.status === 'with_vendor' && onOpenVendorLink) {
       return (
         <button
           onClick={() => onOpenVendorLink(shoot.id)}
@@ -285,7 +347,7 @@ export function MainDashboard({
       );
     }
 
-    if (shoot.status === 'new_request') {
+    if (shoot.status === 'new_request' && onOpenVendorLink) {
       return (
         <button
           onClick={() => onOpenVendorLink(shoot.id)}
@@ -301,7 +363,17 @@ export function MainDashboard({
       return (
         <div className="flex items-center gap-2">
           <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap" style={{ backgroundColor: '#E8F5E9', color: '#27AE60' }}>Active Shoot</span>
-          {isAdmin && onEditShoot && (
+          {onRecordAdvance && (
+            <button
+              onClick={() => onRecordAdvance(shoot.id)}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-100 transition-colors flex items-center gap-1 text-sm whitespace-nowrap"
+              title="Record an advance to the vendor"
+            >
+              <IndianRupee className="w-3.5 h-3.5" />
+              {(shoot.payments?.length || 0) > 0 ? 'Payments' : 'Advance'}
+            </button>
+          )}
+          {onEditShoot && (
             <button
               onClick={() => onEditShoot(shoot.id)}
               className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-100 transition-colors flex items-center gap-1 text-sm whitespace-nowrap"
@@ -318,6 +390,32 @@ export function MainDashboard({
     return null;
   };
 
+  // Board moves the user's role can make - each runs for one shoot
+  const boardMoves: Partial<Record<BoardMove, (shoot: Shoot, reason?: string) => Promise<unknown> | void>> = {
+    send_to_vendor: onOpenVendorLink ? (shoot) => onSendToVendor(shoot.id) : undefined,
+    enter_quote: onOpenVendorLink ? (shoot) => onOpenVendorLink(shoot.id) : undefined,
+    approve: onApprove ? (shoot) => onApprove(shoot.id) : undefined,
+    reject: onReject ? (shoot, reason) => onReject(shoot.id, reason || '') : undefined,
+    complete_shoot: onCompleteShoot ? (shoot) => onCompleteShoot(shoot.id) : undefined,
+    record_payment: onRecordAdvance ? (shoot) => onRecordAdvance(shoot.id) : undefined,
+    cancel: onCancelShoot ? (shoot, reason) => onCancelShoot(shoot.id, reason) : undefined,
+  };
+
+  const getBoardActionType = (shoot: Shoot): KanbanCardAction => {
+    if (shoot.status === 'new_request' && onOpenVendorLink) return 'review';
+    if (shoot.status === 'with_vendor' && onOpenVendorLink) return 'remind';
+    if (shoot.status === 'pending_invoice' && onOpenInvoice) return 'upload';
+    return 'none';
+  };
+
+  const handleBoardCardAction = (shoot: Shoot) => {
+    const actionType = getBoardActionType(shoot);
+    if (actionType === 'review') onOpenVendorLink?.(shoot.id);
+    // Share a fresh quote link with the vendor
+    if (actionType === 'remind') openSendToVendorModal(shoot);
+    if (actionType === 'upload') onOpenInvoice?.(shoot.id);
+  };
+
   return (
     <div className="flex h-screen" style={{ backgroundColor: '#F5F7FA' }}>
       {/* Left Sidebar */}
@@ -347,6 +445,18 @@ export function MainDashboard({
             <span>Active Shoots</span>
           </button>
 
+          {onOpenCalendar && (
+          <button
+            onClick={onOpenCalendar}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <CalendarDays className="w-5 h-5" />
+            <span>Calendar</span>
+          </button>
+          )}
+
+          {onOpenApprovals && (
           <button
             onClick={() => {
               setActiveNav('approvals');
@@ -369,7 +479,9 @@ export function MainDashboard({
               </span>
             )}
           </button>
+          )}
 
+          {onOpenFinance && (
           <button
             onClick={() => {
               setActiveNav('finance');
@@ -384,7 +496,9 @@ export function MainDashboard({
             <DollarSign className="w-5 h-5" />
             <span>Finance & Invoices</span>
           </button>
+          )}
 
+          {onOpenCatalog && (
           <button
             onClick={() => {
               setActiveNav('catalog');
@@ -399,7 +513,26 @@ export function MainDashboard({
             <Package className="w-5 h-5" />
             <span>Catalog</span>
           </button>
+          )}
 
+          {onOpenVendors && (
+          <button
+            onClick={() => {
+              setActiveNav('vendors');
+              onOpenVendors();
+            }}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors"
+            style={{
+              backgroundColor: activeNav === 'vendors' ? '#2D60FF' : 'transparent',
+              color: activeNav === 'vendors' ? 'white' : '#9CA3AF'
+            }}
+          >
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+          )}
+
+          {onOpenArchive && (
           <button
             onClick={onOpenArchive}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
@@ -408,6 +541,18 @@ export function MainDashboard({
             <Archive className="w-5 h-5" />
             <span>Archive</span>
           </button>
+          )}
+
+          {onOpenImport && (
+          <button
+            onClick={onOpenImport}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Upload className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+          )}
         </nav>
 
         {/* User Profile */}
@@ -421,7 +566,7 @@ export function MainDashboard({
             </div>
             <div className="min-w-0 flex-1">
               <div className="text-white text-sm font-medium truncate">
-                {isAdmin ? 'Admin' : 'Pre-production Team'}
+                {roleLabel}
               </div>
               <div className="text-gray-400 text-xs flex items-center gap-1">
                 {isAdmin ? (
@@ -453,6 +598,26 @@ export function MainDashboard({
               <h1 className="text-gray-900">Production Overview</h1>
               <p className="text-gray-500 text-sm">Manage your shoots and workflows</p>
             </div>
+            <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1 p-1 rounded-full" style={{ backgroundColor: '#F3F4F6' }}>
+              {([['table', 'Table', List], ['board', 'Board', SquareKanban]] as const).map(([view, label, Icon]) => (
+                <button
+                  key={view}
+                  onClick={() => setDashboardView(view)}
+                  className="flex items-center gap-2 rounded-full text-sm font-medium transition-all"
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: dashboardView === view ? '#FFFFFF' : 'transparent',
+                    color: dashboardView === view ? '#2D60FF' : '#4B5563',
+                    boxShadow: dashboardView === view ? '0 1px 3px rgba(0,0,0,0.1)' : 'none'
+                  }}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            {onOpenNewRequest && (
             <button
               onClick={onOpenNewRequest}
               className="px-8 py-3 rounded-full text-white flex items-center gap-2 transition-colors font-medium hover:opacity-90"
@@ -461,6 +626,8 @@ export function MainDashboard({
               <Plus className="w-5 h-5" />
               New Shoot Request
             </button>
+            )}
+            </div>
           </div>
         </div>
 
@@ -468,12 +635,15 @@ export function MainDashboard({
         <div className="px-8 py-8">
           <div className="grid gap-4 mb-8" style={{ gridTemplateColumns: 'repeat(5, minmax(0, 1fr))' }}>
             {summaryCards.map((card) => {
-              const isActive = selectedFilter === card.id;
+              const isActive = dashboardView === 'table' && selectedFilter === card.id;
               
               return (
                 <button
                   key={card.id}
-                  onClick={() => setSelectedFilter(card.id)}
+                  onClick={() => {
+                    setSelectedFilter(card.id);
+                    setDashboardView('table');
+                  }}
                   className="bg-white rounded-xl p-6 text-left transition-all cursor-pointer"
                   style={{
                     border: isActive ? '2px solid #2D60FF' : '1px solid #E5E7EB',
@@ -489,7 +659,15 @@ export function MainDashboard({
             })}
           </div>
 
-          {/* The Data Table */}
+          {dashboardView === 'board' ? (
+          <KanbanBoard
+            items={groupShoots(shoots)}
+            moves={boardMoves}
+            getActionType={getBoardActionType}
+            onCardAction={handleBoardCardAction}
+          />
+          ) : (
+          /* The Data Table */
           <div 
             className="bg-white rounded-xl border border-gray-200"
             style={{ boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}
@@ -518,8 +696,10 @@ export function MainDashboard({
                 <tbody className="divide-y divide-gray-200">
                   {tableData.map((shoot) => {
                     const badge = getStatusBadge(shoot.status);
-                    const shootCount = (shoot as any).shootCount || 1;
+                    const shootCount = shoot.shootCount || 1;
                     const isGrouped = shootCount > 1;
+                    const groupStatuses = Object.entries(shoot.groupStatusCounts || {}) as [ShootStatus, number][];
+                    const isMixedGroup = groupStatuses.length > 1;
                     
                     return (
                       <tr key={shoot.id} className="hover:bg-gray-50 transition-colors">
@@ -535,12 +715,12 @@ export function MainDashboard({
                           <div className="text-sm text-gray-500">{shoot.location}</div>
                         </td>
                         {selectedFilter === 'approvals_pending' && (
-                          <td className="px-6 py-4 text-gray-600">Gopala Media</td>
+                          <td className="px-6 py-4 text-gray-600">{getVendorName(shoot)}</td>
                         )}
                         <td className="px-6 py-4 text-gray-600">{shoot.date}</td>
                         {selectedFilter === 'approvals_pending' && (
                           <td className="px-6 py-4 text-gray-900">
-                            ₹{shoot.vendorQuote?.amount.toLocaleString()}
+                            ₹{(shoot.groupedShoots || [shoot]).reduce((sum, s) => sum + (s.vendorQuote?.amount || 0), 0).toLocaleString()}
                           </td>
                         )}
                         <td className="px-6 py-4">
@@ -550,6 +730,14 @@ export function MainDashboard({
                           >
                             {badge.label}
                           </span>
+                          {isMixedGroup && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              {groupStatuses
+                                .sort(([a], [b]) => statusRank(a) - statusRank(b))
+                                .map(([status, count]) => `${count} ${getStatusBadge(status).label}`)
+                                .join(' • ')}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <div className="flex items-center">
@@ -569,6 +757,7 @@ export function MainDashboard({
               )}
             </div>
           </div>
+          )}
         </div>
       </div>
 
@@ -615,12 +804,13 @@ export function MainDashboard({
                   <div className="flex-1 flex items-center gap-2 overflow-hidden">
                     <Link className="w-4 h-4 text-gray-400 flex-shrink-0" />
                     <span className="text-sm text-gray-600 truncate">
-                      {window.location.origin}?vendor={selectedShootForVendor.id}
+                      {vendorLinkUrl || 'Generating link...'}
                     </span>
                   </div>
                   <button
                     onClick={handleCopyLink}
-                    className="px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 flex-shrink-0"
+                    disabled={!vendorLinkUrl}
+                    className="px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 flex-shrink-0 disabled:opacity-50"
                     style={{ 
                       backgroundColor: linkCopied ? '#E8F5E9' : '#EFF6FF',
                       color: linkCopied ? '#27AE60' : '#2D60FF'
@@ -647,7 +837,7 @@ export function MainDashboard({
               {/* Info Note */}
               <div className="p-4 rounded-xl" style={{ backgroundColor: '#EFF6FF' }}>
                 <p className="text-sm" style={{ color: '#2D60FF' }}>
-                  <strong>How it works:</strong> Share the vendor link with Gopala Media. They will fill out the quote form with pricing. Once submitted, you'll see it in the "Approvals Pending" section.
+                  <strong>How it works:</strong> Share the vendor link with {getVendorName(selectedShootForVendor)}. They will fill out the quote form with pricing. Once submitted, you'll see it in the "Approvals Pending" section.
                 </p>
               </div>
             </div>
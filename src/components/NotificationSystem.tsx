@@ -31,6 +31,7 @@ export interface Activity {
   timestamp: Date;
   user?: string;
   emailTriggered?: boolean;
+  reminderKey?: string; // Set on reminders the server's scheduler sent, so each goes out once
 }
 
 interface NotificationSystemProps {
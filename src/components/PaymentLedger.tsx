@@ -0,0 +1,92 @@
+import type { Shoot } from '../App';
+import { getAmountDue, getAmountPaid, PAYMENT_KIND_LABELS, PAYMENT_METHOD_LABELS } from '../lib/payments';
+import type { TaxSettings } from '../lib/tax';
+
+interface PaymentLedgerProps {
+  shoot: Shoot;
+  taxSettings: TaxSettings;
+}
+
+const KIND_COLORS = {
+  advance: '#9B51E0',
+  part: '#2D60FF',
+  final: '#27AE60',
+};
+
+// Payments made to the vendor so far against what they are owed
+export function PaymentLedger({ shoot, taxSettings }: PaymentLedgerProps) {
+  const due = getAmountDue(shoot, taxSettings);
+  const paid = getAmountPaid(shoot);
+  const balance = Math.round((due - paid) * 100) / 100;
+  const payments = shoot.payments || [];
+  const isEstimate = shoot.invoiceData?.status !== 'reviewed';
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        <div className="p-3 rounded-lg bg-gray-50">
+          <div className="text-xs text-gray-500">Payable{isEstimate ? ' (est.)' : ''}</div>
+          <div className="font-semibold text-gray-900">₹{due.toLocaleString()}</div>
+        </div>
+        <div className="p-3 rounded-lg" style={{ backgroundColor: '#F0FDF4' }}>
+          <div className="text-xs" style={{ color: '#27AE60' }}>Paid</div>
+          <div className="font-semibold" style={{ color: '#27AE60' }}>₹{paid.toLocaleString()}</div>
+        </div>
+        <div className="p-3 rounded-lg" style={{ backgroundColor: balance > 0 ? '#FEF3C7' : '#F0FDF4' }}>
+          <div className="text-xs" style={{ color: balance > 0 ? '#F2994A' : '#27AE60' }}>Balance</div>
+          <div className="font-semibold" style={{ color: balance > 0 ? '#F2994A' : '#27AE60' }}>
+            ₹{Math.max(balance, 0).toLocaleString()}
+          </div>
+        </div>
+      </div>
+      {isEstimate && (
+        <p className="text-xs text-gray-500 mb-3">Estimated from the approved amount plus GST less TDS until the invoice is reviewed.</p>
+      )}
+      {balance < 0 && (
+        <p className="text-xs mb-3" style={{ color: '#E74C3C' }}>
+          Paid ₹{Math.abs(balance).toLocaleString()} more than the invoice - recover it from the vendor.
+        </p>
+      )}
+
+      {payments.length === 0 ? (
+        <div className="p-4 rounded-lg border border-dashed border-gray-300 text-center text-sm text-gray-500">
+          No payments recorded yet
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Date</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Method / Reference</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {payments.map(payment => (
+                <tr key={payment.id}>
+                  <td className="px-3 py-2 align-top">
+                    <div className="text-gray-900">{payment.date || '—'}</div>
+                    <span
+                      className="inline-block mt-1 px-2 py-0.5 rounded-full"
+                      style={{ backgroundColor: `${KIND_COLORS[payment.kind]}20`, color: KIND_COLORS[payment.kind] }}
+                    >
+                      {PAYMENT_KIND_LABELS[payment.kind]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    <div className="text-gray-900">{payment.method ? PAYMENT_METHOD_LABELS[payment.method] : 'Not recorded'}</div>
+                    {payment.reference && <div className="text-gray-500 font-mono">{payment.reference}</div>}
+                    {payment.notes && <div className="text-gray-400 italic">{payment.notes}</div>}
+                    <div className="text-gray-400">by {payment.recordedBy}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right align-top font-medium text-gray-900">₹{payment.amount.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useState } from 'react';
+import { Edit2, Plus, Trash2, TrendingDown } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import type { Shoot } from '../App';
+import type { Project } from '../services/projectService';
+import { getShootTaxSummary, type TaxSettings } from '../lib/tax';
+import { getBurnDown, getPeriodKey, getProjectBudgetStatus, getShootBudgetDate, isCommitted, periodLabel, type BudgetStatus } from '../lib/budgets';
+import { ProjectEditor } from './ProjectEditor';
+
+interface ProjectBudgetsProps {
+  shoots: Shoot[];
+  projects: Project[];
+  taxSettings: TaxSettings;
+  // Omitted for roles that can't manage projects
+  onSaveProject?: (project: Project) => Promise<void>;
+  onDeactivateProject?: (projectId: string) => Promise<void>;
+}
+
+const formatAmount = (amount: number | null) => (amount === null ? '—' : `₹${Math.round(amount).toLocaleString()}`);
+
+const toMonthInput = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Colour for how much of the budget approved shoots have taken
+const usageColor = (status: BudgetStatus) => {
+  if (status.budget === null) return '#9CA3AF';
+  if (status.committed > status.budget) return '#E74C3C';
+  if (status.committed + status.pipeline > status.budget) return '#F2994A';
+  return '#27AE60';
+};
+
+// Committed (approved) vs actual (invoiced or paid) vs remaining budget per project
+export function ProjectBudgets({ shoots, projects, taxSettings, onSaveProject, onDeactivateProject }: ProjectBudgetsProps) {
+  const [month, setMonth] = useState(() => toMonthInput(new Date()));
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+
+  // Quarterly projects report on the quarter the chosen month falls in
+  const asOf = useMemo(() => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return year && monthNumber ? new Date(year, monthNumber - 1, 1) : new Date();
+  }, [month]);
+
+  const statuses = useMemo(
+    () => projects.filter(p => p.isActive).map(project => getProjectBudgetStatus(project, shoots, taxSettings, asOf)),
+    [projects, shoots, taxSettings, asOf]
+  );
+
+  // Approved spend this month that isn't charged to any project
+  const unassigned = useMemo(() => {
+    const key = getPeriodKey(asOf, 'month');
+    return shoots
+      .filter(shoot => !shoot.projectId && isCommitted(shoot))
+      .filter(shoot => {
+        const date = getShootBudgetDate(shoot);
+        return !!date && getPeriodKey(date, 'month') === key;
+      })
+      .reduce((sum, shoot) => sum + getShootTaxSummary(shoot, taxSettings).preTax, 0);
+  }, [shoots, taxSettings, asOf]);
+
+  const budgeted = statuses.filter(status => status.budget !== null);
+  const totals = {
+    budget: budgeted.reduce((sum, status) => sum + (status.budget || 0), 0),
+    committed: statuses.reduce((sum, status) => sum + status.committed, 0),
+    actual: statuses.reduce((sum, status) => sum + status.actual, 0),
+    remaining: budgeted.reduce((sum, status) => sum + (status.remaining || 0), 0),
+  };
+
+  const selected = statuses.find(status => status.project.id === selectedProjectId) || budgeted[0] || null;
+  const burnDown = useMemo(() => (selected ? getBurnDown(selected, taxSettings) : []), [selected, taxSettings]);
+
+  const handleDeactivate = async (project: Project) => {
+    if (!onDeactivateProject) return;
+    if (confirm(`Deactivate ${project.name}? Shoots already charged to it keep the project, but new requests can't use it.`)) {
+      try {
+        await onDeactivateProject(project.id);
+      } catch (error: any) {
+        alert(error.message || 'Failed to deactivate project');
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-xs text-gray-400">Budget</div>
+          <div className="text-xl font-bold text-gray-900">{formatAmount(totals.budget)}</div>
+          <div className="text-xs text-gray-500">{budgeted.length} of {statuses.length} projects budgeted</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-xs" style={{ color: '#2D60FF' }}>Committed</div>
+          <div className="text-xl font-bold text-gray-900">{formatAmount(totals.committed)}</div>
+          <div className="text-xs text-gray-500">approved shoots</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-xs" style={{ color: '#9B51E0' }}>Actual</div>
+          <div className="text-xl font-bold text-gray-900">{formatAmount(totals.actual)}</div>
+          <div className="text-xs text-gray-500">invoiced or paid</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-xs" style={{ color: totals.remaining < 0 ? '#E74C3C' : '#27AE60' }}>Remaining</div>
+          <div className="text-xl font-bold" style={{ color: totals.remaining < 0 ? '#E74C3C' : '#111827' }}>{formatAmount(totals.remaining)}</div>
+          <div className="text-xs text-gray-500">
+            {unassigned > 0 ? `${formatAmount(unassigned)} approved this month has no project` : 'budget less committed'}
+          </div>
+        </div>
+      </div>
+
+      {/* Per-project budgets */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Budgets by Project</h3>
+            <p className="text-sm text-gray-500">Pre-tax amounts. Quarterly budgets show the quarter the month falls in.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {onSaveProject && (
+              <button
+                onClick={() => {
+                  setEditingProject(null);
+                  setShowEditor(true);
+                }}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-white text-sm hover:opacity-90"
+                style={{ backgroundColor: '#2D60FF' }}
+              >
+                <Plus className="w-4 h-4" />
+                Add Project
+              </button>
+            )}
+          </div>
+        </div>
+        {statuses.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-400">
+            No projects yet{onSaveProject ? ' - add one to start tracking budgets' : ''}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-700">Project</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Period</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Budget</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Committed</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Actual</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">In pipeline</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Remaining</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700 w-40">Used</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {statuses.map(status => {
+                const used = status.budget ? Math.min(status.committed / status.budget, 1) : 0;
+                const isSelected = selected?.project.id === status.project.id;
+                return (
+                  <tr
+                    key={status.project.id}
+                    onClick={() => setSelectedProjectId(status.project.id)}
+                    className={`cursor-pointer ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-6 py-3">
+                      <div className="font-medium text-gray-900">{status.project.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {status.project.code ? `${status.project.code} • ` : ''}{status.shoots.length} {status.shoots.length === 1 ? 'shoot' : 'shoots'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{periodLabel(status.periodKey)}</td>
+                    <td className="px-4 py-3 text-right text-gray-900">{formatAmount(status.budget)}</td>
+                    <td className="px-4 py-3 text-right text-gray-900">{formatAmount(status.committed)}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{formatAmount(status.actual)}</td>
+                    <td className="px-4 py-3 text-right text-gray-500">{status.pipeline ? formatAmount(status.pipeline) : '—'}</td>
+                    <td className="px-4 py-3 text-right font-semibold" style={{ color: status.remaining !== null && status.remaining < 0 ? '#E74C3C' : '#111827' }}>
+                      {formatAmount(status.remaining)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {status.budget === null ? (
+                        <span className="text-xs text-gray-400">No budget set</span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+                            <div className="h-full rounded-full" style={{ width: `${used * 100}%`, backgroundColor: usageColor(status) }} />
+                          </div>
+                          <span className="text-xs text-gray-500 w-10 text-right">
+                            {status.budget ? Math.round((status.committed / status.budget) * 100) : 0}%
+                          </span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                      {onSaveProject && (
+                        <div className="flex items-center justify-end gap-1">
+                          <button
+                            onClick={() => {
+                              setEditingProject(status.project);
+                              setShowEditor(true);
+                            }}
+                            className="p-2 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit project and budgets"
+                          >
+                            <Edit2 className="w-4 h-4 text-blue-600" />
+                          </button>
+                          {onDeactivateProject && (
+                            <button
+                              onClick={() => handleDeactivate(status.project)}
+                              className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Deactivate"
+                            >
+                              <Trash2 className="w-4 h-4 text-red-600" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Burn-down */}
+      {selected && (
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="flex items-center gap-2 mb-1">
+            <TrendingDown className="w-5 h-5" style={{ color: '#2D60FF' }} />
+            <h3 className="text-lg font-semibold text-gray-900">
+              {selected.project.name} burn-down • {periodLabel(selected.periodKey)}
+            </h3>
+          </div>
+          {burnDown.length === 0 ? (
+            <p className="text-sm text-gray-400 py-8 text-center">Set a budget for {periodLabel(selected.periodKey)} to see the burn-down</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">Budget left as approved and invoiced shoots land on their dates, against an even burn</p>
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={burnDown}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6B7280' }} interval="preserveStartEnd" minTickGap={24} />
+                  <YAxis tick={{ fontSize: 12, fill: '#6B7280' }} tickFormatter={(value) => `₹${Math.round(value / 1000)}k`} />
+                  <Tooltip formatter={(value: number) => `₹${Math.round(value).toLocaleString()}`} />
+                  <Legend />
+                  <ReferenceLine y={0} stroke="#E74C3C" />
+                  <Line type="linear" dataKey="ideal" name="Even burn" stroke="#9CA3AF" strokeDasharray="5 5" dot={false} />
+                  <Line type="stepAfter" dataKey="committed" name="After committed" stroke="#2D60FF" strokeWidth={2} dot={false} />
+                  <Line type="stepAfter" dataKey="actual" name="After actual" stroke="#9B51E0" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </div>
+      )}
+
+      {showEditor && onSaveProject && (
+        <ProjectEditor
+          project={editingProject}
+          onSave={onSaveProject}
+          onClose={() => setShowEditor(false)}
+        />
+      )}
+    </div>
+  );
+}
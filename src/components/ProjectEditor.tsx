@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { Project } from '../services/projectService';
+import { BUDGET_PERIOD_LABELS, listBudgetPeriods, periodLabel, type BudgetPeriod } from '../lib/budgets';
+
+interface ProjectEditorProps {
+  project: Project | null; // null to add a project
+  onSave: (project: Project) => Promise<void>;
+  onClose: () => void;
+}
+
+const isPeriodKey = (key: string, period: BudgetPeriod) =>
+  period === 'month' ? /^\d{4}-\d{2}$/.test(key) : /^FY\d{4}-\d{2}-Q[1-4]$/.test(key);
+
+export function ProjectEditor({ project, onSave, onClose }: ProjectEditorProps) {
+  const [name, setName] = useState(project?.name || '');
+  const [code, setCode] = useState(project?.code || '');
+  const [budgetPeriod, setBudgetPeriod] = useState<BudgetPeriod>(project?.budgetPeriod || 'month');
+  // Amounts as typed, by period key
+  const [budgets, setBudgets] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(project?.budgets || {}).map(([key, amount]) => [key, String(amount)]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // This financial year and the next, plus any earlier periods that already have a budget
+  const periodKeys = Array.from(new Set([
+    ...Object.keys(budgets).filter(key => isPeriodKey(key, budgetPeriod)),
+    ...listBudgetPeriods(budgetPeriod),
+  ])).sort();
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({
+        id: project?.id || Date.now().toString(),
+        name: name.trim(),
+        code: code.trim() || undefined,
+        budgetPeriod,
+        // Budgets set for the other period type are dropped when the period changes
+        budgets: Object.fromEntries(
+          Object.entries(budgets)
+            .filter(([key, amount]) => isPeriodKey(key, budgetPeriod) && amount.trim() !== '')
+            .map(([key, amount]) => [key, parseFloat(amount) || 0])
+        ),
+        isActive: project ? project.isActive : true,
+      });
+      onClose();
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save project');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] flex flex-col" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.2)' }}>
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{project ? 'Edit Project' : 'Add Project'}</h3>
+            <p className="text-xs text-gray-500">Pre-tax budget shoots charged to this project are measured against</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <label className="col-span-2 text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Varsity"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Code
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="Optional"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm text-gray-700">
+            Budget period
+            <select
+              value={budgetPeriod}
+              onChange={(e) => setBudgetPeriod(e.target.value as BudgetPeriod)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map(period => (
+                <option key={period} value={period}>{BUDGET_PERIOD_LABELS[period]}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">Quarters follow the April–March financial year</span>
+          </label>
+
+          <div>
+            <div className="text-sm text-gray-700 mb-2">Budgets (₹, pre-tax)</div>
+            <div className="grid grid-cols-2 gap-2">
+              {periodKeys.map(key => (
+                <label key={key} className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="w-36 flex-shrink-0">{periodLabel(key)}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={budgets[key] ?? ''}
+                    onChange={(e) => setBudgets(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="—"
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-5 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || isSaving}
+            className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+            style={{ backgroundColor: '#2D60FF' }}
+          >
+            {isSaving ? 'Saving...' : project ? 'Save Changes' : 'Add Project'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import type { QuoteRevision } from '../App';
+
+interface QuoteHistoryProps {
+  revisions: QuoteRevision[];
+}
+
+const STATUS_BADGES: Record<QuoteRevision['status'], { label: string; color: string }> = {
+  pending: { label: 'Pending', color: '#F2994A' },
+  superseded: { label: 'Superseded', color: '#9CA3AF' },
+  rejected: { label: 'Rejected', color: '#DC2626' },
+  approved: { label: 'Approved', color: '#27AE60' },
+  not_selected: { label: 'Not Selected', color: '#9CA3AF' },
+};
+
+const formatRevision = (r: QuoteRevision) => `Round ${r.round} • ${r.vendorName} • ₹${r.amount.toLocaleString()}`;
+
+export function QuoteHistory({ revisions }: QuoteHistoryProps) {
+  // Superseded quotes were replaced by the same vendor within the round
+  const history = revisions.filter(r => r.status !== 'superseded');
+  const rounds = Array.from(new Set(history.map(r => r.round))).sort((a, b) => a - b);
+
+  // Default to the latest quote against the latest one from an earlier round
+  const latest = history[history.length - 1];
+  const previous = latest
+    ? [...history].reverse().find(r => r.round < latest.round && r.vendorId === latest.vendorId)
+      || [...history].reverse().find(r => r.round < latest.round)
+    : undefined;
+  const [fromId, setFromId] = useState(previous?.id || '');
+  const [toId, setToId] = useState(latest?.id || '');
+
+  if (rounds.length < 2) return null;
+
+  const from = history.find(r => r.id === fromId);
+  const to = history.find(r => r.id === toId);
+
+  // Union of both quotes' lines, in the order they were quoted
+  const lineIds = Array.from(new Set([
+    ...(from?.itemizedPrices || []).map(p => p.id),
+    ...(to?.itemizedPrices || []).map(p => p.id),
+  ]));
+  const lines = lineIds.map(id => {
+    const before = from?.itemizedPrices.find(p => p.id === id);
+    const after = to?.itemizedPrices.find(p => p.id === id);
+    return { id, name: (after || before)?.name || 'Item', quantity: (after || before)?.quantity || 1, before, after };
+  });
+
+  return (
+    <div className="mb-3">
+      <div className="text-xs font-medium text-gray-700 mb-1.5 flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Quote History • {rounds.length} rounds
+      </div>
+
+      {/* Rounds */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-2">
+        {rounds.map(round => {
+          const roundRevisions = history.filter(r => r.round === round);
+          const rejected = roundRevisions.find(r => r.status === 'rejected');
+          return (
+            <div key={round} className="py-2 px-3">
+              <div className="text-xs font-medium text-gray-900 mb-1">Round {round}</div>
+              {roundRevisions.map(r => {
+                const badge = STATUS_BADGES[r.status];
+                return (
+                  <div key={r.id} className="flex items-center justify-between text-xs py-0.5">
+                    <span className="text-gray-600">
+                      {r.vendorName} • {new Date(r.submittedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">₹{r.amount.toLocaleString()}</span>
+                      <span
+                        className="px-2 py-0.5 rounded-full"
+                        style={{ backgroundColor: `${badge.color}20`, color: badge.color }}
+                      >
+                        {badge.label}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+              {rejected && (
+                <div className="mt-1 p-2 bg-red-50 rounded-lg text-red-700 text-xs">
+                  {rejected.rejectionReason || 'No reason given'}
+                  {rejected.decidedBy && <span className="text-red-400"> — {rejected.decidedBy}</span>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Diff between two quotes */}
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <select
+          value={fromId}
+          onChange={(e) => setFromId(e.target.value)}
+          className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {history.map(r => <option key={r.id} value={r.id}>{formatRevision(r)}</option>)}
+        </select>
+        <select
+          value={toId}
+          onChange={(e) => setToId(e.target.value)}
+          className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {history.map(r => <option key={r.id} value={r.id}>{formatRevision(r)}</option>)}
+        </select>
+      </div>
+      {from && to && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Item</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Round {from.round}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Round {to.round}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-700">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map(line => {
+                const change = (line.after?.vendorRate || 0) - (line.before?.vendorRate || 0);
+                return (
+                  <tr key={line.id} className={change === 0 ? 'text-gray-400' : 'text-gray-900'}>
+                    <td className="px-3 py-2">
+                      {line.name}
+                      {line.quantity > 1 && <span className="ml-1">(x{line.quantity})</span>}
+                      {!line.before && <span className="ml-1" style={{ color: '#2D60FF' }}>added</span>}
+                      {!line.after && <span className="ml-1" style={{ color: '#DC2626' }}>removed</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right">{line.before ? `₹${line.before.vendorRate.toLocaleString()}` : '—'}</td>
+                    <td className="px-3 py-2 text-right">{line.after ? `₹${line.after.vendorRate.toLocaleString()}` : '—'}</td>
+                    <td className="px-3 py-2 text-right" style={{ color: change > 0 ? '#E74C3C' : change < 0 ? '#27AE60' : undefined }}>
+                      {change === 0 ? '—' : `${change > 0 ? '↑' : '↓'} ₹${Math.abs(change).toLocaleString()}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot className="bg-gray-50 border-t border-gray-200">
+              <tr className="font-semibold text-gray-900">
+                <td className="px-3 py-2">Total</td>
+                <td className="px-3 py-2 text-right">₹{from.amount.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">₹{to.amount.toLocaleString()}</td>
+                <td
+                  className="px-3 py-2 text-right"
+                  style={{ color: to.amount > from.amount ? '#E74C3C' : to.amount < from.amount ? '#27AE60' : undefined }}
+                >
+                  {to.amount === from.amount ? '—' : `${to.amount > from.amount ? '↑' : '↓'} ₹${Math.abs(to.amount - from.amount).toLocaleString()}`}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,690 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  LayoutDashboard,
+  CheckCircle,
+  DollarSign,
+  Package,
+  Archive,
+  Building2,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Link2,
+  MapPin,
+  X,
+} from 'lucide-react';
+import type { Shoot } from '../App';
+import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, ROLE_INITIALS } from '../lib/permissions';
+import { getShootDays } from '../lib/availability';
+import { getShootDateRange } from '../lib/shootDates';
+import { STATUS_COLORS, STATUS_LABELS } from '../lib/workflow';
+import type { Vendor } from '../services/vendorService';
+import {
+  buildCalendarFeedUrl,
+  buildWebcalUrl,
+  createCalendarFeed,
+  fetchCalendarFeed,
+  stopCalendarFeed,
+  type CalendarFeed,
+} from '../services/calendarService';
+
+interface ShootCalendarProps {
+  shoots: Shoot[];
+  vendors?: Vendor[];
+  onBack: () => void;
+  onOpenApprovals?: () => void;
+  onOpenFinance?: () => void;
+  onOpenCatalog?: () => void;
+  onOpenVendors?: () => void;
+  onOpenArchive?: () => void;
+  onOpenVendorLink?: (shootId: string) => void;
+  onOpenInvoice?: (shootId: string) => void;
+  onEditShoot?: (shootId: string) => void;
+  approvalsPending?: number;
+}
+
+type CalendarLayout = 'month' | 'week';
+
+const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
+                    'July', 'August', 'September', 'October', 'November', 'December'];
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Shoots shown in a month cell before the rest fold into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+// The prebuilt stylesheet has no text-overflow utilities
+const ellipsis = { overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' } as const;
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function ShootCalendar({
+  shoots,
+  vendors = [],
+  onBack,
+  onOpenApprovals,
+  onOpenFinance,
+  onOpenCatalog,
+  onOpenVendors,
+  onOpenArchive,
+  onOpenVendorLink,
+  onOpenInvoice,
+  onEditShoot,
+  approvalsPending = 0,
+}: ShootCalendarProps) {
+  const { user, isAdmin } = useAuth();
+  const roleLabel = user ? ROLE_LABELS[user.role] : 'Pre-production Team';
+  const roleInitials = user ? ROLE_INITIALS[user.role] : 'PT';
+  const [layout, setLayout] = useState<CalendarLayout>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selectedShoot, setSelectedShoot] = useState<Shoot | null>(null);
+  const [showSubscribe, setShowSubscribe] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [feedBusy, setFeedBusy] = useState(false);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const activeShoots = useMemo(() => shoots.filter(s => s.status !== 'cancelled'), [shoots]);
+
+  // Day (YYYY-MM-DD) -> shoots running that day
+  const shootsByDay = useMemo(() => {
+    const byDay: Record<string, Shoot[]> = {};
+    activeShoots.forEach(shoot => {
+      getShootDays(shoot).forEach(day => {
+        (byDay[day] = byDay[day] || []).push(shoot);
+      });
+    });
+    return byDay;
+  }, [activeShoots]);
+
+  const undatedCount = activeShoots.filter(shoot => !getShootDateRange(shoot)).length;
+
+  // Days on screen - whole weeks around the month, or the one week
+  const visibleDays = useMemo(() => {
+    if (layout === 'week') {
+      const first = startOfWeek(cursor);
+      return Array.from({ length: 7 }, (_, index) => addDays(first, index));
+    }
+    const first = startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1));
+    const last = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0);
+    const days: Date[] = [];
+    for (let day = first; day <= last || day.getDay() !== 0; day = addDays(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }, [layout, cursor]);
+
+  const shootsInView = new Set(visibleDays.flatMap(day => shootsByDay[dayKey(day)] || []).map(s => s.id)).size;
+  const todayKey = dayKey(new Date());
+
+  const title = layout === 'month'
+    ? `${monthNames[cursor.getMonth()]} ${cursor.getFullYear()}`
+    : `${visibleDays[0].toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })} - ${formatDay(visibleDays[6])}`;
+
+  const step = (direction: 1 | -1) => {
+    setCursor(prev => layout === 'month'
+      ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+      : addDays(prev, 7 * direction));
+  };
+
+  const openWeek = (day: Date) => {
+    setCursor(day);
+    setLayout('week');
+  };
+
+  useEffect(() => {
+    if (!showSubscribe || feed) return;
+    fetchCalendarFeed()
+      .then(setFeed)
+      .catch(error => setFeedError(error.message || 'Could not load your calendar feed'));
+  }, [showSubscribe, feed]);
+
+  const runFeedAction = async (action: () => Promise<CalendarFeed>) => {
+    setFeedBusy(true);
+    setFeedError(null);
+    setCopied(false);
+    try {
+      setFeed(await action());
+    } catch (error: any) {
+      setFeedError(error.message || 'Could not update your calendar feed');
+    } finally {
+      setFeedBusy(false);
+    }
+  };
+
+  const copyFeedUrl = (token: string) => {
+    navigator.clipboard.writeText(buildCalendarFeedUrl(token));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const getVendorName = (shoot: Shoot) => vendors.find(v => v.id === shoot.vendorId)?.name;
+
+  const describeRange = (shoot: Shoot) => {
+    const range = getShootDateRange(shoot);
+    if (!range) return shoot.date;
+    return range.start.getTime() === range.end.getTime()
+      ? formatDay(range.start)
+      : `${formatDay(range.start)} - ${formatDay(range.end)}`;
+  };
+
+  // The screen that moves the selected shoot on, when the user's role can use it
+  const getNextStep = (shoot: Shoot): { label: string; run: () => void } | null => {
+    if ((shoot.status === 'new_request' || shoot.status === 'with_vendor') && onOpenVendorLink) {
+      return { label: 'Open Quote Form', run: () => onOpenVendorLink(shoot.id) };
+    }
+    if ((shoot.status === 'with_swati' || shoot.status === 'with_senior_approver') && onOpenApprovals) {
+      return { label: 'Review Quote', run: onOpenApprovals };
+    }
+    if ((shoot.status === 'ready_for_shoot' || shoot.status === 'pending_invoice') && onOpenInvoice) {
+      return { label: 'Upload Invoice', run: () => onOpenInvoice(shoot.id) };
+    }
+    return null;
+  };
+
+  const renderChip = (shoot: Shoot, day: Date) => {
+    const range = getShootDateRange(shoot);
+    // Multi-day shoots show their name on the first day and each new week
+    const showName = !range || dayKey(range.start) === dayKey(day) || day.getDay() === 0;
+    return (
+      <button
+        key={shoot.id}
+        onClick={(e) => {
+          e.stopPropagation();
+          setSelectedShoot(shoot);
+        }}
+        className="w-full text-left px-2 py-0.5 rounded text-xs text-white hover:opacity-90"
+        style={{ ...ellipsis, backgroundColor: STATUS_COLORS[shoot.status] }}
+        title={`${shoot.name} • ${STATUS_LABELS[shoot.status]}`}
+      >
+        {showName ? shoot.name : '\u00A0'}
+      </button>
+    );
+  };
+
+  const nextStep = selectedShoot ? getNextStep(selectedShoot) : null;
+
+  return (
+    <div className="flex h-screen" style={{ backgroundColor: '#F5F7FA' }}>
+      {/* Left Sidebar */}
+      <div
+        className="w-64 flex flex-col"
+        style={{ backgroundColor: '#1F2937' }}
+      >
+        {/* Logo/Brand */}
+        <div className="px-6 py-6 border-b" style={{ borderColor: '#374151' }}>
+          <h2 className="text-white text-xl">ShootFlow</h2>
+        </div>
+
+        {/* Navigation Menu */}
+        <nav className="flex-1 px-4 py-6 space-y-2">
+          <button
+            onClick={onBack}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <LayoutDashboard className="w-5 h-5" />
+            <span>Active Shoots</span>
+          </button>
+
+          <button
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors"
+            style={{ backgroundColor: '#2D60FF', color: 'white' }}
+          >
+            <CalendarDays className="w-5 h-5" />
+            <span>Calendar</span>
+          </button>
+
+          {onOpenApprovals && (
+          <button
+            onClick={onOpenApprovals}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors relative hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <CheckCircle className="w-5 h-5" />
+            <span>Approvals</span>
+            {approvalsPending > 0 && (
+              <span
+                className="absolute right-3 top-1/2 -translate-y-1/2 w-6 h-6 rounded-full flex items-center justify-center text-xs"
+                style={{ backgroundColor: '#F2994A', color: 'white' }}
+              >
+                {approvalsPending}
+              </span>
+            )}
+          </button>
+          )}
+
+          {onOpenFinance && (
+          <button
+            onClick={onOpenFinance}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <DollarSign className="w-5 h-5" />
+            <span>Finance & Invoices</span>
+          </button>
+          )}
+
+          {onOpenCatalog && (
+          <button
+            onClick={onOpenCatalog}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Package className="w-5 h-5" />
+            <span>Catalog</span>
+          </button>
+          )}
+
+          {onOpenVendors && (
+          <button
+            onClick={onOpenVendors}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+          )}
+
+          {onOpenArchive && (
+          <button
+            onClick={onOpenArchive}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Archive className="w-5 h-5" />
+            <span>Archive</span>
+          </button>
+          )}
+        </nav>
+
+        {/* User Profile */}
+        <div className="px-4 py-6 border-t" style={{ borderColor: '#374151' }}>
+          <div className="flex items-center gap-3 px-4">
+            <div
+              className="w-10 h-10 rounded-full flex items-center justify-center text-white"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {roleInitials}
+            </div>
+            <div>
+              <div className="text-white text-sm">{roleLabel}</div>
+              <div className="text-gray-400 text-xs">{isAdmin ? 'Administrator' : 'Team Member'}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content Area */}
+      <div className="flex-1 overflow-auto">
+        {/* Top Header */}
+        <div className="bg-white border-b border-gray-200 px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-gray-900 text-2xl font-semibold">Calendar</h1>
+              <p className="text-gray-500 text-sm">
+                {shootsInView} {shootsInView === 1 ? 'shoot' : 'shoots'} this {layout}
+                {undatedCount > 0 && ` • ${undatedCount} without dates`}
+              </p>
+            </div>
+            <button
+              onClick={() => setShowSubscribe(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border-2 text-sm font-medium transition-colors hover:bg-blue-50"
+              style={{ borderColor: '#2D60FF', color: '#2D60FF' }}
+            >
+              <Link2 className="w-4 h-4" />
+              Subscribe
+            </button>
+          </div>
+        </div>
+
+        {/* Filter Bar */}
+        <div className="bg-white border-b border-gray-200 px-8 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setCursor(new Date())}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Today
+            </button>
+            <div className="flex items-center gap-1">
+              <button onClick={() => step(-1)} className="p-2 rounded-lg hover:bg-gray-100 transition-colors">
+                <ChevronLeft className="w-5 h-5 text-gray-600" />
+              </button>
+              <button onClick={() => step(1)} className="p-2 rounded-lg hover:bg-gray-100 transition-colors">
+                <ChevronRight className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+            <h3 className="text-gray-900 font-semibold">{title}</h3>
+            <div className="ml-auto flex items-center gap-2">
+              {(['month', 'week'] as CalendarLayout[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setLayout(option)}
+                  className="px-4 py-2 rounded-lg text-sm transition-colors"
+                  style={{
+                    backgroundColor: layout === option ? '#F3F4F6' : 'transparent',
+                    color: layout === option ? '#1F2937' : '#6B7280'
+                  }}
+                >
+                  {option === 'month' ? 'Month' : 'Week'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-8 py-8">
+          {/* Status legend - cancelled shoots are left off the calendar */}
+          <div className="flex items-center gap-4 mb-4" style={{ flexWrap: 'wrap' }}>
+            {(Object.keys(STATUS_LABELS) as Shoot['status'][])
+              .filter(status => status !== 'cancelled')
+              .map(status => (
+                <div key={status} className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="rounded-full" style={{ width: '8px', height: '8px', backgroundColor: STATUS_COLORS[status] }} />
+                  {STATUS_LABELS[status]}
+                </div>
+              ))}
+          </div>
+
+          <div
+            className="bg-white rounded-xl border border-gray-200 overflow-hidden"
+            style={{ boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}
+          >
+            <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+              {dayNames.map(day => (
+                <div key={day} className="px-3 py-2 text-sm font-medium text-gray-700">{day}</div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-7">
+              {visibleDays.map(day => {
+                const key = dayKey(day);
+                const dayShoots = shootsByDay[key] || [];
+                const inMonth = layout === 'week' || day.getMonth() === cursor.getMonth();
+                const shown = layout === 'month' ? dayShoots.slice(0, MONTH_CELL_LIMIT) : dayShoots;
+
+                return (
+                  <div
+                    key={key}
+                    onClick={layout === 'month' ? () => openWeek(day) : undefined}
+                    className={`border-b border-r border-gray-100 p-2 flex flex-col gap-1 min-w-0 ${layout === 'month' ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    style={{
+                      minHeight: layout === 'month' ? '112px' : '420px',
+                      backgroundColor: inMonth ? undefined : '#FAFBFC',
+                    }}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span
+                        className="text-sm rounded-full flex items-center justify-center"
+                        style={{
+                          width: '26px',
+                          height: '26px',
+                          backgroundColor: key === todayKey ? '#2D60FF' : 'transparent',
+                          color: key === todayKey ? 'white' : inMonth ? '#1F2937' : '#9CA3AF',
+                        }}
+                      >
+                        {day.getDate()}
+                      </span>
+                      {layout === 'week' && (
+                        <span className="text-xs text-gray-400">{monthNames[day.getMonth()].slice(0, 3)}</span>
+                      )}
+                    </div>
+
+                    {layout === 'month'
+                      ? shown.map(shoot => renderChip(shoot, day))
+                      : shown.map(shoot => (
+                        <button
+                          key={shoot.id}
+                          onClick={() => setSelectedShoot(shoot)}
+                          className="w-full text-left p-2 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors"
+                          style={{ borderLeft: `4px solid ${STATUS_COLORS[shoot.status]}` }}
+                        >
+                          <div className="text-sm font-medium text-gray-900" style={ellipsis}>{shoot.name}</div>
+                          <div className="text-xs text-gray-500" style={ellipsis}>{shoot.location}</div>
+                          <div className="text-xs mt-1" style={{ color: STATUS_COLORS[shoot.status] }}>
+                            {STATUS_LABELS[shoot.status]}
+                          </div>
+                        </button>
+                      ))}
+
+                    {dayShoots.length > shown.length && (
+                      <div className="text-xs text-gray-500 px-1">+{dayShoots.length - shown.length} more</div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Details Modal */}
+      {selectedShoot && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center p-4 z-50">
+          <div
+            className="bg-white rounded-2xl max-h-[85vh] overflow-hidden flex flex-col"
+            style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.15)', width: '520px' }}
+          >
+            {/* Modal Header */}
+            <div className="flex items-center justify-between px-6 py-5 border-b border-gray-100">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{selectedShoot.name}</h2>
+                <p className="text-sm text-gray-500">{describeRange(selectedShoot)}</p>
+              </div>
+              <button
+                onClick={() => setSelectedShoot(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Modal Content */}
+            <div className="flex-1 overflow-auto px-6 py-5">
+              <div className="mb-5 flex items-center gap-3">
+                <span
+                  className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs text-white"
+                  style={{ backgroundColor: STATUS_COLORS[selectedShoot.status] }}
+                >
+                  {STATUS_LABELS[selectedShoot.status]}
+                </span>
+                <span className="flex items-center gap-1 text-sm text-gray-600">
+                  <MapPin className="w-4 h-4" />
+                  {selectedShoot.location}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 mb-5">
+                <div className="p-4 rounded-xl bg-gray-50">
+                  <div className="text-sm text-gray-500 mb-1">Requested by</div>
+                  <div className="font-medium text-gray-900">{selectedShoot.requestor.name}</div>
+                </div>
+                <div className="p-4 rounded-xl bg-gray-50">
+                  <div className="text-sm text-gray-500 mb-1">Vendor</div>
+                  <div className="font-medium text-gray-900">{getVendorName(selectedShoot) || 'Not assigned'}</div>
+                </div>
+                {selectedShoot.vendorQuote && (
+                  <div className="p-4 rounded-xl bg-gray-50">
+                    <div className="text-sm text-gray-500 mb-1">{selectedShoot.approved ? 'Approved Amount' : 'Quote Amount'}</div>
+                    <div className="text-xl font-bold text-gray-900">
+                      ₹{(selectedShoot.approvedAmount ?? selectedShoot.vendorQuote.amount).toLocaleString()}
+                    </div>
+                  </div>
+                )}
+                <div className="p-4 rounded-xl bg-gray-50">
+                  <div className="text-sm text-gray-500 mb-1">Duration</div>
+                  <div className="font-medium text-gray-900">{selectedShoot.duration}</div>
+                </div>
+              </div>
+
+              {/* Equipment List */}
+              <div className="mb-5">
+                <div className="text-sm font-medium text-gray-700 mb-2">Equipment List</div>
+                <div className="space-y-2">
+                  {selectedShoot.equipment.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between py-2.5 px-4 bg-gray-50 rounded-lg">
+                      <span className="text-gray-900">{item.name}</span>
+                      <span className="text-sm text-gray-500">×{item.quantity || 1}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Recent Activity */}
+              {(selectedShoot.activities || []).length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-2">Recent Activity</div>
+                  <div className="space-y-2">
+                    {[...(selectedShoot.activities || [])]
+                      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+                      .slice(0, 3)
+                      .map(activity => (
+                        <div key={activity.id} className="text-sm">
+                          <span className="text-gray-900">{activity.action}</span>
+                          <span className="text-gray-400"> • {new Date(activity.timestamp).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}</span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Modal Footer */}
+            {(nextStep || (onEditShoot && selectedShoot.status !== 'completed')) && (
+              <div className="px-6 py-4 border-t border-gray-100">
+                <div className="flex gap-3">
+                  {onEditShoot && selectedShoot.status !== 'completed' && (
+                    <button
+                      onClick={() => onEditShoot(selectedShoot.id)}
+                      className="flex-1 py-3 rounded-lg border-2 transition-colors font-medium hover:bg-gray-50"
+                      style={{ borderColor: '#6B7280', color: '#6B7280' }}
+                    >
+                      Edit Shoot
+                    </button>
+                  )}
+                  {nextStep && (
+                    <button
+                      onClick={nextStep.run}
+                      className="flex-1 py-3 rounded-lg text-white transition-colors font-medium hover:opacity-90"
+                      style={{ backgroundColor: '#2D60FF' }}
+                    >
+                      {nextStep.label}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Subscribe Modal */}
+      {showSubscribe && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center p-4 z-50">
+          <div
+            className="bg-white rounded-2xl w-full max-w-md"
+            style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.15)' }}
+          >
+            <div className="flex items-center justify-between px-6 py-5 border-b border-gray-100">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Subscribe to Shoots</h2>
+                <p className="text-sm text-gray-500">Approved shoots in Google Calendar, Outlook or Apple Calendar</p>
+              </div>
+              <button
+                onClick={() => {
+                  setShowSubscribe(false);
+                  setCopied(false);
+                }}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="px-6 py-5 space-y-4">
+              {feedError && (
+                <div className="px-4 py-3 rounded-lg text-sm" style={{ backgroundColor: '#FEF2F2', color: '#E74C3C' }}>
+                  {feedError}
+                </div>
+              )}
+
+              {!feed ? (
+                !feedError && <p className="text-sm text-gray-500">Loading your feed...</p>
+              ) : feed.token ? (
+                <>
+                  <p className="text-sm text-gray-600">
+                    Add this URL to your calendar app as a subscription. It is only shown now - keep it private, anyone with it can see your shoots.
+                  </p>
+                  <div className="flex gap-2">
+                    <input
+                      readOnly
+                      value={buildCalendarFeedUrl(feed.token)}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-gray-50"
+                    />
+                    <button
+                      onClick={() => copyFeedUrl(feed.token!)}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-medium hover:opacity-90"
+                      style={{ backgroundColor: copied ? '#27AE60' : '#2D60FF' }}
+                    >
+                      <Copy className="w-4 h-4" />
+                      {copied ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
+                  <a
+                    href={buildWebcalUrl(feed.token)}
+                    className="inline-flex items-center gap-2 text-sm font-medium"
+                    style={{ color: '#2D60FF' }}
+                  >
+                    <CalendarDays className="w-4 h-4" />
+                    Open in my calendar app
+                  </a>
+                </>
+              ) : feed.active ? (
+                <p className="text-sm text-gray-600">
+                  Your feed has been active since {feed.createdAt ? formatDay(new Date(feed.createdAt)) : 'earlier'}.
+                  Its URL is only shown when it is created - create a new one to copy it again. The old URL stops working.
+                </p>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Create a private URL your calendar app checks for approved shoots. Shoots appear once approved and update as they change.
+                </p>
+              )}
+            </div>
+
+            {feed && (
+              <div className="px-6 py-4 border-t border-gray-100 flex gap-3">
+                {feed.active && (
+                  <button
+                    onClick={() => runFeedAction(stopCalendarFeed)}
+                    disabled={feedBusy}
+                    className="flex-1 py-3 rounded-lg border-2 transition-colors font-medium hover:bg-red-50 disabled:opacity-50"
+                    style={{ borderColor: '#E74C3C', color: '#E74C3C' }}
+                  >
+                    Stop Feed
+                  </button>
+                )}
+                <button
+                  onClick={() => runFeedAction(createCalendarFeed)}
+                  disabled={feedBusy}
+                  className="flex-1 py-3 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: '#2D60FF' }}
+                >
+                  {feed.active ? 'Create New URL' : 'Create Feed URL'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
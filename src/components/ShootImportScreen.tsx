@@ -0,0 +1,512 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, ArrowLeft, Check, FileText, FolderOpen, Upload } from 'lucide-react';
+import type { Shoot } from '../App';
+import type { Vendor } from '../services/vendorService';
+import { MAX_UPLOAD_BYTES, formatFileSize, uploadFile } from '../services/fileService';
+import { importShoots, type ImportResult } from '../services/importService';
+import { SHOOT_STATUS_LABELS } from '../lib/shootExport';
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  guessMapping,
+  matchInvoiceFiles,
+  parseCsv,
+  type ColumnMapping,
+  type DateOrder,
+  type ImportField,
+  type ImportRow,
+} from '../lib/shootImport';
+
+interface ShootImportScreenProps {
+  shoots: Shoot[];
+  vendors: Vendor[];
+  onBack: () => void;
+  onImported: (result: ImportResult) => void;
+}
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: 'upload', label: 'Upload CSV' },
+  { key: 'map', label: 'Map columns' },
+  { key: 'review', label: 'Review & invoices' },
+  { key: 'done', label: 'Done' },
+];
+
+// Lets folder pickers through - React's input typings don't know the attribute
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+// Admin screen for bringing in shoots from a spreadsheet, with their invoice PDFs
+export function ShootImportScreen({ shoots, vendors, onBack, onImported }: ShootImportScreenProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [batchId, setBatchId] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [headerRow, setHeaderRow] = useState(1);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [allowDuplicates, setAllowDuplicates] = useState<Set<string>>(new Set());
+  const [pdfFiles, setPdfFiles] = useState<File[]>([]);
+  const [invoiceOverrides, setInvoiceOverrides] = useState<Record<string, string>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const headers = csvRows[headerRow - 1] || [];
+  const sampleRow = csvRows[headerRow] || [];
+
+  const importRows = useMemo(
+    () => step === 'review'
+      ? buildImportRows(csvRows, mapping, { batchId, headerRow, dateOrder, vendors, existingShoots: shoots })
+      : [],
+    [step, batchId, csvRows, mapping, headerRow, dateOrder, vendors, shoots]
+  );
+
+  const rowId = (row: ImportRow) => row.input.id;
+  const isIncluded = (row: ImportRow) =>
+    row.errors.length === 0 && !excluded.has(rowId(row)) && (!row.duplicateOf || allowDuplicates.has(rowId(row)));
+  const includedRows = importRows.filter(isIncluded);
+
+  // PDFs can go on shoots being imported or existing shoots that have no invoice yet
+  const invoiceCandidates = [
+    ...includedRows.map(row => ({ shootId: rowId(row), name: row.input.name, invoiceFileName: row.invoiceFileName, label: `${row.input.name} (new, ${row.input.shootDate})` })),
+    ...shoots
+      .filter(s => !s.invoiceFile && s.status !== 'cancelled')
+      .map(s => ({ shootId: s.id, name: s.name, invoiceFileName: null, label: `${s.name} (existing, ${s.date})` })),
+  ];
+  const autoMatches = matchInvoiceFiles(pdfFiles.map(f => f.name), invoiceCandidates);
+  const assignedShootId = (file: File) =>
+    invoiceOverrides[file.name] !== undefined ? invoiceOverrides[file.name] : autoMatches[file.name]?.shootId || '';
+  const assignedInvoices = pdfFiles.filter(file => assignedShootId(file) && file.size <= MAX_UPLOAD_BYTES);
+
+  const toggleSet = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setError('The file has no rows to import');
+      return;
+    }
+    setFileName(file.name);
+    setBatchId(Date.now().toString(36));
+    setCsvRows(rows);
+    setHeaderRow(1);
+    setMapping(guessMapping(rows[0]));
+    setStep('map');
+  };
+
+  const handleHeaderRowChange = (value: number) => {
+    const row = Math.min(Math.max(value || 1, 1), Math.max(csvRows.length - 1, 1));
+    setHeaderRow(row);
+    setMapping(guessMapping(csvRows[row - 1] || []));
+  };
+
+  const handlePdfFiles = (files: FileList | null) => {
+    const pdfs = Array.from(files || []).filter(f => f.name.toLowerCase().endsWith('.pdf'));
+    setPdfFiles(current => [...current.filter(f => !pdfs.some(p => p.name === f.name)), ...pdfs]);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const invoices: { shootId: string; fileId: string }[] = [];
+      for (let i = 0; i < assignedInvoices.length; i++) {
+        const file = assignedInvoices[i];
+        setProgress(`Uploading invoice ${i + 1} of ${assignedInvoices.length}...`);
+        const stored = await uploadFile(file);
+        invoices.push({ shootId: assignedShootId(file), fileId: stored.id });
+      }
+      setProgress(`Importing ${includedRows.length} shoots...`);
+      const response = await importShoots({
+        source: fileName,
+        shoots: includedRows.map(row => ({ ...row.input, allowDuplicate: allowDuplicates.has(rowId(row)) || undefined })),
+        invoices,
+      });
+      setResult(response);
+      onImported(response);
+      setStep('done');
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+      setProgress('');
+    }
+  };
+
+  const resetImport = () => {
+    setStep('upload');
+    setFileName('');
+    setCsvRows([]);
+    setMapping({});
+    setExcluded(new Set());
+    setAllowDuplicates(new Set());
+    setPdfFiles([]);
+    setInvoiceOverrides({});
+    setResult(null);
+    setError(null);
+  };
+
+  const requiredMapped = IMPORT_FIELDS.filter(f => f.required).every(f => mapping[f.key] !== undefined);
+  const stepIndex = STEPS.findIndex(s => s.key === step);
+  const errorCount = importRows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = importRows.filter(r => r.errors.length === 0 && r.duplicateOf).length;
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: '#F5F7FA' }}>
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4 sticky top-0 z-10">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+              <ArrowLeft className="w-5 h-5 text-gray-600" />
+            </button>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">Import Shoots</h1>
+              <p className="text-sm text-gray-500">{fileName || 'Bring in shoots from a spreadsheet, with their invoice PDFs'}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {STEPS.map((s, index) => (
+              <div key={s.key} className="flex items-center gap-2">
+                <span
+                  className="w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium"
+                  style={{
+                    backgroundColor: index < stepIndex ? '#27AE60' : index === stepIndex ? '#2D60FF' : '#E5E7EB',
+                    color: index <= stepIndex ? 'white' : '#6B7280',
+                  }}
+                >
+                  {index < stepIndex ? <Check className="w-3.5 h-3.5" /> : index + 1}
+                </span>
+                <span className={`text-sm ${index === stepIndex ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>{s.label}</span>
+                {index < STEPS.length - 1 && <span className="w-6 h-px bg-gray-300" />}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-6">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Step 1 - the CSV */}
+        {step === 'upload' && (
+          <label className="block bg-white rounded-xl border-2 border-dashed border-gray-300 p-12 text-center cursor-pointer hover:border-blue-400 transition-colors">
+            <Upload className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            <div className="text-gray-900 font-medium">Choose a CSV file</div>
+            <p className="text-sm text-gray-500 mt-1">
+              One row per shoot, or a shoot row followed by one row per equipment item. Export from Google Sheets or Excel as CSV.
+            </p>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => handleCsvFile(e.target.files?.[0])} />
+          </label>
+        )}
+
+        {/* Step 2 - map columns to shoot fields */}
+        {step === 'map' && (
+          <div className="bg-white rounded-xl border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-6">
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Header row
+                <input
+                  type="number"
+                  min={1}
+                  value={headerRow}
+                  onChange={(e) => handleHeaderRowChange(parseInt(e.target.value, 10))}
+                  className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Dates are written
+                <select
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="dmy">Day first (21-05-2025)</option>
+                  <option value="mdy">Month first (05-21-2025)</option>
+                </select>
+              </label>
+              <span className="ml-auto text-sm text-gray-500">{csvRows.length - headerRow} data rows</span>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-700 w-1/3">Shoot field</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">CSV column</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">First row</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {IMPORT_FIELDS.map(field => (
+                  <tr key={field.key}>
+                    <td className="px-6 py-3">
+                      <div className="text-gray-900">
+                        {field.label}
+                        {field.required && <span style={{ color: '#E74C3C' }}> *</span>}
+                      </div>
+                      {field.hint && <div className="text-xs text-gray-500">{field.hint}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => setMapping(current => {
+                          const next = { ...current };
+                          if (e.target.value === '') delete next[field.key as ImportField];
+                          else next[field.key as ImportField] = Number(e.target.value);
+                          return next;
+                        })}
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">— Not in file —</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 truncate max-w-xs">
+                      {mapping[field.key] !== undefined ? sampleRow[mapping[field.key]!] || '—' : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-between">
+              <button onClick={resetImport} className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50">
+                Choose another file
+              </button>
+              <button
+                onClick={() => setStep('review')}
+                disabled={!requiredMapped}
+                className="px-4 py-2 rounded-lg text-sm text-white disabled:opacity-50"
+                style={{ backgroundColor: '#2D60FF' }}
+              >
+                Preview shoots
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3 - preview, duplicates and invoice PDFs */}
+        {step === 'review' && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <div className="text-xs text-gray-400">Shoots found</div>
+                <div className="text-xl font-bold text-gray-900">{importRows.length}</div>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <div className="text-xs" style={{ color: '#27AE60' }}>To import</div>
+                <div className="text-xl font-bold text-gray-900">{includedRows.length}</div>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <div className="text-xs" style={{ color: '#F2994A' }}>Already exist</div>
+                <div className="text-xl font-bold text-gray-900">{duplicateCount}</div>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <div className="text-xs" style={{ color: '#E74C3C' }}>With errors</div>
+                <div className="text-xl font-bold text-gray-900">{errorCount}</div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 w-10" />
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Line</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Shoot</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Dates</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-700">Amount</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Issues</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {importRows.map(row => (
+                    <tr key={rowId(row)} className={isIncluded(row) ? '' : 'bg-gray-50'}>
+                      <td className="px-4 py-3 align-top">
+                        <input
+                          type="checkbox"
+                          checked={isIncluded(row)}
+                          disabled={row.errors.length > 0 || !!row.duplicateOf}
+                          onChange={() => setExcluded(current => toggleSet(current, rowId(row)))}
+                        />
+                      </td>
+                      <td className="px-4 py-3 align-top text-gray-500">
+                        {row.lines[0]}{row.lines.length > 1 ? `–${row.lines[row.lines.length - 1]}` : ''}
+                      </td>
+                      <td className="px-4 py-3 align-top">
+                        <div className="text-gray-900">{row.input.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {row.input.equipment.length} items
+                          {row.input.vendorId && ` • ${vendors.find(v => v.id === row.input.vendorId)?.name}`}
+                          {row.input.paid && ' • Paid'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 align-top text-gray-700 whitespace-nowrap">
+                        {row.input.shootDate || '—'}
+                        {row.input.endDate && <div className="text-xs text-gray-500">to {row.input.endDate}</div>}
+                      </td>
+                      <td className="px-4 py-3 align-top text-gray-700">{SHOOT_STATUS_LABELS[row.input.status]}</td>
+                      <td className="px-4 py-3 align-top text-right text-gray-900">₹{row.input.amount.toLocaleString()}</td>
+                      <td className="px-4 py-3 align-top text-xs space-y-1">
+                        {row.errors.map(message => <div key={message} style={{ color: '#E74C3C' }}>{message}</div>)}
+                        {row.warnings.map(message => <div key={message} style={{ color: '#F2994A' }}>{message}</div>)}
+                        {row.duplicateOf && row.errors.length === 0 && (
+                          <label className="flex items-center gap-1" style={{ color: '#F2994A' }}>
+                            <input
+                              type="checkbox"
+                              checked={allowDuplicates.has(rowId(row))}
+                              onChange={() => setAllowDuplicates(current => toggleSet(current, rowId(row)))}
+                            />
+                            Matches "{row.duplicateOf.name}" ({row.duplicateOf.date}) - import anyway
+                          </label>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Invoice PDFs */}
+            <div className="bg-white rounded-xl border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Invoice PDFs</h3>
+                  <p className="text-sm text-gray-500">Optional. Each PDF is matched to a shoot by the invoice column or by name - check the matches before importing.</p>
+                </div>
+                <div className="flex gap-2">
+                  <label className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+                    <FolderOpen className="w-4 h-4" />
+                    Add folder
+                    <input type="file" className="hidden" {...FOLDER_INPUT_PROPS} onChange={(e) => handlePdfFiles(e.target.files)} />
+                  </label>
+                  <label className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+                    <FileText className="w-4 h-4" />
+                    Add PDFs
+                    <input type="file" accept="application/pdf" multiple className="hidden" onChange={(e) => handlePdfFiles(e.target.files)} />
+                  </label>
+                </div>
+              </div>
+              {pdfFiles.length > 0 && (
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {pdfFiles.map(file => {
+                      const auto = autoMatches[file.name];
+                      const isOverridden = invoiceOverrides[file.name] !== undefined;
+                      return (
+                        <tr key={file.name}>
+                          <td className="px-6 py-3">
+                            <div className="text-gray-900">{file.name}</div>
+                            <div className="text-xs text-gray-500">{formatFileSize(file.size)}</div>
+                          </td>
+                          <td className="px-4 py-3 w-1/2">
+                            {file.size > MAX_UPLOAD_BYTES ? (
+                              <span className="text-xs" style={{ color: '#E74C3C' }}>Larger than {formatFileSize(MAX_UPLOAD_BYTES)} - skipped</span>
+                            ) : (
+                              <select
+                                value={assignedShootId(file)}
+                                onChange={(e) => setInvoiceOverrides(current => ({ ...current, [file.name]: e.target.value }))}
+                                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                              >
+                                <option value="">— Don't attach —</option>
+                                {invoiceCandidates.map(c => (
+                                  <option key={c.shootId} value={c.shootId}>{c.label}</option>
+                                ))}
+                              </select>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-xs whitespace-nowrap">
+                            {isOverridden ? (
+                              <span className="text-gray-500">Chosen by you</span>
+                            ) : auto ? (
+                              <span style={{ color: auto.score === 1 ? '#27AE60' : '#2D60FF' }}>
+                                {auto.score === 1 ? 'Exact match' : `${Math.round(auto.score * 100)}% name match`}
+                              </span>
+                            ) : (
+                              <span style={{ color: '#F2994A' }}>No match</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button onClick={() => setStep('map')} disabled={isImporting} className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50">
+                Back to mapping
+              </button>
+              <div className="flex items-center gap-3">
+                {progress && <span className="text-sm text-gray-500">{progress}</span>}
+                <button
+                  onClick={handleImport}
+                  disabled={isImporting || (includedRows.length === 0 && assignedInvoices.length === 0)}
+                  className="px-4 py-2 rounded-lg text-sm text-white disabled:opacity-50"
+                  style={{ backgroundColor: '#2D60FF' }}
+                >
+                  {isImporting ? 'Importing...' : `Import ${includedRows.length} shoots${assignedInvoices.length ? ` and ${assignedInvoices.length} invoices` : ''}`}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Step 4 - what happened */}
+        {step === 'done' && result && (
+          <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="w-10 h-10 rounded-full flex items-center justify-center" style={{ backgroundColor: '#E8F5E9' }}>
+                <Check className="w-5 h-5" style={{ color: '#27AE60' }} />
+              </span>
+              <div>
+                <div className="text-lg font-semibold text-gray-900">Imported {result.imported} shoots</div>
+                <div className="text-sm text-gray-500">{result.invoicesAttached} invoices attached</div>
+              </div>
+            </div>
+            {result.skipped.length > 0 && (
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-1">Skipped</div>
+                {result.skipped.map(item => (
+                  <div key={`${item.id}-${item.reason}`} className="text-sm text-gray-600">{item.name || item.id}: {item.reason}</div>
+                ))}
+              </div>
+            )}
+            {result.errors.length > 0 && (
+              <div>
+                <div className="text-sm font-medium mb-1" style={{ color: '#E74C3C' }}>Not imported</div>
+                {result.errors.map(item => (
+                  <div key={`${item.id}-${item.error}`} className="text-sm text-gray-600">{item.name || item.id}: {item.error}</div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2 pt-2">
+              <button onClick={resetImport} className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50">
+                Import another file
+              </button>
+              <button onClick={onBack} className="px-4 py-2 rounded-lg text-sm text-white" style={{ backgroundColor: '#2D60FF' }}>
+                Back to dashboard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import { Film, CheckCircle2, Wallet, Archive, User, Package } from 'lucide-react';
+import { Film, CheckCircle2, Wallet, Archive, User, Package, Building2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { canAccessView } from '../lib/permissions';
 
 interface SidebarProps {
   activeMenu: string;
@@ -11,13 +13,15 @@ interface SidebarProps {
 }
 
 export function Sidebar({ activeMenu, onMenuChange, notificationCounts = {} }: SidebarProps) {
+  const { user } = useAuth();
   const menuItems = [
-    { id: 'active', label: 'Active Shoots', icon: Film, count: notificationCounts.active },
-    { id: 'approvals', label: 'Approvals', icon: CheckCircle2, count: notificationCounts.approvals },
-    { id: 'finance', label: 'Finance/Invoices', icon: Wallet, count: notificationCounts.finance },
-    { id: 'catalog', label: 'Catalog', icon: Package },
-    { id: 'archive', label: 'Archive', icon: Archive },
-  ];
+    { id: 'active', view: 'dashboard' as const, label: 'Active Shoots', icon: Film, count: notificationCounts.active },
+    { id: 'approvals', view: 'approval' as const, label: 'Approvals', icon: CheckCircle2, count: notificationCounts.approvals },
+    { id: 'finance', view: 'finance' as const, label: 'Finance/Invoices', icon: Wallet, count: notificationCounts.finance },
+    { id: 'catalog', view: 'catalog' as const, label: 'Catalog', icon: Package },
+    { id: 'vendors', view: 'vendors' as const, label: 'Vendors', icon: Building2 },
+    { id: 'archive', view: 'archive' as const, label: 'Archive', icon: Archive },
+  ].filter(item => canAccessView(user?.role, item.view));
 
   return (
     <div className="w-64 h-screen bg-white flex flex-col" style={{ boxShadow: '2px 0 8px rgba(0,0,0,0.05)' }}>
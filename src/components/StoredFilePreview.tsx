@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { fetchFileObjectUrl, type StoredFileRef } from '../services/fileService';
+
+interface StoredFilePreviewProps {
+  file: StoredFileRef;
+  className?: string;
+}
+
+// Streams a stored PDF from the files endpoint into an iframe
+export function StoredFilePreview({ file, className = 'w-full h-full' }: StoredFilePreviewProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.fileId) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setObjectUrl(null);
+    setError(null);
+    fetchFileObjectUrl(file.fileId)
+      .then(result => {
+        url = result;
+        if (cancelled) {
+          URL.revokeObjectURL(result);
+        } else {
+          setObjectUrl(result);
+        }
+      })
+      .catch(err => !cancelled && setError(err.message || 'Could not load the file'));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file.fileId]);
+
+  if (!file.fileId || error) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-gray-50 text-center px-8">
+        <FileText className="w-16 h-16 text-gray-400 mb-4" />
+        <p className="text-gray-600 mb-2">{file.name}</p>
+        <p className="text-xs text-gray-400">
+          {error || 'Only a reference to this file was saved. Upload the PDF again to preview it.'}
+        </p>
+      </div>
+    );
+  }
+
+  if (!objectUrl) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return <iframe src={objectUrl} className={className} title={file.name} />;
+}
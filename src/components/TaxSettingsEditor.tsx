@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { GST_RATES, gstStateCode, type TaxSettings } from '../lib/tax';
+
+interface TaxSettingsEditorProps {
+  settings: TaxSettings;
+  onSave: (settings: TaxSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+export function TaxSettingsEditor({ settings, onSave, onClose }: TaxSettingsEditorProps) {
+  const [draft, setDraft] = useState<TaxSettings>({ ...settings });
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({ ...draft, companyGstin: draft.companyGstin.trim().toUpperCase() });
+      onClose();
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save tax settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const stateCode = gstStateCode(draft.companyGstin.trim());
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-md" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.2)' }}>
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Tax Settings</h3>
+            <p className="text-xs text-gray-500">GST on quotes and TDS withheld from payments</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <label className="block text-sm text-gray-700">
+            Company GSTIN
+            <input
+              type="text"
+              value={draft.companyGstin}
+              onChange={(e) => setDraft(prev => ({ ...prev, companyGstin: e.target.value }))}
+              placeholder="e.g. 27AAACB1234C1Z5"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-xs text-gray-500">
+              {stateCode
+                ? `Vendors in state ${stateCode} charge CGST + SGST, others IGST`
+                : 'Without it, GST is estimated as CGST + SGST'}
+            </span>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Default GST rate
+              <select
+                value={draft.defaultGstRate}
+                onChange={(e) => setDraft(prev => ({ ...prev, defaultGstRate: Number(e.target.value) }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {GST_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              TDS rate (%)
+              <input
+                type="number"
+                min={0}
+                max={30}
+                step={0.5}
+                value={draft.tdsRate}
+                onChange={(e) => setDraft(prev => ({ ...prev, tdsRate: parseFloat(e.target.value) || 0 }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">TDS is withheld from the taxable value, before GST.</p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200">
+          {saveError && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{saveError}</div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-5 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
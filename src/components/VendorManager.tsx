@@ -0,0 +1,526 @@
+import { useState } from 'react';
+import {
+  LayoutDashboard,
+  CheckCircle,
+  DollarSign,
+  Package,
+  Archive,
+  Building2,
+  Search,
+  Plus,
+  Edit2,
+  Trash2,
+  X
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, ROLE_INITIALS } from '../lib/permissions';
+import type { Vendor, VendorContact } from '../services/vendorService';
+
+interface VendorManagerProps {
+  vendors: Vendor[];
+  onSaveVendor: (vendor: Vendor) => Promise<void>;
+  onDeactivateVendor: (vendorId: string) => Promise<void>;
+  onBack: () => void;
+  onOpenApprovals?: () => void;
+  onOpenFinance?: () => void;
+  onOpenCatalog?: () => void;
+  onOpenArchive?: () => void;
+  approvalsPending?: number;
+}
+
+const emptyContact = (): VendorContact => ({ name: '', email: '', phone: '' });
+
+export function VendorManager({
+  vendors,
+  onSaveVendor,
+  onDeactivateVendor,
+  onBack,
+  onOpenApprovals,
+  onOpenFinance,
+  onOpenCatalog,
+  onOpenArchive,
+  approvalsPending = 0
+}: VendorManagerProps) {
+  const { user, isAdmin } = useAuth();
+  const roleLabel = user ? ROLE_LABELS[user.role] : 'Pre-production Team';
+  const roleInitials = user ? ROLE_INITIALS[user.role] : 'PT';
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [showDrawer, setShowDrawer] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Form state for editing/adding
+  const [formName, setFormName] = useState('');
+  const [formContacts, setFormContacts] = useState<VendorContact[]>([emptyContact()]);
+  const [formGst, setFormGst] = useState('');
+  const [formTerms, setFormTerms] = useState('30');
+  const [formNotes, setFormNotes] = useState('');
+
+  const openDrawer = (vendor: Vendor | null) => {
+    setEditingVendor(vendor);
+    setFormName(vendor?.name || '');
+    setFormContacts(vendor && vendor.contacts.length > 0 ? vendor.contacts.map(c => ({ ...c })) : [emptyContact()]);
+    setFormGst(vendor?.gstNumber || '');
+    setFormTerms(String(vendor?.paymentTermsDays ?? 30));
+    setFormNotes(vendor?.notes || '');
+    setSaveError(null);
+    setShowDrawer(true);
+  };
+
+  const updateContact = (index: number, field: keyof VendorContact, value: string) => {
+    setFormContacts(prev => prev.map((c, i) => i === index ? { ...c, [field]: value } : c));
+  };
+
+  const handleSave = async () => {
+    if (!formName.trim()) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSaveVendor({
+        id: editingVendor?.id || Date.now().toString(),
+        name: formName.trim(),
+        contacts: formContacts.filter(c => c.name.trim() || c.email.trim()),
+        gstNumber: formGst.trim() || undefined,
+        paymentTermsDays: parseInt(formTerms) || 0,
+        notes: formNotes.trim() || undefined,
+        isActive: editingVendor ? editingVendor.isActive : true,
+      });
+      setShowDrawer(false);
+      setEditingVendor(null);
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save vendor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (vendor: Vendor) => {
+    if (confirm(`Deactivate ${vendor.name}? Existing shoots keep this vendor, but new requests can't be assigned to it.`)) {
+      try {
+        await onDeactivateVendor(vendor.id);
+      } catch (error: any) {
+        alert(error.message || 'Failed to deactivate vendor');
+      }
+    }
+  };
+
+  const handleReactivate = async (vendor: Vendor) => {
+    try {
+      await onSaveVendor({ ...vendor, isActive: true });
+    } catch (error: any) {
+      alert(error.message || 'Failed to reactivate vendor');
+    }
+  };
+
+  const filteredVendors = vendors.filter(vendor => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = vendor.name.toLowerCase().includes(query) ||
+      vendor.contacts.some(c => c.name.toLowerCase().includes(query) || c.email.toLowerCase().includes(query)) ||
+      (vendor.gstNumber || '').toLowerCase().includes(query);
+    return matchesSearch && (showInactive || vendor.isActive);
+  });
+
+  const activeCount = vendors.filter(v => v.isActive).length;
+
+  return (
+    <div className="flex h-screen" style={{ backgroundColor: '#F5F7FA' }}>
+      {/* Left Sidebar */}
+      <div
+        className="w-64 flex flex-col"
+        style={{ backgroundColor: '#1F2937' }}
+      >
+        {/* Logo/Brand */}
+        <div className="px-6 py-6 border-b" style={{ borderColor: '#374151' }}>
+          <h2 className="text-white text-xl">ShootFlow</h2>
+        </div>
+
+        {/* Navigation Menu */}
+        <nav className="flex-1 px-4 py-6 space-y-2">
+          <button
+            onClick={onBack}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <LayoutDashboard className="w-5 h-5" />
+            <span>Active Shoots</span>
+          </button>
+
+          {onOpenApprovals && (
+          <button
+            onClick={onOpenApprovals}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors relative hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <CheckCircle className="w-5 h-5" />
+            <span>Approvals</span>
+            {approvalsPending > 0 && (
+              <span
+                className="absolute right-3 top-1/2 -translate-y-1/2 w-6 h-6 rounded-full flex items-center justify-center text-xs"
+                style={{ backgroundColor: '#F2994A', color: 'white' }}
+              >
+                {approvalsPending}
+              </span>
+            )}
+          </button>
+          )}
+
+          {onOpenFinance && (
+          <button
+            onClick={onOpenFinance}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <DollarSign className="w-5 h-5" />
+            <span>Finance & Invoices</span>
+          </button>
+          )}
+
+          {onOpenCatalog && (
+          <button
+            onClick={onOpenCatalog}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Package className="w-5 h-5" />
+            <span>Catalog</span>
+          </button>
+          )}
+
+          <button
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors"
+            style={{ backgroundColor: '#2D60FF', color: 'white' }}
+          >
+            <Building2 className="w-5 h-5" />
+            <span>Vendors</span>
+          </button>
+
+          {onOpenArchive && (
+          <button
+            onClick={onOpenArchive}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors hover:bg-gray-700"
+            style={{ color: '#9CA3AF' }}
+          >
+            <Archive className="w-5 h-5" />
+            <span>Archive</span>
+          </button>
+          )}
+        </nav>
+
+        {/* User Profile */}
+        <div className="px-4 py-6 border-t" style={{ borderColor: '#374151' }}>
+          <div className="flex items-center gap-3 px-4">
+            <div
+              className="w-10 h-10 rounded-full flex items-center justify-center text-white"
+              style={{ backgroundColor: '#2D60FF' }}
+            >
+              {roleInitials}
+            </div>
+            <div>
+              <div className="text-white text-sm">{roleLabel}</div>
+              <div className="text-gray-400 text-xs">{isAdmin ? 'Administrator' : 'Team Member'}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content Area */}
+      <div className="flex-1 overflow-auto">
+        {/* Top Header */}
+        <div className="bg-white border-b border-gray-200 px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-gray-900 text-2xl font-semibold">Vendors</h1>
+              <p className="text-gray-500 text-sm">Rental houses quotes and invoices come from</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="text-right">
+                <div className="text-sm text-gray-500">Active Vendors</div>
+                <div className="text-xl font-semibold" style={{ color: '#2D60FF' }}>{activeCount}</div>
+              </div>
+              <button
+                onClick={() => openDrawer(null)}
+                className="px-5 py-2.5 rounded-lg text-white flex items-center gap-2 transition-colors font-medium hover:opacity-90"
+                style={{ backgroundColor: '#2D60FF' }}
+              >
+                <Plus className="w-5 h-5" />
+                Add Vendor
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Filter Bar */}
+        <div className="bg-white border-b border-gray-200 px-8 py-4">
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Show deactivated vendors
+            </label>
+            <div className="ml-auto relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search vendors..."
+                className="pl-10 pr-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-64"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Vendors Table */}
+        <div className="px-8 py-8">
+          <div
+            className="bg-white rounded-xl border border-gray-200"
+            style={{ boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}
+          >
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Vendor</th>
+                    <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Primary Contact</th>
+                    <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">GST Number</th>
+                    <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Payment Terms</th>
+                    <th className="px-6 py-3 text-left text-sm font-medium text-gray-700">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {filteredVendors.map((vendor) => {
+                    const contact = vendor.contacts[0];
+                    return (
+                      <tr key={vendor.id} className={`hover:bg-gray-50 transition-colors ${vendor.isActive ? '' : 'opacity-60'}`}>
+                        <td className="px-6 py-4">
+                          <div className="text-gray-900">{vendor.name}</div>
+                          {!vendor.isActive && (
+                            <span className="text-xs text-gray-500">Deactivated</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {contact ? (
+                            <>
+                              <div className="text-gray-900">{contact.name || contact.email}</div>
+                              <div className="text-gray-500">{contact.email}{contact.phone ? ` • ${contact.phone}` : ''}</div>
+                            </>
+                          ) : (
+                            <span className="text-orange-600">No contact - emails can't be sent</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-gray-600 text-sm">{vendor.gstNumber || '—'}</td>
+                        <td className="px-6 py-4">
+                          <span
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs"
+                            style={{ backgroundColor: '#EFF6FF', color: '#2D60FF' }}
+                          >
+                            {vendor.paymentTermsDays === 0 ? 'On receipt' : `Net ${vendor.paymentTermsDays}`}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => openDrawer(vendor)}
+                              className="p-2 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Edit"
+                            >
+                              <Edit2 className="w-4 h-4 text-blue-600" />
+                            </button>
+                            {vendor.isActive ? (
+                              <button
+                                onClick={() => handleDeactivate(vendor)}
+                                className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Deactivate"
+                              >
+                                <Trash2 className="w-4 h-4 text-red-600" />
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => handleReactivate(vendor)}
+                                className="px-3 py-1.5 text-xs rounded-lg hover:bg-green-50 transition-colors"
+                                style={{ color: '#27AE60' }}
+                              >
+                                Reactivate
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {filteredVendors.length === 0 && (
+                <div className="text-center py-12 text-gray-500">
+                  <Building2 className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                  <p>No vendors found matching your search.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Side Drawer for Adding/Editing */}
+      {showDrawer && (
+        <>
+          {/* Overlay */}
+          <div
+            className="fixed inset-0 bg-black bg-opacity-30 z-40"
+            onClick={() => setShowDrawer(false)}
+          />
+
+          {/* Drawer */}
+          <div
+            className="fixed top-0 right-0 h-full bg-white w-full max-w-md z-50 shadow-2xl overflow-y-auto flex flex-col"
+            style={{ boxShadow: '-4px 0 24px rgba(0,0,0,0.15)' }}
+          >
+            {/* Drawer Header */}
+            <div className="px-6 py-5 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">{editingVendor ? 'Edit Vendor' : 'Add Vendor'}</h3>
+                <button
+                  onClick={() => setShowDrawer(false)}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-400" />
+                </button>
+              </div>
+            </div>
+
+            {/* Drawer Content */}
+            <div className="flex-1 px-6 py-6 space-y-5">
+              <div>
+                <label className="block mb-2 text-sm font-medium text-gray-700">Vendor Name</label>
+                <input
+                  type="text"
+                  value={formName}
+                  onChange={(e) => setFormName(e.target.value)}
+                  placeholder="e.g., Gopala Media"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-gray-700">Contacts</label>
+                  <button
+                    type="button"
+                    onClick={() => setFormContacts(prev => [...prev, emptyContact()])}
+                    className="text-xs flex items-center gap-1"
+                    style={{ color: '#2D60FF' }}
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add contact
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">Quote requests and payment emails go to the first contact.</p>
+                <div className="space-y-3">
+                  {formContacts.map((contact, index) => (
+                    <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={contact.name}
+                          onChange={(e) => updateContact(index, 'name', e.target.value)}
+                          placeholder="Name"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {formContacts.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setFormContacts(prev => prev.filter((_, i) => i !== index))}
+                            className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Remove contact"
+                          >
+                            <X className="w-4 h-4 text-red-500" />
+                          </button>
+                        )}
+                      </div>
+                      <input
+                        type="email"
+                        value={contact.email}
+                        onChange={(e) => updateContact(index, 'email', e.target.value)}
+                        placeholder="Email"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="tel"
+                        value={contact.phone || ''}
+                        onChange={(e) => updateContact(index, 'phone', e.target.value)}
+                        placeholder="Phone"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block mb-2 text-sm font-medium text-gray-700">GST Number</label>
+                <input
+                  type="text"
+                  value={formGst}
+                  onChange={(e) => setFormGst(e.target.value.toUpperCase())}
+                  placeholder="e.g., 27ABCDE1234F1Z5"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block mb-2 text-sm font-medium text-gray-700">Payment Terms (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formTerms}
+                  onChange={(e) => setFormTerms(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block mb-2 text-sm font-medium text-gray-700">Notes</label>
+                <textarea
+                  value={formNotes}
+                  onChange={(e) => setFormNotes(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+            </div>
+
+            {/* Drawer Footer */}
+            <div className="px-6 py-4 border-t border-gray-200">
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setShowDrawer(false)}
+                  className="flex-1 px-5 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!formName.trim() || isSaving}
+                  className="flex-1 px-5 py-2.5 rounded-lg text-white transition-colors font-medium hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: '#2D60FF' }}
+                >
+                  {isSaving ? 'Saving...' : editingVendor ? 'Save Changes' : 'Add Vendor'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { Download, FileText, X } from 'lucide-react';
+import type { Shoot } from '../App';
+import type { Vendor } from '../services/vendorService';
+import type { TaxSettings } from '../lib/tax';
+import { AGEING_BUCKETS, buildPayablesReport, exportStatementCsv, exportStatementPdf, type AgeingBucket, type VendorStatement } from '../lib/statement';
+
+interface VendorPayablesProps {
+  shoots: Shoot[];
+  vendors: Vendor[];
+  taxSettings: TaxSettings;
+}
+
+const BUCKET_COLORS: Record<AgeingBucket, string> = {
+  '0-30': '#27AE60',
+  '31-60': '#2D60FF',
+  '61-90': '#F2994A',
+  '90+': '#E74C3C',
+};
+
+const formatAmount = (amount: number) => (amount ? `₹${Math.round(amount).toLocaleString()}` : '—');
+
+// What we owe each vendor and how long it has been owed
+export function VendorPayables({ shoots, vendors, taxSettings }: VendorPayablesProps) {
+  const [selectedVendorKey, setSelectedVendorKey] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const report = useMemo(() => buildPayablesReport(vendors, shoots, taxSettings), [vendors, shoots, taxSettings]);
+  const vendorKey = (statement: VendorStatement) => statement.vendorId || 'unassigned';
+  const selected = report.find(statement => vendorKey(statement) === selectedVendorKey) || null;
+
+  const totals = AGEING_BUCKETS.reduce((acc, bucket) => ({
+    ...acc,
+    [bucket.key]: report.reduce((sum, statement) => sum + statement.ageing[bucket.key], 0),
+  }), {} as Record<AgeingBucket, number>);
+  const totalOutstanding = report.reduce((sum, statement) => sum + Math.max(statement.balance, 0), 0);
+
+  const handleExportPdf = async (statement: VendorStatement) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await exportStatementPdf(statement);
+    } catch (error: any) {
+      setExportError(error.message || 'Failed to create the PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Ageing summary */}
+      <div className="grid grid-cols-5 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-xs text-gray-400">Total Payable</div>
+          <div className="text-xl font-bold text-gray-900">₹{Math.round(totalOutstanding).toLocaleString()}</div>
+          <div className="text-xs text-gray-500">{report.filter(s => s.balance > 0).length} vendors</div>
+        </div>
+        {AGEING_BUCKETS.map(bucket => (
+          <div key={bucket.key} className="bg-white rounded-xl border border-gray-200 p-4">
+            <div className="text-xs" style={{ color: BUCKET_COLORS[bucket.key] }}>{bucket.label}</div>
+            <div className="text-xl font-bold text-gray-900">₹{Math.round(totals[bucket.key]).toLocaleString()}</div>
+            <div className="text-xs text-gray-500">since invoice</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Per-vendor ageing */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Payables by Vendor</h3>
+          <p className="text-sm text-gray-500">Unpaid invoices by age. Open a vendor for their statement of account.</p>
+        </div>
+        {report.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-400">No invoices or payments yet</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-700">Vendor</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Balance</th>
+                {AGEING_BUCKETS.map(bucket => (
+                  <th key={bucket.key} className="px-4 py-3 text-right font-medium text-gray-700">{bucket.label}</th>
+                ))}
+                <th className="px-4 py-3 text-right font-medium text-gray-700">Oldest</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.map(statement => (
+                <tr key={vendorKey(statement)} className="hover:bg-gray-50">
+                  <td className="px-6 py-3">
+                    <div className="font-medium text-gray-900">{statement.vendorName}</div>
+                    {statement.unappliedAdvances > 0 && (
+                      <div className="text-xs text-gray-500">₹{statement.unappliedAdvances.toLocaleString()} advanced on uninvoiced shoots</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-semibold" style={{ color: statement.balance > 0 ? '#111827' : '#27AE60' }}>
+                    {statement.balance < 0 ? `−₹${Math.abs(statement.balance).toLocaleString()}` : formatAmount(statement.balance)}
+                  </td>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <td
+                      key={bucket.key}
+                      className="px-4 py-3 text-right"
+                      style={{ color: statement.ageing[bucket.key] ? BUCKET_COLORS[bucket.key] : '#9CA3AF' }}
+                    >
+                      {formatAmount(statement.ageing[bucket.key])}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right text-gray-600">
+                    {statement.oldestDays === null ? '—' : `${statement.oldestDays}d`}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => {
+                        setExportError(null);
+                        setSelectedVendorKey(vendorKey(statement));
+                      }}
+                      className="px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors hover:bg-blue-50"
+                      style={{ borderColor: '#2D60FF', color: '#2D60FF' }}
+                    >
+                      Statement
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Statement of account */}
+      {selected && (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[90vh] flex flex-col" style={{ boxShadow: '0 8px 32px rgba(0,0,0,0.15)' }}>
+            <div className="flex items-center justify-between px-6 py-5 border-b border-gray-100">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Statement of Account</h2>
+                <p className="text-sm text-gray-500">{selected.vendorName}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => exportStatementCsv(selected)}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  CSV
+                </button>
+                <button
+                  onClick={() => handleExportPdf(selected)}
+                  disabled={isExporting}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <FileText className="w-4 h-4" />
+                  {isExporting ? 'Preparing...' : 'PDF'}
+                </button>
+                <button onClick={() => setSelectedVendorKey(null)} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-auto p-6">
+              {exportError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{exportError}</div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="p-4 rounded-xl bg-gray-50">
+                  <div className="text-sm text-gray-500 mb-1">Invoiced</div>
+                  <div className="text-lg font-semibold text-gray-900">₹{selected.totalInvoiced.toLocaleString()}</div>
+                </div>
+                <div className="p-4 rounded-xl" style={{ backgroundColor: '#F0FDF4' }}>
+                  <div className="text-sm mb-1" style={{ color: '#27AE60' }}>Paid</div>
+                  <div className="text-lg font-semibold" style={{ color: '#27AE60' }}>₹{selected.totalPaid.toLocaleString()}</div>
+                </div>
+                <div className="p-4 rounded-xl" style={{ backgroundColor: selected.balance > 0 ? '#FEF3C7' : '#F0FDF4' }}>
+                  <div className="text-sm mb-1" style={{ color: selected.balance > 0 ? '#F2994A' : '#27AE60' }}>Balance</div>
+                  <div className="text-lg font-semibold" style={{ color: selected.balance > 0 ? '#F2994A' : '#27AE60' }}>
+                    ₹{selected.balance.toLocaleString()}
+                  </div>
+                </div>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden mb-6">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Date</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Description</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Reference</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Invoiced</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Paid</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {selected.entries.map((entry, index) => (
+                      <tr key={`${entry.shootId}-${entry.type}-${index}`}>
+                        <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{entry.date || '—'}</td>
+                        <td className="px-4 py-2 text-gray-900">{entry.description}</td>
+                        <td className="px-4 py-2 text-gray-500 font-mono text-xs">{entry.reference || ''}</td>
+                        <td className="px-4 py-2 text-right text-gray-900">{entry.debit ? `₹${entry.debit.toLocaleString()}` : ''}</td>
+                        <td className="px-4 py-2 text-right" style={{ color: '#27AE60' }}>{entry.credit ? `₹${entry.credit.toLocaleString()}` : ''}</td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">₹{entry.balance.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="text-sm font-medium text-gray-700 mb-3">Ageing of unpaid invoices</div>
+              <div className="grid grid-cols-4 gap-3">
+                {AGEING_BUCKETS.map(bucket => (
+                  <div key={bucket.key} className="p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs" style={{ color: BUCKET_COLORS[bucket.key] }}>{bucket.label}</div>
+                    <div className="font-semibold text-gray-900">₹{selected.ageing[bucket.key].toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+              {selected.unappliedAdvances > 0 && (
+                <p className="text-xs text-gray-500 mt-3">
+                  Includes ₹{selected.unappliedAdvances.toLocaleString()} advanced on shoots that have not been invoiced yet.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
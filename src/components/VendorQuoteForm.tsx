@@ -1,22 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Copy, Check } from 'lucide-react';
-import type { Shoot } from '../App';
+import { ArrowLeft, Copy, Check, Link, XCircle } from 'lucide-react';
+import type { Shoot, CounterOffer } from '../App';
+import type { Vendor } from '../services/vendorService';
+import { buildVendorLinkUrl, createVendorLink, isVendorLinkActive, listVendorLinks, revokeVendorLink, type VendorLink } from '../services/vendorLinkService';
+import { DEFAULT_TAX_SETTINGS, GST_RATES } from '../lib/tax';
+import type { CatalogItem } from './EquipmentCatalogManager';
+import { getEquipmentAvailability, getEquipmentBookings, getEquipmentDayCount, getEquipmentDays } from '../lib/availability';
+import { formatShootDateLabel } from '../lib/shootDates';
+import { EquipmentAvailabilityBadge } from './EquipmentAvailability';
 
 interface VendorQuoteFormProps {
   shoot: Shoot;
   relatedShoots?: Shoot[]; // Other shoots in the same request group
-  onSubmit: (shootId: string, amount: number, notes: string, itemizedPrices?: { id: string; vendorRate: number }[]) => Promise<void> | void;
+  onSubmit: (shootId: string, amount: number, notes: string, itemizedPrices?: { id: string; vendorRate: number }[], gstRate?: number) => Promise<void> | void;
   onBack?: () => void;
   isStandalone?: boolean;
+  canShareLink?: boolean; // Staff who can mint/revoke vendor links
+  vendorName?: string;
+  vendors?: Vendor[]; // Vendors staff can invite to quote
+  defaultGstRate?: number;
+  // Staff only - vendors on a link don't see the other shoots their stock is booked on
+  catalogItems?: CatalogItem[];
+  existingShoots?: Shoot[];
 }
 
 interface QuoteItem {
   id: string;
   name: string;
   days: number;
+  scheduledDays?: string[]; // Days needed when the item isn't on every day of the shoot
   quantity: number;
   expectedRate: number;
   vendorRate: number;
+  quotedRate?: number;  // Vendor's previous price when the approver countered
+  struck?: boolean;     // Line removed by the approver's counter-offer
 }
 
 interface ShootQuoteData {
@@ -26,9 +43,10 @@ interface ShootQuoteData {
   location: string;
   items: QuoteItem[];
   notes: string;
+  counterOffer?: CounterOffer; // Open counter-offer the vendor is answering
 }
 
-export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, isStandalone = false }: VendorQuoteFormProps) {
+export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, isStandalone = false, canShareLink = false, vendorName, vendors = [], defaultGstRate = DEFAULT_TAX_SETTINGS.defaultGstRate, catalogItems = [], existingShoots = [] }: VendorQuoteFormProps) {
   // Combine main shoot with related shoots - memoize to prevent unnecessary recalculations
   const allShoots = React.useMemo(() => {
     const combined = [shoot, ...relatedShoots.filter(s => s.id !== shoot.id)];
@@ -37,6 +55,9 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
   }, [shoot, relatedShoots]);
   
   const isMultiShoot = allShoots.length > 1;
+
+  const allShootsHaveBidFrom = (vendorId?: string | null) =>
+    !!vendorId && allShoots.every(s => s.vendorBids?.some(b => b.vendorId === vendorId));
   
   // State for each shoot's quote data
   const [shootQuotes, setShootQuotes] = useState<ShootQuoteData[]>([]);
@@ -44,17 +65,71 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
   const [copied, setCopied] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [globalNotes, setGlobalNotes] = useState('');
+  // Rates are quoted before tax - GST is charged on top at this rate (0 = not GST registered)
+  const [gstRate, setGstRate] = useState(shoot.vendorQuote?.gstRate ?? defaultGstRate);
+  const [acceptedCounter, setAcceptedCounter] = useState(false);
+
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
-  // Generate shareable link - use requestGroupId if available, otherwise shoot id
-  const vendorLink = shoot.requestGroupId 
-    ? `${window.location.origin}?vendor=${shoot.requestGroupId}`
-    : `${window.location.origin}?vendor=${shoot.id}`;
+  // Vendor links are minted per request group if available, otherwise per shoot,
+  // one per invited vendor so several vendors can bid on the same request
+  const linkTargetId = shoot.requestGroupId || shoot.id;
+  const [vendorLinks, setVendorLinks] = useState<VendorLink[]>([]);
+  const [vendorLink, setVendorLink] = useState<{ vendorId: string; url: string } | null>(null);
+  const [inviteVendorId, setInviteVendorId] = useState(shoot.vendorId || vendors[0]?.id || '');
+  const [isLinkBusy, setIsLinkBusy] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  // Latest link per invited vendor (the list comes back newest first) - links
+  // minted before per-vendor invites have no vendor and went to the assigned one
+  const invites = vendorLinks.reduce<VendorLink[]>((acc, link) => {
+    if (!acc.some(l => (l.vendorId || null) === (link.vendorId || null))) acc.push(link);
+    return acc;
+  }, []);
+  const getInviteVendorName = (vendorId?: string | null) =>
+    vendors.find(v => v.id === (vendorId || shoot.vendorId))?.name || 'Vendor';
+  const getInviteStatus = (link: VendorLink) => {
+    if (allShootsHaveBidFrom(link.vendorId || shoot.vendorId) || link.usedAt) return { label: 'Quoted', color: '#27AE60' };
+    if (link.revokedAt) return { label: 'Revoked', color: '#9CA3AF' };
+    if (!isVendorLinkActive(link)) return { label: 'Expired', color: '#9CA3AF' };
+    if (link.openedAt) return { label: 'Opened', color: '#F2994A' };
+    return { label: `Sent • until ${new Date(link.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`, color: '#2D60FF' };
+  };
+
+  const refreshVendorLinks = async () => {
+    try {
+      setVendorLinks(await listVendorLinks(linkTargetId));
+    } catch (error) {
+      console.error('Error loading vendor links:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!isStandalone && canShareLink) {
+      refreshVendorLinks();
+    }
+  }, [linkTargetId, isStandalone, canShareLink]);
 
   // Debug logging
   console.log('VendorQuoteForm render - shoot:', shoot.name, 'groupId:', shoot.requestGroupId);
   console.log('VendorQuoteForm render - relatedShoots count:', relatedShoots.length);
   console.log('VendorQuoteForm render - allShoots count:', allShoots.length, allShoots.map(s => s.name));
 
+  // The vendor's stock of an item on a shoot's dates, against their other shoots
+  const getItemAvailability = (item: QuoteItem, shootId: string) => {
+    const quotedShoot = allShoots.find(s => s.id === shootId);
+    const catalogItem = catalogItems.find(c => c.id === item.id) || catalogItems.find(c => c.name === item.name);
+    const days = quotedShoot ? getEquipmentDays(item, quotedShoot) : [];
+    if (!quotedShoot || !catalogItem || days.length === 0 || existingShoots.length === 0) return null;
+    return getEquipmentAvailability(catalogItem, {
+      days,
+      bookings: getEquipmentBookings(catalogItem, existingShoots),
+      requested: item.quantity,
+      vendorId: quotedShoot.vendorId,
+      excludeShootIds: [quotedShoot.id],
+    });
+  };
+
   // Create a stable key for the shoots that changes when shoot data actually changes
   const shootsKey = allShoots.map(s => `${s.id}:${s.name}:${s.equipment.length}`).join('|');
 
@@ -64,20 +139,29 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
     
     const initialQuotes: ShootQuoteData[] = allShoots.map(s => {
       console.log('  - Initializing shoot:', s.name, 'with', s.equipment.length, 'items');
+      // Vendors answering a counter-offer start from the approver's rates
+      const counterOffer = isStandalone && s.counterOffer?.status === 'open' ? s.counterOffer : undefined;
       return {
         shootId: s.id,
         shootName: s.name || `Shoot`,
         date: s.date || '',
         location: s.location || '',
-        items: s.equipment.map((eq, index) => ({
-          id: eq.id || `item-${index}`,
-          name: eq.name,
-          days: (eq as any).days || 1,
-          quantity: eq.quantity || 1,
-          expectedRate: eq.expectedRate || eq.dailyRate || 0,
-          vendorRate: eq.vendorRate || 0
-        })),
-        notes: ''
+        items: s.equipment.map((eq, index) => {
+          const line = counterOffer?.lines.find(l => l.id === eq.id);
+          return {
+            id: eq.id || `item-${index}`,
+            name: eq.name,
+            days: getEquipmentDayCount(eq),
+            scheduledDays: eq.scheduledDays,
+            quantity: eq.quantity || 1,
+            expectedRate: eq.expectedRate || eq.dailyRate || 0,
+            vendorRate: line ? line.counterRate : eq.vendorRate || 0,
+            quotedRate: line?.vendorRate,
+            struck: line?.struck,
+          };
+        }),
+        notes: '',
+        counterOffer,
       };
     });
     
@@ -111,46 +195,110 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
     );
   };
 
+  const gstOn = (amount: number) => Math.round(amount * gstRate) / 100;
+
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (shootQuotes.length === 0) {
+    setAcceptedCounter(false);
+    await submitQuotes(shootQuotes);
+  };
+
+  // Submitting the counter-offer rates unchanged accepts it
+  const handleAcceptCounterOffer = async () => {
+    const accepted = shootQuotes.map(quote => quote.counterOffer
+      ? {
+          ...quote,
+          items: quote.items.map(item => {
+            const line = quote.counterOffer?.lines.find(l => l.id === item.id);
+            return line ? { ...item, vendorRate: line.counterRate } : item;
+          }),
+        }
+      : quote
+    );
+    setShootQuotes(accepted);
+    setAcceptedCounter(true);
+    await submitQuotes(accepted);
+  };
+
+  const hasOpenCounterOffer = shootQuotes.some(quote => quote.counterOffer);
+
+  const submitQuotes = async (quotes: ShootQuoteData[]) => {
+    if (quotes.length === 0) {
       return;
     }
     
     setIsSubmitting(true);
+    setSubmitError(null);
     
     try {
       // Submit each shoot's quote sequentially
-      for (const quote of shootQuotes) {
+      for (const quote of quotes) {
         const itemizedPrices = quote.items.map(item => ({
           id: item.id,
           vendorRate: item.vendorRate
         }));
         const shootTotal = quote.items.reduce((sum, item) => sum + item.vendorRate, 0);
         
-        await onSubmit(quote.shootId, shootTotal, globalNotes, itemizedPrices);
+        await onSubmit(quote.shootId, shootTotal, globalNotes, itemizedPrices, gstRate);
       }
       
       // Always show success view after submission
       setSubmitted(true);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error submitting quotes:', error);
-      // Still show success view - data is saved to localStorage as backup
-      setSubmitted(true);
+      if (isStandalone) {
+        // The link was rejected (expired, revoked or already used) - nothing was saved
+        setSubmitError('Your quote could not be submitted. The link may have expired or already been used - please contact the production team.');
+      } else {
+        // The server refused the quote (e.g. the shoot moved on meanwhile)
+        setSubmitError(error.message || 'Your quote could not be submitted.');
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
   const handleCopyLink = () => {
-    navigator.clipboard.writeText(vendorLink);
+    if (!vendorLink) return;
+    navigator.clipboard.writeText(vendorLink.url);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Mint a fresh link - the token is only shown once, so staff generate a new one to re-share
+  const handleGenerateLink = async () => {
+    if (!inviteVendorId) return;
+    setIsLinkBusy(true);
+    setLinkError(null);
+    try {
+      const link = await createVendorLink(linkTargetId, inviteVendorId);
+      setVendorLink(link.token ? { vendorId: inviteVendorId, url: buildVendorLinkUrl(link.token) } : null);
+      await refreshVendorLinks();
+    } catch (error: any) {
+      console.error('Error creating vendor link:', error);
+      setLinkError(error.message || 'Could not create link');
+    } finally {
+      setIsLinkBusy(false);
+    }
+  };
+
+  const handleRevokeLink = async (link: VendorLink) => {
+    setIsLinkBusy(true);
+    setLinkError(null);
+    try {
+      await revokeVendorLink(link.id);
+      if (vendorLink?.vendorId === link.vendorId) setVendorLink(null);
+      await refreshVendorLinks();
+    } catch (error: any) {
+      console.error('Error revoking vendor link:', error);
+      setLinkError(error.message || 'Could not revoke link');
+    } finally {
+      setIsLinkBusy(false);
+    }
+  };
+
   // Success screen
   if (submitted && isStandalone) {
     return (
@@ -165,9 +313,9 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
           >
             <Check className="w-8 h-8" style={{ color: '#27AE60' }} />
           </div>
-          <h2 className="text-xl text-gray-900 mb-2">Quote Submitted!</h2>
+          <h2 className="text-xl text-gray-900 mb-2">{acceptedCounter ? 'Counter-Offer Accepted!' : 'Quote Submitted!'}</h2>
           <p className="text-gray-600 mb-4">
-            Your quote of ₹{calculateGrandTotal().toLocaleString()} 
+            Your quote of ₹{calculateGrandTotal().toLocaleString()} + GST 
             {isMultiShoot ? ` for ${allShoots.length} shoots` : ` for "${shoot.name}"`} 
             has been submitted successfully.
           </p>
@@ -209,7 +357,7 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
               <ArrowLeft className="w-6 h-6 text-white" />
             </button>
           )}
-          <h1 className="text-white text-xl mb-1">Quote Request</h1>
+          <h1 className="text-white text-xl mb-1">Quote Request{vendorName ? ` • ${vendorName}` : ''}</h1>
           <p className="text-blue-100 text-sm">
             {isMultiShoot 
               ? `${allShoots.length} shoots • ${shoot.requestor?.name || 'Requestor'}`
@@ -218,28 +366,82 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
           </p>
         </div>
 
-        {/* Share Link Section - Always visible at top when not standalone */}
-        {!isStandalone && (
+        {/* Vendor Invites - Always visible at top when not standalone */}
+        {!isStandalone && canShareLink && (
           <div className="px-6 py-3 border-b border-gray-200 bg-yellow-50 flex-shrink-0">
-            <div className="flex items-center gap-2 mb-2">
-              <span className="text-sm font-medium text-gray-700">Vendor Link:</span>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="text-sm font-medium text-gray-700">Invite Vendors:</span>
+              {invites.length > 0 && (
+                <span className="text-xs text-gray-500">{invites.length} invited</span>
+              )}
             </div>
-            <div className="flex items-center gap-2">
-              <div className="flex-1 p-2 bg-white rounded-lg border border-gray-200 text-xs text-gray-600 truncate">
-                {vendorLink}
+            {invites.length > 0 && (
+              <div className="mb-2 space-y-1">
+                {invites.map(link => {
+                  const status = getInviteStatus(link);
+                  return (
+                    <div key={link.id} className="flex items-center justify-between gap-2 text-xs bg-white rounded-lg border border-gray-200 px-2 py-1.5">
+                      <span className="text-gray-700 truncate">{getInviteVendorName(link.vendorId)}</span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span style={{ color: status.color }}>{status.label}</span>
+                        {isVendorLinkActive(link) && (
+                          <button
+                            type="button"
+                            onClick={() => handleRevokeLink(link)}
+                            disabled={isLinkBusy}
+                            className="text-red-600 hover:underline flex items-center gap-1 disabled:opacity-50"
+                            title="Revoke link"
+                          >
+                            <XCircle className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
+            )}
+            <div className="flex items-center gap-2">
+              <select
+                value={inviteVendorId}
+                onChange={(e) => { setInviteVendorId(e.target.value); setVendorLink(null); }}
+                className="flex-1 min-w-0 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {vendors.length === 0 && <option value="">No vendors</option>}
+                {vendors.map(v => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
               <button
                 type="button"
-                onClick={handleCopyLink}
-                className="px-4 py-2 rounded-lg transition-colors flex items-center gap-2 flex-shrink-0 text-sm font-medium"
-                style={{ 
-                  backgroundColor: copied ? '#E8F5E9' : '#2D60FF',
-                  color: copied ? '#27AE60' : 'white'
-                }}
+                onClick={handleGenerateLink}
+                disabled={isLinkBusy || !inviteVendorId}
+                className="px-4 py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm font-medium text-white disabled:opacity-50 flex-shrink-0"
+                style={{ backgroundColor: '#2D60FF' }}
               >
-                {copied ? <><Check className="w-4 h-4" /> Copied</> : <><Copy className="w-4 h-4" /> Copy Link</>}
+                <Link className="w-4 h-4" />
+                {invites.some(l => l.vendorId === inviteVendorId && isVendorLinkActive(l)) ? 'New Link' : 'Invite'}
               </button>
             </div>
+            {vendorLink && (
+              <div className="flex items-center gap-2 mt-2">
+                <div className="flex-1 p-2 bg-white rounded-lg border border-gray-200 text-xs text-gray-600 truncate">
+                  {vendorLink.url}
+                </div>
+                <button
+                  type="button"
+                  onClick={handleCopyLink}
+                  className="px-4 py-2 rounded-lg transition-colors flex items-center gap-2 flex-shrink-0 text-sm font-medium"
+                  style={{ 
+                    backgroundColor: copied ? '#E8F5E9' : '#2D60FF',
+                    color: copied ? '#27AE60' : 'white'
+                  }}
+                >
+                  {copied ? <><Check className="w-4 h-4" /> Copied</> : <><Copy className="w-4 h-4" /> Copy Link</>}
+                </button>
+              </div>
+            )}
+            {linkError && <p className="mt-2 text-xs text-red-600">{linkError}</p>}
           </div>
         )}
 
@@ -328,6 +530,22 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
               <h3 className="text-gray-900 mb-4">
                 {isMultiShoot ? 'Equipment List' : 'Edit Quote'}
               </h3>
+
+              {/* Counter-offer from the approver */}
+              {activeQuote?.counterOffer && (
+                <div className="mb-4 p-3 rounded-lg border text-sm" style={{ backgroundColor: '#EEF2FF', borderColor: '#C7D2FE' }}>
+                  <div className="font-medium" style={{ color: '#2D60FF' }}>
+                    Counter-offer: ₹{activeQuote.counterOffer.amount.toLocaleString()}
+                    <span className="text-gray-500 font-normal"> (you quoted ₹{activeQuote.counterOffer.quotedAmount.toLocaleString()})</span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1">
+                    Accept it as is, or change the prices below to send your own counter.
+                  </p>
+                  {activeQuote.counterOffer.notes && (
+                    <p className="text-xs text-gray-700 mt-2 italic">"{activeQuote.counterOffer.notes}"</p>
+                  )}
+                </div>
+              )}
               
               <div className="border border-gray-200 rounded-lg overflow-hidden">
                 <table className="w-full">
@@ -342,8 +560,21 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
                     {activeQuote?.items.map((item) => (
                       <tr key={item.id}>
                         <td className="px-3 py-3">
-                          <div className="text-sm text-gray-900">{item.name}</div>
-                          <div className="text-xs text-gray-500">{item.days} day(s)</div>
+                          <div className={`text-sm ${item.struck ? 'line-through text-gray-400' : 'text-gray-900'}`}>{item.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {item.scheduledDays && item.scheduledDays.length > 0
+                              ? `${item.days} day(s): ${item.scheduledDays.map(day => formatShootDateLabel(day)).join(', ')}`
+                              : `${item.days} day(s)`}
+                          </div>
+                          {!item.struck && (() => {
+                            const availability = activeQuote && getItemAvailability(item, activeQuote.shootId);
+                            return availability && <div className="mt-1"><EquipmentAvailabilityBadge availability={availability} /></div>;
+                          })()}
+                          {item.struck ? (
+                            <div className="text-xs text-red-500">Removed by the production team</div>
+                          ) : item.quotedRate !== undefined && item.quotedRate !== item.vendorRate && (
+                            <div className="text-xs text-gray-500">You quoted ₹{item.quotedRate.toLocaleString()}</div>
+                          )}
                         </td>
                         <td className="px-3 py-3 text-center">
                           <span 
@@ -359,8 +590,9 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
                             step="100"
                             min="0"
                             value={item.vendorRate}
+                            disabled={item.struck}
                             onChange={(e) => updateItem(activeShootIndex, item.id, parseInt(e.target.value) || 0)}
-                            className="w-full px-3 py-2 border-2 border-blue-300 rounded text-right text-sm focus:outline-none focus:border-blue-500"
+                            className="w-full px-3 py-2 border-2 border-blue-300 rounded text-right text-sm focus:outline-none focus:border-blue-500 disabled:border-gray-200 disabled:bg-gray-50"
                             placeholder="₹0"
                           />
                         </td>
@@ -380,6 +612,27 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
                     ₹{calculateShootTotal(activeShootIndex).toLocaleString()}
                   </span>
                 </div>
+                <div className="flex items-center justify-between mt-2 text-sm">
+                  <label className="flex items-center gap-2 text-gray-600">
+                    GST
+                    <select
+                      value={gstRate}
+                      onChange={(e) => setGstRate(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {GST_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate === 0 ? 'Not registered' : `${rate}%`}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <span className="text-gray-700">+ ₹{gstOn(calculateShootTotal(activeShootIndex)).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center justify-between mt-1 text-sm">
+                  <span className="text-gray-500">Total incl. GST</span>
+                  <span className="font-medium text-gray-900">
+                    ₹{(calculateShootTotal(activeShootIndex) + gstOn(calculateShootTotal(activeShootIndex))).toLocaleString()}
+                  </span>
+                </div>
               </div>
 
               {/* Grand Total for multi-shoot */}
@@ -402,6 +655,12 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
                       ₹{calculateGrandTotal().toLocaleString()}
                     </span>
                   </div>
+                  <div className="flex justify-between text-sm mt-1">
+                    <span className="text-gray-600">Incl. GST</span>
+                    <span className="font-medium text-gray-900">
+                      ₹{(calculateGrandTotal() + gstOn(calculateGrandTotal())).toLocaleString()}
+                    </span>
+                  </div>
                 </div>
               )}
 
@@ -420,6 +679,20 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
 
             {/* Submit Button */}
             <div className="px-6 py-4 border-t border-gray-200 bg-white sticky bottom-0">
+              {submitError && (
+                <p className="mb-3 text-sm text-red-600">{submitError}</p>
+              )}
+              {hasOpenCounterOffer && (
+                <button
+                  type="button"
+                  onClick={handleAcceptCounterOffer}
+                  disabled={isSubmitting}
+                  className="w-full mb-2 py-2.5 rounded-lg transition-all font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{ backgroundColor: '#E8F5E9', color: '#27AE60' }}
+                >
+                  Accept Counter-Offer
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={isSubmitting}
@@ -433,7 +706,7 @@ export function VendorQuoteForm({ shoot, relatedShoots = [], onSubmit, onBack, i
                   </span>
                 ) : isMultiShoot 
                   ? `Submit Quote for ${allShoots.length} Shoots (₹${calculateGrandTotal().toLocaleString()})`
-                  : 'Submit Final Quote'
+                  : hasOpenCounterOffer ? 'Send My Counter' : 'Submit Final Quote'
                 }
               </button>
             </div>
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { API_URL, authHeaders, getAuthToken, setAuthToken } from '../lib/api';
+import { hasPermission, ROLE_PERMISSIONS, type Permission } from '../lib/permissions';
 
-export type UserRole = 'user' | 'admin';
+export type UserRole = 'requestor' | 'vendor' | 'approver' | 'founder' | 'finance' | 'admin';
 
 interface User {
   email: string;
@@ -10,37 +12,29 @@ interface User {
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => boolean;
+  login: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
+  can: (permission: Permission) => boolean;
   isAdmin: boolean;
   isAuthenticated: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Predefined users
-const USERS: { [email: string]: { password: string; role: UserRole; name: string } } = {
-  'preproduction@learnapp.com': {
-    password: '123456',
-    role: 'user',
-    name: 'ShootFlow Team'
-  },
-  'admin@learnapp.com': {
-    password: '123456',
-    role: 'admin',
-    name: 'Admin'
-  }
-};
-
 const AUTH_STORAGE_KEY = 'preproduction_auth';
 
+// How often the session is re-validated (the server slides the expiry on every check)
+const SESSION_REFRESH_MS = 10 * 60 * 1000;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(() => {
-    // Load user from localStorage on initial load
+    // Load user from localStorage on initial load - only trusted while a token exists
     const stored = localStorage.getItem(AUTH_STORAGE_KEY);
-    if (stored) {
+    if (stored && getAuthToken()) {
       try {
-        return JSON.parse(stored);
+        const parsed = JSON.parse(stored);
+        // Sessions saved before the role model had 'user' roles - sign in again
+        return ROLE_PERMISSIONS[parsed.role as UserRole] ? parsed : null;
       } catch {
         return null;
       }
@@ -57,22 +51,65 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [user]);
 
-  const login = (email: string, password: string): boolean => {
-    const normalizedEmail = email.toLowerCase().trim();
-    const userConfig = USERS[normalizedEmail];
-    
-    if (userConfig && userConfig.password === password) {
-      setUser({
-        email: normalizedEmail,
-        role: userConfig.role,
-        name: userConfig.name
+  // Validate the stored session on load and keep it fresh while signed in
+  const isSignedIn = user !== null;
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const validateSession = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/auth/session`, {
+          headers: authHeaders(),
+          signal: AbortSignal.timeout(8000),
+        });
+        if (response.status === 401) {
+          console.warn('Session expired, signing out');
+          setAuthToken(null);
+          setUser(null);
+          return;
+        }
+        if (response.ok) {
+          const result = await response.json();
+          setUser(result.user);
+        }
+      } catch (error) {
+        // Network errors keep the current session - the server still enforces it
+        console.error('Session validation failed:', error);
+      }
+    };
+
+    validateSession();
+    const interval = setInterval(validateSession, SESSION_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isSignedIn]);
+
+  const login = async (email: string, password: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`${API_URL}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.toLowerCase().trim(), password }),
+        signal: AbortSignal.timeout(8000),
       });
+      if (!response.ok) return false;
+
+      const result = await response.json();
+      setAuthToken(result.token);
+      setUser(result.user);
       return true;
+    } catch (error) {
+      console.error('Login failed:', error);
+      return false;
     }
-    return false;
   };
 
   const logout = () => {
+    // Invalidate the token server-side, but don't block the UI on it
+    if (getAuthToken()) {
+      fetch(`${API_URL}/api/auth/logout`, { method: 'POST', headers: authHeaders() })
+        .catch(error => console.error('Logout request failed:', error));
+    }
+    setAuthToken(null);
     setUser(null);
   };
 
@@ -80,6 +117,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user,
     login,
     logout,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
     isAdmin: user?.role === 'admin',
     isAuthenticated: user !== null
   };
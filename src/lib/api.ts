@@ -0,0 +1,29 @@
+// API URL Configuration
+// In production (Railway), use the production API
+// In development (localhost), use local API
+export const API_URL = import.meta.env.DEV
+  ? 'http://localhost:3001'
+  : 'https://divine-nature-production-c49a.up.railway.app';
+
+const TOKEN_STORAGE_KEY = 'preproduction_auth_token';
+
+// Session token issued by /api/auth/login
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
+// Headers for JSON requests, including the bearer token when signed in
+export const authHeaders = (extra: Record<string, string> = {}): Record<string, string> => {
+  const token = getAuthToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    ...extra,
+  };
+};
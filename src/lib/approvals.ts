@@ -0,0 +1,55 @@
+import type { UserRole } from '../context/AuthContext';
+import type { Shoot, ShootStatus } from '../App';
+
+// A budget band - quotes up to maxAmount are approved by approverRoles, in order
+export interface ApprovalBand {
+  id: string;
+  label: string;
+  maxAmount: number | null; // null = no upper limit (always the last band)
+  approverRoles: UserRole[];
+}
+
+// One approval taken on the quote currently being decided
+export interface ApprovalStep {
+  step: number;
+  role: UserRole;
+  bandId?: string;
+  amount: number;
+  decidedBy: string;
+  decidedByEmail?: string;
+  decidedAt: string;
+}
+
+// Used until an admin saves bands - keep in sync with DEFAULT_APPROVAL_BANDS in server/index.js
+export const DEFAULT_APPROVAL_BANDS: ApprovalBand[] = [
+  { id: 'in_budget', label: 'In Budget', maxAmount: 30000, approverRoles: ['approver'] },
+  { id: 'slightly_over', label: 'Slightly Over Budget', maxAmount: 60000, approverRoles: ['approver'] },
+  { id: 'over_budget', label: 'Over Budget', maxAmount: null, approverRoles: ['approver', 'founder'] },
+];
+
+export const isAwaitingApproval = (status: ShootStatus): boolean =>
+  status === 'with_swati' || status === 'with_senior_approver';
+
+export const getApprovalBand = (bands: ApprovalBand[], amount: number): ApprovalBand =>
+  bands.find(b => b.maxAmount == null || amount <= b.maxAmount) || bands[bands.length - 1];
+
+/**
+ * Where a shoot's quote is in its approval chain. currentRole is the role
+ * that acts next; isFinalStep is true when that approval completes the chain.
+ */
+export function getApprovalChain(bands: ApprovalBand[], shoot: Shoot, amount?: number) {
+  const quoteAmount = amount ?? shoot.vendorQuote?.amount ?? shoot.approvedAmount ?? 0;
+  const band = getApprovalBand(bands, quoteAmount);
+  const steps = shoot.approvalSteps || [];
+  const currentIndex = Math.min(steps.length, band.approverRoles.length - 1);
+  return {
+    band,
+    steps,
+    currentRole: band.approverRoles[currentIndex],
+    isFinalStep: currentIndex === band.approverRoles.length - 1,
+  };
+}
+
+// Admins may act on any step of a chain
+export const canActOnApprovalStep = (role: UserRole | undefined, stepRole: UserRole): boolean =>
+  role === 'admin' || role === stepRole;
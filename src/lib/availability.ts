@@ -0,0 +1,147 @@
+import type { Equipment, Shoot } from '../App';
+import type { CatalogItem } from '../components/EquipmentCatalogManager';
+import { isCommitted } from './budgets';
+import { getShootDateRange } from './shootDates';
+
+// One shoot's hold on a catalog item
+export interface EquipmentBooking {
+  shootId: string;
+  shootName: string;
+  vendorId?: string;
+  days: string[]; // YYYY-MM-DD
+  quantity: number;
+  approved: boolean; // Pending requests may still fall through, approved ones hold the stock
+}
+
+// Stock of an item against its bookings on the busiest day of a date range
+export interface EquipmentAvailability {
+  stock: number | null; // null when no stock is recorded
+  approved: number;
+  pending: number;
+  requested: number;
+  available: number | null; // Stock left after approved and pending bookings
+  overbooked: boolean; // Approved, pending and requested units together exceed stock
+  conflicts: EquipmentBooking[]; // Other shoots holding the item on any day of the range
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const pad = (value: number) => String(value).padStart(2, '0');
+const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Every day from start to end, inclusive
+ */
+export function getDayRange(start: Date, end: Date): string[] {
+  const days: string[] = [];
+  const first = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const count = Math.min(366, Math.round((end.getTime() - first.getTime()) / DAY_MS) + 1);
+  for (let index = 0; index < count; index++) {
+    days.push(dayKey(new Date(first.getFullYear(), first.getMonth(), first.getDate() + index)));
+  }
+  return days;
+}
+
+/**
+ * The days a shoot runs. Empty when its date can't be read.
+ */
+export function getShootDays(shoot: Shoot): string[] {
+  const range = getShootDateRange(shoot);
+  return range ? getDayRange(range.start, range.end) : [];
+}
+
+/**
+ * The days an equipment line is needed - its own schedule within the shoot's
+ * days, otherwise every day of the shoot
+ */
+export function getEquipmentDays(item: Pick<Equipment, 'scheduledDays'>, shoot: Shoot): string[] {
+  const shootDays = getShootDays(shoot);
+  const scheduled = (item.scheduledDays || []).filter(day => shootDays.includes(day));
+  return scheduled.length > 0 ? scheduled : shootDays;
+}
+
+/**
+ * Days an equipment line is charged for
+ */
+export const getEquipmentDayCount = (item: Pick<Equipment, 'days' | 'scheduledDays'>) =>
+  item.scheduledDays?.length || item.days || 1;
+
+// Equipment on older shoots may carry its own id - fall back to the catalog name
+const isCatalogItem = (equipment: { id: string; name: string }, item: CatalogItem) =>
+  equipment.id === item.id || equipment.name.trim().toLowerCase() === item.name.trim().toLowerCase();
+
+/**
+ * Every shoot's hold on a catalog item - cancelled shoots and shoots without dates hold nothing
+ */
+export function getEquipmentBookings(item: CatalogItem, shoots: Shoot[]): EquipmentBooking[] {
+  const bookings: EquipmentBooking[] = [];
+  for (const shoot of shoots) {
+    if (shoot.status === 'cancelled') continue;
+    // Lines of the same item can run on different days - one booking per schedule
+    const bySchedule = new Map<string, { days: string[]; quantity: number }>();
+    for (const equipment of shoot.equipment || []) {
+      if (!isCatalogItem(equipment, item)) continue;
+      const days = getEquipmentDays(equipment, shoot);
+      if (days.length === 0) continue;
+      const key = days.join(',');
+      const booking = bySchedule.get(key) || { days, quantity: 0 };
+      booking.quantity += equipment.quantity || 1;
+      bySchedule.set(key, booking);
+    }
+    for (const { days, quantity } of bySchedule.values()) {
+      bookings.push({ shootId: shoot.id, shootName: shoot.name, vendorId: shoot.vendorId, days, quantity, approved: isCommitted(shoot) });
+    }
+  }
+  return bookings;
+}
+
+/**
+ * Units of an item a vendor holds - across all vendors when none is chosen
+ */
+export function getItemStock(item: CatalogItem, vendorId?: string): number | null {
+  const stock = item.stock || {};
+  if (vendorId) return stock[vendorId] ?? null;
+  const counts = Object.values(stock);
+  return counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) : null;
+}
+
+/**
+ * Availability of an item over a date range. Only bookings with the same
+ * vendor count when one is chosen; excludeShootIds leaves out the shoots
+ * being edited, whose units are passed as requested instead.
+ */
+export function getEquipmentAvailability(
+  item: CatalogItem,
+  options: { days: string[]; bookings: EquipmentBooking[]; requested: number; vendorId?: string; excludeShootIds?: string[] }
+): EquipmentAvailability {
+  const { days, bookings, requested, vendorId, excludeShootIds = [] } = options;
+  const range = new Set(days);
+  const conflicts = bookings.filter(booking =>
+    !excludeShootIds.includes(booking.shootId) &&
+    (!vendorId || booking.vendorId === vendorId) &&
+    booking.days.some(day => range.has(day))
+  );
+
+  // Bookings can overlap the range on different days - the busiest day decides
+  let approved = 0;
+  let pending = 0;
+  for (const day of days) {
+    const onDay = conflicts.filter(booking => booking.days.includes(day));
+    const dayApproved = onDay.filter(booking => booking.approved).reduce((sum, booking) => sum + booking.quantity, 0);
+    const dayPending = onDay.filter(booking => !booking.approved).reduce((sum, booking) => sum + booking.quantity, 0);
+    if (dayApproved + dayPending > approved + pending) {
+      approved = dayApproved;
+      pending = dayPending;
+    }
+  }
+
+  const stock = getItemStock(item, vendorId);
+  return {
+    stock,
+    approved,
+    pending,
+    requested,
+    available: stock === null ? null : stock - approved - pending,
+    overbooked: stock !== null && approved + pending + requested > stock,
+    conflicts,
+  };
+}
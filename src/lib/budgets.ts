@@ -0,0 +1,211 @@
+import type { Shoot } from '../App';
+import type { Project } from '../services/projectService';
+import { getShootDateRange } from './shootDates';
+import { getShootTaxSummary, type TaxSettings } from './tax';
+
+// Budgets are set per calendar month or per financial-year quarter (April-March)
+export type BudgetPeriod = 'month' | 'quarter';
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+};
+
+// How much of a project's budget one period has used. Amounts are pre-tax -
+// GST is claimed back, so budgets are set on the taxable value.
+export interface BudgetStatus {
+  project: Project;
+  periodKey: string;
+  budget: number | null; // null when no budget is set for the period
+  committed: number; // Approved shoots - the reviewed invoice once there is one
+  actual: number; // Invoiced or paid shoots
+  pipeline: number; // Requests still being quoted or approved, at their estimate
+  remaining: number | null; // Budget less committed
+  shoots: Shoot[];
+}
+
+export interface BurnDownPoint {
+  date: string; // YYYY-MM-DD
+  label: string;
+  ideal: number; // Budget spread evenly over the period
+  committed: number; // Remaining after approved shoots dated up to this day
+  actual: number; // Remaining after invoiced shoots dated up to this day
+}
+
+const shortMonthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const APPROVED_STATUSES: Shoot['status'][] = ['ready_for_shoot', 'pending_invoice', 'completed'];
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+const pad = (value: number) => String(value).padStart(2, '0');
+const isoDay = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Financial year a month falls in - April 2025 to March 2026 is FY2025-26
+const financialYearStart = (year: number, month: number) => (month >= 3 ? year : year - 1);
+
+/**
+ * Key of the budget period a date falls in - 2025-04 for months, FY2025-26-Q1 for quarters.
+ * Keep the formats in sync with BUDGET_KEY_PATTERNS in server/index.js
+ */
+export function getPeriodKey(date: Date, period: BudgetPeriod): string {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  if (period === 'month') return `${year}-${pad(month + 1)}`;
+  const fyStart = financialYearStart(year, month);
+  const quarter = Math.floor(((month + 9) % 12) / 3) + 1;
+  return `FY${fyStart}-${pad((fyStart + 1) % 100)}-Q${quarter}`;
+}
+
+/**
+ * First and last day of a budget period
+ */
+export function getPeriodRange(periodKey: string): { start: Date; end: Date } | null {
+  const month = periodKey.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    const year = Number(month[1]);
+    const index = Number(month[2]) - 1;
+    return { start: new Date(year, index, 1), end: new Date(year, index + 1, 0) };
+  }
+  const quarter = periodKey.match(/^FY(\d{4})-\d{2}-Q([1-4])$/);
+  if (quarter) {
+    const firstMonth = 3 + (Number(quarter[2]) - 1) * 3; // Q1 starts in April
+    const year = Number(quarter[1]);
+    return { start: new Date(year, firstMonth, 1), end: new Date(year, firstMonth + 3, 0) };
+  }
+  return null;
+}
+
+/**
+ * "Apr 2025" or "Q1 FY2025-26 (Apr–Jun)"
+ */
+export function periodLabel(periodKey: string): string {
+  const range = getPeriodRange(periodKey);
+  if (!range) return periodKey;
+  if (/^\d{4}-\d{2}$/.test(periodKey)) {
+    return `${shortMonthNames[range.start.getMonth()]} ${range.start.getFullYear()}`;
+  }
+  const [fy, quarter] = periodKey.split(/-(?=Q)/);
+  return `${quarter} ${fy} (${shortMonthNames[range.start.getMonth()]}–${shortMonthNames[range.end.getMonth()]})`;
+}
+
+/**
+ * Periods around a date for the budget editor - the current financial year and the next
+ */
+export function listBudgetPeriods(period: BudgetPeriod, asOf: Date = new Date()): string[] {
+  const fyStart = financialYearStart(asOf.getFullYear(), asOf.getMonth());
+  const keys: string[] = [];
+  for (let offset = 0; offset < 24; offset += period === 'month' ? 1 : 3) {
+    keys.push(getPeriodKey(new Date(fyStart, 3 + offset, 1), period));
+  }
+  return keys;
+}
+
+/**
+ * The day a shoot is charged to - its first day, or when it was requested
+ * for shoots without dates
+ */
+export function getShootBudgetDate(shoot: Shoot): Date | null {
+  const range = getShootDateRange(shoot);
+  if (range) return range.start;
+  if (shoot.createdAt) {
+    const date = new Date(shoot.createdAt);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return null;
+}
+
+export const isCommitted = (shoot: Shoot) =>
+  shoot.status !== 'cancelled' && (APPROVED_STATUSES.includes(shoot.status) || !!shoot.approved);
+
+export const isInvoicedOrPaid = (shoot: Shoot) => isCommitted(shoot) && (!!shoot.invoiceFile || !!shoot.paid);
+
+/**
+ * Pre-tax estimate of a request that hasn't been approved - the vendor's quote,
+ * otherwise the catalog rates of its equipment
+ */
+export function estimateShootCost(shoot: Shoot): number {
+  if (shoot.vendorQuote?.amount) return Number(shoot.vendorQuote.amount) || 0;
+  const days = parseInt(shoot.duration) || 1;
+  // Items scheduled on only some days of the shoot are charged for those days
+  return roundAmount((shoot.equipment || []).reduce(
+    (sum, item) => sum + (item.expectedRate ?? item.dailyRate ?? 0) * (item.quantity || 1) * (item.scheduledDays?.length || item.days || days),
+    0
+  ));
+}
+
+/**
+ * Budget use of a project in the period a date falls in
+ */
+export function getProjectBudgetStatus(project: Project, shoots: Shoot[], taxSettings: TaxSettings, asOf: Date = new Date()): BudgetStatus {
+  const periodKey = getPeriodKey(asOf, project.budgetPeriod);
+  const periodShoots = shoots.filter(shoot => {
+    if (shoot.projectId !== project.id || shoot.status === 'cancelled') return false;
+    const date = getShootBudgetDate(shoot);
+    return !!date && getPeriodKey(date, project.budgetPeriod) === periodKey;
+  });
+
+  let committed = 0;
+  let actual = 0;
+  let pipeline = 0;
+  for (const shoot of periodShoots) {
+    if (isCommitted(shoot)) {
+      const preTax = getShootTaxSummary(shoot, taxSettings).preTax;
+      committed += preTax;
+      if (isInvoicedOrPaid(shoot)) actual += preTax;
+    } else {
+      pipeline += estimateShootCost(shoot);
+    }
+  }
+
+  const budget = project.budgets[periodKey] ?? null;
+  return {
+    project,
+    periodKey,
+    budget,
+    committed: roundAmount(committed),
+    actual: roundAmount(actual),
+    pipeline: roundAmount(pipeline),
+    remaining: budget === null ? null : roundAmount(budget - committed),
+    shoots: periodShoots,
+  };
+}
+
+/**
+ * Remaining budget day by day through the period - the ideal line burns the
+ * budget evenly, the others step down on each shoot's date
+ */
+export function getBurnDown(status: BudgetStatus, taxSettings: TaxSettings): BurnDownPoint[] {
+  const range = getPeriodRange(status.periodKey);
+  if (!range || status.budget === null) return [];
+
+  const byDay = new Map<string, { committed: number; actual: number }>();
+  for (const shoot of status.shoots) {
+    if (!isCommitted(shoot)) continue;
+    const date = getShootBudgetDate(shoot);
+    if (!date) continue;
+    const key = isoDay(date);
+    const preTax = getShootTaxSummary(shoot, taxSettings).preTax;
+    const day = byDay.get(key) || { committed: 0, actual: 0 };
+    day.committed += preTax;
+    if (isInvoicedOrPaid(shoot)) day.actual += preTax;
+    byDay.set(key, day);
+  }
+
+  const totalDays = Math.round((range.end.getTime() - range.start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const points: BurnDownPoint[] = [];
+  let committed = 0;
+  let actual = 0;
+  for (let index = 0; index < totalDays; index++) {
+    const date = new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate() + index);
+    const key = isoDay(date);
+    committed += byDay.get(key)?.committed || 0;
+    actual += byDay.get(key)?.actual || 0;
+    points.push({
+      date: key,
+      label: `${shortMonthNames[date.getMonth()]} ${date.getDate()}`,
+      ideal: roundAmount(status.budget * (1 - (index + 1) / totalDays)),
+      committed: roundAmount(status.budget - committed),
+      actual: roundAmount(status.budget - actual),
+    });
+  }
+  return points;
+}
@@ -0,0 +1,38 @@
+// File exports built in the browser - reports are assembled from data the app already has
+
+export type CsvCell = string | number | null | undefined;
+
+// Quote cells that would break the row, and neutralise spreadsheet formulas
+const csvCell = (value: CsvCell): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+/**
+ * Save a blob under the given file name
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download rows as a CSV file - the BOM makes Excel read ₹ and names correctly
+ */
+export function downloadCsv(fileName: string, rows: CsvCell[][]) {
+  downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+// A name that is safe to use in a file name
+export const fileSlug = (name: string) =>
+  name.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'export';
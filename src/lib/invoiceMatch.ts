@@ -0,0 +1,161 @@
+import type { Shoot } from '../App';
+
+// How far an invoice may go over the approved amount before it needs an
+// override reason ('override') or can't be paid at all ('block')
+export interface InvoiceMatchSettings {
+  tolerancePercent: number;
+  toleranceAmount: number;
+  exceedAction: 'override' | 'block';
+}
+
+export type InvoiceMatchLineStatus =
+  | 'ok'
+  | 'over'
+  | 'under'
+  | 'quantity_changed'
+  | 'added_after_approval'
+  | 'missing'
+  | 'not_requested';
+
+export interface InvoiceMatchLine {
+  equipmentId?: string;
+  name: string;
+  invoiceDescription?: string;
+  approvedQuantity?: number;
+  invoicedQuantity?: number;
+  approvedAmount: number | null; // null when the item was never approved
+  invoicedAmount: number | null; // null when the item isn't on the invoice
+  difference?: number | null;
+  status: InvoiceMatchLineStatus;
+}
+
+export interface InvoiceMatch {
+  // unverified: no invoice details to match against
+  status: 'matched' | 'flagged' | 'exceeds' | 'unverified';
+  lines: InvoiceMatchLine[];
+  approvedAmount: number;
+  invoicedAmount: number | null;
+  difference: number | null;
+  tolerance: number;
+  flags: string[];
+  // Set on the report stored when the invoice was paid
+  checkedAt?: string;
+  checkedBy?: string;
+  overrideReason?: string;
+}
+
+// Used until an admin saves settings - keep in sync with DEFAULT_INVOICE_MATCH_SETTINGS in server/index.js
+export const DEFAULT_INVOICE_MATCH_SETTINGS: InvoiceMatchSettings = {
+  tolerancePercent: 5,
+  toleranceAmount: 500,
+  exceedAction: 'override',
+};
+
+const matchTokens = (name: string) => String(name || '').toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1);
+
+// Share of words two item names have in common (0-1)
+function nameSimilarity(a: string, b: string): number {
+  const tokensA = matchTokens(a);
+  const tokensB = new Set(matchTokens(b));
+  if (tokensA.length === 0 || tokensB.size === 0) return 0;
+  const shared = tokensA.filter(t => tokensB.has(t)).length;
+  return shared / Math.max(tokensA.length, tokensB.size);
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Match the vendor's invoice against the approved quote and the requested
+ * equipment. Mirrors matchInvoice in server/index.js, which has the final say
+ * when the invoice is marked as paid.
+ */
+export function matchInvoice(shoot: Shoot, settings: InvoiceMatchSettings): InvoiceMatch {
+  const equipment = shoot.equipment || [];
+  const invoice = shoot.invoiceData;
+  const approvedAmount = Number(shoot.approvedAmount ?? shoot.vendorQuote?.amount ?? 0) || 0;
+  const tolerance = Math.max(approvedAmount * (settings.tolerancePercent || 0) / 100, settings.toleranceAmount || 0);
+
+  if (!invoice || invoice.status === 'failed') {
+    return {
+      status: 'unverified',
+      lines: [],
+      approvedAmount,
+      invoicedAmount: null,
+      difference: null,
+      tolerance,
+      flags: ['The invoice details could not be read - check the PDF by hand'],
+    };
+  }
+
+  const invoiceLines = invoice.lineItems || [];
+  const unmatched = new Set(invoiceLines.map((_, i) => i));
+  const lines: InvoiceMatchLine[] = [];
+
+  // Best invoice line for each requested item
+  equipment.forEach(item => {
+    let best = -1;
+    let bestScore = 0.5;
+    unmatched.forEach(i => {
+      const score = nameSimilarity(item.name, invoiceLines[i].description);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    const approved = item.isNew ? null : Number(item.vendorRate) || 0;
+    if (best === -1) {
+      lines.push({ equipmentId: item.id, name: item.name, approvedQuantity: item.quantity || 1, approvedAmount: approved, invoicedAmount: null, status: 'missing' });
+      return;
+    }
+    unmatched.delete(best);
+    const line = invoiceLines[best];
+    const difference = approved === null ? null : roundAmount(line.amount - approved);
+    lines.push({
+      equipmentId: item.id,
+      name: item.name,
+      invoiceDescription: line.description,
+      approvedQuantity: item.quantity || 1,
+      invoicedQuantity: line.quantity,
+      approvedAmount: approved,
+      invoicedAmount: line.amount,
+      difference,
+      status: item.isNew ? 'added_after_approval'
+        : Math.abs(difference!) > 1 ? (difference! > 0 ? 'over' : 'under')
+        : line.quantity !== (item.quantity || 1) ? 'quantity_changed'
+        : 'ok',
+    });
+  });
+  unmatched.forEach(i => {
+    const line = invoiceLines[i];
+    lines.push({ name: line.description, invoiceDescription: line.description, invoicedQuantity: line.quantity, approvedAmount: null, invoicedAmount: line.amount, status: 'not_requested' });
+  });
+
+  // Quotes are approved before tax, so compare the invoice's taxable value
+  const invoicedAmount = invoice.subtotal ?? invoiceLines.reduce((sum, line) => sum + line.amount, 0);
+  const difference = roundAmount(invoicedAmount - approvedAmount);
+  const flags: string[] = [];
+  const count = (status: InvoiceMatchLineStatus) => lines.filter(l => l.status === status).length;
+  if (count('not_requested')) flags.push(`${count('not_requested')} invoiced item(s) were never requested`);
+  if (count('missing')) flags.push(`${count('missing')} requested item(s) are not on the invoice`);
+  if (count('added_after_approval')) flags.push(`${count('added_after_approval')} item(s) were added after approval`);
+  if (count('over')) flags.push(`${count('over')} item(s) invoiced above the approved rate`);
+  if (count('quantity_changed')) flags.push(`${count('quantity_changed')} item(s) invoiced in a different quantity`);
+  if (invoice.status !== 'reviewed') flags.push('Invoice details were read from the PDF but not reviewed');
+
+  return {
+    status: difference > tolerance ? 'exceeds' : flags.length > 0 ? 'flagged' : 'matched',
+    lines,
+    approvedAmount,
+    invoicedAmount,
+    difference,
+    tolerance,
+    flags,
+  };
+}
+
+// Whether paying needs a reason - mirrors checkInvoiceMatch on the server
+export const needsOverrideReason = (match: InvoiceMatch) =>
+  match.status === 'exceeds' || match.status === 'unverified';
+
+export const isPaymentBlocked = (match: InvoiceMatch, settings: InvoiceMatchSettings) =>
+  match.status === 'exceeds' && settings.exceedAction === 'block';
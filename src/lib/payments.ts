@@ -0,0 +1,58 @@
+import type { Shoot } from '../App';
+import { getShootTaxSummary, type TaxSettings } from './tax';
+
+export type PaymentMethod = 'bank_transfer' | 'upi' | 'cheque' | 'cash' | 'card';
+
+// advance - before the invoice, part - an instalment against it, final - cleared the balance
+export type PaymentKind = 'advance' | 'part' | 'final';
+
+export interface Payment {
+  id: string;
+  amount: number;
+  date: string | null; // YYYY-MM-DD the money left the account
+  method: PaymentMethod | null; // null for payments recorded before the ledger
+  reference: string | null; // UTR, transaction ID or cheque number
+  notes: string;
+  kind: PaymentKind;
+  recordedBy: string;
+  recordedAt: string;
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank transfer (NEFT/RTGS/IMPS)',
+  upi: 'UPI',
+  cheque: 'Cheque',
+  cash: 'Cash',
+  card: 'Card',
+};
+
+export const PAYMENT_KIND_LABELS: Record<PaymentKind, string> = {
+  advance: 'Advance',
+  part: 'Part payment',
+  final: 'Final payment',
+};
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// What the vendor is owed - keep in sync with amountDue in server/index.js
+export const getAmountDue = (shoot: Shoot, settings: TaxSettings) => getShootTaxSummary(shoot, settings).netPayable;
+
+export const getAmountPaid = (shoot: Shoot) =>
+  roundAmount((shoot.payments || []).reduce((sum, p) => sum + (Number(p.amount) || 0), 0));
+
+export const getOutstandingBalance = (shoot: Shoot, settings: TaxSettings) =>
+  roundAmount(getAmountDue(shoot, settings) - getAmountPaid(shoot));
+
+// Money still owed on work that was approved - a shoot is only settled at zero
+export const hasOutstandingBalance = (shoot: Shoot, settings: TaxSettings) =>
+  !shoot.paid && shoot.status !== 'cancelled' && getOutstandingBalance(shoot, settings) > 0;
+
+// What finance enters to record a payment
+export interface PaymentInput {
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  reference: string;
+  notes: string;
+  overrideReason?: string; // Only when the payment clears the balance on an invoice that doesn't match
+}
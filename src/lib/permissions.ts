@@ -0,0 +1,81 @@
+import type { UserRole } from '../context/AuthContext';
+import type { ViewMode } from '../App';
+
+// Actions a signed-in user can take in the workflow
+export type Permission =
+  | 'view_dashboard'
+  | 'create_request'
+  | 'edit_shoot'
+  | 'send_to_vendor'
+  | 'submit_quote'
+  | 'view_approvals'
+  | 'approve_quote'
+  | 'upload_invoice'
+  | 'view_finance'
+  | 'mark_paid'
+  | 'manage_catalog'
+  | 'manage_vendors'
+  | 'manage_projects'
+  | 'manage_settings'
+  | 'import_data'
+  | 'view_archive';
+
+// Permission matrix - keep in sync with ROLE_PERMISSIONS in server/index.js
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  requestor: [
+    'view_dashboard', 'create_request', 'send_to_vendor', 'submit_quote',
+    'view_approvals', 'upload_invoice', 'manage_catalog', 'manage_vendors', 'view_archive',
+  ],
+  vendor: ['view_dashboard', 'submit_quote'],
+  approver: ['view_dashboard', 'view_approvals', 'approve_quote', 'view_finance', 'view_archive'],
+  founder: ['view_dashboard', 'view_approvals', 'approve_quote', 'view_finance', 'view_archive'],
+  finance: ['view_dashboard', 'upload_invoice', 'view_finance', 'mark_paid', 'manage_projects', 'view_archive'],
+  admin: [
+    'view_dashboard', 'create_request', 'edit_shoot', 'send_to_vendor', 'submit_quote',
+    'view_approvals', 'approve_quote', 'upload_invoice', 'view_finance', 'mark_paid',
+    'manage_catalog', 'manage_vendors', 'manage_projects', 'view_archive', 'manage_settings', 'import_data',
+  ],
+};
+
+// Permission needed to open each screen
+export const VIEW_PERMISSIONS: Record<ViewMode, Permission> = {
+  dashboard: 'view_dashboard',
+  vendor: 'submit_quote',
+  approval: 'view_approvals',
+  invoice: 'upload_invoice',
+  new_request: 'create_request',
+  finance: 'view_finance',
+  catalog: 'manage_catalog',
+  vendors: 'manage_vendors',
+  archive: 'view_archive',
+  calendar: 'view_dashboard',
+  edit_shoot: 'edit_shoot',
+  import: 'import_data',
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  requestor: 'Pre-production Team',
+  vendor: 'Vendor',
+  approver: 'Approver',
+  founder: 'Founder',
+  finance: 'Finance',
+  admin: 'Admin',
+};
+
+export const ROLE_INITIALS: Record<UserRole, string> = {
+  requestor: 'PT',
+  vendor: 'V',
+  approver: 'AP',
+  founder: 'FD',
+  finance: 'FN',
+  admin: 'A',
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+};
+
+export const canAccessView = (role: UserRole | undefined, view: ViewMode): boolean => {
+  return hasPermission(role, VIEW_PERMISSIONS[view]);
+};
@@ -0,0 +1,57 @@
+import type { Shoot } from '../App';
+
+// Shoots carry their first and last day as startDate/endDate (YYYY-MM-DD).
+// `date` is only the label shown on cards - nothing is parsed back out of it.
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+                     'July', 'August', 'September', 'October', 'November', 'December'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * A YYYY-MM-DD date as local midnight, or null when it isn't one
+ */
+export function parseDateKey(value?: string | null): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value || '');
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+/**
+ * First and last day of a shoot, or null when it has no start date
+ */
+export function getShootDateRange(shoot: Shoot): { start: Date; end: Date } | null {
+  const start = parseDateKey(shoot.startDate);
+  if (!start) return null;
+  const end = parseDateKey(shoot.endDate);
+  return { start, end: end && end >= start ? end : start };
+}
+
+/**
+ * Label shown on cards, e.g. "Jul 12" or "Jul 12 - Jul 13"
+ * Keep in sync with shootDateLabel in server/index.js
+ */
+export function formatShootDateLabel(startDate: string, endDate?: string): string {
+  const format = (value: string) =>
+    parseDateKey(value)?.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) || value;
+  return endDate && endDate !== startDate ? `${format(startDate)} - ${format(endDate)}` : format(startDate);
+}
+
+/**
+ * Shoots grouped by the month they start in, oldest first - shoots without a
+ * start date come last
+ */
+export function groupShootsByMonth(shoots: Shoot[]): { label: string; shoots: Shoot[] }[] {
+  const groups = new Map<string, { label: string; shoots: Shoot[] }>();
+  shoots.forEach(shoot => {
+    const start = getShootDateRange(shoot)?.start;
+    const key = start ? `${start.getFullYear()}-${pad(start.getMonth() + 1)}` : 'undated';
+    if (!groups.has(key)) {
+      groups.set(key, { label: start ? `${MONTH_NAMES[start.getMonth()]} ${start.getFullYear()}` : 'Date not set', shoots: [] });
+    }
+    groups.get(key)!.shoots.push(shoot);
+  });
+  // 'undated' sorts after every YYYY-MM key
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, group]) => group);
+}
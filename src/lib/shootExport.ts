@@ -0,0 +1,165 @@
+import type { SheetData } from 'write-excel-file';
+import type { Shoot, ShootStatus } from '../App';
+import { getEquipmentDayCount } from './availability';
+import { getAmountPaid, getOutstandingBalance } from './payments';
+import { getShootTaxSummary, type TaxSettings } from './tax';
+import { getInvoiceDate } from './statement';
+import { downloadCsv, fileSlug, type CsvCell } from './export';
+
+export const SHOOT_STATUS_LABELS: Record<ShootStatus, string> = {
+  new_request: 'New request',
+  with_vendor: 'With vendor',
+  with_swati: 'Pending approval',
+  with_senior_approver: 'Senior approval',
+  ready_for_shoot: 'Ready for shoot',
+  pending_invoice: 'Awaiting invoice',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export interface ExportOptions {
+  vendors: { id: string; name: string; gstNumber?: string }[];
+  taxSettings: TaxSettings;
+  includeEquipment?: boolean; // Adds a sheet (or a second CSV) with one row per equipment line
+}
+
+// One column of an export - the same definitions drive the CSV and the XLSX
+interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CsvCell;
+  amount?: boolean; // Shown with two decimals in the spreadsheet
+  width?: number;
+}
+
+interface EquipmentLine {
+  shoot: Shoot;
+  vendorName: string;
+  item: Shoot['equipment'][number];
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const vendorFor = (shoot: Shoot, options: ExportOptions) => options.vendors.find(v => v.id === shoot.vendorId);
+
+const paymentStatus = (shoot: Shoot, options: ExportOptions) => {
+  if (shoot.status === 'cancelled') return 'Cancelled';
+  const paid = getAmountPaid(shoot);
+  if (shoot.paid || (paid > 0 && getOutstandingBalance(shoot, options.taxSettings) <= 0)) return 'Paid';
+  return paid > 0 ? 'Part paid' : 'Unpaid';
+};
+
+const shootColumns = (options: ExportOptions): ExportColumn<Shoot>[] => {
+  const tax = (shoot: Shoot) => getShootTaxSummary(shoot, options.taxSettings, vendorFor(shoot, options)?.gstNumber);
+  const lastPayment = (shoot: Shoot) => (shoot.payments || [])[(shoot.payments || []).length - 1];
+
+  return [
+    { header: 'Shoot ID', value: s => s.id, width: 16 },
+    { header: 'Shoot', value: s => s.name, width: 30 },
+    { header: 'Start date', value: s => s.startDate || null, width: 14 },
+    { header: 'End date', value: s => s.endDate || s.startDate || null, width: 14 },
+    { header: 'Duration', value: s => s.duration },
+    { header: 'Location', value: s => s.location, width: 20 },
+    { header: 'Status', value: s => SHOOT_STATUS_LABELS[s.status] || s.status, width: 16 },
+    { header: 'Requestor', value: s => s.requestor?.name, width: 18 },
+    { header: 'Vendor', value: s => vendorFor(s, options)?.name || 'Unassigned', width: 22 },
+    { header: 'Vendor GSTIN', value: s => s.invoiceData?.vendorGstin || vendorFor(s, options)?.gstNumber, width: 18 },
+    { header: 'Quoted (pre-tax)', value: s => s.vendorQuote?.amount ?? null, amount: true },
+    { header: 'Approved (pre-tax)', value: s => s.approvedAmount ?? null, amount: true },
+    { header: 'GST rate %', value: s => s.vendorQuote?.gstRate ?? null },
+    { header: 'Taxable value', value: s => tax(s).preTax, amount: true },
+    { header: 'GST', value: s => tax(s).gst, amount: true },
+    { header: 'Total incl. GST', value: s => tax(s).cashOutflow, amount: true },
+    { header: 'TDS', value: s => tax(s).tds, amount: true },
+    { header: 'Net payable', value: s => tax(s).netPayable, amount: true },
+    { header: 'Amounts from', value: s => (tax(s).isActual ? 'Reviewed invoice' : 'Estimate') },
+    { header: 'Invoice number', value: s => s.invoiceData?.invoiceNumber, width: 16 },
+    { header: 'Invoice date', value: s => (s.invoiceFile ? getInvoiceDate(s) : null), width: 14 },
+    { header: 'Paid', value: s => getAmountPaid(s), amount: true },
+    { header: 'Balance', value: s => (s.status === 'cancelled' ? 0 : Math.max(getOutstandingBalance(s, options.taxSettings), 0)), amount: true },
+    { header: 'Payment status', value: s => paymentStatus(s, options) },
+    { header: 'Last payment date', value: s => lastPayment(s)?.date, width: 14 },
+    { header: 'Last payment reference', value: s => lastPayment(s)?.reference, width: 20 },
+    { header: 'Rejection / cancellation reason', value: s => s.rejectionReason || s.cancellationReason, width: 30 },
+  ];
+};
+
+const EQUIPMENT_COLUMNS: ExportColumn<EquipmentLine>[] = [
+  { header: 'Shoot ID', value: l => l.shoot.id, width: 16 },
+  { header: 'Shoot', value: l => l.shoot.name, width: 30 },
+  { header: 'Shoot date', value: l => l.shoot.startDate || null, width: 14 },
+  { header: 'Vendor', value: l => l.vendorName, width: 22 },
+  { header: 'Equipment', value: l => l.item.name, width: 30 },
+  { header: 'Category', value: l => l.item.category, width: 16 },
+  { header: 'Quantity', value: l => l.item.quantity || 1 },
+  { header: 'Days', value: l => getEquipmentDayCount(l.item) },
+  { header: 'Expected rate', value: l => l.item.expectedRate ?? l.item.dailyRate ?? null, amount: true },
+  { header: 'Vendor rate', value: l => l.item.vendorRate ?? null, amount: true },
+  {
+    // The vendor prices the whole line - catalog rates are per unit per day
+    header: 'Line total',
+    value: l => roundAmount(l.item.vendorRate || (l.item.dailyRate || 0) * (l.item.quantity || 1) * getEquipmentDayCount(l.item)),
+    amount: true,
+  },
+  { header: 'Added after approval', value: l => (l.item.isNew ? 'Yes' : '') },
+];
+
+const equipmentLines = (shoots: Shoot[], options: ExportOptions): EquipmentLine[] =>
+  shoots.flatMap(shoot => (shoot.equipment || []).map(item => ({
+    shoot,
+    vendorName: vendorFor(shoot, options)?.name || 'Unassigned',
+    item,
+  })));
+
+const toRows = <T,>(columns: ExportColumn<T>[], rows: T[]): CsvCell[][] => [
+  columns.map(c => c.header),
+  ...rows.map(row => columns.map(c => c.value(row))),
+];
+
+const exportFileName = (name: string, extension: string, asOf: Date) =>
+  `${fileSlug(name)}-${asOf.toISOString().slice(0, 10)}.${extension}`;
+
+/**
+ * Download shoots as CSV, one row per shoot. Equipment lines go in a second
+ * file since CSV has no sheets
+ */
+export function exportShootsCsv(name: string, shoots: Shoot[], options: ExportOptions, asOf: Date = new Date()) {
+  downloadCsv(exportFileName(name, 'csv', asOf), toRows(shootColumns(options), shoots));
+  if (options.includeEquipment) {
+    downloadCsv(exportFileName(`${name}-equipment`, 'csv', asOf), toRows(EQUIPMENT_COLUMNS, equipmentLines(shoots, options)));
+  }
+}
+
+const toSheet = <T,>(columns: ExportColumn<T>[], rows: T[]): SheetData => [
+  columns.map(c => ({ value: c.header, fontWeight: 'bold' as const })),
+  ...rows.map(row => columns.map(c => {
+    const value = c.value(row);
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return { value, type: Number, format: c.amount ? '#,##0.00' : undefined };
+    return { value, type: String };
+  })),
+];
+
+const sheetColumns = <T,>(columns: ExportColumn<T>[]) => columns.map(c => ({ width: c.width || 14 }));
+
+/**
+ * Download shoots as an Excel workbook - the library is only loaded when needed
+ */
+export async function exportShootsXlsx(name: string, shoots: Shoot[], options: ExportOptions, asOf: Date = new Date()) {
+  const { default: writeXlsxFile } = await import('write-excel-file');
+  const columns = shootColumns(options);
+  const fileName = exportFileName(name, 'xlsx', asOf);
+
+  if (!options.includeEquipment) {
+    await writeXlsxFile(toSheet(columns, shoots), { columns: sheetColumns(columns), sheet: 'Shoots', fileName });
+    return;
+  }
+
+  await writeXlsxFile(
+    [toSheet(columns, shoots), toSheet(EQUIPMENT_COLUMNS, equipmentLines(shoots, options))],
+    {
+      columns: [sheetColumns(columns), sheetColumns(EQUIPMENT_COLUMNS)],
+      sheets: ['Shoots', 'Equipment'],
+      fileName,
+    }
+  );
+}
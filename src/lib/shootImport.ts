@@ -0,0 +1,431 @@
+import type { Shoot, ShootStatus } from '../App';
+import { SHOOT_STATUS_LABELS } from './shootExport';
+
+// Shoot fields a CSV column can be mapped to
+export type ImportField =
+  | 'name'
+  | 'date'
+  | 'endDate'
+  | 'duration'
+  | 'location'
+  | 'status'
+  | 'requestor'
+  | 'vendor'
+  | 'amount'
+  | 'gstRate'
+  | 'equipmentName'
+  | 'equipmentQuantity'
+  | 'equipmentRate'
+  | 'equipmentTotal'
+  | 'invoiceFile'
+  | 'paid'
+  | 'paidDate'
+  | 'notes';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; hint?: string; synonyms: RegExp }[] = [
+  { key: 'name', label: 'Shoot name', required: true, synonyms: /^(shoot( name)?|name|title|project)$/i },
+  { key: 'date', label: 'Shoot date', required: true, hint: 'A single date or a range like "21-05-2025 & 22-05-2025"', synonyms: /^(shoot )?(start )?date(s)?$/i },
+  { key: 'endDate', label: 'End date', synonyms: /^end( date)?$/i },
+  { key: 'duration', label: 'Duration', synonyms: /^(duration|days)$/i },
+  { key: 'location', label: 'Location', synonyms: /^(location|venue|place)$/i },
+  { key: 'status', label: 'Status', hint: 'Blank rows import as completed', synonyms: /^status$/i },
+  { key: 'requestor', label: 'Requestor', synonyms: /^(requestor|requested by|owner)$/i },
+  { key: 'vendor', label: 'Vendor', hint: 'Matched to the vendor registry by name', synonyms: /^vendor( name)?$/i },
+  { key: 'amount', label: 'Amount (pre-tax)', hint: 'Left blank, the equipment lines are added up', synonyms: /^(amount|quote|approved amount|total( amount)?)$/i },
+  { key: 'gstRate', label: 'GST rate %', synonyms: /^gst( rate)?( %)?$/i },
+  { key: 'equipmentName', label: 'Equipment item', hint: 'Rows with no shoot name add items to the shoot above', synonyms: /^(item( name)?|equipment)$/i },
+  { key: 'equipmentQuantity', label: 'Equipment quantity', synonyms: /^(qty|quantity)$/i },
+  { key: 'equipmentRate', label: 'Equipment rate', synonyms: /^(rate|rental cost|daily rate|vendor rate)$/i },
+  { key: 'equipmentTotal', label: 'Equipment line total', synonyms: /^(total cost|line total)$/i },
+  { key: 'invoiceFile', label: 'Invoice file name', hint: 'Matched exactly against the PDFs you add', synonyms: /^invoice( file| name)?$/i },
+  { key: 'paid', label: 'Paid (yes/no)', synonyms: /^paid$/i },
+  { key: 'paidDate', label: 'Paid on', synonyms: /^(paid (on|date)|payment date)$/i },
+  { key: 'notes', label: 'Notes', synonyms: /^(notes?|remarks?|comments?)$/i },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>; // Field -> column index
+
+export type DateOrder = 'dmy' | 'mdy';
+
+// What the import endpoint takes for each shoot - keep in sync with normalizeImportedShoot in server/index.js
+export interface ImportedShootInput {
+  id: string;
+  name: string;
+  shootDate: string; // YYYY-MM-DD
+  endDate?: string;
+  duration?: string;
+  location?: string;
+  status: ShootStatus;
+  requestorName?: string;
+  vendorId?: string;
+  amount: number;
+  gstRate?: number;
+  equipment: { name: string; quantity: number; rate: number; total?: number }[]; // rate per unit per day, total for the line
+  paid: boolean;
+  paidDate?: string;
+  notes?: string;
+  allowDuplicate?: boolean;
+}
+
+export interface ImportRow {
+  input: ImportedShootInput;
+  lines: number[]; // CSV line numbers the shoot was read from
+  invoiceFileName: string | null;
+  errors: string[];
+  warnings: string[];
+  duplicateOf: Shoot | null;
+}
+
+/**
+ * Parse CSV text into rows - handles quoted fields, escaped quotes and line
+ * breaks inside quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const index = headers.findIndex((header, i) =>
+      field.synonyms.test(header.trim()) && !Object.values(mapping).includes(i));
+    if (index >= 0) mapping[field.key] = index;
+  });
+  return mapping;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const isoFromParts = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const parseSingleDate = (value: string, order: DateOrder): string | null => {
+  const text = value.trim();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  if (match) return isoFromParts(+match[1], +match[2], +match[3]);
+
+  // 21-05-2025, 9-2-25, 21/05/2025, 21.05.25
+  match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(text);
+  if (match) {
+    const [first, second] = [+match[1], +match[2]];
+    return order === 'dmy' ? isoFromParts(+match[3], second, first) : isoFromParts(+match[3], first, second);
+  }
+
+  // 12 Jul 2025, 12/Jul/2025, 12-July-25
+  match = /^(\d{1,2})[\s/-]*([a-z]{3})[a-z]*[\s/,-]*(\d{2}|\d{4})$/i.exec(text);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    return isoFromParts(+match[3], MONTHS.indexOf(match[2].toLowerCase()) + 1, +match[1]);
+  }
+
+  // Jul 12, 2025
+  match = /^([a-z]{3})[a-z]*\s+(\d{1,2}),?\s+(\d{2}|\d{4})$/i.exec(text);
+  if (match && MONTHS.includes(match[1].toLowerCase())) {
+    return isoFromParts(+match[3], MONTHS.indexOf(match[1].toLowerCase()) + 1, +match[2]);
+  }
+  return null;
+};
+
+/**
+ * Read a shoot date or range - "21-05-2025 & 22-05-2025", "12 Jul 2025 to
+ * 14 Jul 2025" or "3/4 Jul 2025" (the 3rd and 4th)
+ */
+export function parseImportDate(value: string, order: DateOrder = 'dmy'): { start: string; end: string | null } | null {
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  const parts = text.split(/\s*(?:&|\bto\b|\s-\s|\s–\s)\s*/i).filter(Boolean);
+  if (parts.length > 1) {
+    const dates = parts.map(part => parseSingleDate(part, order));
+    if (dates.some(date => !date)) return null;
+    const sorted = (dates as string[]).sort();
+    return { start: sorted[0], end: sorted[sorted.length - 1] };
+  }
+
+  // Several days of one month, e.g. "3/4 Jul 2025" or "3-4 Jul 2025"
+  const daysMatch = /^(\d{1,2})\s*[/-]\s*(\d{1,2})\s*[/-]?\s*([a-z]{3}[a-z]*[\s/,-]*\d{2,4})$/i.exec(text);
+  if (daysMatch && /[a-z]/i.test(daysMatch[3])) {
+    const start = parseSingleDate(`${daysMatch[1]} ${daysMatch[3]}`, order);
+    const end = parseSingleDate(`${daysMatch[2]} ${daysMatch[3]}`, order);
+    if (start && end) return start <= end ? { start, end } : { start: end, end: start };
+  }
+
+  const single = parseSingleDate(text, order);
+  return single ? { start: single, end: null } : null;
+}
+
+/**
+ * Read an amount like "₹1,20,000", "Rs. 4500.50" or "12000" - null when it
+ * isn't a number, undefined when blank
+ */
+export function parseImportAmount(value: string): number | null | undefined {
+  const text = (value || '').replace(/₹|rs\.?|inr|,|\s/gi, '');
+  if (!text || text === '-') return undefined;
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Math.round(Number(text) * 100) / 100;
+}
+
+const parseStatus = (value: string): ShootStatus | null => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text) return 'completed';
+  const match = (Object.keys(SHOOT_STATUS_LABELS) as ShootStatus[]).find(status =>
+    status === text.replace(/\s+/g, '_') || SHOOT_STATUS_LABELS[status].toLowerCase() === text);
+  if (match) return match;
+  if (/^(done|complete|paid)$/.test(text)) return 'completed';
+  if (/^(rejected|cancel+ed)$/.test(text)) return 'cancelled';
+  return null;
+};
+
+const parsePaid = (value: string): boolean | null => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text || /^(no|n|false|0|unpaid|pending)$/.test(text)) return false;
+  if (/^(yes|y|true|1|paid|done)$/.test(text)) return true;
+  return null;
+};
+
+// Item names in the old spreadsheets that are section headings, not equipment
+const isSectionRow = (item: string) => /total/i.test(item) || /^for dated:/i.test(item) || /^shoot\s+[ivx]+$/i.test(item);
+
+const cleanItemName = (item: string) => item.replace(/^\*\s*/, '').replace(/\s+/g, ' ').trim();
+
+// Days a shoot runs - keep in sync with normalizeImportedShoot in server/index.js
+const importDayCount = (input: ImportedShootInput) => input.shootDate && input.endDate
+  ? Math.max(1, Math.round((Date.parse(input.endDate) - Date.parse(input.shootDate)) / (24 * 60 * 60 * 1000)) + 1)
+  : 1;
+
+const importNameKey = (name: string) => (name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Same rule the server uses to skip shoots that already exist - keep in sync with isSameShoot in server/index.js
+export function isSameShoot(shoot: Shoot, name: string, shootDate: string) {
+  if (importNameKey(shoot.name) !== importNameKey(name)) return false;
+  if (!shoot.startDate || !shootDate) return true;
+  return Math.abs(new Date(`${shoot.startDate}T00:00:00Z`).getTime() - new Date(`${shootDate}T00:00:00Z`).getTime()) <= 36 * 60 * 60 * 1000;
+}
+
+export interface BuildOptions {
+  batchId: string; // Prefix for the new shoot ids - stable while the preview is open
+  headerRow: number; // 1-based line of the header row - data starts below it
+  dateOrder: DateOrder;
+  vendors: { id: string; name: string }[];
+  existingShoots: Shoot[];
+}
+
+/**
+ * Turn mapped CSV rows into shoots with their validation errors. A row with
+ * no shoot name but an equipment item adds the item to the shoot above it
+ */
+export function buildImportRows(rows: string[][], mapping: ColumnMapping, options: BuildOptions): ImportRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+  const result: ImportRow[] = [];
+  const lineTotals = new Map<ImportRow, number>();
+
+  rows.slice(options.headerRow).forEach((row, index) => {
+    const line = options.headerRow + index + 1;
+    if (row.every(value => !value.trim())) return;
+
+    const name = cell(row, 'name');
+    const item = cleanItemName(cell(row, 'equipmentName'));
+    let current = result[result.length - 1];
+
+    if (name) {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+
+      const dates = parseImportDate(cell(row, 'date'), options.dateOrder);
+      if (!cell(row, 'date')) errors.push('Shoot date is missing');
+      else if (!dates) errors.push(`Can't read the date "${cell(row, 'date')}"`);
+      let endDate = dates?.end || undefined;
+      if (cell(row, 'endDate')) {
+        const end = parseImportDate(cell(row, 'endDate'), options.dateOrder);
+        if (!end) errors.push(`Can't read the end date "${cell(row, 'endDate')}"`);
+        else if (dates && end.start < dates.start) errors.push('End date is before the shoot date');
+        else endDate = end.start;
+      }
+
+      const status = parseStatus(cell(row, 'status'));
+      if (!status) errors.push(`Unknown status "${cell(row, 'status')}"`);
+
+      const amount = parseImportAmount(cell(row, 'amount'));
+      if (amount === null) errors.push(`Amount "${cell(row, 'amount')}" is not a number`);
+      const gstRate = parseImportAmount(cell(row, 'gstRate'));
+      if (gstRate === null || (gstRate !== undefined && ![0, 5, 12, 18, 28].includes(gstRate))) {
+        errors.push(`GST rate "${cell(row, 'gstRate')}" is not a GST slab`);
+      }
+
+      const paid = parsePaid(cell(row, 'paid'));
+      if (paid === null) errors.push(`Paid "${cell(row, 'paid')}" should be yes or no`);
+      if (paid && status && status !== 'completed') errors.push('Only completed shoots can be paid');
+      const paidDate = cell(row, 'paidDate') ? parseImportDate(cell(row, 'paidDate'), options.dateOrder)?.start : undefined;
+      if (cell(row, 'paidDate') && !paidDate) errors.push(`Can't read the paid date "${cell(row, 'paidDate')}"`);
+
+      const vendorName = cell(row, 'vendor');
+      const vendor = vendorName
+        ? options.vendors.find(v => v.id === vendorName || importNameKey(v.name) === importNameKey(vendorName))
+        : undefined;
+      if (vendorName && !vendor) warnings.push(`Vendor "${vendorName}" isn't in the registry - left unassigned`);
+
+      current = {
+        input: {
+          id: `import-${options.batchId}-${line}`,
+          name,
+          shootDate: dates?.start || '',
+          endDate,
+          duration: cell(row, 'duration') || undefined,
+          location: cell(row, 'location') || undefined,
+          status: status || 'completed',
+          requestorName: cell(row, 'requestor') || undefined,
+          vendorId: vendor?.id,
+          amount: amount ?? 0,
+          gstRate: gstRate ?? undefined,
+          equipment: [],
+          paid: !!paid,
+          paidDate,
+          notes: cell(row, 'notes') || undefined,
+        },
+        lines: [line],
+        invoiceFileName: cell(row, 'invoiceFile') || null,
+        errors,
+        warnings,
+        duplicateOf: null,
+      };
+      if (amount === undefined) lineTotals.set(current, 0);
+      result.push(current);
+    } else if (!item || !current) {
+      return;
+    } else {
+      current.lines.push(line);
+      if (!current.invoiceFileName && cell(row, 'invoiceFile')) current.invoiceFileName = cell(row, 'invoiceFile');
+    }
+
+    if (!item || isSectionRow(item)) return;
+    const quantity = parseInt(cell(row, 'equipmentQuantity'), 10) || 1;
+    const rate = parseImportAmount(cell(row, 'equipmentRate'));
+    const total = parseImportAmount(cell(row, 'equipmentTotal'));
+    if (rate === null || total === null) {
+      current.errors.push(`Line ${line}: the rate or total of "${item}" is not a number`);
+      return;
+    }
+    const days = importDayCount(current.input);
+    current.input.equipment.push({ name: item, quantity, rate: rate ?? (total ? total / quantity / days : 0), total });
+    if (lineTotals.has(current)) {
+      lineTotals.set(current, lineTotals.get(current)! + (total ?? (rate || 0) * quantity * days));
+    }
+  });
+
+  lineTotals.forEach((total, row) => {
+    row.input.amount = Math.round(total * 100) / 100;
+  });
+
+  result.forEach((row, index) => {
+    if (row.input.shootDate) {
+      row.duplicateOf = options.existingShoots.find(s => isSameShoot(s, row.input.name, row.input.shootDate)) || null;
+      const earlier = result.slice(0, index).find(r => importNameKey(r.input.name) === importNameKey(row.input.name) && r.input.shootDate === row.input.shootDate);
+      if (earlier) row.warnings.push(`Same shoot as line ${earlier.lines[0]}`);
+    }
+    if (row.input.amount === 0 && row.input.status !== 'new_request') row.warnings.push('No amount - the shoot imports at ₹0');
+  });
+
+  return result;
+}
+
+// Words that say nothing about which shoot an invoice is for
+const INVOICE_NOISE = /^(inv|invoice|no|pdf|tax|bill|copy|final|shoots?|of|the|and|for|to|in|on|vs|\d+|\d{2}-\d{2}|[a-z])$/i;
+
+const matchTokens = (text: string) => new Set(
+  text.toLowerCase()
+    .replace(/\.pdf$/i, '')
+    .replace(/\(\d+\)/g, ' ')
+    .split(/[^a-z0-9-]+/)
+    .flatMap(token => /^\d{2}-\d{2}$/.test(token) ? [token] : token.split('-'))
+    .filter(token => token && !INVOICE_NOISE.test(token))
+);
+
+/**
+ * How alike an invoice file name and a shoot name are, 0 to 1 (Dice
+ * coefficient over their words, counting shared prefixes like "addcition"
+ * and "addiction" as half a match)
+ */
+export function nameSimilarity(fileName: string, shootName: string): number {
+  const a = matchTokens(fileName);
+  const b = matchTokens(shootName);
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared += 1;
+    else if (token.length >= 4 && Array.from(b).some(other => other.length >= 4 && other.slice(0, 4) === token.slice(0, 4))) shared += 0.5;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+export const INVOICE_MATCH_THRESHOLD = 0.5;
+
+export interface InvoiceCandidate {
+  shootId: string;
+  name: string;
+  invoiceFileName?: string | null;
+}
+
+/**
+ * Pick the shoot each PDF belongs to - an exact file name from the CSV wins,
+ * then the closest shoot name above the threshold. Returns file name -> shoot id
+ */
+export function matchInvoiceFiles(fileNames: string[], candidates: InvoiceCandidate[]): Record<string, { shootId: string; score: number } | null> {
+  const matches: Record<string, { shootId: string; score: number } | null> = {};
+  fileNames.forEach(fileName => {
+    const exact = candidates.find(c => c.invoiceFileName && c.invoiceFileName.toLowerCase() === fileName.toLowerCase());
+    if (exact) {
+      matches[fileName] = { shootId: exact.shootId, score: 1 };
+      return;
+    }
+    const best = candidates
+      .map(c => ({ shootId: c.shootId, score: nameSimilarity(fileName, c.name) }))
+      .sort((x, y) => y.score - x.score)[0];
+    matches[fileName] = best && best.score >= INVOICE_MATCH_THRESHOLD ? best : null;
+  });
+  return matches;
+}
@@ -0,0 +1,259 @@
+import type { jsPDF } from 'jspdf';
+import type { Shoot } from '../App';
+import { getAmountDue, getAmountPaid, PAYMENT_KIND_LABELS, PAYMENT_METHOD_LABELS } from './payments';
+import type { TaxSettings } from './tax';
+import { downloadBlob, downloadCsv, fileSlug } from './export';
+
+export type AgeingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string; maxDays: number }[] = [
+  { key: '0-30', label: '0–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '90+', label: '90+ days', maxDays: Infinity },
+];
+
+export type AgeingBreakdown = Record<AgeingBucket, number>;
+
+// One line of a statement of account - invoices raise what we owe, payments reduce it
+export interface StatementEntry {
+  date: string | null; // YYYY-MM-DD
+  shootId: string;
+  shootName: string;
+  type: 'invoice' | 'payment';
+  description: string;
+  reference: string | null;
+  debit: number; // Owed to the vendor
+  credit: number; // Paid to the vendor
+  balance: number; // Running balance after this line
+}
+
+export interface VendorStatement {
+  vendorId: string | null;
+  vendorName: string;
+  entries: StatementEntry[];
+  totalInvoiced: number;
+  totalPaid: number;
+  balance: number;
+  unappliedAdvances: number; // Paid on shoots that have not been invoiced yet
+  ageing: AgeingBreakdown;
+  oldestDays: number | null; // Age of the oldest unpaid invoice
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyAgeing = (): AgeingBreakdown => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+const isoDate = (value?: string | null): string | null => {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+};
+
+// Invoices count from the date printed on them, falling back to when they were read or the shoot date
+export const getInvoiceDate = (shoot: Shoot): string | null =>
+  isoDate(shoot.invoiceData?.invoiceDate) || isoDate(shoot.invoiceData?.extractedAt) || shoot.startDate || null;
+
+const isInvoiced = (shoot: Shoot) => !!shoot.invoiceFile && (shoot.status === 'pending_invoice' || shoot.status === 'completed' || !!shoot.paid);
+
+export const daysSince = (date: string, asOf: Date) =>
+  Math.max(0, Math.floor((asOf.getTime() - new Date(`${date}T00:00:00`).getTime()) / DAY_MS));
+
+export const getAgeingBucket = (days: number): AgeingBucket =>
+  AGEING_BUCKETS.find(bucket => days <= bucket.maxDays)!.key;
+
+/**
+ * Statement of account for one vendor - every invoice and payment in date
+ * order with the running balance, and the unpaid invoices by age
+ */
+export function buildVendorStatement(
+  vendorId: string | null,
+  vendorName: string,
+  shoots: Shoot[],
+  taxSettings: TaxSettings,
+  asOf: Date = new Date()
+): VendorStatement {
+  const vendorShoots = shoots.filter(s => (s.vendorId || null) === vendorId && s.status !== 'cancelled');
+  const lines: Omit<StatementEntry, 'balance'>[] = [];
+  const ageing = emptyAgeing();
+  let oldestDays: number | null = null;
+  let unappliedAdvances = 0;
+
+  vendorShoots.forEach(shoot => {
+    const invoiced = isInvoiced(shoot);
+    const invoiceDate = getInvoiceDate(shoot);
+
+    if (invoiced) {
+      const due = getAmountDue(shoot, taxSettings);
+      lines.push({
+        date: invoiceDate,
+        shootId: shoot.id,
+        shootName: shoot.name,
+        type: 'invoice',
+        description: `Invoice${shoot.invoiceData?.status === 'reviewed' ? '' : ' (unreviewed, estimated)'} - ${shoot.name}`,
+        reference: shoot.invoiceData?.invoiceNumber || null,
+        debit: due,
+        credit: 0,
+      });
+
+      const outstanding = roundAmount(due - getAmountPaid(shoot));
+      if (outstanding > 0 && !shoot.paid) {
+        const days = invoiceDate ? daysSince(invoiceDate, asOf) : 0;
+        ageing[getAgeingBucket(days)] = roundAmount(ageing[getAgeingBucket(days)] + outstanding);
+        oldestDays = Math.max(oldestDays ?? 0, days);
+      }
+    } else {
+      unappliedAdvances = roundAmount(unappliedAdvances + getAmountPaid(shoot));
+    }
+
+    (shoot.payments || []).forEach(payment => {
+      lines.push({
+        date: payment.date || invoiceDate,
+        shootId: shoot.id,
+        shootName: shoot.name,
+        type: 'payment',
+        description: `${PAYMENT_KIND_LABELS[payment.kind]}${payment.method ? ` by ${PAYMENT_METHOD_LABELS[payment.method]}` : ''} - ${shoot.name}`,
+        reference: payment.reference,
+        debit: 0,
+        credit: payment.amount,
+      });
+    });
+  });
+
+  // Undated lines go last; an invoice comes before payments made the same day
+  lines.sort((a, b) => {
+    if (a.date !== b.date) {
+      if (!a.date) return 1;
+      if (!b.date) return -1;
+      return a.date.localeCompare(b.date);
+    }
+    return a.type === b.type ? 0 : a.type === 'invoice' ? -1 : 1;
+  });
+
+  let running = 0;
+  const entries = lines.map(line => {
+    running = roundAmount(running + line.debit - line.credit);
+    return { ...line, balance: running };
+  });
+  const totalInvoiced = roundAmount(entries.reduce((sum, e) => sum + e.debit, 0));
+  const totalPaid = roundAmount(entries.reduce((sum, e) => sum + e.credit, 0));
+
+  return {
+    vendorId,
+    vendorName,
+    entries,
+    totalInvoiced,
+    totalPaid,
+    balance: roundAmount(totalInvoiced - totalPaid),
+    unappliedAdvances,
+    ageing,
+    oldestDays,
+  };
+}
+
+/**
+ * Statements for every vendor with invoices or payments, largest balance first
+ */
+export function buildPayablesReport(
+  vendors: { id: string; name: string }[],
+  shoots: Shoot[],
+  taxSettings: TaxSettings,
+  asOf: Date = new Date()
+): VendorStatement[] {
+  const vendorIds = Array.from(new Set(shoots.map(s => s.vendorId || null)));
+  return vendorIds
+    .map(id => buildVendorStatement(id, vendors.find(v => v.id === id)?.name || 'Unassigned', shoots, taxSettings, asOf))
+    .filter(statement => statement.entries.length > 0)
+    .sort((a, b) => b.balance - a.balance);
+}
+
+const statementFileName = (statement: VendorStatement, asOf: Date, extension: string) =>
+  `statement-${fileSlug(statement.vendorName)}-${asOf.toISOString().slice(0, 10)}.${extension}`;
+
+/**
+ * Download the statement as CSV - entries with the running balance, then the ageing
+ */
+export function exportStatementCsv(statement: VendorStatement, asOf: Date = new Date()) {
+  downloadCsv(statementFileName(statement, asOf, 'csv'), [
+    ['Statement of account', statement.vendorName],
+    ['As of', asOf.toISOString().slice(0, 10)],
+    [],
+    ['Date', 'Shoot', 'Type', 'Description', 'Reference', 'Invoiced', 'Paid', 'Balance'],
+    ...statement.entries.map(e => [
+      e.date, e.shootName, e.type === 'invoice' ? 'Invoice' : 'Payment', e.description, e.reference,
+      e.debit || null, e.credit || null, e.balance,
+    ]),
+    [],
+    ['Total invoiced', statement.totalInvoiced],
+    ['Total paid', statement.totalPaid],
+    ['Balance', statement.balance],
+    ...(statement.unappliedAdvances > 0 ? [['Advances not yet invoiced', statement.unappliedAdvances]] : []),
+    [],
+    ['Ageing (days since invoice)', ...AGEING_BUCKETS.map(b => b.label)],
+    ['Outstanding', ...AGEING_BUCKETS.map(b => statement.ageing[b.key])],
+  ]);
+}
+
+// The PDF fonts have no ₹ glyph
+const formatRupees = (amount: number) =>
+  `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// autoTable records on the document where the last table it drew ended
+const lastTableEnd = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+/**
+ * Download the statement as a PDF - the PDF library is only loaded when needed
+ */
+export async function exportStatementPdf(statement: VendorStatement, asOf: Date = new Date()) {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+
+  doc.setFontSize(16);
+  doc.text('Statement of Account', 40, 48);
+  doc.setFontSize(11);
+  doc.text(statement.vendorName, 40, 68);
+  doc.setFontSize(9);
+  doc.setTextColor(120);
+  doc.text(`As of ${asOf.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`, 40, 84);
+  doc.setTextColor(0);
+
+  autoTable(doc, {
+    startY: 100,
+    head: [['Date', 'Description', 'Reference', 'Invoiced', 'Paid', 'Balance']],
+    body: statement.entries.map(e => [
+      e.date || '-',
+      e.description,
+      e.reference || '',
+      e.debit ? formatRupees(e.debit) : '',
+      e.credit ? formatRupees(e.credit) : '',
+      formatRupees(e.balance),
+    ]),
+    foot: [['', 'Total', '', formatRupees(statement.totalInvoiced), formatRupees(statement.totalPaid), formatRupees(statement.balance)]],
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [45, 96, 255] },
+    footStyles: { fillColor: [243, 244, 246], textColor: 20 },
+    columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+  });
+
+  autoTable(doc, {
+    startY: lastTableEnd(doc) + 24,
+    head: [['Ageing (days since invoice)', ...AGEING_BUCKETS.map(b => b.label), 'Total outstanding']],
+    body: [[
+      'Outstanding',
+      ...AGEING_BUCKETS.map(b => formatRupees(statement.ageing[b.key])),
+      formatRupees(AGEING_BUCKETS.reduce((sum, b) => sum + statement.ageing[b.key], 0)),
+    ]],
+    styles: { fontSize: 8, halign: 'right' },
+    headStyles: { fillColor: [45, 96, 255] },
+    columnStyles: { 0: { halign: 'left' } },
+  });
+
+  if (statement.unappliedAdvances > 0) {
+    doc.setFontSize(9);
+    doc.text(`Advances paid on shoots not yet invoiced: ${formatRupees(statement.unappliedAdvances)}`, 40, lastTableEnd(doc) + 20);
+  }
+
+  downloadBlob(doc.output('blob'), statementFileName(statement, asOf, 'pdf'));
+}
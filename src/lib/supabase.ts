@@ -1,3 +1,5 @@
+import { authHeaders } from './api';
+
 // API Configuration for Railway PostgreSQL Backend
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -26,9 +28,7 @@ async function apiCall(endpoint: string, options?: RequestInit) {
 
   try {
     const response = await fetch(`${API_URL}${endpoint}`, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: authHeaders(),
       ...options,
     });
 
@@ -64,7 +64,8 @@ export interface DbShoot {
   activities?: any[];
   email_thread_id?: string;
   created_at?: string;
-  shoot_date?: string;
+  start_date?: string | null; // YYYY-MM-DD
+  end_date?: string | null;
   request_group_id?: string;
   is_multi_shoot?: boolean;
   multi_shoot_index?: number;
@@ -0,0 +1,105 @@
+import type { Shoot } from '../App';
+
+// Company tax details - set by an admin. The GSTIN's state decides whether a
+// vendor charges CGST + SGST (same state) or IGST (another state).
+export interface TaxSettings {
+  companyGstin: string;
+  defaultGstRate: number; // Percent - equipment rental is 18%
+  tdsRate: number; // Percent withheld from the taxable value when paying
+}
+
+// Used until an admin saves settings - keep in sync with DEFAULT_TAX_SETTINGS in server/index.js
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  companyGstin: '',
+  defaultGstRate: 18,
+  tdsRate: 2,
+};
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+export interface GstBreakdown {
+  taxableValue: number;
+  gstRate: number;
+  interState: boolean;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  gstTotal: number;
+  total: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// The first two digits of a GSTIN are the state code
+export const gstStateCode = (gstin?: string | null): string | null =>
+  gstin && /^\d{2}/.test(gstin) ? gstin.slice(0, 2) : null;
+
+// Unknown states are treated as intra-state (CGST + SGST)
+export const isInterState = (vendorGstin?: string | null, companyGstin?: string | null): boolean => {
+  const vendorState = gstStateCode(vendorGstin);
+  const companyState = gstStateCode(companyGstin);
+  return !!vendorState && !!companyState && vendorState !== companyState;
+};
+
+/**
+ * Split GST on a taxable value - IGST across states, CGST + SGST halves within one
+ */
+export function computeGst(taxableValue: number, gstRate: number, interState: boolean): GstBreakdown {
+  const gstTotal = roundAmount(taxableValue * gstRate / 100);
+  const half = roundAmount(gstTotal / 2);
+  return {
+    taxableValue,
+    gstRate,
+    interState,
+    cgst: interState ? 0 : half,
+    sgst: interState ? 0 : roundAmount(gstTotal - half),
+    igst: interState ? gstTotal : 0,
+    gstTotal,
+    total: roundAmount(taxableValue + gstTotal),
+  };
+}
+
+export const computeTds = (taxableValue: number, tdsRate: number) => roundAmount(taxableValue * tdsRate / 100);
+
+// What a shoot costs before tax and what actually leaves the bank
+export interface ShootTaxSummary {
+  preTax: number;
+  gst: number;
+  tds: number;
+  netPayable: number; // Paid to the vendor
+  cashOutflow: number; // Paid to the vendor plus TDS deposited with the government
+  isActual: boolean; // From the reviewed invoice rather than estimated from the quote
+}
+
+/**
+ * A reviewed invoice gives the actual figures; otherwise they are estimated
+ * from the approved amount and the quote's GST rate
+ */
+export function getShootTaxSummary(shoot: Shoot, settings: TaxSettings, vendorGstin?: string | null): ShootTaxSummary {
+  const invoice = shoot.invoiceData;
+  if (invoice?.status === 'reviewed' && invoice.grandTotal) {
+    const preTax = invoice.subtotal ?? roundAmount(invoice.grandTotal - invoice.taxTotal);
+    const tds = invoice.tds ?? computeTds(preTax, invoice.tdsRate ?? settings.tdsRate);
+    return {
+      preTax,
+      gst: invoice.taxTotal,
+      tds,
+      netPayable: invoice.netPayable ?? roundAmount(invoice.grandTotal - tds),
+      cashOutflow: invoice.grandTotal,
+      isActual: true,
+    };
+  }
+
+  const rawAmount: unknown = shoot.approvedAmount ?? shoot.vendorQuote?.amount ?? 0;
+  const preTax = typeof rawAmount === 'string' ? parseFloat(rawAmount.replace(/[^0-9.]/g, '')) || 0 : Number(rawAmount) || 0;
+  const gst = computeGst(preTax, shoot.vendorQuote?.gstRate ?? settings.defaultGstRate, isInterState(vendorGstin, settings.companyGstin));
+  const tds = computeTds(preTax, settings.tdsRate);
+  return {
+    preTax,
+    gst: gst.gstTotal,
+    tds,
+    netPayable: roundAmount(gst.total - tds),
+    cashOutflow: gst.total,
+    isActual: false,
+  };
+}
@@ -0,0 +1,76 @@
+import type { ShootStatus } from '../App';
+
+// Moves the server allows between statuses - keep in sync with SHOOT_TRANSITIONS in server/index.js
+export const SHOOT_TRANSITIONS: Record<ShootStatus, ShootStatus[]> = {
+  new_request: ['with_vendor', 'with_swati', 'cancelled'],
+  with_vendor: ['with_swati', 'cancelled'],
+  with_swati: ['with_vendor', 'with_senior_approver', 'ready_for_shoot', 'cancelled'],
+  with_senior_approver: ['with_vendor', 'ready_for_shoot', 'cancelled'],
+  ready_for_shoot: ['pending_invoice', 'cancelled'],
+  pending_invoice: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Board columns, in workflow order
+export const SHOOT_STATUSES: ShootStatus[] = [
+  'new_request', 'with_vendor', 'with_swati', 'with_senior_approver',
+  'ready_for_shoot', 'pending_invoice', 'completed', 'cancelled',
+];
+
+export const STATUS_LABELS: Record<ShootStatus, string> = {
+  new_request: 'New Request',
+  with_vendor: 'Waiting for Quote',
+  with_swati: 'Approval Pending',
+  with_senior_approver: 'Senior Approval Pending',
+  ready_for_shoot: 'Active Shoot',
+  pending_invoice: 'Shoot Completed',
+  completed: 'Paid',
+  cancelled: 'Cancelled',
+};
+
+export const STATUS_COLORS: Record<ShootStatus, string> = {
+  new_request: '#2D60FF',
+  with_vendor: '#6B7280',
+  with_swati: '#F2994A',
+  with_senior_approver: '#F2994A',
+  ready_for_shoot: '#27AE60',
+  pending_invoice: '#9B51E0',
+  completed: '#27AE60',
+  cancelled: '#6B7280',
+};
+
+// The workflow action behind each legal move
+export type BoardMove = 'send_to_vendor' | 'enter_quote' | 'approve' | 'reject' | 'complete_shoot' | 'record_payment' | 'cancel';
+
+export const BOARD_MOVES: Record<BoardMove, {
+  label: string;
+  reason?: 'required' | 'optional'; // Asked for before the move runs
+  opensScreen?: boolean; // Needs details only its screen collects (a quote, a payment)
+}> = {
+  send_to_vendor: { label: 'Send to vendor' },
+  enter_quote: { label: 'Enter the quote', opensScreen: true },
+  approve: { label: 'Approve' },
+  reject: { label: 'Reject the quote', reason: 'required' },
+  complete_shoot: { label: 'Mark as shot' },
+  record_payment: { label: 'Record the payment', opensScreen: true },
+  cancel: { label: 'Cancel', reason: 'optional' },
+};
+
+export const canTransition = (from: ShootStatus, to: ShootStatus) =>
+  (SHOOT_TRANSITIONS[from] || []).includes(to);
+
+/**
+ * The action that moves a shoot between two statuses, or null when the move isn't legal
+ */
+export function getBoardMove(from: ShootStatus, to: ShootStatus): BoardMove | null {
+  if (!canTransition(from, to)) return null;
+  if (to === 'cancelled') return 'cancel';
+  if (to === 'with_vendor') return from === 'new_request' ? 'send_to_vendor' : 'reject';
+  if (to === 'with_swati') return 'enter_quote';
+  // The approval chain decides whether an approval needs a senior approver next
+  if (to === 'with_senior_approver' || to === 'ready_for_shoot') return 'approve';
+  if (to === 'pending_invoice') return 'complete_shoot';
+  if (to === 'completed') return 'record_payment';
+  return null;
+}
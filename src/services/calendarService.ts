@@ -0,0 +1,70 @@
+// Calendar Service for ShootFlow
+// Mints, checks and stops the signed-in user's ICS feed of approved shoots
+
+import { API_URL, authHeaders } from '../lib/api';
+
+export interface CalendarFeed {
+  active: boolean;
+  createdAt: string | null;
+  token?: string; // Only present right after the feed is created
+}
+
+/**
+ * Build the subscribable URL for a feed token
+ */
+export function buildCalendarFeedUrl(token: string): string {
+  return `${API_URL}/api/calendar/${encodeURIComponent(token)}.ics`;
+}
+
+/**
+ * The same URL as a webcal:// link, which calendar apps open as a subscription
+ */
+export function buildWebcalUrl(token: string): string {
+  return buildCalendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://');
+}
+
+/**
+ * Whether the signed-in user has a feed - the URL itself is only shown once
+ */
+export async function fetchCalendarFeed(): Promise<CalendarFeed> {
+  const response = await fetch(`${API_URL}/api/calendar/feed`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Create a feed URL (any older URL stops working)
+ */
+export async function createCalendarFeed(): Promise<CalendarFeed> {
+  const response = await fetch(`${API_URL}/api/calendar/feed`, {
+    method: 'POST',
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return { active: true, createdAt: result.createdAt, token: result.token };
+}
+
+/**
+ * Stop the feed so its URL no longer returns shoots
+ */
+export async function stopCalendarFeed(): Promise<CalendarFeed> {
+  const response = await fetch(`${API_URL}/api/calendar/feed`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
@@ -12,8 +12,8 @@ export type EmailTemplate =
   | 'paymentComplete'; // When payment is marked complete
 
 // Default email recipients for each workflow step
+// Vendor emails come from the shoot's assigned vendor (see vendorService.ts)
 export const DEFAULT_RECIPIENTS = {
-  vendor: 'vendor@example.com',           // Replace with actual vendor email
   approver: 'bhavya.oberoi@learnapp.co',  // Approver (Swati's email)
   finance: 'bhavya.oberoi@learnapp.co',   // Finance team
   admin: 'bhavya.oberoi@learnapp.co'      // Admin notifications
@@ -107,7 +107,7 @@ export async function getEmailStatus(): Promise<{ configured: boolean; smtpUser:
 /**
  * 1. New Request Created - Send to vendor for quote
  */
-export async function emailNewRequest(shoot: any, vendorEmail: string = DEFAULT_RECIPIENTS.vendor) {
+export async function emailNewRequest(shoot: any, vendorEmail: string) {
   return sendEmail(vendorEmail, 'newRequest', shoot);
 }
 
@@ -170,9 +170,8 @@ export async function emailInvoiceUploaded(shoot: any, financeEmail: string = DE
 /**
  * 6. Payment Complete - Send to vendor
  */
-export async function emailPaymentComplete(shoot: any, vendorEmail?: string) {
-  const to = vendorEmail || DEFAULT_RECIPIENTS.vendor;
-  return sendEmail(to, 'paymentComplete', shoot);
+export async function emailPaymentComplete(shoot: any, vendorEmail: string) {
+  return sendEmail(vendorEmail, 'paymentComplete', shoot);
 }
 
 
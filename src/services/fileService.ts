@@ -0,0 +1,88 @@
+// File Service for ShootFlow
+// Uploads invoice PDFs to file storage and reads them back through the API
+
+import { API_URL, authHeaders } from '../lib/api';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// What a shoot keeps for a stored file
+export interface StoredFileRef {
+  fileId?: string;
+  name: string;
+  url: string;
+  contentType?: string;
+  size?: number;
+  checksum?: string;
+}
+
+export interface StoredFile {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  checksum: string;
+  shootId?: string;
+  uploadedBy?: string;
+  createdAt: string;
+}
+
+/**
+ * Upload a PDF to file storage - attach it to a shoot with the upload-invoice action
+ */
+export async function uploadFile(file: File, shootId?: string): Promise<StoredFile> {
+  const query = shootId ? `?shootId=${encodeURIComponent(shootId)}` : '';
+  const response = await fetch(`${API_URL}/api/files${query}`, {
+    method: 'POST',
+    headers: authHeaders({ 'Content-Type': 'application/pdf', 'X-File-Name': encodeURIComponent(file.name) }),
+    body: file,
+    signal: AbortSignal.timeout(60000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Fetch a stored file as an object URL (the endpoint needs the bearer token,
+ * so it can't be linked directly). Revoke it with URL.revokeObjectURL when done.
+ */
+export async function fetchFileObjectUrl(fileId: string): Promise<string> {
+  const response = await fetch(`${API_URL}/api/files/${encodeURIComponent(fileId)}`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(60000),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return URL.createObjectURL(await response.blob());
+}
+
+/**
+ * Download a stored file under its original name
+ */
+export async function downloadStoredFile(file: StoredFileRef): Promise<void> {
+  if (!file.fileId) {
+    throw new Error('This file was not stored and can no longer be downloaded');
+  }
+  const objectUrl = await fetchFileObjectUrl(file.fileId);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = file.name || 'invoice.pdf';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+}
+
+/**
+ * Human readable file size
+ */
+export function formatFileSize(bytes?: number): string {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
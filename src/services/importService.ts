@@ -0,0 +1,37 @@
+// Import Service for ShootFlow
+// Bulk import of shoots from a spreadsheet, with their invoice PDFs
+
+import { API_URL, authHeaders } from '../lib/api';
+import type { ImportedShootInput } from '../lib/shootImport';
+
+export interface ImportRequest {
+  source: string; // CSV file name, recorded in each shoot's activity
+  shoots: ImportedShootInput[];
+  invoices: { shootId: string; fileId: string }[]; // PDFs already uploaded to file storage
+}
+
+export interface ImportResult {
+  shoots: any[]; // Imported and updated database rows
+  imported: number;
+  invoicesAttached: number;
+  skipped: { id: string; name: string; reason: string }[];
+  errors: { id: string; name: string; error: string }[];
+}
+
+/**
+ * Import shoots (admin only) - rows matching an existing shoot are skipped
+ * unless marked allowDuplicate
+ */
+export async function importShoots(request: ImportRequest): Promise<ImportResult> {
+  const response = await fetch(`${API_URL}/api/shoots/import`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify(request),
+    signal: AbortSignal.timeout(120000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
@@ -0,0 +1,74 @@
+// Invoice Service for ShootFlow
+// Invoice details read from the vendor's PDF and reviewed by finance
+
+import { API_URL, authHeaders } from '../lib/api';
+import { ShootStatusError } from './shootService';
+
+export interface InvoiceLineItem {
+  description: string;
+  hsn?: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface InvoiceTax {
+  type: string; // CGST, SGST, UTGST or IGST
+  rate?: number; // Percent
+  amount: number;
+}
+
+export interface InvoiceFields {
+  invoiceNumber: string | null;
+  invoiceDate: string | null; // YYYY-MM-DD
+  vendorGstin: string | null;
+  buyerGstin: string | null;
+  lineItems: InvoiceLineItem[];
+  taxes: InvoiceTax[];
+  subtotal: number | null;
+  taxTotal: number;
+  grandTotal: number | null;
+  tdsRate?: number; // Percent withheld from the taxable value
+  tds?: number;
+  netPayable?: number; // Grand total less TDS - what the vendor is paid
+}
+
+export interface InvoiceData extends InvoiceFields {
+  // extracted: read from the PDF, awaiting review; failed: nothing could be read
+  status: 'extracted' | 'failed' | 'reviewed';
+  warnings?: string[];
+  error?: string;
+  fileId?: string;
+  extractedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+async function invoiceRequest(shootId: string, path: string, method: string, body?: unknown): Promise<any> {
+  const response = await fetch(`${API_URL}/api/shoots/${encodeURIComponent(shootId)}/${path}`, {
+    method,
+    headers: authHeaders(),
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(30000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    const message = result.details || result.error || `API error: ${response.status}`;
+    throw response.status === 409 && result.shoot ? new ShootStatusError(message, result.shoot) : new Error(message);
+  }
+  return result;
+}
+
+/**
+ * Save finance's reviewed invoice details - returns the updated shoot row
+ */
+export function saveInvoiceData(shootId: string, fields: InvoiceFields): Promise<any> {
+  return invoiceRequest(shootId, 'invoice-data', 'PUT', fields);
+}
+
+/**
+ * Read the attached invoice PDF again - returns the updated shoot row
+ */
+export function reextractInvoiceData(shootId: string): Promise<any> {
+  return invoiceRequest(shootId, 'invoice-data/extract', 'POST');
+}
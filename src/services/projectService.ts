@@ -0,0 +1,81 @@
+// Project Service for ShootFlow
+// Loads and maintains projects / cost centres and their budgets
+
+import { API_URL, authHeaders } from '../lib/api';
+import type { BudgetPeriod } from '../lib/budgets';
+
+export interface Project {
+  id: string;
+  name: string;
+  code?: string;
+  budgetPeriod: BudgetPeriod;
+  budgets: Record<string, number>; // Period key (2025-04 or FY2025-26-Q1) -> pre-tax budget
+  isActive: boolean;
+}
+
+// Map a snake_case database row to a Project
+export const mapDbProject = (p: any): Project => ({
+  id: p.id,
+  name: p.name,
+  code: p.code || undefined,
+  budgetPeriod: p.budget_period === 'quarter' ? 'quarter' : 'month',
+  budgets: Object.fromEntries(
+    Object.entries(p.budgets || {}).map(([key, amount]) => [key, parseFloat(String(amount)) || 0])
+  ),
+  isActive: p.is_active !== false,
+});
+
+/**
+ * Fetch all projects, including deactivated ones
+ */
+export async function fetchProjects(): Promise<Project[]> {
+  const response = await fetch(`${API_URL}/api/projects`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  const rows = await response.json();
+  return (rows || []).map(mapDbProject);
+}
+
+/**
+ * Create or update a project and its budgets
+ */
+export async function saveProject(project: Project): Promise<Project> {
+  const response = await fetch(`${API_URL}/api/projects`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({
+      id: project.id,
+      name: project.name,
+      code: project.code,
+      budget_period: project.budgetPeriod,
+      budgets: project.budgets,
+      is_active: project.isActive,
+    }),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return mapDbProject(result);
+}
+
+/**
+ * Deactivate a project - existing shoots stay charged to it
+ */
+export async function deactivateProject(projectId: string): Promise<Project> {
+  const response = await fetch(`${API_URL}/api/projects/${encodeURIComponent(projectId)}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return mapDbProject(result);
+}
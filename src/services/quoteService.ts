@@ -0,0 +1,31 @@
+// Quote Service for ShootFlow
+// Line-item counter-offers the approver sends back to a vendor
+
+import { API_URL, authHeaders } from '../lib/api';
+
+export interface CounterOfferLine {
+  id: string;
+  counterRate?: number;
+  struck?: boolean; // Line removed from the order
+}
+
+/**
+ * Send a counter-offer on a shoot's quote (or one of its bids) - the vendor answers on their link.
+ * linkReopened is false when the vendor has no live link and needs a new one.
+ */
+export async function sendCounterOffer(
+  shootId: string,
+  counter: { bidId?: string; lines: CounterOfferLine[]; notes?: string }
+): Promise<{ shoot: any; linkReopened: boolean }> {
+  const response = await fetch(`${API_URL}/api/shoots/${encodeURIComponent(shootId)}/counter-offer`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify(counter),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
@@ -0,0 +1,101 @@
+// Settings Service for ShootFlow
+// Admin-configurable settings stored on the server
+
+import { API_URL, authHeaders } from '../lib/api';
+import { DEFAULT_APPROVAL_BANDS, type ApprovalBand } from '../lib/approvals';
+import { DEFAULT_INVOICE_MATCH_SETTINGS, type InvoiceMatchSettings } from '../lib/invoiceMatch';
+import { DEFAULT_TAX_SETTINGS, type TaxSettings } from '../lib/tax';
+
+/**
+ * Fetch the budget bands and their approval chains
+ */
+export async function fetchApprovalBands(): Promise<ApprovalBand[]> {
+  const response = await fetch(`${API_URL}/api/settings/approval-bands`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  const bands = await response.json();
+  return Array.isArray(bands) && bands.length > 0 ? bands : DEFAULT_APPROVAL_BANDS;
+}
+
+/**
+ * Replace the budget bands (admin only)
+ */
+export async function saveApprovalBands(bands: ApprovalBand[]): Promise<ApprovalBand[]> {
+  const response = await fetch(`${API_URL}/api/settings/approval-bands`, {
+    method: 'PUT',
+    headers: authHeaders(),
+    body: JSON.stringify(bands),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Fetch the tolerance for paying invoices above the approved amount
+ */
+export async function fetchInvoiceMatchSettings(): Promise<InvoiceMatchSettings> {
+  const response = await fetch(`${API_URL}/api/settings/invoice-match`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  return { ...DEFAULT_INVOICE_MATCH_SETTINGS, ...(await response.json()) };
+}
+
+/**
+ * Replace the invoice match settings (admin only)
+ */
+export async function saveInvoiceMatchSettings(settings: InvoiceMatchSettings): Promise<InvoiceMatchSettings> {
+  const response = await fetch(`${API_URL}/api/settings/invoice-match`, {
+    method: 'PUT',
+    headers: authHeaders(),
+    body: JSON.stringify(settings),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Fetch the company GSTIN and default GST/TDS rates
+ */
+export async function fetchTaxSettings(): Promise<TaxSettings> {
+  const response = await fetch(`${API_URL}/api/settings/tax`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  return { ...DEFAULT_TAX_SETTINGS, ...(await response.json()) };
+}
+
+/**
+ * Replace the tax settings (admin only)
+ */
+export async function saveTaxSettings(settings: TaxSettings): Promise<TaxSettings> {
+  const response = await fetch(`${API_URL}/api/settings/tax`, {
+    method: 'PUT',
+    headers: authHeaders(),
+    body: JSON.stringify(settings),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
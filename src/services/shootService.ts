@@ -0,0 +1,39 @@
+// Shoot Service for ShootFlow
+// Workflow actions - the server owns status changes and refuses illegal ones
+
+import { API_URL, authHeaders } from '../lib/api';
+
+export type ShootAction = 'send-to-vendor' | 'submit-quote' | 'approve' | 'reject' | 'upload-invoice' | 'complete-shoot' | 'payments' | 'mark-paid' | 'cancel';
+
+/**
+ * Thrown when the server refuses a status change. shoot is the server's
+ * current row, so the caller can replace its stale copy.
+ */
+export class ShootStatusError extends Error {
+  shoot: any;
+
+  constructor(message: string, shoot: any) {
+    super(message);
+    this.name = 'ShootStatusError';
+    this.shoot = shoot;
+  }
+}
+
+/**
+ * Run a workflow action on a shoot and return the updated database row
+ */
+export async function runShootAction(shootId: string, action: ShootAction, body: Record<string, unknown> = {}): Promise<any> {
+  const response = await fetch(`${API_URL}/api/shoots/${encodeURIComponent(shootId)}/${action}`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify(body),
+    // Attaching an invoice also reads the PDF on the server
+    signal: AbortSignal.timeout(action === 'upload-invoice' ? 30000 : 8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    const message = result.details || result.error || `API error: ${response.status}`;
+    throw response.status === 409 && result.shoot ? new ShootStatusError(message, result.shoot) : new Error(message);
+  }
+  return result;
+}
@@ -0,0 +1,99 @@
+// Vendor Link Service for ShootFlow
+// Mints, lists, revokes and opens tokenised vendor quote links
+
+import { API_URL, authHeaders } from '../lib/api';
+
+export interface VendorLink {
+  id: string;
+  targetId: string;
+  vendorId?: string | null;
+  createdBy?: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string | null;
+  openedAt?: string | null;
+  usedAt?: string | null;
+  submittedShootIds: string[];
+  token?: string; // Only present right after the link is created
+}
+
+/**
+ * Build the shareable URL for a link token
+ */
+export function buildVendorLinkUrl(token: string): string {
+  return `${window.location.origin}?vendor=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Whether a link can still be used by the vendor
+ */
+export function isVendorLinkActive(link: VendorLink): boolean {
+  return !link.revokedAt && !link.usedAt && new Date(link.expiresAt) > new Date();
+}
+
+/**
+ * Invite a vendor to quote on a shoot or request group (that vendor's older active link is revoked).
+ * Without a vendorId the link goes to the vendor the shoot is assigned to.
+ */
+export async function createVendorLink(targetId: string, vendorId?: string): Promise<VendorLink> {
+  const response = await fetch(`${API_URL}/api/vendor-links`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({ targetId, vendorId }),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * List links minted for a shoot or request group
+ */
+export async function listVendorLinks(targetId: string): Promise<VendorLink[]> {
+  const response = await fetch(`${API_URL}/api/shoots/${encodeURIComponent(targetId)}/vendor-links`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Revoke a link so it can no longer be opened or used
+ */
+export async function revokeVendorLink(linkId: string): Promise<VendorLink> {
+  const response = await fetch(`${API_URL}/api/vendor-links/${encodeURIComponent(linkId)}/revoke`, {
+    method: 'POST',
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Validate a link token (vendor side) - returns the shoots still awaiting a quote and their vendor
+ */
+export async function openVendorLink(token: string): Promise<{ link?: VendorLink; vendor?: any; shoots?: any[]; error?: string }> {
+  try {
+    const response = await fetch(`${API_URL}/api/vendor-links/${encodeURIComponent(token)}`, {
+      signal: AbortSignal.timeout(8000),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      return { error: result.error || 'This quote link is invalid' };
+    }
+    return result;
+  } catch (error: any) {
+    console.error('❌ Vendor link error:', error.message);
+    return { error: 'Could not reach the server. Please try again.' };
+  }
+}
@@ -0,0 +1,94 @@
+// Vendor Service for ShootFlow
+// Loads and maintains the vendors registry
+
+import { API_URL, authHeaders } from '../lib/api';
+
+export interface VendorContact {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+export interface Vendor {
+  id: string;
+  name: string;
+  contacts: VendorContact[];
+  gstNumber?: string;
+  paymentTermsDays: number;
+  notes?: string;
+  isActive: boolean;
+}
+
+// Map a snake_case database row to a Vendor
+export const mapDbVendor = (v: any): Vendor => ({
+  id: v.id,
+  name: v.name,
+  contacts: v.contacts || [],
+  gstNumber: v.gst_number || undefined,
+  paymentTermsDays: v.payment_terms_days ?? 30,
+  notes: v.notes || undefined,
+  isActive: v.is_active !== false,
+});
+
+/**
+ * Email address notifications for a vendor go to (first contact with an email)
+ */
+export function getVendorEmail(vendor?: Vendor | null): string | undefined {
+  return vendor?.contacts.find(c => c.email)?.email;
+}
+
+/**
+ * Fetch all vendors, including deactivated ones
+ */
+export async function fetchVendors(): Promise<Vendor[]> {
+  const response = await fetch(`${API_URL}/api/vendors`, {
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  const rows = await response.json();
+  return (rows || []).map(mapDbVendor);
+}
+
+/**
+ * Create or update a vendor
+ */
+export async function saveVendor(vendor: Vendor): Promise<Vendor> {
+  const response = await fetch(`${API_URL}/api/vendors`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({
+      id: vendor.id,
+      name: vendor.name,
+      contacts: vendor.contacts,
+      gst_number: vendor.gstNumber,
+      payment_terms_days: vendor.paymentTermsDays,
+      notes: vendor.notes,
+      is_active: vendor.isActive,
+    }),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return mapDbVendor(result);
+}
+
+/**
+ * Deactivate a vendor - existing shoots keep pointing at it
+ */
+export async function deactivateVendor(vendorId: string): Promise<Vendor> {
+  const response = await fetch(`${API_URL}/api/vendors/${encodeURIComponent(vendorId)}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+    signal: AbortSignal.timeout(8000),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `API error: ${response.status}`);
+  }
+  return mapDbVendor(result);
+}